@@ -0,0 +1,1102 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateEnum
+CREATE TYPE "PricingAuditAction" AS ENUM ('PRICE_SET', 'CHANGE_SCHEDULED', 'CHANGE_CANCELLED', 'PRICE_REMOVED');
+
+-- CreateEnum
+CREATE TYPE "VisitStatus" AS ENUM ('PROPOSED', 'CONFIRMED', 'DECLINED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "BookingStatus" AS ENUM ('PENDING', 'APPROVED', 'CONFIRMED', 'REJECTED', 'CANCELLED', 'EXPIRED', 'MOVED_IN', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('CREATED', 'INITIATED', 'PENDING', 'VERIFIED', 'FAILED', 'EXPIRED', 'PARTIALLY_REFUNDED', 'REFUNDED');
+
+-- CreateEnum
+CREATE TYPE "PaymentPurpose" AS ENUM ('SUBSCRIPTION', 'BOOKING_TOKEN', 'SECURITY_DEPOSIT', 'CONTACT_TOP_UP');
+
+-- CreateEnum
+CREATE TYPE "PaymentWebhookStatus" AS ENUM ('RECEIVED', 'PROCESSED', 'IGNORED', 'FLAGGED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "CouponDiscountType" AS ENUM ('PERCENT', 'FLAT');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'PROCESSING', 'PROCESSED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'NEEDS_CORRECTION', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('AGENT_PROPERTY_ASSIGNED', 'AGENT_PROPERTY_UNASSIGNED', 'AGENT_TENANT_ASSIGNED', 'AGENT_TENANT_UNASSIGNED', 'PROPERTY_NOTE_CREATED', 'BOOKING_CREATED', 'BOOKING_APPROVED', 'BOOKING_REJECTED', 'BOOKING_CANCELLED', 'BOOKING_COMPLETED', 'BOOKING_EXPIRED', 'BOOKING_EXPIRY_REMINDER', 'BOOKING_CONFIRMED', 'PAYMENT_REFUNDED', 'SUBSCRIPTION_RENEWAL_REMINDER', 'SUBSCRIPTION_EXPIRED', 'VISIT_UPDATED', 'VISIT_REMINDER', 'SAVED_SEARCH_MATCH', 'FAVOURITE_PRICE_DROP', 'FAVOURITE_ROOM_DEACTIVATED');
+
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('TENANT', 'OWNER', 'AGENT', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "role" "Role" NOT NULL DEFAULT 'TENANT',
+    "city" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Room" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "location" TEXT NOT NULL,
+    "landmark" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "pricePerMonth" INTEGER NOT NULL,
+    "roomType" TEXT NOT NULL,
+    "totalBeds" INTEGER NOT NULL DEFAULT 1,
+    "availableFrom" TIMESTAMP(3),
+    "idealFor" TEXT[],
+    "amenities" TEXT[],
+    "images" TEXT[],
+    "rating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "reviewsCount" INTEGER NOT NULL DEFAULT 0,
+    "reviewStatus" "ReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isPopular" BOOLEAN NOT NULL DEFAULT false,
+    "adminFeedback" JSONB,
+    "riskScore" INTEGER NOT NULL DEFAULT 0,
+    "riskReasons" JSONB,
+    "riskCheckedAt" TIMESTAMP(3),
+    "imageHashes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "bookingTokenAmount" INTEGER,
+    "securityDeposit" INTEGER,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Room_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Booking" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "tenantId" TEXT,
+    "tenantName" TEXT NOT NULL,
+    "tenantEmail" TEXT NOT NULL,
+    "tenantPhone" TEXT NOT NULL,
+    "moveInDate" TIMESTAMP(3) NOT NULL,
+    "moveOutDate" TIMESTAMP(3),
+    "message" TEXT,
+    "status" "BookingStatus" NOT NULL DEFAULT 'PENDING',
+    "expiryReminderSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Booking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookingStatusHistory" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "fromStatus" "BookingStatus",
+    "toStatus" "BookingStatus" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookingMessage" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "senderRole" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BookingThreadReadState" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BookingThreadReadState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CityPricing" (
+    "id" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "validFrom" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validTo" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CityPricing_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CityPricingAudit" (
+    "id" TEXT NOT NULL,
+    "action" "PricingAuditAction" NOT NULL,
+    "city" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "pricingId" TEXT,
+    "oldPrice" INTEGER,
+    "newPrice" INTEGER,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CityPricingAudit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Coupon" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "CouponDiscountType" NOT NULL,
+    "discountValue" INTEGER NOT NULL,
+    "maxDiscount" INTEGER,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validUntil" TIMESTAMP(3),
+    "maxRedemptions" INTEGER,
+    "maxRedemptionsPerTenant" INTEGER NOT NULL DEFAULT 1,
+    "cities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "plans" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "firstPurchaseOnly" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Coupon_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CouponRedemption" (
+    "id" TEXT NOT NULL,
+    "couponId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "originalAmount" INTEGER NOT NULL,
+    "discountAmount" INTEGER NOT NULL,
+    "finalAmount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CouponRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TenantSubscriptionPlan" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "displayName" TEXT,
+    "description" TEXT,
+    "durationDays" INTEGER NOT NULL DEFAULT 30,
+    "hasCallSupport" BOOLEAN NOT NULL DEFAULT false,
+    "hasMapAccess" BOOLEAN NOT NULL DEFAULT false,
+    "features" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TenantSubscriptionPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TenantSubscription" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "renewalReminderSentAt" TIMESTAMP(3),
+    "previousPlan" TEXT,
+    "downgradedAt" TIMESTAMP(3),
+
+    CONSTRAINT "TenantSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BundlePlan" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "displayName" TEXT,
+    "description" TEXT,
+    "tier" TEXT NOT NULL,
+    "cities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "allCities" BOOLEAN NOT NULL DEFAULT false,
+    "price" INTEGER NOT NULL,
+    "durationDays" INTEGER NOT NULL DEFAULT 30,
+    "contactLimit" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BundlePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TenantBundle" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "bundleCode" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "cities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "allCities" BOOLEAN NOT NULL DEFAULT false,
+    "contactLimit" INTEGER,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TenantBundle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ContactTopUpPack" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "displayName" TEXT,
+    "description" TEXT,
+    "unlocks" INTEGER NOT NULL,
+    "price" INTEGER NOT NULL,
+    "validityDays" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContactTopUpPack_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ContactTopUp" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "packCode" TEXT NOT NULL,
+    "unlocks" INTEGER NOT NULL,
+    "remaining" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContactTopUp_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "plan_limits" (
+    "id" TEXT NOT NULL,
+    "plan" TEXT NOT NULL,
+    "city" TEXT,
+    "contactLimit" INTEGER,
+    "windowDays" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "plan_limits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PropertyView" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "viewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "topUpId" TEXT,
+
+    CONSTRAINT "PropertyView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "purpose" "PaymentPurpose" NOT NULL DEFAULT 'SUBSCRIPTION',
+    "plan" TEXT,
+    "city" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "bookingId" TEXT,
+    "orderId" TEXT NOT NULL,
+    "razorpayPaymentId" TEXT,
+    "utr" TEXT,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'CREATED',
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "verifiedAt" TIMESTAMP(3),
+    "subscriptionId" TEXT,
+    "userId" TEXT,
+    "pricingId" TEXT,
+    "durationDays" INTEGER,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "bundleCode" TEXT,
+
+    CONSTRAINT "Payment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "financialYear" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "total" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "pdf" BYTEA NOT NULL,
+    "pdfSha256" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InvoiceSequence" (
+    "financialYear" TEXT NOT NULL,
+    "lastSequence" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "InvoiceSequence_pkey" PRIMARY KEY ("financialYear")
+);
+
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING',
+    "reason" TEXT NOT NULL,
+    "razorpayRefundId" TEXT,
+    "initiatedBy" TEXT,
+    "failureReason" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "status" "PaymentWebhookStatus" NOT NULL DEFAULT 'RECEIVED',
+    "payload" JSONB NOT NULL,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "claimedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PaymentReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "trigger" "ReconciliationTrigger" NOT NULL,
+    "triggeredBy" TEXT,
+    "status" "ReconciliationRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "scanned" INTEGER NOT NULL DEFAULT 0,
+    "verified" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "expired" INTEGER NOT NULL DEFAULT 0,
+    "markedPending" INTEGER NOT NULL DEFAULT 0,
+    "repaired" INTEGER NOT NULL DEFAULT 0,
+    "flagged" INTEGER NOT NULL DEFAULT 0,
+    "items" JSONB,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PaymentReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AgentPropertyAssignment" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "assignedBy" TEXT NOT NULL,
+    "assignmentNotes" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deactivatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AgentPropertyAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AgentTenantAssignment" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "assignedBy" TEXT NOT NULL,
+    "reason" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deactivatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "AgentTenantAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PropertyNote" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "deletedAt" TIMESTAMP(3),
+    "deletedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PropertyNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "payload" JSONB,
+    "referenceId" TEXT,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SavedSearch" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "city" TEXT,
+    "alertsPaused" BOOLEAN NOT NULL DEFAULT false,
+    "lastAlertAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedSearch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Favourite" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "priceAtSave" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Favourite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT NOT NULL,
+    "ownerReply" TEXT,
+    "ownerRepliedAt" TIMESTAMP(3),
+    "isHidden" BOOLEAN NOT NULL DEFAULT false,
+    "hiddenReason" TEXT,
+    "hiddenBy" TEXT,
+    "hiddenAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoomRevision" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "changedBy" TEXT NOT NULL,
+    "changedFields" TEXT[],
+    "before" JSONB NOT NULL,
+    "after" JSONB NOT NULL,
+    "materialFields" TEXT[],
+    "statusReset" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Visit" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "bookingId" TEXT,
+    "proposedSlots" TIMESTAMP(3)[],
+    "durationMinutes" INTEGER NOT NULL DEFAULT 30,
+    "scheduledAt" TIMESTAMP(3),
+    "scheduledEnd" TIMESTAMP(3),
+    "status" "VisitStatus" NOT NULL DEFAULT 'PROPOSED',
+    "hostAgentId" TEXT,
+    "note" TEXT,
+    "declineReason" TEXT,
+    "reminderSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Visit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "idempotency_records" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "responseBody" JSONB NOT NULL,
+    "statusCode" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "idempotency_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "outbox_events" (
+    "id" TEXT NOT NULL,
+    "aggregateType" TEXT NOT NULL,
+    "aggregateId" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "retryCount" INTEGER NOT NULL DEFAULT 0,
+    "maxRetries" INTEGER NOT NULL DEFAULT 5,
+    "nextRetryAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outbox_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE INDEX "Room_city_idx" ON "Room"("city");
+
+-- CreateIndex
+CREATE INDEX "Room_riskScore_idx" ON "Room"("riskScore" DESC);
+
+-- CreateIndex
+CREATE INDEX "Room_roomType_idx" ON "Room"("roomType");
+
+-- CreateIndex
+CREATE INDEX "Room_pricePerMonth_idx" ON "Room"("pricePerMonth");
+
+-- CreateIndex
+CREATE INDEX "Room_ownerId_idx" ON "Room"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "Room_reviewStatus_idx" ON "Room"("reviewStatus");
+
+-- CreateIndex
+CREATE INDEX "Room_isActive_idx" ON "Room"("isActive");
+
+-- CreateIndex
+CREATE INDEX "Room_latitude_longitude_idx" ON "Room"("latitude", "longitude");
+
+-- CreateIndex
+CREATE INDEX "idx_room_title_trgm" ON "Room" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "idx_room_location_trgm" ON "Room" USING GIN ("location" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Booking_roomId_idx" ON "Booking"("roomId");
+
+-- CreateIndex
+CREATE INDEX "Booking_roomId_status_moveInDate_idx" ON "Booking"("roomId", "status", "moveInDate");
+
+-- CreateIndex
+CREATE INDEX "Booking_tenantId_idx" ON "Booking"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "idx_booking_owner_status_created" ON "Booking"("ownerId", "status", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_booking_movein_status" ON "Booking"("moveInDate", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_booking_status_created" ON "Booking"("status", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_booking_active_duplicate_check" ON "Booking"("roomId", "tenantEmail", "status");
+
+-- CreateIndex
+CREATE INDEX "BookingStatusHistory_bookingId_createdAt_idx" ON "BookingStatusHistory"("bookingId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BookingMessage_bookingId_createdAt_idx" ON "BookingMessage"("bookingId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "BookingMessage_senderId_idx" ON "BookingMessage"("senderId");
+
+-- CreateIndex
+CREATE INDEX "BookingThreadReadState_userId_idx" ON "BookingThreadReadState"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BookingThreadReadState_bookingId_userId_key" ON "BookingThreadReadState"("bookingId", "userId");
+
+-- CreateIndex
+CREATE INDEX "CityPricing_city_validTo_idx" ON "CityPricing"("city", "validTo");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CityPricing_city_plan_validFrom_key" ON "CityPricing"("city", "plan", "validFrom");
+
+-- CreateIndex
+CREATE INDEX "CityPricingAudit_city_plan_createdAt_idx" ON "CityPricingAudit"("city", "plan", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Coupon_code_key" ON "Coupon"("code");
+
+-- CreateIndex
+CREATE INDEX "Coupon_isActive_validFrom_idx" ON "Coupon"("isActive", "validFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CouponRedemption_paymentId_key" ON "CouponRedemption"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "CouponRedemption_couponId_tenantId_idx" ON "CouponRedemption"("couponId", "tenantId");
+
+-- CreateIndex
+CREATE INDEX "CouponRedemption_couponId_createdAt_idx" ON "CouponRedemption"("couponId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TenantSubscriptionPlan_name_key" ON "TenantSubscriptionPlan"("name");
+
+-- CreateIndex
+CREATE INDEX "TenantSubscription_tenantId_idx" ON "TenantSubscription"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "TenantSubscription_plan_idx" ON "TenantSubscription"("plan");
+
+-- CreateIndex
+CREATE INDEX "TenantSubscription_city_idx" ON "TenantSubscription"("city");
+
+-- CreateIndex
+CREATE INDEX "TenantSubscription_plan_expiresAt_idx" ON "TenantSubscription"("plan", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TenantSubscription_tenantId_city_key" ON "TenantSubscription"("tenantId", "city");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BundlePlan_code_key" ON "BundlePlan"("code");
+
+-- CreateIndex
+CREATE INDEX "TenantBundle_tenantId_expiresAt_idx" ON "TenantBundle"("tenantId", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TenantBundle_tenantId_bundleCode_key" ON "TenantBundle"("tenantId", "bundleCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContactTopUpPack_code_key" ON "ContactTopUpPack"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContactTopUp_paymentId_key" ON "ContactTopUp"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "ContactTopUp_tenantId_expiresAt_idx" ON "ContactTopUp"("tenantId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "plan_limits_plan_idx" ON "plan_limits"("plan");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "plan_limits_plan_city_key" ON "plan_limits"("plan", "city");
+
+-- CreateIndex
+CREATE INDEX "PropertyView_tenantId_idx" ON "PropertyView"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "PropertyView_propertyId_idx" ON "PropertyView"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "PropertyView_tenantId_city_idx" ON "PropertyView"("tenantId", "city");
+
+-- CreateIndex
+CREATE INDEX "PropertyView_tenantId_city_viewedAt_idx" ON "PropertyView"("tenantId", "city", "viewedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PropertyView_tenantId_propertyId_key" ON "PropertyView"("tenantId", "propertyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_orderId_key" ON "Payment"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_subscriptionId_key" ON "Payment"("subscriptionId");
+
+-- CreateIndex
+CREATE INDEX "Payment_tenantId_idx" ON "Payment"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "Payment_bookingId_idx" ON "Payment"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "Payment_orderId_idx" ON "Payment"("orderId");
+
+-- CreateIndex
+CREATE INDEX "Payment_status_idx" ON "Payment"("status");
+
+-- CreateIndex
+CREATE INDEX "Payment_createdAt_idx" ON "Payment"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_invoiceNumber_key" ON "Invoice"("invoiceNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_paymentId_key" ON "Invoice"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "Invoice_tenantId_issuedAt_idx" ON "Invoice"("tenantId", "issuedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_financialYear_sequence_key" ON "Invoice"("financialYear", "sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_razorpayRefundId_key" ON "Refund"("razorpayRefundId");
+
+-- CreateIndex
+CREATE INDEX "Refund_paymentId_idx" ON "Refund"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "Refund_status_createdAt_idx" ON "Refund"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentWebhookEvent_eventId_key" ON "PaymentWebhookEvent"("eventId");
+
+-- CreateIndex
+CREATE INDEX "PaymentWebhookEvent_eventType_receivedAt_idx" ON "PaymentWebhookEvent"("eventType", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "PaymentWebhookEvent_status_idx" ON "PaymentWebhookEvent"("status");
+
+-- CreateIndex
+CREATE INDEX "PaymentReconciliationRun_startedAt_idx" ON "PaymentReconciliationRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "AgentPropertyAssignment_agentId_idx" ON "AgentPropertyAssignment"("agentId");
+
+-- CreateIndex
+CREATE INDEX "AgentPropertyAssignment_propertyId_idx" ON "AgentPropertyAssignment"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "AgentPropertyAssignment_assignedBy_idx" ON "AgentPropertyAssignment"("assignedBy");
+
+-- CreateIndex
+CREATE INDEX "AgentPropertyAssignment_isActive_idx" ON "AgentPropertyAssignment"("isActive");
+
+-- CreateIndex
+CREATE INDEX "AgentPropertyAssignment_createdAt_idx" ON "AgentPropertyAssignment"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AgentPropertyAssignment_agentId_isActive_idx" ON "AgentPropertyAssignment"("agentId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "AgentPropertyAssignment_propertyId_isActive_idx" ON "AgentPropertyAssignment"("propertyId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentPropertyAssignment_agentId_propertyId_key" ON "AgentPropertyAssignment"("agentId", "propertyId");
+
+-- CreateIndex
+CREATE INDEX "AgentTenantAssignment_agentId_idx" ON "AgentTenantAssignment"("agentId");
+
+-- CreateIndex
+CREATE INDEX "AgentTenantAssignment_tenantId_idx" ON "AgentTenantAssignment"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "AgentTenantAssignment_assignedBy_idx" ON "AgentTenantAssignment"("assignedBy");
+
+-- CreateIndex
+CREATE INDEX "AgentTenantAssignment_isActive_idx" ON "AgentTenantAssignment"("isActive");
+
+-- CreateIndex
+CREATE INDEX "AgentTenantAssignment_createdAt_idx" ON "AgentTenantAssignment"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AgentTenantAssignment_agentId_isActive_idx" ON "AgentTenantAssignment"("agentId", "isActive");
+
+-- CreateIndex
+CREATE INDEX "AgentTenantAssignment_tenantId_isActive_idx" ON "AgentTenantAssignment"("tenantId", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentTenantAssignment_agentId_tenantId_key" ON "AgentTenantAssignment"("agentId", "tenantId");
+
+-- CreateIndex
+CREATE INDEX "PropertyNote_propertyId_idx" ON "PropertyNote"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "PropertyNote_authorId_idx" ON "PropertyNote"("authorId");
+
+-- CreateIndex
+CREATE INDEX "PropertyNote_isDeleted_idx" ON "PropertyNote"("isDeleted");
+
+-- CreateIndex
+CREATE INDEX "PropertyNote_createdAt_idx" ON "PropertyNote"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "PropertyNote_propertyId_isDeleted_idx" ON "PropertyNote"("propertyId", "isDeleted");
+
+-- CreateIndex
+CREATE INDEX "PropertyNote_authorId_isDeleted_idx" ON "PropertyNote"("authorId", "isDeleted");
+
+-- CreateIndex
+CREATE INDEX "Notification_recipientId_idx" ON "Notification"("recipientId");
+
+-- CreateIndex
+CREATE INDEX "Notification_recipientId_isRead_idx" ON "Notification"("recipientId", "isRead");
+
+-- CreateIndex
+CREATE INDEX "Notification_recipientId_createdAt_idx" ON "Notification"("recipientId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_createdAt_idx" ON "Notification"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Notification_recipientId_type_referenceId_key" ON "Notification"("recipientId", "type", "referenceId");
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_tenantId_idx" ON "SavedSearch"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "SavedSearch_alertsPaused_city_idx" ON "SavedSearch"("alertsPaused", "city");
+
+-- CreateIndex
+CREATE INDEX "Favourite_tenantId_createdAt_idx" ON "Favourite"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Favourite_roomId_idx" ON "Favourite"("roomId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Favourite_tenantId_roomId_key" ON "Favourite"("tenantId", "roomId");
+
+-- CreateIndex
+CREATE INDEX "Review_roomId_isHidden_createdAt_idx" ON "Review"("roomId", "isHidden", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Review_tenantId_idx" ON "Review"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_roomId_tenantId_key" ON "Review"("roomId", "tenantId");
+
+-- CreateIndex
+CREATE INDEX "RoomRevision_roomId_createdAt_idx" ON "RoomRevision"("roomId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomRevision_roomId_revision_key" ON "RoomRevision"("roomId", "revision");
+
+-- CreateIndex
+CREATE INDEX "Visit_roomId_status_scheduledAt_idx" ON "Visit"("roomId", "status", "scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "Visit_hostAgentId_status_scheduledAt_idx" ON "Visit"("hostAgentId", "status", "scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "Visit_tenantId_createdAt_idx" ON "Visit"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Visit_status_scheduledAt_idx" ON "Visit"("status", "scheduledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_records_key_key" ON "idempotency_records"("key");
+
+-- CreateIndex
+CREATE INDEX "idempotency_records_key_userId_idx" ON "idempotency_records"("key", "userId");
+
+-- CreateIndex
+CREATE INDEX "idempotency_records_expiresAt_idx" ON "idempotency_records"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "idx_outbox_worker_poll" ON "outbox_events"("status", "nextRetryAt", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "idx_outbox_aggregate_lookup" ON "outbox_events"("aggregateType", "aggregateId");
+
+-- CreateIndex
+CREATE INDEX "idx_outbox_status" ON "outbox_events"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_outbox_cleanup" ON "outbox_events"("status", "processedAt");
+
+-- CreateIndex
+CREATE INDEX "idx_outbox_created" ON "outbox_events"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingStatusHistory" ADD CONSTRAINT "BookingStatusHistory_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingMessage" ADD CONSTRAINT "BookingMessage_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingMessage" ADD CONSTRAINT "BookingMessage_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingThreadReadState" ADD CONSTRAINT "BookingThreadReadState_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingThreadReadState" ADD CONSTRAINT "BookingThreadReadState_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "CouponRedemption_couponId_fkey" FOREIGN KEY ("couponId") REFERENCES "Coupon"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CouponRedemption" ADD CONSTRAINT "CouponRedemption_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TenantSubscription" ADD CONSTRAINT "TenantSubscription_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TenantBundle" ADD CONSTRAINT "TenantBundle_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContactTopUp" ADD CONSTRAINT "ContactTopUp_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PropertyView" ADD CONSTRAINT "PropertyView_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PropertyView" ADD CONSTRAINT "PropertyView_topUpId_fkey" FOREIGN KEY ("topUpId") REFERENCES "ContactTopUp"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "TenantSubscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_pricingId_fkey" FOREIGN KEY ("pricingId") REFERENCES "CityPricing"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AgentPropertyAssignment" ADD CONSTRAINT "AgentPropertyAssignment_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AgentPropertyAssignment" ADD CONSTRAINT "AgentPropertyAssignment_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AgentTenantAssignment" ADD CONSTRAINT "AgentTenantAssignment_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AgentTenantAssignment" ADD CONSTRAINT "AgentTenantAssignment_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PropertyNote" ADD CONSTRAINT "PropertyNote_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PropertyNote" ADD CONSTRAINT "PropertyNote_deletedBy_fkey" FOREIGN KEY ("deletedBy") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PropertyNote" ADD CONSTRAINT "PropertyNote_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SavedSearch" ADD CONSTRAINT "SavedSearch_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Favourite" ADD CONSTRAINT "Favourite_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Favourite" ADD CONSTRAINT "Favourite_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomRevision" ADD CONSTRAINT "RoomRevision_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Visit" ADD CONSTRAINT "Visit_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Visit" ADD CONSTRAINT "Visit_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Visit" ADD CONSTRAINT "Visit_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "idempotency_records" ADD CONSTRAINT "idempotency_records_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
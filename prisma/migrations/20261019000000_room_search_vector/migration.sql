@@ -0,0 +1,12 @@
+-- Full-text document for GET /api/rooms?q=, stored so it is built once per
+-- write instead of per row on every search. Prisma can't declare generated
+-- columns, so the schema lists "searchVector" as Unsupported("tsvector").
+ALTER TABLE "Room" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("landmark", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("location", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'C')
+) STORED;
+
+CREATE INDEX "idx_room_search_vector" ON "Room" USING GIN ("searchVector");
+CREATE INDEX "idx_room_landmark_trgm" ON "Room" USING GIN ("landmark" gin_trgm_ops);
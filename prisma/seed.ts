@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import { hashPassword } from "../src/utils/password";
+import { DEFAULT_PLANS } from "../src/services/PlanCatalogPolicy";
 const prisma = new PrismaClient();
 async function main() {
   console.log("🌱 Starting database seed...");
@@ -317,6 +318,18 @@ async function main() {
   }
   console.log("✅ Created properties in other cities");
 
+  // Seed Plan Catalogue (admins manage it via /api/admin/plans)
+  for (const plan of DEFAULT_PLANS) {
+    await prisma.tenantSubscriptionPlan.upsert({
+      where: {
+        name: plan.name
+      },
+      update: {},
+      create: plan
+    });
+  }
+  console.log("✅ Created plan catalogue (FREE, GOLD, PLATINUM)");
+
   // Seed City Pricing
   const cityPricing = [{
     city: "jaipur",
@@ -378,20 +391,45 @@ async function main() {
     city: "delhi",
     plan: "PLATINUM",
     price: 299
+  }, {
+    city: "pune",
+    plan: "FREE",
+    price: 0
+  }, {
+    city: "pune",
+    plan: "GOLD",
+    price: 129
+  }, {
+    city: "pune",
+    plan: "PLATINUM",
+    price: 249
+  }, {
+    city: "hyderabad",
+    plan: "FREE",
+    price: 0
+  }, {
+    city: "hyderabad",
+    plan: "GOLD",
+    price: 129
+  }, {
+    city: "hyderabad",
+    plan: "PLATINUM",
+    price: 249
   }];
+  // Prices are versioned; only seed a city/plan that has never been priced
+  // so re-seeding doesn't rewrite an admin's price history
   for (const pricing of cityPricing) {
-    await prisma.cityPricing.upsert({
+    const existing = await prisma.cityPricing.findFirst({
       where: {
-        city_plan: {
-          city: pricing.city,
-          plan: pricing.plan
-        }
-      },
-      update: {
-        price: pricing.price
-      },
-      create: pricing
+        city: pricing.city,
+        plan: pricing.plan
+      }
     });
+    if (!existing) {
+      await prisma.cityPricing.create({
+        data: pricing
+      });
+    }
   }
   console.log("✅ Created city pricing");
 
@@ -0,0 +1,40 @@
+/**
+ * Cities we operate in. `state` decides GST place of supply on invoices
+ * (see utils/gst), so keep it the full state / UT name.
+ */
+export const CITIES = [{
+  id: 'jaipur',
+  name: 'Jaipur',
+  state: 'Rajasthan',
+  totalListings: 156
+}, {
+  id: 'kota',
+  name: 'Kota',
+  state: 'Rajasthan',
+  totalListings: 89
+}, {
+  id: 'bangalore',
+  name: 'Bangalore',
+  state: 'Karnataka',
+  totalListings: 145
+}, {
+  id: 'mumbai',
+  name: 'Mumbai',
+  state: 'Maharashtra',
+  totalListings: 89
+}, {
+  id: 'delhi',
+  name: 'Delhi',
+  state: 'Delhi',
+  totalListings: 112
+}, {
+  id: 'pune',
+  name: 'Pune',
+  state: 'Maharashtra',
+  totalListings: 67
+}, {
+  id: 'hyderabad',
+  name: 'Hyderabad',
+  state: 'Telangana',
+  totalListings: 94
+}];
@@ -33,6 +33,77 @@ export const env = {
 
   JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || "7d",
 
+  // Signs opaque pagination cursors (falls back to JWT secret)
+  CURSOR_SECRET:
+    process.env.CURSOR_SECRET || process.env.JWT_SECRET || "dev-secret",
+
+  // LISTING MODERATION
+  // Edits to these fields send an APPROVED room back to PENDING review
+  ROOM_MATERIAL_FIELDS: (
+    process.env.ROOM_MATERIAL_FIELDS ||
+    "pricePerMonth,images,location,city,latitude,longitude"
+  )
+    .split(",")
+    .map((f) => f.trim())
+    .filter(Boolean),
+  // Price changes within ±N% are not material (0 = any change is)
+  ROOM_PRICE_CHANGE_TOLERANCE_PERCENT: Number(
+    process.env.ROOM_PRICE_CHANGE_TOLERANCE_PERCENT || 0
+  ),
+
+  // BOOKING EXPIRY
+  // PENDING bookings expire after this many hours without an owner response
+  BOOKING_PENDING_SLA_HOURS: Number(process.env.BOOKING_PENDING_SLA_HOURS || 72),
+  // Owners are reminded this many hours before a request expires
+  BOOKING_EXPIRY_REMINDER_HOURS: Number(
+    process.env.BOOKING_EXPIRY_REMINDER_HOURS || 24
+  ),
+  BOOKING_EXPIRY_SWEEP_INTERVAL_MINUTES: Number(
+    process.env.BOOKING_EXPIRY_SWEEP_INTERVAL_MINUTES || 15
+  ),
+
+  // BOOKING PAYMENTS
+  // A tenant who cancels within this many hours of paying (and before the
+  // move-in date) gets the booking token back; the deposit is always refunded
+  BOOKING_REFUND_WINDOW_HOURS: Number(
+    process.env.BOOKING_REFUND_WINDOW_HOURS || 48
+  ),
+
+  // PAYMENT RECONCILIATION
+  // Payments still CREATED/INITIATED/PENDING this long after checkout are
+  // checked against the gateway; with no successful attempt after
+  // PAYMENT_EXPIRE_AFTER_HOURS they are marked EXPIRED
+  PAYMENT_RECONCILE_AFTER_MINUTES: Number(
+    process.env.PAYMENT_RECONCILE_AFTER_MINUTES || 30
+  ),
+  PAYMENT_EXPIRE_AFTER_HOURS: Number(
+    process.env.PAYMENT_EXPIRE_AFTER_HOURS || 24
+  ),
+  PAYMENT_RECONCILE_INTERVAL_MINUTES: Number(
+    process.env.PAYMENT_RECONCILE_INTERVAL_MINUTES || 60
+  ),
+
+  // SUBSCRIPTION EXPIRY
+  // Tenants are reminded this many days before a paid plan expires. Contact
+  // unlocks keep working for SUBSCRIPTION_GRACE_PERIOD_DAYS after expiry,
+  // then the subscription is downgraded to FREE
+  SUBSCRIPTION_RENEWAL_REMINDER_DAYS: Number(
+    process.env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS || 3
+  ),
+  SUBSCRIPTION_GRACE_PERIOD_DAYS: Number(
+    process.env.SUBSCRIPTION_GRACE_PERIOD_DAYS || 3
+  ),
+  SUBSCRIPTION_EXPIRY_SWEEP_INTERVAL_MINUTES: Number(
+    process.env.SUBSCRIPTION_EXPIRY_SWEEP_INTERVAL_MINUTES || 60
+  ),
+
+  // SITE VISITS
+  // Tenant and host are reminded this many hours before a confirmed visit
+  VISIT_REMINDER_HOURS: Number(process.env.VISIT_REMINDER_HOURS || 24),
+  VISIT_REMINDER_SWEEP_INTERVAL_MINUTES: Number(
+    process.env.VISIT_REMINDER_SWEEP_INTERVAL_MINUTES || 10
+  ),
+
   // CORS
   CORS_ORIGIN: process.env.CORS_ORIGIN || "",
 
@@ -47,6 +118,20 @@ export const env = {
   RAZORPAY: {
     KEY_ID: process.env.RAZORPAY_KEY_ID || "",
     KEY_SECRET: process.env.RAZORPAY_KEY_SECRET || "",
+    // Dashboard → Webhooks secret (differs from KEY_SECRET)
+    WEBHOOK_SECRET: process.env.RAZORPAY_WEBHOOK_SECRET || "",
+  },
+
+  // GST invoices — supplier details printed on every invoice
+  INVOICE: {
+    PREFIX: process.env.INVOICE_PREFIX || "KR",
+    SELLER_NAME: process.env.INVOICE_SELLER_NAME || "Kangaroo Rooms",
+    SELLER_GSTIN: process.env.INVOICE_SELLER_GSTIN || "",
+    SELLER_ADDRESS: process.env.INVOICE_SELLER_ADDRESS || "",
+    // Decides CGST+SGST (same state as the tenant) vs IGST
+    SELLER_STATE: process.env.INVOICE_SELLER_STATE || "Rajasthan",
+    GST_RATE_PERCENT: Number(process.env.INVOICE_GST_RATE_PERCENT || 18),
+    SAC_CODE: process.env.INVOICE_SAC_CODE || "998599",
   },
 
   // Cloudinary
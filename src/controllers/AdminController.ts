@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
-import { PrismaClient, Role } from '@prisma/client';
+import { PrismaClient, Prisma, Role } from '@prisma/client';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { writeOutboxEvent } from '../services/OutboxWriter';
+import { OutboxAggregateType, OutboxEventType } from '../services/OutboxEventTypes';
 
 // FIXED: Use singleton instead of new PrismaClient()
 const prisma = getPrismaClient();
@@ -216,12 +218,16 @@ export class AdminController {
    * GET /api/admin/properties
    * Get all properties with optional filters
    * CRITICAL: Works with existing properties (backward compatible)
+   *
+   * ?sort=risk lists the highest-risk listings first; ?minRisk=N hides the rest.
    */
   async getAllProperties(req: Request, res: Response) {
     try {
       const {
         status,
-        search
+        search,
+        sort,
+        minRisk
       } = req.query;
       const where: any = {};
       if (status && status !== 'all') {
@@ -246,6 +252,19 @@ export class AdminController {
           }
         }];
       }
+      const minRiskScore = Number(minRisk);
+      if (minRisk !== undefined && Number.isFinite(minRiskScore)) {
+        where.riskScore = {
+          gte: minRiskScore
+        };
+      }
+      const orderBy: Prisma.RoomOrderByWithRelationInput[] = sort === 'risk' ? [{
+        riskScore: 'desc'
+      }, {
+        createdAt: 'desc'
+      }] : [{
+        createdAt: 'desc'
+      }];
       const properties = await prisma.room.findMany({
         where,
         include: {
@@ -257,11 +276,13 @@ export class AdminController {
             }
           }
         },
-        orderBy: {
-          createdAt: 'desc'
-        }
+        orderBy
       });
-      const transformedProperties = properties.map((property) => ({
+      // imageHashes are internal fingerprints — riskScore/riskReasons are what moderators need
+      const transformedProperties = properties.map(({
+        imageHashes: _imageHashes,
+        ...property
+      }) => ({
         ...property,
         reviewStatus: property.reviewStatus?.toLowerCase() || 'approved'
       }));
@@ -289,29 +310,58 @@ export class AdminController {
   /**
    * PATCH /api/admin/properties/:id/approve
    * Approve a property
+   *
+   * A first-time approval writes ROOM_APPROVED to the outbox in the same
+   * transaction; the worker uses it to alert matching saved searches.
    */
   async approveProperty(req: Request, res: Response) {
     try {
       const {
         id
       } = req.params;
-      const property = await prisma.room.update({
-        where: {
-          id
-        },
-        data: {
-          reviewStatus: 'APPROVED',
-          isActive: true
-        },
-        include: {
-          owner: {
-            select: {
-              id: true,
-              name: true,
-              email: true
+      const property = await prisma.$transaction(async (tx) => {
+        const previous = await tx.room.findUniqueOrThrow({
+          where: {
+            id
+          },
+          select: {
+            reviewStatus: true
+          }
+        });
+        const updated = await tx.room.update({
+          where: {
+            id
+          },
+          data: {
+            reviewStatus: 'APPROVED',
+            isActive: true
+          },
+          include: {
+            owner: {
+              select: {
+                id: true,
+                name: true,
+                email: true
+              }
             }
           }
+        });
+        if (previous.reviewStatus !== 'APPROVED') {
+          await writeOutboxEvent(tx, {
+            aggregateType: OutboxAggregateType.ROOM,
+            aggregateId: updated.id,
+            eventType: OutboxEventType.ROOM_APPROVED,
+            payload: {
+              roomId: updated.id,
+              roomTitle: updated.title,
+              roomCity: updated.city,
+              ownerId: updated.ownerId,
+              approvedBy: (req as AuthRequest).user?.userId || null,
+              approvedAt: new Date().toISOString()
+            }
+          });
         }
+        return updated;
       });
       logger.info(`Admin: Approved property ${id}`);
       res.json({
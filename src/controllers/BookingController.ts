@@ -3,6 +3,7 @@ import { BookingService } from '../services/BookingService';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { AppError } from '../errors/AppErrors';
 import { logger } from '../utils/logger';
+import { CancelBookingSchema } from '../models/Booking';
 export class BookingController {
   constructor(private bookingService: BookingService) {}
 
@@ -82,7 +83,10 @@ export class BookingController {
           message: 'Unauthorized'
         });
       }
-      const booking = await this.bookingService.cancelBooking(id, userId);
+      const {
+        reason
+      } = CancelBookingSchema.parse(req.body ?? {});
+      const booking = await this.bookingService.cancelBooking(id, userId, reason);
       return res.json({
         success: true,
         data: this.sanitizeBooking(booking),
@@ -93,6 +97,28 @@ export class BookingController {
     }
   };
 
+  /**
+   * STATUS TIMELINE
+   */
+  getBookingTimeline = async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+      }
+      const timeline = await this.bookingService.getBookingTimeline(req.params.id, userId, req.user?.role);
+      return res.json({
+        success: true,
+        data: timeline
+      });
+    } catch (error: any) {
+      return this.handleError(res, error);
+    }
+  };
+
   /**
    * TENANT BOOKINGS
    */
@@ -134,6 +160,22 @@ export class BookingController {
           message: 'User not authenticated'
         });
       }
+
+      // Cursor mode (pagination=cursor or cursor=<token>); page mode stays the default
+      const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+      if (cursor || req.query.pagination === 'cursor') {
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+        const page = await this.bookingService.getOwnerBookingsByCursor(ownerId, cursor, limit);
+        return res.json({
+          success: true,
+          data: page.items.map(this.sanitizeBooking),
+          meta: {
+            limit,
+            nextCursor: page.nextCursor,
+            prevCursor: page.prevCursor
+          }
+        });
+      }
       const result = await this.bookingService.getOwnerBookings(ownerId);
       const bookings = Array.isArray(result) ? result : result.bookings;
       const total = Array.isArray(result) ? result.length : result.total;
@@ -160,7 +202,8 @@ export class BookingController {
         id
       } = req.params;
       const {
-        status
+        status,
+        reason
       } = req.body;
       const userId = req.user?.userId;
       if (!userId) {
@@ -169,7 +212,7 @@ export class BookingController {
           message: 'User not authenticated'
         });
       }
-      const booking = await this.bookingService.updateBookingStatus(id, status, userId);
+      const booking = await this.bookingService.updateBookingStatus(id, status, userId, req.user?.role, reason);
       return res.json({
         success: true,
         data: booking ? this.sanitizeBooking(booking) : null,
@@ -0,0 +1,83 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { BookingMessageService } from '../services/BookingMessageService';
+import { BookingMessageListQuerySchema, SendBookingMessageSchema } from '../models/BookingMessage';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class BookingMessageController {
+  private bookingMessageService: BookingMessageService;
+  constructor(bookingMessageService: BookingMessageService) {
+    this.bookingMessageService = bookingMessageService;
+    this.getThread = this.getThread.bind(this);
+    this.sendMessage = this.sendMessage.bind(this);
+    this.markRead = this.markRead.bind(this);
+  }
+
+  /**
+   * GET /api/bookings/:id/messages?before=&limit=
+   * Tenant, owner, assigned agent or admin (read-only)
+   */
+  async getThread(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const query = BookingMessageListQuerySchema.parse(req.query);
+      const thread = await this.bookingMessageService.getThread(req.params.id, req.user!.userId, req.user!.role, query);
+      res.status(200).json({
+        success: true,
+        data: thread
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch messages');
+    }
+  }
+
+  /**
+   * POST /api/bookings/:id/messages
+   */
+  async sendMessage(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        body
+      } = SendBookingMessageSchema.parse(req.body);
+      const message = await this.bookingMessageService.sendMessage(req.params.id, req.user!.userId, req.user!.role, body);
+      res.status(201).json({
+        success: true,
+        data: message
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to send message');
+    }
+  }
+
+  /**
+   * POST /api/bookings/:id/messages/read
+   */
+  async markRead(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.bookingMessageService.markRead(req.params.id, req.user!.userId, req.user!.role);
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to mark messages as read');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
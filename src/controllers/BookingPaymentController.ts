@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { BookingPaymentService } from '../services/BookingPaymentService';
+import { CreateBookingPaymentSchema, VerifyBookingPaymentSchema } from '../models/Payment';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class BookingPaymentController {
+  private bookingPaymentService: BookingPaymentService;
+  constructor(bookingPaymentService: BookingPaymentService) {
+    this.bookingPaymentService = bookingPaymentService;
+    this.createOrder = this.createOrder.bind(this);
+    this.verifyPayment = this.verifyPayment.bind(this);
+    this.listPayments = this.listPayments.bind(this);
+  }
+
+  /**
+   * POST /api/bookings/:id/payments
+   * Tenant starts paying the booking token or security deposit
+   */
+  async createOrder(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        purpose
+      } = CreateBookingPaymentSchema.parse(req.body);
+      const order = await this.bookingPaymentService.createOrder(req.params.id, req.user!.userId, purpose);
+      res.status(201).json({
+        success: true,
+        data: order
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to create booking payment order');
+    }
+  }
+
+  /**
+   * POST /api/bookings/:id/payments/verify
+   * Confirms the booking once the Razorpay signature checks out
+   */
+  async verifyPayment(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = VerifyBookingPaymentSchema.parse(req.body);
+      const result = await this.bookingPaymentService.verifyPayment(req.params.id, req.user!.userId, input);
+      res.status(200).json({
+        success: true,
+        message: result.alreadyProcessed ? 'Payment already verified' : 'Payment verified successfully',
+        data: result
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to verify booking payment');
+    }
+  }
+
+  /**
+   * GET /api/bookings/:id/payments
+   */
+  async listPayments(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const payments = await this.bookingPaymentService.listPayments(req.params.id, req.user!.userId, req.user!.role);
+      res.status(200).json({
+        success: true,
+        data: payments
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch booking payments');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { BundleService } from '../services/BundleService';
+import { CreateBundleSchema, UpdateBundleSchema, BundleListQuerySchema } from '../models/Bundle';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class BundleController {
+  private bundleService: BundleService;
+  constructor(bundleService: BundleService) {
+    this.bundleService = bundleService;
+    this.listBundles = this.listBundles.bind(this);
+    this.createBundle = this.createBundle.bind(this);
+    this.updateBundle = this.updateBundle.bind(this);
+  }
+
+  /**
+   * GET /api/admin/bundles
+   */
+  async listBundles(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const query = BundleListQuerySchema.parse(req.query);
+      const bundles = await this.bundleService.listBundles(query);
+      res.status(200).json({
+        success: true,
+        data: bundles
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch bundles');
+    }
+  }
+
+  /**
+   * POST /api/admin/bundles
+   */
+  async createBundle(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = CreateBundleSchema.parse(req.body);
+      const bundle = await this.bundleService.createBundle(input, req.user!.userId);
+      res.status(201).json({
+        success: true,
+        data: bundle
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to create bundle');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/bundles/:code
+   */
+  async updateBundle(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = UpdateBundleSchema.parse(req.body);
+      const bundle = await this.bundleService.updateBundle(req.params.code, input, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: bundle
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to update bundle');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { ContactTopUpService } from '../services/ContactTopUpService';
+import { CreateTopUpPackSchema, UpdateTopUpPackSchema, TopUpPackListQuerySchema } from '../models/ContactTopUp';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class ContactTopUpController {
+  private contactTopUpService: ContactTopUpService;
+  constructor(contactTopUpService: ContactTopUpService) {
+    this.contactTopUpService = contactTopUpService;
+    this.listPacks = this.listPacks.bind(this);
+    this.createPack = this.createPack.bind(this);
+    this.updatePack = this.updatePack.bind(this);
+  }
+
+  /**
+   * GET /api/admin/contact-top-ups
+   */
+  async listPacks(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const query = TopUpPackListQuerySchema.parse(req.query);
+      const packs = await this.contactTopUpService.listPacks(query);
+      res.status(200).json({
+        success: true,
+        data: packs
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch top-up packs');
+    }
+  }
+
+  /**
+   * POST /api/admin/contact-top-ups
+   */
+  async createPack(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = CreateTopUpPackSchema.parse(req.body);
+      const pack = await this.contactTopUpService.createPack(input, req.user!.userId);
+      res.status(201).json({
+        success: true,
+        data: pack
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to create top-up pack');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/contact-top-ups/:code
+   */
+  async updatePack(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = UpdateTopUpPackSchema.parse(req.body);
+      const pack = await this.contactTopUpService.updatePack(req.params.code, input, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: pack
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to update top-up pack');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
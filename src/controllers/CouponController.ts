@@ -0,0 +1,120 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { CouponService } from '../services/CouponService';
+import { CreateCouponSchema, UpdateCouponSchema, CouponListQuerySchema, CouponRedemptionQuerySchema, ValidateCouponSchema, CouponQuote } from '../models/Coupon';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class CouponController {
+  private couponService: CouponService;
+  constructor(couponService: CouponService) {
+    this.couponService = couponService;
+    this.createCoupon = this.createCoupon.bind(this);
+    this.updateCoupon = this.updateCoupon.bind(this);
+    this.listCoupons = this.listCoupons.bind(this);
+    this.getRedemptionReport = this.getRedemptionReport.bind(this);
+    this.validateCoupon = this.validateCoupon.bind(this);
+  }
+
+  /**
+   * POST /api/admin/coupons
+   */
+  async createCoupon(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = CreateCouponSchema.parse(req.body);
+      const coupon = await this.couponService.createCoupon(input, req.user!.userId);
+      res.status(201).json({
+        success: true,
+        data: coupon
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to create coupon');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/coupons/:id
+   */
+  async updateCoupon(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = UpdateCouponSchema.parse(req.body);
+      const coupon = await this.couponService.updateCoupon(req.params.id, input, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: coupon
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to update coupon');
+    }
+  }
+
+  /**
+   * GET /api/admin/coupons
+   */
+  async listCoupons(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const query = CouponListQuerySchema.parse(req.query);
+      const result = await this.couponService.listCoupons(query);
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch coupons');
+    }
+  }
+
+  /**
+   * GET /api/admin/coupons/:id/redemptions
+   */
+  async getRedemptionReport(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const query = CouponRedemptionQuerySchema.parse(req.query);
+      const report = await this.couponService.getRedemptionReport(req.params.id, query);
+      res.status(200).json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch coupon redemptions');
+    }
+  }
+
+  /**
+   * POST /api/payments/coupons/validate
+   * Preview a code's discount before creating the order
+   */
+  async validateCoupon(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = ValidateCouponSchema.parse(req.body);
+      const {
+        coupon: _metadata,
+        ...quote
+      } = await this.couponService.quote(req.user!.userId, input);
+      const data: CouponQuote = quote;
+      res.status(200).json({
+        success: true,
+        data
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to validate coupon');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { FavouriteService } from '../services/FavouriteService';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class FavouriteController {
+  private favouriteService: FavouriteService;
+  constructor(favouriteService: FavouriteService) {
+    this.favouriteService = favouriteService;
+    this.list = this.list.bind(this);
+    this.add = this.add.bind(this);
+    this.remove = this.remove.bind(this);
+  }
+
+  /**
+   * GET /api/tenant/favourites
+   */
+  async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const favourites = await this.favouriteService.list(req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: favourites
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch favourites');
+    }
+  }
+
+  /**
+   * POST /api/tenant/favourites
+   * Body: { roomId: string } — idempotent
+   */
+  async add(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const favourite = await this.favouriteService.add(req.user!.userId, req.body.roomId);
+      res.status(201).json({
+        success: true,
+        data: favourite
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to add favourite');
+    }
+  }
+
+  /**
+   * DELETE /api/tenant/favourites/:roomId
+   */
+  async remove(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await this.favouriteService.remove(req.user!.userId, req.params.roomId);
+      res.status(200).json({
+        success: true,
+        message: 'Removed from favourites'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to remove favourite');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { InvoiceService } from '../services/InvoiceService';
+import { InvoiceQuerySchema } from '../models/Invoice';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class InvoiceController {
+  private invoiceService: InvoiceService;
+  constructor(invoiceService: InvoiceService) {
+    this.invoiceService = invoiceService;
+    this.getInvoice = this.getInvoice.bind(this);
+  }
+
+  /**
+   * GET /api/payments/:id/invoice?format=json|pdf
+   * The GST invoice for a subscription payment
+   */
+  async getInvoice(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        format
+      } = InvoiceQuerySchema.parse(req.query);
+      const {
+        invoice,
+        pdf
+      } = await this.invoiceService.getForPayment(req.params.id, req.user!.userId, req.user!.role);
+      if (format === 'pdf') {
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber.replace(/\//g, '-')}.pdf"`);
+        res.status(200).send(pdf);
+        return;
+      }
+      res.status(200).json({
+        success: true,
+        data: invoice
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch invoice');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { notificationService, NotificationView } from '../services/NotificationService';
 import { logger } from '../utils/logger';
+import { decodeCursor } from '../utils/cursor';
 
 /**
  * NotificationController - In-App Notification API Endpoints
@@ -48,6 +49,8 @@ export class NotificationController {
    * - unreadOnly: boolean (default: false) - Only return unread notifications
    * - page: number (default: 1) - Page number (1-indexed)
    * - pageSize: number (default: 20, max: 100) - Items per page
+   * - pagination=cursor | cursor=<token> - Keyset mode; meta carries
+   *   nextCursor/prevCursor instead of page/total
    *
    * Response:
    * - 200: Notifications retrieved successfully
@@ -67,6 +70,30 @@ export class NotificationController {
       const unreadOnly = req.query.unreadOnly === 'true';
       const page = Math.max(1, parseInt(req.query.page as string) || 1);
       const pageSize = Math.min(100, Math.max(1, parseInt(req.query.pageSize as string) || 20));
+      const cursorToken = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined;
+      if (cursorToken || req.query.pagination === 'cursor') {
+        let cursor = null;
+        try {
+          cursor = cursorToken ? decodeCursor('notifications', cursorToken) : null;
+        } catch {
+          return res.status(400).json({
+            success: false,
+            message: 'Invalid cursor'
+          });
+        }
+        logger.info(`[NotificationController] GET /notifications for ${userId} (cursor mode, pageSize: ${pageSize}, unreadOnly: ${unreadOnly})`);
+        const result = await notificationService.getNotificationsByCursor(userId, cursor, pageSize, !unreadOnly);
+        return res.status(200).json({
+          success: true,
+          data: result.items,
+          meta: {
+            pageSize,
+            nextCursor: result.nextCursor,
+            prevCursor: result.prevCursor,
+            unreadCount: result.items.filter((n) => !n.isRead).length
+          }
+        });
+      }
       logger.info(`[NotificationController] GET /notifications for ${userId} (page: ${page}, pageSize: ${pageSize}, unreadOnly: ${unreadOnly})`);
       const result = await notificationService.getNotificationsPaginated(userId, page, pageSize, !unreadOnly);
       return res.status(200).json({
@@ -96,7 +123,8 @@ export class NotificationController {
   /**
    * GET /api/notifications/unread
    *
-   * Get the count of unread notifications for the authenticated user.
+   * Get the count of unread notifications (and unread booking-thread
+   * messages) for the authenticated user.
    * Lightweight endpoint for polling/badges.
    *
    * Response:
@@ -113,11 +141,12 @@ export class NotificationController {
         });
       }
       logger.info(`[NotificationController] GET /notifications/unread for ${userId}`);
-      const count = await notificationService.getUnreadCount(userId);
+      const [count, messageCount] = await Promise.all([notificationService.getUnreadCount(userId), notificationService.getUnreadMessageCount(userId)]);
       return res.status(200).json({
         success: true,
         data: {
-          unreadCount: count
+          unreadCount: count,
+          unreadMessageCount: messageCount
         }
       });
     } catch (error: any) {
@@ -126,7 +155,8 @@ export class NotificationController {
       return res.status(200).json({
         success: true,
         data: {
-          unreadCount: 0
+          unreadCount: 0,
+          unreadMessageCount: 0
         }
       });
     }
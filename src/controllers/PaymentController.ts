@@ -4,9 +4,8 @@ import { PrismaPaymentRepository } from '../repositories/PrismaPaymentRepository
 import { RazorpayService } from '../services/RazorpayService';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { logger } from '../utils/logger';
-import { PaymentStatus } from '@prisma/client';
-import { getPrismaClient } from '../utils/prisma';
-import { normalizeCity } from '../utils/normalize';
+import { PaymentStatus, PaymentPurpose } from '@prisma/client';
+import { AppError } from '../errors/AppErrors';
 
 /**
  * PaymentController — MULTI-CITY ARCHITECTURE
@@ -46,7 +45,9 @@ export class PaymentController {
       const {
         plan,
         city,
-        amount
+        amount,
+        couponCode,
+        pricingId
       } = req.body;
       if (!plan || !city) {
         return res.status(400).json({
@@ -55,40 +56,29 @@ export class PaymentController {
         });
       }
 
-      // Use subscription service to create order (handles pricing lookup + Razorpay)
+      // Use subscription service to create order (handles pricing lookup,
+      // coupon, Razorpay and the DB payment record)
       const orderData = await this.subscriptionService.createOrder({
-        plan,
-        city,
-        amount: amount || 0
-      });
-
-      // Save payment record in DB
-      const payment = await this.paymentRepository.create({
         tenantId: userId,
-        orderId: orderData.orderId,
-        amount: typeof orderData.amount === 'number' ? orderData.amount : parseInt(orderData.amount, 10),
         plan,
         city,
-        status: PaymentStatus.CREATED
+        amount: amount || 0,
+        couponCode: typeof couponCode === 'string' && couponCode.trim() ? couponCode : undefined,
+        pricingId: typeof pricingId === 'string' && pricingId ? pricingId : undefined
       });
       logger.info('Payment order created', {
-        paymentId: payment.id,
+        paymentId: orderData.paymentId,
         orderId: orderData.orderId
       });
       return res.status(201).json({
         success: true,
-        data: {
-          orderId: orderData.orderId,
-          amount: orderData.amount,
-          currency: orderData.currency,
-          paymentId: payment.id
-        }
+        data: orderData
       });
     } catch (error: any) {
       logger.error('Error creating payment order', {
         error: error.message
       });
-      return res.status(400).json({
+      return res.status(error instanceof AppError ? error.statusCode : 400).json({
         success: false,
         message: error.message || 'Failed to create payment order'
       });
@@ -133,6 +123,21 @@ export class PaymentController {
         });
       }
 
+      // Booking token / deposit payments confirm a booking, not a subscription
+      const isTopUp = payment.purpose === PaymentPurpose.CONTACT_TOP_UP;
+      if (!isTopUp && (payment.purpose !== PaymentPurpose.SUBSCRIPTION || !payment.plan)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Booking payments are verified via /api/bookings/:id/payments/verify'
+        });
+      }
+      if (payment.tenantId !== userId) {
+        return res.status(403).json({
+          success: false,
+          message: 'You can only verify your own payments'
+        });
+      }
+
       // Step 2: Already verified — idempotent response
       if (payment.status === PaymentStatus.VERIFIED) {
         logger.warn('Payment already verified', {
@@ -167,77 +172,8 @@ export class PaymentController {
       }
 
       // Step 4: Mark as VERIFIED + upgrade subscription ATOMICALLY
-      const prisma = getPrismaClient();
-      const result = await prisma.$transaction(async (tx: any) => {
-        // Re-read payment inside transaction with lock
-        const lockedPayment = await tx.payment.findUnique({
-          where: {
-            id: payment.id
-          }
-        });
-        if (!lockedPayment || lockedPayment.status === 'VERIFIED') {
-          return {
-            alreadyProcessed: true,
-            payment: lockedPayment,
-            subscription: null
-          };
-        }
-
-        // Mark payment as VERIFIED
-        const updatedPayment = await tx.payment.update({
-          where: {
-            id: payment.id
-          },
-          data: {
-            status: PaymentStatus.VERIFIED,
-            utr: razorpay_payment_id,
-            verifiedAt: new Date()
-          }
-        });
-
-        // Upgrade subscription INSIDE transaction — COMPOSITE UPSERT
-        const PLAN_DURATION_DAYS: Record<string, number> = {
-          FREE: 0,
-          GOLD: 30,
-          PLATINUM: 30
-        };
-        const normalizedPlan = payment.plan.toUpperCase();
-        const normalizedCity = normalizeCity(payment.city);
-        const durationDays = PLAN_DURATION_DAYS[normalizedPlan] || 30;
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + durationDays);
-
-        // MULTI-CITY: Upsert by tenantId + city composite key
-        // This creates a NEW subscription row for this city if none exists,
-        // or updates the existing one for this city.
-        // Subscriptions for OTHER cities are never touched.
-        const subscription = await tx.tenantSubscription.upsert({
-          where: {
-            tenantId_city: {
-              tenantId: userId,
-              city: normalizedCity
-            }
-          },
-          create: {
-            tenantId: userId,
-            plan: normalizedPlan,
-            city: normalizedCity,
-            expiresAt
-          },
-          update: {
-            plan: normalizedPlan,
-            expiresAt
-          }
-        });
-        return {
-          alreadyProcessed: false,
-          payment: updatedPayment,
-          subscription
-        };
-      }, {
-        isolationLevel: 'Serializable',
-        timeout: 10000
-      });
+      // MULTI-CITY: upserts the subscription for this payment's city only
+      const result = await this.subscriptionService.activateFromPayment(payment.id, razorpay_payment_id);
       if (result.alreadyProcessed) {
         return res.json({
           success: true,
@@ -249,14 +185,18 @@ export class PaymentController {
       }
       logger.info('Payment verified + subscription upgraded atomically', {
         paymentId: payment.id,
-        subscriptionId: result.subscription?.id
+        subscriptionId: result.subscription?.id,
+        bundleId: result.bundle?.id,
+        topUpId: result.topUp?.id
       });
       return res.json({
         success: true,
         message: 'Payment verified successfully',
         data: {
           payment: result.payment,
-          subscription: result.subscription
+          subscription: result.subscription,
+          bundle: result.bundle,
+          topUp: result.topUp
         }
       });
     } catch (error: any) {
@@ -0,0 +1,88 @@
+import { Response } from 'express';
+import { ReconciliationTrigger } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { PaymentReconciliationService } from '../services/PaymentReconciliationService';
+import { ReconciliationRunListQuerySchema } from '../models/Payment';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class PaymentReconciliationController {
+  private reconciliationService: PaymentReconciliationService;
+  constructor(reconciliationService: PaymentReconciliationService) {
+    this.reconciliationService = reconciliationService;
+    this.listRuns = this.listRuns.bind(this);
+    this.getRun = this.getRun.bind(this);
+    this.triggerRun = this.triggerRun.bind(this);
+  }
+
+  /**
+   * GET /api/admin/payments/reconciliation
+   * Recent runs with their counts
+   */
+  async listRuns(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        limit
+      } = ReconciliationRunListQuerySchema.parse(req.query);
+      const runs = await this.reconciliationService.listRuns(limit);
+      res.status(200).json({
+        success: true,
+        data: runs
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch reconciliation runs');
+    }
+  }
+
+  /**
+   * GET /api/admin/payments/reconciliation/:runId
+   * Full report: every payment the run changed or flagged
+   */
+  async getRun(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const run = await this.reconciliationService.getRun(req.params.runId);
+      res.status(200).json({
+        success: true,
+        data: run
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch reconciliation run');
+    }
+  }
+
+  /**
+   * POST /api/admin/payments/reconciliation
+   * Run reconciliation now and return its report
+   */
+  async triggerRun(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const run = await this.reconciliationService.run({
+        trigger: ReconciliationTrigger.MANUAL,
+        triggeredBy: req.user!.userId
+      });
+      res.status(201).json({
+        success: true,
+        data: run
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to run payment reconciliation');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
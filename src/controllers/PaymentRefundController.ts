@@ -0,0 +1,64 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { RefundService } from '../services/RefundService';
+import { CreateSubscriptionRefundSchema } from '../models/Payment';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class PaymentRefundController {
+  private refundService: RefundService;
+  constructor(refundService: RefundService) {
+    this.refundService = refundService;
+    this.refundSubscriptionPayment = this.refundSubscriptionPayment.bind(this);
+    this.listRefunds = this.listRefunds.bind(this);
+  }
+
+  /**
+   * POST /api/admin/payments/:paymentId/refunds
+   * Full, pro-rated or partial refund of a subscription payment
+   */
+  async refundSubscriptionPayment(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = CreateSubscriptionRefundSchema.parse(req.body);
+      const result = await this.refundService.refundSubscriptionPayment(req.params.paymentId, req.user!.userId, input);
+      res.status(201).json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to refund payment');
+    }
+  }
+
+  /**
+   * GET /api/admin/payments/:paymentId/refunds
+   */
+  async listRefunds(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const refunds = await this.refundService.listRefunds(req.params.paymentId);
+      res.status(200).json({
+        success: true,
+        data: refunds
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch refunds');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { PaymentWebhookService } from '../services/PaymentWebhookService';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+import { RAZORPAY_SIGNATURE_HEADER, RAZORPAY_EVENT_ID_HEADER } from '../utils/razorpayWebhook';
+export class PaymentWebhookController {
+  private webhookService: PaymentWebhookService;
+  constructor(webhookService: PaymentWebhookService) {
+    this.webhookService = webhookService;
+    this.handleRazorpay = this.handleRazorpay.bind(this);
+  }
+
+  /**
+   * POST /api/payments/webhook
+   * Called by Razorpay, not by users: authenticated by signature only.
+   * 2xx acknowledges the delivery; 5xx makes Razorpay redeliver it.
+   */
+  async handleRazorpay(req: Request, res: Response): Promise<void> {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        // Raw body parser not mounted for this path — the signature cannot be checked
+        throw new Error('Webhook body was parsed before signature verification');
+      }
+      const status = await this.webhookService.handle(req.body, req.header(RAZORPAY_SIGNATURE_HEADER), req.header(RAZORPAY_EVENT_ID_HEADER));
+      res.status(200).json({
+        success: true,
+        data: {
+          status
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code
+        });
+        return;
+      }
+      logger.error('Failed to process Razorpay webhook', {
+        error: error.message,
+        stack: error.stack
+      });
+      res.status(500).json({
+        success: false,
+        message: 'Failed to process Razorpay webhook'
+      });
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { PlanCatalogService } from '../services/PlanCatalogService';
+import { CreatePlanSchema, UpdatePlanSchema, SetCityPriceSchema, SetPlanLimitSchema, PlanListQuerySchema } from '../models/Plan';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class PlanCatalogController {
+  private planCatalogService: PlanCatalogService;
+  constructor(planCatalogService: PlanCatalogService) {
+    this.planCatalogService = planCatalogService;
+    this.listPlans = this.listPlans.bind(this);
+    this.validateCatalogue = this.validateCatalogue.bind(this);
+    this.createPlan = this.createPlan.bind(this);
+    this.updatePlan = this.updatePlan.bind(this);
+    this.deletePlan = this.deletePlan.bind(this);
+    this.setCityPrice = this.setCityPrice.bind(this);
+    this.removeCityPrice = this.removeCityPrice.bind(this);
+    this.getPriceHistory = this.getPriceHistory.bind(this);
+    this.cancelScheduledPrice = this.cancelScheduledPrice.bind(this);
+    this.setLimitOverride = this.setLimitOverride.bind(this);
+    this.removeLimitOverride = this.removeLimitOverride.bind(this);
+  }
+
+  /**
+   * GET /api/admin/plans
+   * Plans with their city prices and contact limits
+   */
+  async listPlans(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const query = PlanListQuerySchema.parse(req.query);
+      const plans = await this.planCatalogService.listCatalogue(query);
+      res.status(200).json({
+        success: true,
+        data: plans
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch plans');
+    }
+  }
+
+  /**
+   * GET /api/admin/plans/validation
+   * Active plans missing a price in one of our cities
+   */
+  async validateCatalogue(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const result = await this.planCatalogService.validateCatalogue();
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to validate plan catalogue');
+    }
+  }
+
+  /**
+   * POST /api/admin/plans
+   */
+  async createPlan(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = CreatePlanSchema.parse(req.body);
+      const plan = await this.planCatalogService.createPlan(input, req.user!.userId);
+      res.status(201).json({
+        success: true,
+        data: plan
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to create plan');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/plans/:name
+   */
+  async updatePlan(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = UpdatePlanSchema.parse(req.body);
+      const plan = await this.planCatalogService.updatePlan(req.params.name, input, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: plan
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to update plan');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/plans/:name
+   */
+  async deletePlan(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await this.planCatalogService.deletePlan(req.params.name, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Plan deleted'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to delete plan');
+    }
+  }
+
+  /**
+   * PUT /api/admin/plans/:name/pricing/:city
+   * Body: { price, validFrom?, reason? } — a future validFrom schedules it
+   */
+  async setCityPrice(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = SetCityPriceSchema.parse(req.body);
+      const pricing = await this.planCatalogService.setCityPrice(req.params.name, req.params.city, input, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: pricing
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to set plan price');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/plans/:name/pricing/:city
+   */
+  async removeCityPrice(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await this.planCatalogService.removeCityPrice(req.params.name, req.params.city, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Price removed'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to remove plan price');
+    }
+  }
+
+  /**
+   * GET /api/admin/plans/:name/pricing/:city/history
+   * Price versions and who changed them
+   */
+  async getPriceHistory(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const history = await this.planCatalogService.getPriceHistory(req.params.name, req.params.city);
+      res.status(200).json({
+        success: true,
+        data: history
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch price history');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/plans/:name/pricing/:city/versions/:pricingId
+   * Withdraw a scheduled price change
+   */
+  async cancelScheduledPrice(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await this.planCatalogService.cancelScheduledPrice(req.params.name, req.params.city, req.params.pricingId, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Price change cancelled'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to cancel price change');
+    }
+  }
+
+  /**
+   * PUT /api/admin/plans/:name/limits/:city
+   */
+  async setLimitOverride(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        contactLimit,
+        windowDays
+      } = SetPlanLimitSchema.parse(req.body);
+      const limit = await this.planCatalogService.setLimitOverride(req.params.name, req.params.city, contactLimit, windowDays, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: limit
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to set plan limit');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/plans/:name/limits/:city
+   * The plan's default limit applies again
+   */
+  async removeLimitOverride(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await this.planCatalogService.removeLimitOverride(req.params.name, req.params.city, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Limit override removed'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to remove plan limit');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { ReviewService } from '../services/ReviewService';
+import { ReviewListQuerySchema } from '../models/Review';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class ReviewController {
+  private reviewService: ReviewService;
+  constructor(reviewService: ReviewService) {
+    this.reviewService = reviewService;
+    this.listReviews = this.listReviews.bind(this);
+    this.createReview = this.createReview.bind(this);
+    this.replyToReview = this.replyToReview.bind(this);
+    this.hideReview = this.hideReview.bind(this);
+    this.unhideReview = this.unhideReview.bind(this);
+  }
+
+  /**
+   * GET /api/rooms/:id/reviews?reviewsPage=&reviewsLimit=
+   * Public — visible reviews only
+   */
+  async listReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        reviewsPage,
+        reviewsLimit
+      } = ReviewListQuerySchema.parse(req.query);
+      const reviews = await this.reviewService.listForRoom(req.params.id, reviewsPage, reviewsLimit);
+      res.status(200).json({
+        success: true,
+        data: reviews
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch reviews');
+    }
+  }
+
+  /**
+   * POST /api/rooms/:id/reviews
+   * Auth: TENANT with an approved booking on the room
+   * Body: { rating: 1–5, comment }
+   */
+  async createReview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const review = await this.reviewService.createReview(req.user!.userId, req.params.id, req.body);
+      res.status(201).json({
+        success: true,
+        data: review,
+        message: 'Review posted'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to post review');
+    }
+  }
+
+  /**
+   * POST /api/rooms/:id/reviews/:reviewId/reply
+   * Auth: OWNER of the room — one reply per review
+   * Body: { reply }
+   */
+  async replyToReview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const review = await this.reviewService.replyToReview(req.user!.userId, req.params.id, req.params.reviewId, req.body.reply);
+      res.status(200).json({
+        success: true,
+        data: review,
+        message: 'Reply posted'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to post reply');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/reviews/:reviewId/hide
+   * Body: { reason }
+   */
+  async hideReview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const review = await this.reviewService.setHidden(req.user!.userId, req.params.reviewId, true, req.body.reason);
+      res.status(200).json({
+        success: true,
+        data: review,
+        message: 'Review hidden'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to hide review');
+    }
+  }
+
+  /**
+   * PATCH /api/admin/reviews/:reviewId/unhide
+   */
+  async unhideReview(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const review = await this.reviewService.setHidden(req.user!.userId, req.params.reviewId, false);
+      res.status(200).json({
+        success: true,
+        data: review,
+        message: 'Review restored'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to restore review');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -1,14 +1,19 @@
 import { Request, Response } from 'express';
 import { RoomService } from '../services/RoomService';
 import { AuthRequest } from '../middleware/auth.middleware';
-import { RoomFilters } from '../models/Room';
+import { RoomFilters, RoomFiltersSchema, RoomAvailabilityQuerySchema } from '../models/Room';
+import { RoomAvailabilityService } from '../services/RoomAvailabilityService';
+import { AppError } from '../errors/AppErrors';
+import { ReviewService } from '../services/ReviewService';
+import { ReviewListQuerySchema } from '../models/Review';
 import { logger } from '../utils/logger';
 export class RoomController {
-  constructor(private roomService: RoomService) {
+  constructor(private roomService: RoomService, private reviewService: ReviewService = new ReviewService(), private availabilityService: RoomAvailabilityService = new RoomAvailabilityService()) {
     // Bind all methods to preserve 'this' context
     this.createRoom = this.createRoom.bind(this);
     this.getAllRooms = this.getAllRooms.bind(this);
     this.getRoomById = this.getRoomById.bind(this);
+    this.getAvailability = this.getAvailability.bind(this);
     this.updateRoom = this.updateRoom.bind(this);
     this.deleteRoom = this.deleteRoom.bind(this);
     this.getOwnerRooms = this.getOwnerRooms.bind(this);
@@ -54,18 +59,45 @@ export class RoomController {
   }
   async getAllRooms(req: Request, res: Response) {
     try {
+      // Structured params (amenities, geo, sort, facets) reuse the schema's parsing — validateQuery already ran it
+      const parsed = RoomFiltersSchema.parse(req.query);
       const filters: RoomFilters = {
         page: Number(req.query.page ?? 1),
         limit: Number(req.query.limit ?? 20),
         onlyActive: req.query.onlyActive !== 'false',
+        q: typeof req.query.q === 'string' && req.query.q.trim() ? req.query.q.trim() : undefined,
         city: typeof req.query.city === 'string' ? req.query.city : undefined,
         roomType: typeof req.query.roomType === 'string' ? req.query.roomType as any : undefined,
         idealFor: typeof req.query.idealFor === 'string' ? req.query.idealFor as any : undefined,
         isVerified: req.query.isVerified === 'true',
         isPopular: req.query.isPopular === 'true' ? true : undefined,
         minPrice: req.query.minPrice ? Number(req.query.minPrice) : undefined,
-        maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined
+        maxPrice: req.query.maxPrice ? Number(req.query.maxPrice) : undefined,
+        amenities: parsed.amenities,
+        amenitiesMatch: parsed.amenitiesMatch,
+        facets: parsed.facets,
+        near: parsed.near,
+        radiusKm: parsed.radiusKm,
+        bbox: parsed.bbox,
+        availableFrom: parsed.availableFrom,
+        sort: parsed.sort,
+        pagination: parsed.pagination,
+        cursor: parsed.cursor
       };
+
+      // Cursor mode: opaque keyset tokens instead of page numbers (no total)
+      if (filters.cursor || filters.pagination === 'cursor') {
+        const page = await this.roomService.getRoomsByCursor(filters);
+        return res.json({
+          success: true,
+          data: page.items,
+          meta: {
+            limit: page.limit,
+            nextCursor: page.nextCursor,
+            prevCursor: page.prevCursor
+          }
+        });
+      }
       const result = await this.roomService.getAllRooms(filters);
       // ✅ FIX: Wrap response in standard { success, data, meta } format
       res.json({
@@ -74,11 +106,15 @@ export class RoomController {
         meta: {
           page: result.page,
           limit: result.limit,
-          total: result.total
+          total: result.total,
+          ...(result.facets && {
+            facets: result.facets
+          })
         }
       });
     } catch (error: any) {
-      res.status(500).json({
+      // Typed errors (e.g. tampered cursor → 400) keep their status
+      res.status(error.statusCode || 500).json({
         success: false,
         message: error.message
       });
@@ -96,12 +132,50 @@ export class RoomController {
           message: 'Room not found'
         });
       }
+      const {
+        reviewsPage,
+        reviewsLimit
+      } = ReviewListQuerySchema.parse(req.query);
+      const reviews = await this.reviewService.listForRoom(id, reviewsPage, reviewsLimit);
       // ✅ FIX: Wrap response in standard format
       res.json({
         success: true,
-        data: room
+        data: {
+          ...room,
+          reviews
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+  /**
+   * GET /api/rooms/:id/availability?from=YYYY-MM-DD&days=30
+   * Day-by-day occupied/free beds (free beds only for Shared/PG)
+   */
+  async getAvailability(req: Request, res: Response) {
+    try {
+      const {
+        from,
+        days
+      } = RoomAvailabilityQuerySchema.parse(req.query);
+      const start = from ? new Date(`${from}T00:00:00.000Z`) : new Date();
+      const calendar = await this.availabilityService.getCalendar(req.params.id, start, days);
+      res.json({
+        success: true,
+        data: calendar
       });
     } catch (error: any) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code
+        });
+      }
       res.status(500).json({
         success: false,
         message: error.message
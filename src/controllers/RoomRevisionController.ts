@@ -0,0 +1,69 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { RoomRevisionService } from '../services/RoomRevisionService';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class RoomRevisionController {
+  private roomRevisionService: RoomRevisionService;
+  constructor(roomRevisionService: RoomRevisionService) {
+    this.roomRevisionService = roomRevisionService;
+    this.getTimeline = this.getTimeline.bind(this);
+    this.getRevision = this.getRevision.bind(this);
+  }
+
+  /**
+   * GET /api/admin/properties/:id/revisions
+   */
+  async getTimeline(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const revisions = await this.roomRevisionService.getTimeline(req.params.id);
+      res.status(200).json({
+        success: true,
+        data: revisions
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch revisions');
+    }
+  }
+
+  /**
+   * GET /api/admin/properties/:id/revisions/:revision
+   */
+  async getRevision(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const revision = Number(req.params.revision);
+      if (!Number.isInteger(revision) || revision < 1) {
+        res.status(400).json({
+          success: false,
+          message: 'revision must be a positive integer'
+        });
+        return;
+      }
+      const detail = await this.roomRevisionService.getRevision(req.params.id, revision);
+      res.status(200).json({
+        success: true,
+        data: detail
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch revision');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { SavedSearchService } from '../services/SavedSearchService';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class SavedSearchController {
+  private savedSearchService: SavedSearchService;
+  constructor(savedSearchService: SavedSearchService) {
+    this.savedSearchService = savedSearchService;
+    this.list = this.list.bind(this);
+    this.create = this.create.bind(this);
+    this.update = this.update.bind(this);
+    this.setAlerts = this.setAlerts.bind(this);
+    this.remove = this.remove.bind(this);
+  }
+
+  /**
+   * GET /api/saved-searches
+   */
+  async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const searches = await this.savedSearchService.list(req.user!.userId);
+      res.status(200).json({
+        success: true,
+        data: searches
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch saved searches');
+    }
+  }
+
+  /**
+   * POST /api/saved-searches
+   * Body: { name, filters, alertsPaused? } — filters use the GET /api/rooms query shape
+   */
+  async create(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const search = await this.savedSearchService.create(req.user!.userId, req.body);
+      res.status(201).json({
+        success: true,
+        data: search,
+        message: 'Search saved'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to save search');
+    }
+  }
+
+  /**
+   * PATCH /api/saved-searches/:id
+   * Body: { name?, filters?, alertsPaused? } — filters are replaced, not merged
+   */
+  async update(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const search = await this.savedSearchService.update(req.user!.userId, req.params.id, req.body);
+      res.status(200).json({
+        success: true,
+        data: search
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to update saved search');
+    }
+  }
+
+  /**
+   * PATCH /api/saved-searches/:id/alerts
+   * Body: { paused: boolean }
+   */
+  async setAlerts(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const search = await this.savedSearchService.setAlertsPaused(req.user!.userId, req.params.id, req.body.paused);
+      res.status(200).json({
+        success: true,
+        data: search,
+        message: search.alertsPaused ? 'Alerts paused' : 'Alerts resumed'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to update alerts');
+    }
+  }
+
+  /**
+   * DELETE /api/saved-searches/:id
+   */
+  async remove(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      await this.savedSearchService.delete(req.user!.userId, req.params.id);
+      res.status(200).json({
+        success: true,
+        message: 'Saved search deleted'
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to delete saved search');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
@@ -1,18 +1,35 @@
 import { Response } from 'express';
 import { TenantSubscriptionService } from '../services/TenantSubscriptionService';
 import { PlanLimitService } from '../services/PlanLimitService';
+import { ContactService } from '../services/ContactService';
 import { AuthRequest } from '../middleware/auth.middleware';
 import { logger } from '../utils/logger';
 import { normalizeCity } from '../utils/normalize';
-import { getPrismaClient } from '../utils/prisma';
+import { AppError } from '../errors/AppErrors';
+import { env } from '../config/env';
+import { planCatalogService } from '../services/PlanCatalogService';
+import { bundleService } from '../services/BundleService';
+import { CreateBundleOrderSchema } from '../models/Bundle';
+import { contactTopUpService } from '../services/ContactTopUpService';
+import { CreateTopUpOrderSchema } from '../models/ContactTopUp';
+import { subscriptionPhase, renewalPlanFor } from '../services/SubscriptionExpiryPolicy';
 export class TenantSubscriptionController {
   private planLimitService: PlanLimitService;
-  constructor(private subscriptionService: TenantSubscriptionService, planLimitService?: PlanLimitService) {
+  private contactService: ContactService;
+  constructor(private subscriptionService: TenantSubscriptionService, planLimitService?: PlanLimitService, contactService?: ContactService) {
     this.planLimitService = planLimitService || new PlanLimitService();
+    this.contactService = contactService || new ContactService(undefined, this.planLimitService);
     // Bind all methods to preserve 'this' context
     this.getCurrent = this.getCurrent.bind(this);
     this.getPricing = this.getPricing.bind(this);
     this.createOrder = this.createOrder.bind(this);
+    this.renew = this.renew.bind(this);
+    this.getBundles = this.getBundles.bind(this);
+    this.getCurrentBundles = this.getCurrentBundles.bind(this);
+    this.createBundleOrder = this.createBundleOrder.bind(this);
+    this.getTopUps = this.getTopUps.bind(this);
+    this.getCurrentTopUps = this.getCurrentTopUps.bind(this);
+    this.createTopUpOrder = this.createTopUpOrder.bind(this);
     this.upgrade = this.upgrade.bind(this);
     this.verifyPayment = this.verifyPayment.bind(this);
     this.trackView = this.trackView.bind(this);
@@ -50,10 +67,19 @@ export class TenantSubscriptionController {
         });
       }
 
-      // Return all subscriptions (multi-city)
+      // Return all subscriptions (multi-city), with where each one is in its
+      // expiry cycle and what a one-click renew would buy
+      const now = new Date();
       res.json({
         success: true,
-        data: subscriptions
+        data: subscriptions.map((subscription) => ({
+          ...subscription,
+          phase: subscriptionPhase(subscription, now, {
+            reminderDays: env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS,
+            graceDays: env.SUBSCRIPTION_GRACE_PERIOD_DAYS
+          }),
+          renewalPlan: renewalPlanFor(subscription)
+        }))
       });
     } catch (error: any) {
       logger.error('Error in getCurrent', {
@@ -115,7 +141,9 @@ export class TenantSubscriptionController {
       }
       const {
         plan,
-        city
+        city,
+        couponCode,
+        pricingId
       } = req.body;
 
       // ✅ PART 2: Validate parameters
@@ -135,9 +163,13 @@ export class TenantSubscriptionController {
       }
       const normalizedCity = normalizeCity(city);
       const orderData = await this.subscriptionService.createOrder({
+        tenantId: userId,
         plan,
         city: normalizedCity,
-        amount: 0 // Service will calculate from pricing
+        amount: 0,
+        // Service will calculate from pricing
+        couponCode: typeof couponCode === 'string' && couponCode.trim() ? couponCode : undefined,
+        pricingId: typeof pricingId === 'string' && pricingId ? pricingId : undefined
       });
       res.json({
         success: true,
@@ -147,6 +179,66 @@ export class TenantSubscriptionController {
       logger.error('Error in createOrder', {
         error: error.message
       });
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * POST /renew - One-click renew of the plan held in a city
+   * Body: { city, couponCode? }. Returns the same order as /create-order.
+   */
+  async renew(req: AuthRequest, res: Response, next: any) {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+      }
+      const {
+        city,
+        couponCode
+      } = req.body;
+      if (!city || typeof city !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: 'City is required'
+        });
+      }
+      const orderData = await this.subscriptionService.renew(userId, city, typeof couponCode === 'string' && couponCode.trim() ? couponCode : undefined);
+      res.json({
+        success: true,
+        data: orderData
+      });
+    } catch (error: any) {
+      logger.error('Error in renew', {
+        error: error.message
+      });
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /bundles - Multi-city bundles on sale
+   */
+  async getBundles(req: AuthRequest, res: Response, next: any) {
+    try {
+      const bundles = await bundleService.getOfferedBundles();
+      res.json({
+        success: true,
+        data: bundles
+      });
+    } catch (error: any) {
+      logger.error('Error in getBundles', {
+        error: error.message
+      });
       res.status(500).json({
         success: false,
         message: error.message
@@ -154,6 +246,147 @@ export class TenantSubscriptionController {
     }
   }
 
+  /**
+   * GET /bundles/current - The tenant's bundles and the cities they cover
+   */
+  async getCurrentBundles(req: AuthRequest, res: Response, next: any) {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+      }
+      const bundles = await bundleService.getTenantBundles(userId);
+      res.json({
+        success: true,
+        data: bundles
+      });
+    } catch (error: any) {
+      logger.error('Error in getCurrentBundles', {
+        error: error.message
+      });
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * POST /bundles/create-order - One payment for a multi-city bundle
+   * Body: { bundle }. Verified like any subscription order.
+   */
+  async createBundleOrder(req: AuthRequest, res: Response, next: any) {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+      }
+      const {
+        bundle
+      } = CreateBundleOrderSchema.parse(req.body);
+      const orderData = await this.subscriptionService.createBundleOrder(userId, bundle);
+      res.json({
+        success: true,
+        data: orderData
+      });
+    } catch (error: any) {
+      logger.error('Error in createBundleOrder', {
+        error: error.message
+      });
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /top-ups - Contact top-up packs on sale
+   */
+  async getTopUps(req: AuthRequest, res: Response, next: any) {
+    try {
+      const packs = await contactTopUpService.getOfferedPacks();
+      res.json({
+        success: true,
+        data: packs
+      });
+    } catch (error: any) {
+      logger.error('Error in getTopUps', {
+        error: error.message
+      });
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * GET /top-ups/current - The tenant's top-ups and unlocks left on them
+   */
+  async getCurrentTopUps(req: AuthRequest, res: Response, next: any) {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+      }
+      const topUps = await contactTopUpService.getTenantTopUps(userId);
+      res.json({
+        success: true,
+        data: topUps
+      });
+    } catch (error: any) {
+      logger.error('Error in getCurrentTopUps', {
+        error: error.message
+      });
+      res.status(500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
+  /**
+   * POST /top-ups/create-order - Payment order for a contact top-up pack
+   * Body: { pack }. Verified like any subscription order.
+   */
+  async createTopUpOrder(req: AuthRequest, res: Response, next: any) {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({
+          success: false,
+          message: 'User not authenticated'
+        });
+      }
+      const {
+        pack
+      } = CreateTopUpOrderSchema.parse(req.body);
+      const orderData = await this.subscriptionService.createTopUpOrder(userId, pack);
+      res.json({
+        success: true,
+        data: orderData
+      });
+    } catch (error: any) {
+      logger.error('Error in createTopUpOrder', {
+        error: error.message
+      });
+      res.status(error instanceof AppError ? error.statusCode : 500).json({
+        success: false,
+        message: error.message
+      });
+    }
+  }
+
   /**
    * POST /upgrade - Upgrade subscription after payment
    * ✅ PART 3: Implement upgrade method
@@ -182,36 +415,20 @@ export class TenantSubscriptionController {
       }
 
       // ✅ SECURITY FIX: Require payment verification for paid plans
-      if (plan.toUpperCase() !== 'FREE') {
-        if (!razorpay_payment_id) {
-          return res.status(400).json({
-            success: false,
-            message: 'Payment verification required. razorpay_payment_id is missing.'
-          });
-        }
-
-        // Verify payment exists and is VERIFIED in database
-        const prisma = getPrismaClient();
-        const payment = await prisma.payment.findFirst({
-          where: {
-            razorpayPaymentId: razorpay_payment_id,
-            status: 'VERIFIED'
-          }
+      // (the tenant's own, unused SUBSCRIPTION payment for this plan and city)
+      if (plan.toUpperCase() !== 'FREE' && !razorpay_payment_id) {
+        return res.status(400).json({
+          success: false,
+          message: 'Payment verification required. razorpay_payment_id is missing.'
         });
-        if (!payment) {
-          return res.status(400).json({
-            success: false,
-            message: 'Payment verification required. Payment not found or not verified.'
-          });
-        }
       }
       const normalizedCity = normalizeCity(city);
-      const subscription = await this.subscriptionService.upgradeSubscription({
+      const subscription = plan.toUpperCase() === 'FREE' ? await this.subscriptionService.upgradeSubscription({
         userId,
         plan,
         city: normalizedCity,
         paymentId: razorpay_payment_id
-      });
+      }) : await this.subscriptionService.applyVerifiedPayment(userId, plan, normalizedCity, razorpay_payment_id);
       res.json({
         success: true,
         data: subscription,
@@ -332,30 +549,23 @@ export class TenantSubscriptionController {
       }
       const normalizedCity = normalizeCity(city);
 
-      // Get user's subscription for this city
-      const subscription = await this.subscriptionService.getSubscriptionByCity(userId, normalizedCity);
-
-      // ✅ FIX: Enforce expiry — expired subscription → treat as FREE
-      let effectivePlan = 'FREE';
-      if (subscription) {
-        const now = new Date();
-        const isExpired = subscription.expiresAt && new Date(subscription.expiresAt) <= now;
-        if (!isExpired) {
-          effectivePlan = subscription.plan.toUpperCase();
-        }
-      }
-
-      // ✅ FIX: Get limit from database instead of hardcoded 10
-      const limit = await this.planLimitService.getEffectiveLimit(effectivePlan, normalizedCity);
+      // User's subscription for this city, or a bundle covering it
+      // ✅ FIX: Enforce expiry — lapsed subscription (past the grace period) → treat as FREE
+      // Quota usage (window + top-ups) is what unlockContact enforces
+      const {
+        plan: effectivePlan,
+        bundleCode,
+        usage
+      } = await this.contactService.getUnlockUsage(userId, normalizedCity);
 
-      // Get view count for limit enforcement
+      // All unlocks ever made in the city
       const viewCount = await this.subscriptionService.getUniquePropertyCountByCity(userId, normalizedCity);
 
       // Determine permissions based on effective plan and database limit
-      const isUnlimited = limit === null;
-      const canViewContact = isUnlimited || viewCount < limit;
-      const canViewMap = effectivePlan === 'GOLD' || effectivePlan === 'PLATINUM';
-      const hasCallSupport = effectivePlan === 'PLATINUM';
+      const canViewContact = usage.canUnlock;
+      const plan = await planCatalogService.getPlan(effectivePlan);
+      const canViewMap = plan?.hasMapAccess ?? false;
+      const hasCallSupport = plan?.hasCallSupport ?? false;
 
       // ✅ NEW: Per-property unlock check — O(1) unique index lookup
       // Reuses existing hasUserViewedProperty (tenantId_propertyId composite key)
@@ -368,14 +578,16 @@ export class TenantSubscriptionController {
         data: {
           plan: effectivePlan,
           city: normalizedCity,
+          bundleCode,
           viewCount,
-          viewLimit: limit,
+          viewLimit: usage.limit,
           // null = unlimited
+          usage,
           canViewContact,
           canViewMap,
           hasCallSupport,
           isUnlocked,
-          message: !isUnlimited && viewCount >= limit ? 'Upgrade to view more properties' : null
+          message: canViewContact ? null : 'Upgrade or buy a top-up pack to view more properties'
         }
       });
     } catch (error: any) {
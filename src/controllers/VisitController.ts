@@ -0,0 +1,141 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { VisitService } from '../services/VisitService';
+import { ProposeVisitSchema, ConfirmVisitSchema, RescheduleVisitSchema, DeclineVisitSchema, VisitListQuerySchema } from '../models/Visit';
+import { AppError } from '../errors/AppErrors';
+import { logger } from '../utils/logger';
+export class VisitController {
+  private visitService: VisitService;
+  constructor(visitService: VisitService) {
+    this.visitService = visitService;
+    this.list = this.list.bind(this);
+    this.propose = this.propose.bind(this);
+    this.confirm = this.confirm.bind(this);
+    this.reschedule = this.reschedule.bind(this);
+    this.decline = this.decline.bind(this);
+    this.cancel = this.cancel.bind(this);
+  }
+
+  /**
+   * GET /api/visits?scope=upcoming|all
+   */
+  async list(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const query = VisitListQuerySchema.parse(req.query);
+      const visits = await this.visitService.list(req.user!.userId, req.user!.role, query);
+      res.status(200).json({
+        success: true,
+        data: visits
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch visits');
+    }
+  }
+
+  /**
+   * POST /api/visits — tenant proposes time slots
+   */
+  async propose(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const input = ProposeVisitSchema.parse(req.body);
+      const visit = await this.visitService.propose(req.user!.userId, input);
+      res.status(201).json({
+        success: true,
+        data: visit
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to request visit');
+    }
+  }
+
+  /**
+   * PATCH /api/visits/:id/confirm
+   */
+  async confirm(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        slot
+      } = ConfirmVisitSchema.parse(req.body);
+      const visit = await this.visitService.confirm(req.user!.userId, req.user!.role, req.params.id, slot);
+      res.status(200).json({
+        success: true,
+        data: visit
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to confirm visit');
+    }
+  }
+
+  /**
+   * PATCH /api/visits/:id/reschedule
+   */
+  async reschedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        scheduledAt,
+        reason
+      } = RescheduleVisitSchema.parse(req.body);
+      const visit = await this.visitService.reschedule(req.user!.userId, req.user!.role, req.params.id, scheduledAt, reason);
+      res.status(200).json({
+        success: true,
+        data: visit
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to reschedule visit');
+    }
+  }
+
+  /**
+   * PATCH /api/visits/:id/decline
+   */
+  async decline(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        reason
+      } = DeclineVisitSchema.parse(req.body);
+      const visit = await this.visitService.decline(req.user!.userId, req.user!.role, req.params.id, reason);
+      res.status(200).json({
+        success: true,
+        data: visit
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to decline visit');
+    }
+  }
+
+  /**
+   * PATCH /api/visits/:id/cancel — tenant withdraws
+   */
+  async cancel(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        reason
+      } = DeclineVisitSchema.parse(req.body ?? {});
+      const visit = await this.visitService.cancel(req.user!.userId, req.params.id, reason);
+      res.status(200).json({
+        success: true,
+        data: visit
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to cancel visit');
+    }
+  }
+  private handleError(res: Response, error: any, fallbackMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+    logger.error(fallbackMessage, {
+      error: error.message,
+      stack: error.stack
+    });
+    res.status(500).json({
+      success: false,
+      message: fallbackMessage
+    });
+  }
+}
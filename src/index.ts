@@ -22,12 +22,37 @@ import {
   getOutboxDetailedStats,
   cleanupDeliveredOutboxEvents,
 } from "./services/OutboxWorker";
+import {
+  startBookingExpiryWorker,
+  stopBookingExpiryWorker,
+} from "./services/BookingExpiryWorker";
+import {
+  startVisitReminderWorker,
+  stopVisitReminderWorker,
+} from "./services/VisitReminderWorker";
+import {
+  startPaymentReconciliationWorker,
+  stopPaymentReconciliationWorker,
+} from "./services/PaymentReconciliationWorker";
+import {
+  startSubscriptionExpiryWorker,
+  stopSubscriptionExpiryWorker,
+} from "./services/SubscriptionExpiryWorker";
 const app = express();
 
 // Security middleware
 app.use(helmetMiddleware);
 app.use(corsMiddleware);
 
+// Razorpay webhooks are signed over the exact bytes sent — keep the raw body
+app.use(
+  "/api/payments/webhook",
+  express.raw({
+    type: "application/json",
+    limit: "1mb",
+  }),
+);
+
 // Body parsing (increase limit for base64 images)
 app.use(
   express.json({
@@ -106,6 +131,27 @@ cleanupExpiredIdempotencyRecords().catch((err) => {
 // Uses SELECT ... FOR UPDATE SKIP LOCKED for safe concurrent processing.
 startOutboxWorker();
 
+// ── Booking Expiry Worker ──
+// Expires PENDING bookings the owner never answered (SLA or move-in date
+// passed) and reminds owners before that happens. Interval and SLA come
+// from BOOKING_* env vars.
+startBookingExpiryWorker();
+
+// ── Visit Reminder Worker ──
+// Queues VISIT_REMINDER_DUE outbox events for confirmed site visits starting
+// within VISIT_REMINDER_HOURS.
+startVisitReminderWorker();
+
+// ── Payment Reconciliation Worker ──
+// Settles payments stuck in CREATED/INITIATED/PENDING against Razorpay and
+// repairs lost subscription upgrades. Idle without Razorpay keys.
+startPaymentReconciliationWorker();
+
+// ── Subscription Expiry Worker ──
+// Sends renewal reminders before paid plans expire and downgrades them to
+// FREE once the grace period is over.
+startSubscriptionExpiryWorker();
+
 // ── Outbox Cleanup ──
 // Runs daily to remove delivered events older than 7 days.
 // Keeps the outbox table lean while preserving recent audit trail.
@@ -154,6 +200,10 @@ async function gracefulShutdown(signal: string) {
 
   // Stop outbox worker (finish current batch, then stop polling)
   stopOutboxWorker();
+  stopBookingExpiryWorker();
+  stopVisitReminderWorker();
+  stopPaymentReconciliationWorker();
+  stopSubscriptionExpiryWorker();
 
   // Shutdown metrics logging
   idempotencyMetrics.shutdown();
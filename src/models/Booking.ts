@@ -4,7 +4,7 @@ import { z } from 'zod';
 // ENUMS
 // ============================================================================
 
-export const BookingStatus = z.enum(['PENDING', 'APPROVED', 'REJECTED']);
+export const BookingStatus = z.enum(['PENDING', 'APPROVED', 'CONFIRMED', 'REJECTED', 'CANCELLED', 'EXPIRED', 'MOVED_IN', 'COMPLETED']);
 export type BookingStatus = z.infer<typeof BookingStatus>;
 
 // ============================================================================
@@ -20,6 +20,7 @@ export interface Booking {
   tenantEmail: string;
   tenantPhone: string;
   moveInDate: string;
+  moveOutDate?: string | null;
   message?: string;
   status: BookingStatus;
   createdAt: string;
@@ -72,10 +73,22 @@ export const CreateBookingSchema = z.object({
   }, {
     message: 'Move-in date must be today or in the future'
   }),
+  // Optional end of stay (exclusive) — omit for open-ended
+  moveOutDate: z.string().refine((val) => !isNaN(new Date(val).getTime()), {
+    message: 'Invalid date format'
+  }).optional().nullable(),
   message: z.string().trim().max(500, 'Message must be at most 500 characters').optional().nullable()
+}).refine((b) => !b.moveOutDate || new Date(b.moveOutDate) > new Date(b.moveInDate), {
+  message: 'Move-out date must be after move-in date',
+  path: ['moveOutDate']
 });
 export const UpdateBookingStatusSchema = z.object({
-  status: BookingStatus
+  // Frontend sends lowercase statuses
+  status: z.preprocess((val) => typeof val === 'string' ? val.toUpperCase() : val, BookingStatus),
+  reason: z.string().trim().max(500, 'Reason must be at most 500 characters').optional()
+});
+export const CancelBookingSchema = z.object({
+  reason: z.string().trim().max(500, 'Reason must be at most 500 characters').optional()
 });
 
 // ============================================================================
@@ -83,4 +96,5 @@ export const UpdateBookingStatusSchema = z.object({
 // ============================================================================
 
 export type CreateBookingInput = z.infer<typeof CreateBookingSchema>;
-export type UpdateBookingStatusInput = z.infer<typeof UpdateBookingStatusSchema>;
\ No newline at end of file
+export type UpdateBookingStatusInput = z.infer<typeof UpdateBookingStatusSchema>;
+export type CancelBookingInput = z.infer<typeof CancelBookingSchema>;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+export const SendBookingMessageSchema = z.object({
+  body: z.string().trim().min(1, 'Message is required').max(2000, 'Message must be at most 2000 characters')
+});
+export const BookingMessageListQuerySchema = z.object({
+  // Older page: messages created strictly before this ISO timestamp
+  before: z.string().datetime({
+    message: 'before must be an ISO 8601 timestamp'
+  }).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+export type SendBookingMessageInput = z.infer<typeof SendBookingMessageSchema>;
+export type BookingMessageListQuery = z.infer<typeof BookingMessageListQuerySchema>;
+export type BookingThreadRole = 'TENANT' | 'OWNER' | 'AGENT' | 'ADMIN';
+export interface BookingMessageView {
+  id: string;
+  bookingId: string;
+  body: string;
+  // Contact details were hidden for this viewer
+  redacted: boolean;
+  sender: {
+    id: string;
+    name: string;
+    role: string;
+  };
+  // Read receipt — every other participant has read past this message
+  readByAll: boolean;
+  createdAt: string;
+}
+export interface BookingThread {
+  bookingId: string;
+  viewerRole: BookingThreadRole;
+  canPost: boolean;
+  unreadCount: number;
+  participants: {
+    userId: string;
+    role: string;
+    lastReadAt: string | null;
+  }[];
+  // Oldest first
+  messages: BookingMessageView[];
+  hasMore: boolean;
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { normalizeCity } from '../utils/normalize';
+
+// Bundle codes are stored upper-case, like plan codes
+const BundleCodeSchema = z.string().trim().min(2).max(32).regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Bundle code may only contain letters, digits and "_"').transform((code) => code.toUpperCase());
+const CitiesSchema = z.array(z.string().trim().min(1).transform(normalizeCity)).transform((cities) => [...new Set(cities)]);
+
+// Per covered city; null = the tier's own limit applies
+const BundleContactLimitSchema = z.number().int().min(0).nullable();
+
+// Admin: POST /api/admin/bundles
+// Either list the cities or set allCities; BundleService checks the cities
+export const CreateBundleSchema = z.object({
+  code: BundleCodeSchema,
+  displayName: z.string().trim().min(1).max(60).optional(),
+  description: z.string().trim().max(500).optional(),
+  tier: z.string().trim().min(1).transform((plan) => plan.toUpperCase()),
+  cities: CitiesSchema.default([]),
+  allCities: z.boolean().default(false),
+  price: z.number().int().min(1),
+  durationDays: z.number().int().min(1).max(366).default(30),
+  contactLimit: BundleContactLimitSchema.default(null),
+  sortOrder: z.number().int().default(0),
+  isActive: z.boolean().default(true)
+});
+export type CreateBundleInput = z.infer<typeof CreateBundleSchema>;
+
+// Admin: PATCH /api/admin/bundles/:code
+// The tier is fixed once created — add a new bundle instead. Changes only
+// apply to purchases made after them.
+export const UpdateBundleSchema = z.object({
+  displayName: z.string().trim().min(1).max(60).nullable().optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  cities: CitiesSchema.optional(),
+  allCities: z.boolean().optional(),
+  price: z.number().int().min(1).optional(),
+  durationDays: z.number().int().min(1).max(366).optional(),
+  contactLimit: BundleContactLimitSchema.optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional()
+}).refine((v) => Object.keys(v).length > 0, {
+  message: 'Nothing to update'
+});
+export type UpdateBundleInput = z.infer<typeof UpdateBundleSchema>;
+
+// Admin: GET /api/admin/bundles
+export const BundleListQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).transform((v) => v === 'true').default('true')
+});
+export type BundleListQuery = z.infer<typeof BundleListQuerySchema>;
+
+// Tenant: POST /api/tenant-subscriptions/bundles/create-order
+export const CreateBundleOrderSchema = z.object({
+  bundle: BundleCodeSchema
+});
+export type CreateBundleOrderInput = z.infer<typeof CreateBundleOrderSchema>;
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+// Pack codes are stored upper-case, like plan and bundle codes
+const TopUpPackCodeSchema = z.string().trim().min(2).max(32).regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Pack code may only contain letters, digits and "_"').transform((code) => code.toUpperCase());
+
+// Days the unlocks stay usable after purchase; null = never expire
+const ValidityDaysSchema = z.number().int().min(1).max(366).nullable();
+
+// Admin: POST /api/admin/contact-top-ups
+export const CreateTopUpPackSchema = z.object({
+  code: TopUpPackCodeSchema,
+  displayName: z.string().trim().min(1).max(60).optional(),
+  description: z.string().trim().max(500).optional(),
+  unlocks: z.number().int().min(1).max(1000),
+  price: z.number().int().min(1),
+  validityDays: ValidityDaysSchema.default(null),
+  sortOrder: z.number().int().default(0),
+  isActive: z.boolean().default(true)
+});
+export type CreateTopUpPackInput = z.infer<typeof CreateTopUpPackSchema>;
+
+// Admin: PATCH /api/admin/contact-top-ups/:code
+// Changes only apply to purchases made after them.
+export const UpdateTopUpPackSchema = z.object({
+  displayName: z.string().trim().min(1).max(60).nullable().optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  unlocks: z.number().int().min(1).max(1000).optional(),
+  price: z.number().int().min(1).optional(),
+  validityDays: ValidityDaysSchema.optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional()
+}).refine((v) => Object.keys(v).length > 0, {
+  message: 'Nothing to update'
+});
+export type UpdateTopUpPackInput = z.infer<typeof UpdateTopUpPackSchema>;
+
+// Admin: GET /api/admin/contact-top-ups
+export const TopUpPackListQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).transform((v) => v === 'true').default('true')
+});
+export type TopUpPackListQuery = z.infer<typeof TopUpPackListQuerySchema>;
+
+// Tenant: POST /api/tenant-subscriptions/top-ups/create-order
+export const CreateTopUpOrderSchema = z.object({
+  pack: TopUpPackCodeSchema
+});
+export type CreateTopUpOrderInput = z.infer<typeof CreateTopUpOrderSchema>;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { normalizeCity } from '../utils/normalize';
+
+// Codes are matched case-insensitively and stored upper-case
+const CouponCodeSchema = z.string().trim().min(3, 'Code must be at least 3 characters').max(32).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, digits, "-" and "_"').transform((code) => code.toUpperCase());
+// Plan codes from the plan catalogue; CouponService checks they exist
+const PlanCodeSchema = z.string().trim().min(1).transform((plan) => plan.toUpperCase());
+
+// Admin: POST /api/admin/coupons
+// discountValue is a percentage (1–100) for PERCENT, paise for FLAT
+export const CreateCouponSchema = z.object({
+  code: CouponCodeSchema,
+  description: z.string().trim().max(200).optional(),
+  discountType: z.preprocess((val) => typeof val === 'string' ? val.toUpperCase() : val, z.enum(['PERCENT', 'FLAT'])),
+  discountValue: z.number().int().positive(),
+  maxDiscount: z.number().int().positive().optional(),
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date().optional(),
+  maxRedemptions: z.number().int().positive().optional(),
+  maxRedemptionsPerTenant: z.number().int().positive().default(1),
+  cities: z.array(z.string().trim().min(1).transform(normalizeCity)).default([]),
+  plans: z.array(PlanCodeSchema).default([]),
+  firstPurchaseOnly: z.boolean().default(false)
+}).refine((data) => data.discountType !== 'PERCENT' || data.discountValue <= 100, {
+  message: 'A percentage discount cannot exceed 100',
+  path: ['discountValue']
+}).refine((data) => !data.validFrom || !data.validUntil || data.validUntil > data.validFrom, {
+  message: 'validUntil must be after validFrom',
+  path: ['validUntil']
+});
+export type CreateCouponInput = z.infer<typeof CreateCouponSchema>;
+
+// Admin: PATCH /api/admin/coupons/:id
+// The discount itself is fixed once created — issue a new code instead.
+// null clears validUntil / maxRedemptions.
+export const UpdateCouponSchema = z.object({
+  description: z.string().trim().max(200).optional(),
+  isActive: z.boolean().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  maxRedemptionsPerTenant: z.number().int().positive().optional()
+}).refine((v) => Object.keys(v).length > 0, {
+  message: 'Nothing to update'
+});
+export type UpdateCouponInput = z.infer<typeof UpdateCouponSchema>;
+
+// Admin: GET /api/admin/coupons
+export const CouponListQuerySchema = z.object({
+  active: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+export type CouponListQuery = z.infer<typeof CouponListQuerySchema>;
+
+// Admin: GET /api/admin/coupons/:id/redemptions
+export const CouponRedemptionQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+export type CouponRedemptionQuery = z.infer<typeof CouponRedemptionQuerySchema>;
+
+// Tenant: POST /api/payments/coupons/validate — preview before paying
+export const ValidateCouponSchema = z.object({
+  code: CouponCodeSchema,
+  plan: PlanCodeSchema,
+  city: z.string().trim().min(1, 'City is required')
+});
+export type ValidateCouponInput = z.infer<typeof ValidateCouponSchema>;
+
+// Amounts in paise
+export interface CouponQuote {
+  couponId: string;
+  code: string;
+  plan: string;
+  city: string;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+}
+
+// Recorded on Payment.metadata.coupon for a discounted order
+export interface PaymentCouponMetadata {
+  couponId: string;
+  code: string;
+  discountType: 'PERCENT' | 'FLAT';
+  discountValue: number;
+  originalAmount: number;
+  discountAmount: number;
+}
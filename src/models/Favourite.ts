@@ -0,0 +1,5 @@
+import { z } from 'zod';
+export const AddFavouriteSchema = z.object({
+  roomId: z.string().uuid('Invalid room id')
+});
+export type AddFavouriteInput = z.infer<typeof AddFavouriteSchema>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// GET /api/payments/:id/invoice?format=pdf|json
+export const InvoiceQuerySchema = z.object({
+  format: z.enum(['json', 'pdf']).default('json')
+});
+export type InvoiceQuery = z.infer<typeof InvoiceQuerySchema>;
+
+// Everything printed on an invoice, frozen when it is issued.
+// Amounts are in paise.
+export interface InvoiceParty {
+  name: string;
+  gstin: string | null;
+  address: string | null;
+  state: string;
+  stateCode: string | null;
+}
+export interface InvoiceTax {
+  supplyType: 'INTRA_STATE' | 'INTER_STATE';
+  ratePercent: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+export interface InvoiceData {
+  invoiceNumber: string;
+  financialYear: string;
+  issuedAt: string;
+  paymentId: string;
+  orderId: string;
+  razorpayPaymentId: string | null;
+  paidAt: string | null;
+  seller: InvoiceParty;
+  buyer: InvoiceParty & {
+    email: string;
+  };
+  placeOfSupply: string;
+  line: {
+    description: string;
+    sacCode: string;
+    quantity: number;
+    amount: number; // taxable value
+  };
+  tax: InvoiceTax;
+  total: number;
+  currency: 'INR';
+}
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  financialYear: string;
+  paymentId: string;
+  issuedAt: string;
+  pdfSha256: string;
+  data: InvoiceData;
+}
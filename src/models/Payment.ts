@@ -1,14 +1,20 @@
 import { z } from 'zod';
 
 // Payment Status enum matching Prisma
-export const PaymentStatus = z.enum(['CREATED', 'INITIATED', 'PENDING', 'VERIFIED', 'FAILED', 'EXPIRED']);
+export const PaymentStatus = z.enum(['CREATED', 'INITIATED', 'PENDING', 'VERIFIED', 'FAILED', 'EXPIRED', 'PARTIALLY_REFUNDED', 'REFUNDED']);
 export type PaymentStatus = z.infer<typeof PaymentStatus>;
 
+// What a payment is for — subscriptions, a booking token / deposit, or a
+// contact top-up pack
+export const PaymentPurpose = z.enum(['SUBSCRIPTION', 'BOOKING_TOKEN', 'SECURITY_DEPOSIT', 'CONTACT_TOP_UP']);
+export type PaymentPurpose = z.infer<typeof PaymentPurpose>;
+
 // Payment model
 export interface Payment {
   id: string;
   tenantId: string;
-  plan: string;
+  purpose: PaymentPurpose;
+  plan: string | null;
   city: string;
   amount: number;
   orderId: string;
@@ -19,6 +25,7 @@ export interface Payment {
   updatedAt: string;
   verifiedAt?: string;
   subscriptionId?: string;
+  bookingId?: string;
 }
 
 // Create payment input schema
@@ -36,6 +43,38 @@ export const VerifyPaymentSchema = z.object({
 });
 export type VerifyPaymentInput = z.infer<typeof VerifyPaymentSchema>;
 
+// Booking token / deposit order (POST /api/bookings/:id/payments)
+export const CreateBookingPaymentSchema = z.object({
+  purpose: z.preprocess((val) => typeof val === 'string' ? val.toUpperCase() : val, z.enum(['BOOKING_TOKEN', 'SECURITY_DEPOSIT']))
+});
+export type CreateBookingPaymentInput = z.infer<typeof CreateBookingPaymentSchema>;
+
+// Razorpay checkout handler response (POST /api/bookings/:id/payments/verify)
+export const VerifyBookingPaymentSchema = z.object({
+  razorpay_order_id: z.string().min(1, 'razorpay_order_id is required'),
+  razorpay_payment_id: z.string().min(1, 'razorpay_payment_id is required'),
+  razorpay_signature: z.string().min(1, 'razorpay_signature is required')
+});
+export type VerifyBookingPaymentInput = z.infer<typeof VerifyBookingPaymentSchema>;
+
+// Admin refund of a subscription payment (POST /api/admin/payments/:paymentId/refunds)
+// amount (paise) is required for PARTIAL and ignored otherwise
+export const CreateSubscriptionRefundSchema = z.object({
+  mode: z.preprocess((val) => typeof val === 'string' ? val.toUpperCase() : val, z.enum(['FULL', 'PRORATED', 'PARTIAL'])),
+  amount: z.number().int().positive().optional(),
+  reason: z.string().trim().min(3, 'Reason must be at least 3 characters').max(500)
+}).refine((data) => data.mode !== 'PARTIAL' || data.amount !== undefined, {
+  message: 'amount is required for a PARTIAL refund',
+  path: ['amount']
+});
+export type CreateSubscriptionRefundInput = z.infer<typeof CreateSubscriptionRefundSchema>;
+
+// Admin reconciliation report (GET /api/admin/payments/reconciliation)
+export const ReconciliationRunListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+export type ReconciliationRunListQuery = z.infer<typeof ReconciliationRunListQuerySchema>;
+
 // Payment webhook schema
 export const PaymentWebhookSchema = z.object({
   orderId: z.string(),
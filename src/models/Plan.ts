@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { normalizeCity } from '../utils/normalize';
+
+// Plan codes are stored upper-case on subscriptions, pricing and limits
+const PlanCodeSchema = z.string().trim().min(2).max(32).regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Plan name may only contain letters, digits and "_"').transform((name) => name.toUpperCase());
+
+// Contact unlocks per city; null = unlimited
+const ContactLimitSchema = z.number().int().min(0).nullable();
+
+// Rolling window the limit applies to, in days; null = lifetime
+const ContactWindowSchema = z.number().int().min(1).max(366).nullable();
+
+// City → price in rupees
+const CityPriceMapSchema = z.record(z.string().trim().min(1), z.number().int().min(0)).transform((prices) => Object.fromEntries(Object.entries(prices).map(([city, price]) => [normalizeCity(city), price])));
+const PlanFieldsSchema = z.object({
+  displayName: z.string().trim().min(1).max(60).optional(),
+  description: z.string().trim().max(500).optional(),
+  durationDays: z.number().int().min(1).max(366),
+  hasCallSupport: z.boolean().default(false),
+  hasMapAccess: z.boolean().default(false),
+  features: z.array(z.string().trim().min(1).max(100)).max(20).default([]),
+  sortOrder: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+  contactLimit: ContactLimitSchema.default(null),
+  contactWindowDays: ContactWindowSchema.default(null)
+});
+
+// Admin: POST /api/admin/plans
+// `pricing` may seed city prices in the same request, so an active plan can
+// be created fully priced.
+export const CreatePlanSchema = PlanFieldsSchema.extend({
+  name: PlanCodeSchema,
+  pricing: CityPriceMapSchema.default({})
+});
+export type CreatePlanInput = z.infer<typeof CreatePlanSchema>;
+
+// Admin: PATCH /api/admin/plans/:name — the code itself can't change
+export const UpdatePlanSchema = z.object({
+  displayName: z.string().trim().min(1).max(60).nullable().optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  durationDays: z.number().int().min(1).max(366).optional(),
+  hasCallSupport: z.boolean().optional(),
+  hasMapAccess: z.boolean().optional(),
+  features: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+  contactLimit: ContactLimitSchema.optional(),
+  contactWindowDays: ContactWindowSchema.optional()
+}).refine((v) => Object.keys(v).length > 0, {
+  message: 'Nothing to update'
+});
+export type UpdatePlanInput = z.infer<typeof UpdatePlanSchema>;
+
+// Admin: PUT /api/admin/plans/:name/pricing/:city
+// Without validFrom the price changes now; with one it is scheduled and
+// announced to tenants until it takes effect.
+export const SetCityPriceSchema = z.object({
+  price: z.number().int().min(0),
+  validFrom: z.coerce.date().optional(),
+  reason: z.string().trim().max(200).optional()
+});
+export type SetCityPriceInput = z.infer<typeof SetCityPriceSchema>;
+
+// Admin: PUT /api/admin/plans/:name/limits/:city
+export const SetPlanLimitSchema = z.object({
+  contactLimit: ContactLimitSchema,
+  windowDays: ContactWindowSchema.default(null)
+});
+export type SetPlanLimitInput = z.infer<typeof SetPlanLimitSchema>;
+
+// Admin: GET /api/admin/plans
+export const PlanListQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).transform((v) => v === 'true').default('true')
+});
+export type PlanListQuery = z.infer<typeof PlanListQuerySchema>;
+
+// Catalogue entry with its pricing and limits, as admins see it
+export interface PlanCatalogueEntry {
+  name: string;
+  displayName: string | null;
+  description: string | null;
+  durationDays: number;
+  hasCallSupport: boolean;
+  hasMapAccess: boolean;
+  features: string[];
+  sortOrder: number;
+  isActive: boolean;
+  contactLimit: number | null;
+  contactWindowDays: number | null;
+  pricing: Record<string, number>;
+  // Scheduled changes by city
+  upcomingPricing: Record<string, {
+    price: number;
+    effectiveFrom: Date;
+  }>;
+  limitOverrides: Record<string, number | null>;
+  // Window of each override, by city; null = lifetime
+  limitOverrideWindows: Record<string, number | null>;
+  missingPricing: string[];
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+export const CreateReviewSchema = z.object({
+  rating: z.number().int().min(1, 'Rating must be between 1 and 5').max(5, 'Rating must be between 1 and 5'),
+  comment: z.string().trim().min(10, 'Review must be at least 10 characters').max(2000)
+});
+export const ReviewReplySchema = z.object({
+  reply: z.string().trim().min(1, 'Reply is required').max(1000)
+});
+export const HideReviewSchema = z.object({
+  reason: z.string().trim().min(3, 'Reason is required').max(500)
+});
+export const ReviewListQuerySchema = z.object({
+  reviewsPage: z.coerce.number().int().min(1).default(1),
+  reviewsLimit: z.coerce.number().int().min(1).max(50).default(10)
+});
+export type CreateReviewInput = z.infer<typeof CreateReviewSchema>;
+export interface Review {
+  id: string;
+  roomId: string;
+  rating: number;
+  comment: string;
+  tenantName: string;
+  ownerReply: string | null;
+  ownerRepliedAt: string | null;
+  createdAt: string;
+}
+export interface ReviewPage {
+  items: Review[];
+  total: number;
+  page: number;
+  limit: number;
+}
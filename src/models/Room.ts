@@ -1,8 +1,19 @@
 import { z } from 'zod';
+import { parseLatLng, parseBoundingBox, MAX_SEARCH_RADIUS_KM } from '../utils/geo';
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
 export const RoomType = z.enum(['Single', 'Shared', 'PG', '1BHK', '2BHK']);
 export const IdealFor = z.enum(['Students', 'Working Professionals', 'Family']);
 export type RoomType = z.infer<typeof RoomType>;
 export type IdealFor = z.infer<typeof IdealFor>;
+/**
+ * Relevance metadata attached to rooms returned by a `q` search.
+ * Highlights wrap matched terms in <mark>…</mark>.
+ */
+export interface RoomSearchMatch {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
 export interface Room {
   id: string;
   title: string;
@@ -10,8 +21,15 @@ export interface Room {
   city: string;
   location: string;
   landmark: string;
+  latitude: number | null;
+  longitude: number | null;
   pricePerMonth: number;
   roomType: RoomType;
+  totalBeds: number;
+  availableFrom: string | null;
+  // Collected online after approval (INR); null = not collected online
+  bookingTokenAmount: number | null;
+  securityDeposit: number | null;
   idealFor: IdealFor[];
   amenities: string[];
   images: string[];
@@ -23,6 +41,9 @@ export interface Room {
   ownerId: string;
   createdAt: string;
   updatedAt: string;
+  search?: RoomSearchMatch;
+  // Present only when the listing was queried with `near`
+  distanceKm?: number;
 }
 export const CreateRoomSchema = z.object({
   title: z.string().min(5, 'Title must be at least 5 characters'),
@@ -30,28 +51,112 @@ export const CreateRoomSchema = z.object({
   city: z.string().min(1, 'City is required'),
   location: z.string().min(3, 'Location is required'),
   landmark: z.string().optional().default(''),
+  // Must be sent together (enforced by the repository)
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
   pricePerMonth: z.number().positive('Price must be positive'),
   roomType: RoomType,
+  // More than one bed only for Shared/PG (enforced by RoomService)
+  totalBeds: z.number().int().min(1).max(50).optional(),
+  availableFrom: z.string().regex(DATE_ONLY, 'availableFrom must be YYYY-MM-DD').nullable().optional(),
+  bookingTokenAmount: z.number().int().positive('Booking token must be positive').nullable().optional(),
+  securityDeposit: z.number().int().positive('Security deposit must be positive').nullable().optional(),
   idealFor: z.array(IdealFor).min(1, 'Please select at least one tenant type'),
   amenities: z.array(z.string()).default([]),
   images: z.array(z.string()).min(1, 'At least one image is required')
 });
 export const UpdateRoomSchema = CreateRoomSchema.partial();
-export const RoomFiltersSchema = z.object({
+export const RoomSortSchema = z.enum(['newest', 'price_asc', 'price_desc', 'rating', 'popularity', 'distance', 'relevance']);
+export const AmenitiesMatchSchema = z.enum(['all', 'any']);
+export const RoomFiltersBaseSchema = z.object({
+  // free-text search over title, description, location and landmark
+  q: z.string().trim().min(2, 'Search query must be at least 2 characters').max(100).optional(),
   city: z.string().optional(),
   minPrice: z.coerce.number().optional(),
   maxPrice: z.coerce.number().optional(),
   roomType: RoomType.optional(),
   idealFor: IdealFor.optional(),
-  amenities: z.string().transform((v) => v.split(',')).optional(),
+  amenities: z.string().transform((v) => v.split(',').map((a) => a.trim()).filter(Boolean)).optional(),
+  // all = room must have every listed amenity, any = at least one
+  amenitiesMatch: AmenitiesMatchSchema.default('all'),
   // 🔥 homepage filters
   isPopular: z.coerce.boolean().optional(),
   isVerified: z.coerce.boolean().optional(),
   onlyActive: z.coerce.boolean().default(true),
-  // pagination
+  // 📍 geo filters — near=lat,lng&radiusKm=3 or bbox=minLng,minLat,maxLng,maxLat
+  near: z.string().transform((v, ctx) => {
+    const point = parseLatLng(v);
+    if (!point) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'near must be "lat,lng"'
+      });
+      return z.NEVER;
+    }
+    return point;
+  }).optional(),
+  radiusKm: z.coerce.number().positive().max(MAX_SEARCH_RADIUS_KM).optional(),
+  bbox: z.string().transform((v, ctx) => {
+    const box = parseBoundingBox(v);
+    if (!box) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'bbox must be "minLng,minLat,maxLng,maxLat"'
+      });
+      return z.NEVER;
+    }
+    return box;
+  }).optional(),
+  // availableFrom=YYYY-MM-DD → open by that date and (Shared/PG) a bed free on it
+  availableFrom: z.string().regex(DATE_ONLY, 'availableFrom must be YYYY-MM-DD').transform((v, ctx) => {
+    const date = new Date(`${v}T00:00:00.000Z`);
+    if (isNaN(date.getTime())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'availableFrom is not a valid date'
+      });
+      return z.NEVER;
+    }
+    return date;
+  }).optional(),
+  sort: RoomSortSchema.optional(),
+  // facets=true → meta.facets with counts per amenity / roomType / city
+  facets: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+  // pagination — page mode (default) or keyset cursor mode
+  // (pagination=cursor for the first page, then cursor=<nextCursor|prevCursor>)
   page: z.coerce.number().min(1).default(1),
-  limit: z.coerce.number().min(1).max(100).default(20)
+  limit: z.coerce.number().min(1).max(100).default(20),
+  pagination: z.enum(['page', 'cursor']).optional(),
+  cursor: z.string().min(1).max(512).optional()
+});
+export const RoomFiltersSchema = RoomFiltersBaseSchema.refine((f) => f.sort !== 'distance' || f.near !== undefined, {
+  message: 'sort=distance requires near=lat,lng',
+  path: ['sort']
+}).refine((f) => !(f.cursor || f.pagination === 'cursor') || !f.q && !f.near && !f.availableFrom && (!f.sort || f.sort === 'newest'), {
+  message: 'Cursor pagination only supports the default newest-first order (no q, near, availableFrom or sort)',
+  path: ['cursor']
+});
+export const RoomAvailabilityQuerySchema = z.object({
+  from: z.string().regex(DATE_ONLY, 'from must be YYYY-MM-DD').optional(),
+  days: z.coerce.number().int().min(1).max(90).default(30)
 });
 export type CreateRoomInput = z.infer<typeof CreateRoomSchema>;
 export type UpdateRoomInput = z.infer<typeof UpdateRoomSchema>;
-export type RoomFilters = z.infer<typeof RoomFiltersSchema>;
\ No newline at end of file
+export type RoomFilters = z.infer<typeof RoomFiltersSchema>;
+export type RoomSort = z.infer<typeof RoomSortSchema>;
+export type AmenitiesMatch = z.infer<typeof AmenitiesMatchSchema>;
+export interface RoomFacetBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * Filter-chip counts for a listing query. Each dimension is counted with
+ * every other filter applied but its own filter ignored, so selecting
+ * "Jaipur" still shows how many rooms the other cities would return.
+ */
+export interface RoomFacets {
+  amenities: RoomFacetBucket[];
+  roomType: RoomFacetBucket[];
+  city: RoomFacetBucket[];
+}
\ No newline at end of file
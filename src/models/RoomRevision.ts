@@ -0,0 +1,28 @@
+import { Room } from './Room';
+import { MaterialChangeRules, RoomFieldChange } from '../utils/roomDiff';
+export interface RoomRevisionContext {
+  changedBy: string;
+  rules: MaterialChangeRules;
+}
+export interface RoomUpdateResult {
+  room: Room;
+  // null when the update didn't change any revisioned field
+  revision: number | null;
+  // APPROVED → PENDING because a material field changed
+  statusReset: boolean;
+}
+export interface RoomRevisionSummary {
+  id: string;
+  revision: number;
+  changedBy: {
+    id: string;
+    name: string | null;
+  };
+  changedFields: string[];
+  materialFields: string[];
+  statusReset: boolean;
+  createdAt: string;
+}
+export interface RoomRevisionDetail extends RoomRevisionSummary {
+  changes: RoomFieldChange[];
+}
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { RoomFiltersBaseSchema } from './Room';
+
+/**
+ * Saved-search filters use the exact GET /api/rooms query shape
+ * (e.g. { city: 'jaipur', maxPrice: '8000', amenities: 'WiFi,AC', near: '26.9,75.8' })
+ * so the frontend can save whatever it is currently querying.
+ * Listing-only params (sort, pagination, facets, visibility) are not stored.
+ */
+export const SavedSearchFiltersSchema = RoomFiltersBaseSchema.pick({
+  q: true,
+  city: true,
+  minPrice: true,
+  maxPrice: true,
+  roomType: true,
+  idealFor: true,
+  amenities: true,
+  amenitiesMatch: true,
+  near: true,
+  radiusKm: true,
+  bbox: true
+}).strict();
+export const CreateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80),
+  filters: SavedSearchFiltersSchema,
+  alertsPaused: z.boolean().optional()
+});
+export const UpdateSavedSearchSchema = CreateSavedSearchSchema.partial().refine((v) => Object.keys(v).length > 0, {
+  message: 'Nothing to update'
+});
+export const SavedSearchAlertsSchema = z.object({
+  paused: z.boolean()
+});
+export type SavedSearchFilters = z.infer<typeof SavedSearchFiltersSchema>;
+export type CreateSavedSearchInput = z.infer<typeof CreateSavedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof UpdateSavedSearchSchema>;
+export interface SavedSearch {
+  id: string;
+  tenantId: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alertsPaused: boolean;
+  lastAlertAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+const isoDateTime = z.string().datetime({
+  offset: true,
+  message: 'Must be an ISO 8601 date-time'
+});
+export const ProposeVisitSchema = z.object({
+  roomId: z.string().uuid('Room ID must be a valid UUID'),
+  bookingId: z.string().uuid('Booking ID must be a valid UUID').optional(),
+  slots: z.array(isoDateTime).min(1, 'Propose at least one time slot').max(3, 'Propose at most 3 time slots'),
+  durationMinutes: z.number().int().min(15).max(120).default(30),
+  note: z.string().trim().max(500).optional()
+}).refine((v) => new Set(v.slots.map((s) => new Date(s).getTime())).size === v.slots.length, {
+  message: 'Time slots must be distinct',
+  path: ['slots']
+});
+export const ConfirmVisitSchema = z.object({
+  // Must be one of the tenant's proposed slots
+  slot: isoDateTime
+});
+export const RescheduleVisitSchema = z.object({
+  scheduledAt: isoDateTime,
+  reason: z.string().trim().max(500).optional()
+});
+export const DeclineVisitSchema = z.object({
+  reason: z.string().trim().max(500).optional()
+});
+export const VisitListQuerySchema = z.object({
+  // upcoming (default): open visits not yet over; all: full history
+  scope: z.enum(['upcoming', 'all']).default('upcoming')
+});
+export type ProposeVisitInput = z.infer<typeof ProposeVisitSchema>;
+export type VisitListQuery = z.infer<typeof VisitListQuerySchema>;
+export interface Visit {
+  id: string;
+  roomId: string;
+  roomTitle: string;
+  tenantId: string;
+  tenantName: string;
+  bookingId: string | null;
+  proposedSlots: string[];
+  durationMinutes: number;
+  scheduledAt: string | null;
+  status: string;
+  hostAgentId: string | null;
+  note: string | null;
+  declineReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Upcoming visit as shown on the agent's property list.
+ */
+export interface UpcomingVisitSummary {
+  id: string;
+  status: string;
+  scheduledAt: string | null;
+  proposedSlots: string[];
+  durationMinutes: number;
+  tenantName: string;
+  hostAgentId: string | null;
+}
@@ -1,10 +1,14 @@
+import { BookingStatus as PrismaBookingStatus } from '@prisma/client';
 import { IBookingRepository } from './interfaces';
 import { Booking, BookingStatus } from '../models/Booking';
 import { getPrismaClient } from '../utils/prisma';
 import { NotFoundError, DuplicateBookingError, BusinessLogicError, mapPrismaError } from '../errors/AppErrors';
 import { logger } from '../utils/logger';
 import { writeOutboxEvent } from '../services/OutboxWriter';
+import { DecodedCursor, CursorPage, cursorWhere, cursorOrderBy, toCursorPage } from '../utils/cursor';
 import { OutboxAggregateType, OutboxEventType, BookingCreatedPayload } from '../services/OutboxEventTypes';
+import { assertBedAvailable } from '../services/RoomAvailabilityService';
+import { BookingTransitionContext, recordBookingCreated, recordBookingTransition } from '../services/BookingTransitionWriter';
 
 /**
  * PRODUCTION-GRADE Prisma Booking Repository
@@ -71,6 +75,25 @@ export class PrismaBookingRepository implements IBookingRepository {
       total
     };
   }
+  /**
+   * KEYSET PAGINATION — owner inbox without OFFSET drift.
+   * Served by idx_booking_owner_status_created (ownerId, …, createdAt DESC).
+   */
+  async findByOwnerIdCursor(ownerId: string, cursor: DecodedCursor | null, limit: number = 20): Promise<CursorPage<Booking>> {
+    const rows = await this.prisma.booking.findMany({
+      where: {
+        ownerId,
+        ...cursorWhere(cursor)
+      },
+      take: limit + 1,
+      orderBy: cursorOrderBy(cursor)
+    });
+    const page = toCursorPage('owner-bookings', rows, limit, cursor);
+    return {
+      ...page,
+      items: page.items.map(this.toDomain)
+    };
+  }
   async findByTenantId(tenantId: string, page: number = 1, limit: number = 20): Promise<{
     bookings: Booking[];
     total: number;
@@ -124,8 +147,9 @@ export class PrismaBookingRepository implements IBookingRepository {
    * 2. Room isActive = true
    * 3. Owner exists (via room.ownerId FK)
    * 4. No duplicate booking (same tenant + room + moveInDate with active status)
-   * 5. Creates booking
-   * 6. ★ NEW: Writes BOOKING_CREATED outbox event
+   * 5. Room is open on moveInDate and (Shared/PG) has a free bed for the stay
+   * 6. Creates booking
+   * 7. ★ NEW: Writes BOOKING_CREATED outbox event
    *
    * If ANY step fails, the entire transaction rolls back.
    * No partial state. No race conditions. No ghost bookings.
@@ -145,6 +169,7 @@ export class PrismaBookingRepository implements IBookingRepository {
     tenantEmail: string;
     tenantPhone: string;
     moveInDate: Date;
+    moveOutDate: Date | null;
     message: string | null;
   }): Promise<Booking> {
     try {
@@ -159,7 +184,10 @@ export class PrismaBookingRepository implements IBookingRepository {
             isActive: true,
             ownerId: true,
             title: true,
-            city: true
+            city: true,
+            roomType: true,
+            totalBeds: true,
+            availableFrom: true
           }
         });
         if (!room) {
@@ -191,7 +219,7 @@ export class PrismaBookingRepository implements IBookingRepository {
             roomId: bookingData.roomId,
             tenantEmail: bookingData.tenantEmail.toLowerCase(),
             status: {
-              in: ['PENDING', 'APPROVED']
+              in: ['PENDING', 'APPROVED', 'CONFIRMED', 'MOVED_IN']
             }
           }
         });
@@ -199,9 +227,13 @@ export class PrismaBookingRepository implements IBookingRepository {
           throw new DuplicateBookingError();
         }
 
-        // STEP 4: Create booking atomically
+        // STEP 4: Capacity — only APPROVED bookings hold beds, so this can't
+        // over-book by itself; it stops requests nobody could approve
         const normalizedDate = new Date(bookingData.moveInDate);
         normalizedDate.setUTCHours(0, 0, 0, 0);
+        await assertBedAvailable(tx, room, normalizedDate, bookingData.moveOutDate);
+
+        // STEP 5: Create booking atomically
         const booking = await tx.booking.create({
           data: {
             roomId: bookingData.roomId,
@@ -211,12 +243,17 @@ export class PrismaBookingRepository implements IBookingRepository {
             tenantEmail: bookingData.tenantEmail.toLowerCase(),
             tenantPhone: bookingData.tenantPhone,
             moveInDate: normalizedDate,
+            moveOutDate: bookingData.moveOutDate,
             message: bookingData.message,
             status: 'PENDING'
           }
         });
+        await recordBookingCreated(tx, booking.id, {
+          id: bookingData.tenantId,
+          role: 'TENANT'
+        });
 
-        // ★ STEP 5: Write BOOKING_CREATED outbox event (SAME TRANSACTION)
+        // ★ STEP 6: Write BOOKING_CREATED outbox event (SAME TRANSACTION)
         // This is the key to eliminating ghost bookings.
         // If this transaction commits, the event is guaranteed to exist.
         // The outbox worker will pick it up and send the notification.
@@ -300,30 +337,45 @@ export class PrismaBookingRepository implements IBookingRepository {
   /**
    * OPTIMISTIC LOCK UPDATE — Only updates if current status matches expectedStatus.
    * Returns null if 0 rows affected (concurrent modification detected).
+   *
+   * With a `transition` context the status change also gets its history row
+   * and outbox event (BookingTransitionWriter) in the same transaction.
    */
-  async updateWithOptimisticLock(id: string, expectedStatus: string, data: Partial<Booking>): Promise<Booking | null> {
+  async updateWithOptimisticLock(id: string, expectedStatus: string, data: Partial<Booking>, transition?: BookingTransitionContext): Promise<Booking | null> {
     try {
-      // updateMany allows WHERE on non-unique fields; returns count
-      const result = await this.prisma.booking.updateMany({
-        where: {
-          id,
-          status: expectedStatus as any
-        },
-        data: {
-          ...(data.status && {
-            status: data.status
-          })
+      const updated = await this.prisma.$transaction(async (tx: any) => {
+        // updateMany allows WHERE on non-unique fields; returns count
+        const result = await tx.booking.updateMany({
+          where: {
+            id,
+            status: expectedStatus as any
+          },
+          data: {
+            ...(data.status && {
+              status: data.status
+            })
+          }
+        });
+        if (result.count === 0) {
+          return null; // Concurrent modification — status already changed
         }
-      });
-      if (result.count === 0) {
-        return null; // Concurrent modification — status already changed
-      }
 
-      // Fetch and return the updated booking
-      const updated = await this.prisma.booking.findUnique({
-        where: {
-          id
+        // Fetch the updated booking
+        const booking = await tx.booking.findUnique({
+          where: {
+            id
+          }
+        });
+        if (booking && transition && data.status) {
+          await recordBookingTransition(tx, {
+            booking,
+            fromStatus: expectedStatus.toUpperCase() as PrismaBookingStatus,
+            toStatus: data.status.toUpperCase() as PrismaBookingStatus,
+            actor: transition.actor,
+            reason: transition.reason
+          });
         }
+        return booking;
       });
       return updated ? this.toDomain(updated) : null;
     } catch (error: any) {
@@ -359,6 +411,7 @@ export class PrismaBookingRepository implements IBookingRepository {
       tenantEmail: prismaBooking.tenantEmail,
       tenantPhone: prismaBooking.tenantPhone,
       moveInDate: prismaBooking.moveInDate instanceof Date ? prismaBooking.moveInDate.toISOString() : prismaBooking.moveInDate,
+      moveOutDate: prismaBooking.moveOutDate instanceof Date ? prismaBooking.moveOutDate.toISOString() : prismaBooking.moveOutDate ?? null,
       message: prismaBooking.message,
       status: (typeof prismaBooking.status === 'string' ? prismaBooking.status.toLowerCase() : prismaBooking.status) as BookingStatus,
       createdAt: prismaBooking.createdAt instanceof Date ? prismaBooking.createdAt.toISOString() : prismaBooking.createdAt,
@@ -78,12 +78,28 @@ export class PrismaPaymentRepository {
       throw new Error('Failed to find payment');
     }
   }
-  async findByTenantId(tenantId: string): Promise<Payment[]> {
+  /**
+   * Payment history, with the invoice number once one is issued
+   */
+  async findByTenantId(tenantId: string): Promise<Array<Payment & {
+    invoice: {
+      invoiceNumber: string;
+      issuedAt: Date;
+    } | null;
+  }>> {
     try {
       return await this.prisma.payment.findMany({
         where: {
           tenantId
         },
+        include: {
+          invoice: {
+            select: {
+              invoiceNumber: true,
+              issuedAt: true
+            }
+          }
+        },
         orderBy: {
           createdAt: 'desc'
         }
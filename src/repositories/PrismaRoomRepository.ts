@@ -4,10 +4,20 @@ import {
   Prisma,
   ReviewStatus } from
 '@prisma/client';
-import { Room as DomainRoom } from '../models/Room';
+import { Room as DomainRoom, RoomSort, RoomFacets, RoomFacetBucket } from '../models/Room';
+import { RoomRevisionContext, RoomUpdateResult } from '../models/RoomRevision';
+import { diffRoomFields, materialChanges } from '../utils/roomDiff';
 import { IRoomRepository } from './interfaces';
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { DecodedCursor, CursorPage, cursorWhere, cursorOrderBy, toCursorPage } from '../utils/cursor';
+import { LatLng, BoundingBox, EARTH_RADIUS_KM, DEFAULT_SEARCH_RADIUS_KM, boundingBoxForRadius } from '../utils/geo';
+import { CAPACITY_ROOM_TYPES, OCCUPYING_BOOKING_STATUSES } from '../services/RoomAvailabilityService';
+import { writeOutboxEvent } from '../services/OutboxWriter';
+import { OutboxAggregateType, OutboxEventType } from '../services/OutboxEventTypes';
+
+// Minimum pg_trgm word_similarity for a typo-tolerant match (0..1)
+const SEARCH_SIMILARITY_THRESHOLD = 0.4;
 export class PrismaRoomRepository implements IRoomRepository {
   private prisma: PrismaClient;
   constructor(prismaClient?: PrismaClient) {
@@ -26,14 +36,21 @@ export class PrismaRoomRepository implements IRoomRepository {
       city: r.city || '',
       location: r.location,
       landmark: r.landmark || '',
+      latitude: r.latitude ?? null,
+      longitude: r.longitude ?? null,
       pricePerMonth: r.pricePerMonth,
       roomType: r.roomType as DomainRoom['roomType'],
+      totalBeds: r.totalBeds,
+      availableFrom: r.availableFrom ? r.availableFrom.toISOString() : null,
+      bookingTokenAmount: r.bookingTokenAmount ?? null,
+      securityDeposit: r.securityDeposit ?? null,
       idealFor: (r.idealFor || []) as DomainRoom['idealFor'],
       amenities: r.amenities || [],
       images: r.images || [],
       rating: r.rating || 0,
       reviewsCount: r.reviewsCount || 0,
       isPopular: r.isPopular || false,
+      isVerified: r.reviewStatus === ReviewStatus.APPROVED,
       isActive: r.isActive,
       ownerId: r.ownerId,
       createdAt:
@@ -70,15 +87,24 @@ export class PrismaRoomRepository implements IRoomRepository {
       }
     }
 
-    // 2. NORMALIZE STRING FIELDS (trim whitespace)
+    // 2. COORDINATES: both or neither
+    this.assertCoordinatePair(data.latitude, data.longitude);
+
+    // 3. NORMALIZE STRING FIELDS (trim whitespace)
     const normalizedData = {
       title: String(data.title).trim(),
       description: data.description ? String(data.description).trim() : '',
       city: data.city ? String(data.city).trim() : '',
       location: String(data.location).trim(),
       landmark: data.landmark ? String(data.landmark).trim() : '',
+      latitude: data.latitude ?? null,
+      longitude: data.longitude ?? null,
       pricePerMonth: Number(data.pricePerMonth),
       roomType: data.roomType ? String(data.roomType).trim() : '',
+      totalBeds: data.totalBeds ?? 1,
+      availableFrom: data.availableFrom ? new Date(data.availableFrom) : null,
+      bookingTokenAmount: data.bookingTokenAmount ?? null,
+      securityDeposit: data.securityDeposit ?? null,
       idealFor: Array.isArray(data.idealFor) ?
       data.idealFor :
       data.idealFor ?
@@ -95,6 +121,13 @@ export class PrismaRoomRepository implements IRoomRepository {
     };
     return normalizedData;
   }
+  private assertCoordinatePair(latitude: unknown, longitude: unknown): void {
+    const hasLat = latitude !== undefined && latitude !== null;
+    const hasLng = longitude !== undefined && longitude !== null;
+    if (hasLat !== hasLng) {
+      throw new Error('latitude and longitude must be provided together');
+    }
+  }
   async create(data: any): Promise<DomainRoom> {
     try {
       logger.info('Creating room', {
@@ -104,17 +137,32 @@ export class PrismaRoomRepository implements IRoomRepository {
       // Normalize and validate data
       const normalizedData = await this.normalizeAndValidateRoomData(data);
 
-      // Create room in database
-      const room = await this.prisma.room.create({
-        data: normalizedData,
-        include: {
-          owner: {
-            select: {
-              id: true,
-              name: true
+      // Create room in database. Duplicate / fraud screening runs afterwards
+      // from the ROOM_CREATED event, so image hashing can't hold up or fail
+      // the insert; it only ranks the listing in the admin moderation queue.
+      const room = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.room.create({
+          data: normalizedData,
+          include: {
+            owner: {
+              select: {
+                id: true,
+                name: true
+              }
             }
           }
-        }
+        });
+        await writeOutboxEvent(tx, {
+          aggregateType: OutboxAggregateType.ROOM,
+          aggregateId: created.id,
+          eventType: OutboxEventType.ROOM_CREATED,
+          payload: {
+            roomId: created.id,
+            ownerId: created.ownerId,
+            createdAt: created.createdAt.toISOString()
+          }
+        });
+        return created;
       });
       logger.info('Room created successfully', {
         roomId: room.id
@@ -128,7 +176,7 @@ export class PrismaRoomRepository implements IRoomRepository {
       });
 
       // Re-throw validation errors as-is
-      if (error.message && error.message.includes('is required')) {
+      if (error.message && (error.message.includes('is required') || error.message.includes('provided together'))) {
         throw error;
       }
 
@@ -185,6 +233,8 @@ export class PrismaRoomRepository implements IRoomRepository {
    * ✅ Removed isVerified (does not exist in schema)
    * ✅ Uses reviewStatus enum for verification filtering
    * ✅ Maps Prisma types to domain Room via toDomain()
+   * ✅ Free-text `q`, `near` and `availableFrom` are delegated to findAllRaw()
+   *    (FTS + pg_trgm / haversine / bed-occupancy subquery)
    */
   async findAll(filters?: any): Promise<{
     rooms: DomainRoom[];
@@ -198,72 +248,12 @@ export class PrismaRoomRepository implements IRoomRepository {
         100
       );
       const skip = (page - 1) * limit;
-
-      // ========== TYPE-SAFE WHERE CLAUSE ==========
-      const where: Prisma.RoomWhereInput = {};
-
-      // String filters
-      if (
-      filters?.city &&
-      typeof filters.city === 'string' &&
-      filters.city.trim())
-      {
-        where.city = filters.city.trim();
-      }
-      if (
-      filters?.roomType &&
-      typeof filters.roomType === 'string' &&
-      filters.roomType.trim())
-      {
-        where.roomType = filters.roomType.trim();
-      }
-
-      // Numeric filters (price range)
-      if (
-      filters?.minPrice !== undefined &&
-      filters?.minPrice !== '' &&
-      filters?.minPrice !== null)
-      {
-        const minPrice = parseFloat(String(filters.minPrice));
-        if (!isNaN(minPrice)) {
-          where.pricePerMonth = {
-            ...(where.pricePerMonth as object || {}),
-            gte: minPrice
-          };
-        }
-      }
-      if (
-      filters?.maxPrice !== undefined &&
-      filters?.maxPrice !== '' &&
-      filters?.maxPrice !== null)
-      {
-        const maxPrice = parseFloat(String(filters.maxPrice));
-        if (!isNaN(maxPrice)) {
-          where.pricePerMonth = {
-            ...(where.pricePerMonth as object || {}),
-            lte: maxPrice
-          };
-        }
-      }
-
-      // Boolean filters
-      if (filters?.isPopular !== undefined && filters?.isPopular !== '') {
-        where.isPopular =
-        filters.isPopular === true || filters.isPopular === 'true';
-      }
-      if (filters?.onlyActive !== undefined && filters?.onlyActive !== '') {
-        where.isActive =
-        filters.onlyActive === true || filters.onlyActive === 'true';
-      }
-
-      // ✅ FIX: Use reviewStatus instead of isVerified (which doesn't exist)
-      if (filters?.isVerified !== undefined && filters?.isVerified !== '') {
-        const isVerified =
-        filters.isVerified === true || filters.isVerified === 'true';
-        if (isVerified) {
-          where.reviewStatus = ReviewStatus.APPROVED;
-        }
+      const needsRawPath = typeof filters?.q === 'string' && filters.q.trim() || filters?.near || filters?.availableFrom;
+      if (needsRawPath) {
+        return await this.findAllRaw(filters, skip, limit);
       }
+      const where = this.buildWhere(filters);
+      const orderBy = this.buildOrderBy(filters?.sort);
 
       // ========== EXECUTE QUERIES ==========
       const total = await this.prisma.room.count({
@@ -273,9 +263,7 @@ export class PrismaRoomRepository implements IRoomRepository {
         where,
         skip,
         take: limit,
-        orderBy: {
-          createdAt: 'desc'
-        },
+        orderBy,
         include: {
           owner: {
             select: {
@@ -298,6 +286,494 @@ export class PrismaRoomRepository implements IRoomRepository {
       throw new Error(`Failed to find rooms: ${error.message}`);
     }
   }
+
+  /**
+   * KEYSET (CURSOR) LISTING — newest first, stable under concurrent inserts.
+   * Same filters as findAll(); no total (counting defeats the point).
+   */
+  async findAllByCursor(filters: any, cursor: DecodedCursor | null, limit: number): Promise<CursorPage<DomainRoom>> {
+    try {
+      const take = Math.min(Math.max(limit || 20, 1), 100);
+      const prismaRooms = await this.prisma.room.findMany({
+        where: {
+          AND: [this.buildWhere(filters), cursorWhere(cursor)]
+        },
+        take: take + 1,
+        orderBy: cursorOrderBy(cursor),
+        include: {
+          owner: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      });
+      const page = toCursorPage('rooms', prismaRooms, take, cursor);
+      return {
+        ...page,
+        items: page.items.map((r) => this.toDomain(r))
+      };
+    } catch (error: any) {
+      logger.error('Error finding rooms by cursor', {
+        error: error.message,
+        code: error.code
+      });
+      throw new Error(`Failed to find rooms: ${error.message}`);
+    }
+  }
+
+  /**
+   * TYPE-SAFE WHERE CLAUSE for listing filters.
+   * Keep in sync with buildSqlConditions() — the raw-SQL search path
+   * must apply exactly the same visibility rules.
+   */
+  private buildWhere(filters?: any): Prisma.RoomWhereInput {
+    const where: Prisma.RoomWhereInput = {};
+
+    // String filters
+    if (
+    filters?.city &&
+    typeof filters.city === 'string' &&
+    filters.city.trim())
+    {
+      where.city = filters.city.trim();
+    }
+    if (
+    filters?.roomType &&
+    typeof filters.roomType === 'string' &&
+    filters.roomType.trim())
+    {
+      where.roomType = filters.roomType.trim();
+    }
+
+    // Array filters
+    if (filters?.idealFor && typeof filters.idealFor === 'string') {
+      where.idealFor = {
+        has: filters.idealFor
+      };
+    }
+    const amenities = this.parseAmenities(filters?.amenities);
+    if (amenities.length > 0) {
+      where.amenities = filters?.amenitiesMatch === 'any' ? {
+        hasSome: amenities
+      } : {
+        hasEvery: amenities
+      };
+    }
+
+    // Numeric filters (price range)
+    const minPrice = this.parsePrice(filters?.minPrice);
+    if (minPrice !== null) {
+      where.pricePerMonth = {
+        ...(where.pricePerMonth as object || {}),
+        gte: minPrice
+      };
+    }
+    const maxPrice = this.parsePrice(filters?.maxPrice);
+    if (maxPrice !== null) {
+      where.pricePerMonth = {
+        ...(where.pricePerMonth as object || {}),
+        lte: maxPrice
+      };
+    }
+
+    // Boolean filters
+    if (filters?.isPopular !== undefined && filters?.isPopular !== '') {
+      where.isPopular =
+      filters.isPopular === true || filters.isPopular === 'true';
+    }
+    if (filters?.onlyActive !== undefined && filters?.onlyActive !== '') {
+      where.isActive =
+      filters.onlyActive === true || filters.onlyActive === 'true';
+    }
+
+    // ✅ FIX: Use reviewStatus instead of isVerified (which doesn't exist)
+    if (this.isVerifiedFilter(filters)) {
+      where.reviewStatus = ReviewStatus.APPROVED;
+    }
+
+    // Map viewport (radius search needs haversine → raw path only)
+    const bbox: BoundingBox | undefined = filters?.bbox;
+    if (bbox) {
+      where.latitude = {
+        gte: bbox.minLat,
+        lte: bbox.maxLat
+      };
+      where.longitude = {
+        gte: bbox.minLng,
+        lte: bbox.maxLng
+      };
+    }
+    return where;
+  }
+
+  /**
+   * Raw-SQL twin of buildWhere(), used where Prisma's query builder can't
+   * express the ranking (full-text search). Every value is parameterised.
+   */
+  private buildSqlConditions(filters?: any): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+    if (
+    filters?.city &&
+    typeof filters.city === 'string' &&
+    filters.city.trim())
+    {
+      conditions.push(Prisma.sql`r."city" = ${filters.city.trim()}`);
+    }
+    if (
+    filters?.roomType &&
+    typeof filters.roomType === 'string' &&
+    filters.roomType.trim())
+    {
+      conditions.push(Prisma.sql`r."roomType" = ${filters.roomType.trim()}`);
+    }
+    if (filters?.idealFor && typeof filters.idealFor === 'string') {
+      conditions.push(Prisma.sql`${filters.idealFor} = ANY(r."idealFor")`);
+    }
+    const amenities = this.parseAmenities(filters?.amenities);
+    if (amenities.length > 0) {
+      conditions.push(filters?.amenitiesMatch === 'any' ?
+      Prisma.sql`r."amenities" && ${amenities}::text[]` :
+      Prisma.sql`r."amenities" @> ${amenities}::text[]`);
+    }
+    const minPrice = this.parsePrice(filters?.minPrice);
+    if (minPrice !== null) {
+      conditions.push(Prisma.sql`r."pricePerMonth" >= ${minPrice}`);
+    }
+    const maxPrice = this.parsePrice(filters?.maxPrice);
+    if (maxPrice !== null) {
+      conditions.push(Prisma.sql`r."pricePerMonth" <= ${maxPrice}`);
+    }
+    if (filters?.isPopular !== undefined && filters?.isPopular !== '') {
+      conditions.push(Prisma.sql`r."isPopular" = ${filters.isPopular === true || filters.isPopular === 'true'}`);
+    }
+    if (filters?.onlyActive !== undefined && filters?.onlyActive !== '') {
+      conditions.push(Prisma.sql`r."isActive" = ${filters.onlyActive === true || filters.onlyActive === 'true'}`);
+    }
+    if (this.isVerifiedFilter(filters)) {
+      conditions.push(Prisma.sql`r."reviewStatus" = 'APPROVED'::"ReviewStatus"`);
+    }
+    const bbox: BoundingBox | undefined = filters?.bbox;
+    if (bbox) {
+      conditions.push(Prisma.sql`r."latitude" BETWEEN ${bbox.minLat} AND ${bbox.maxLat}`);
+      conditions.push(Prisma.sql`r."longitude" BETWEEN ${bbox.minLng} AND ${bbox.maxLng}`);
+    }
+    const near: LatLng | undefined = filters?.near;
+    if (near) {
+      // Index-friendly box first, exact haversine second
+      const radiusKm = Number(filters.radiusKm) > 0 ? Number(filters.radiusKm) : DEFAULT_SEARCH_RADIUS_KM;
+      const box = boundingBoxForRadius(near, radiusKm);
+      conditions.push(Prisma.sql`r."latitude" BETWEEN ${box.minLat} AND ${box.maxLat}`);
+      conditions.push(Prisma.sql`r."longitude" BETWEEN ${box.minLng} AND ${box.maxLng}`);
+      conditions.push(Prisma.sql`${this.haversineKmSql(near)} <= ${radiusKm}`);
+    }
+    const availableFrom: Date | undefined = filters?.availableFrom;
+    if (availableFrom) {
+      // Open by that date, and for capacity-tracked types fewer occupied beds than totalBeds
+      // (mirrors occupancyOn() in RoomAvailabilityService)
+      conditions.push(Prisma.sql`(r."availableFrom" IS NULL OR r."availableFrom" <= ${availableFrom})`);
+      conditions.push(Prisma.sql`(r."roomType" NOT IN (${Prisma.join(CAPACITY_ROOM_TYPES)}) OR r."totalBeds" > (
+        SELECT COUNT(*) FROM "Booking" b
+        WHERE b."roomId" = r."id"
+          AND b."status"::text IN (${Prisma.join(OCCUPYING_BOOKING_STATUSES)})
+          AND b."moveInDate" <= ${availableFrom}
+          AND (b."moveOutDate" IS NULL OR b."moveOutDate" > ${availableFrom})
+      ))`);
+    }
+    return Prisma.join(conditions, ' AND ');
+  }
+  private parseAmenities(value: unknown): string[] {
+    const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    return list.map((a) => String(a).trim()).filter(Boolean);
+  }
+  private parsePrice(value: unknown): number | null {
+    if (value === undefined || value === '' || value === null) return null;
+    const parsed = parseFloat(String(value));
+    return isNaN(parsed) ? null : parsed;
+  }
+  private isVerifiedFilter(filters?: any): boolean {
+    if (filters?.isVerified === undefined || filters?.isVerified === '') return false;
+    return filters.isVerified === true || filters.isVerified === 'true';
+  }
+
+  /**
+   * Listing sort → Prisma orderBy. Every order ends on (createdAt, id) so
+   * pages are stable. distance/relevance only exist on the raw path.
+   */
+  private buildOrderBy(sort?: RoomSort): Prisma.RoomOrderByWithRelationInput[] {
+    const tieBreak: Prisma.RoomOrderByWithRelationInput[] = [{
+      createdAt: 'desc'
+    }, {
+      id: 'desc'
+    }];
+    switch (sort) {
+      case 'price_asc':
+        return [{
+          pricePerMonth: 'asc'
+        }, ...tieBreak];
+      case 'price_desc':
+        return [{
+          pricePerMonth: 'desc'
+        }, ...tieBreak];
+      case 'rating':
+        return [{
+          rating: 'desc'
+        }, {
+          reviewsCount: 'desc'
+        }, ...tieBreak];
+      case 'popularity':
+        return [{
+          isPopular: 'desc'
+        }, {
+          propertyViews: {
+            _count: 'desc'
+          }
+        }, ...tieBreak];
+      default:
+        return tieBreak;
+    }
+  }
+
+  /**
+   * Raw-SQL twin of buildOrderBy(). Expects the select list of findAllRaw()
+   * (rank / "distanceKm" aliases).
+   */
+  private buildSqlOrderBy(sort: RoomSort | undefined, hasQuery: boolean, hasNear: boolean): Prisma.Sql {
+    const tieBreak = Prisma.sql`r."createdAt" DESC, r."id" DESC`;
+    switch (sort) {
+      case 'price_asc':
+        return Prisma.sql`r."pricePerMonth" ASC, ${tieBreak}`;
+      case 'price_desc':
+        return Prisma.sql`r."pricePerMonth" DESC, ${tieBreak}`;
+      case 'rating':
+        return Prisma.sql`r."rating" DESC, r."reviewsCount" DESC, ${tieBreak}`;
+      case 'popularity':
+        return Prisma.sql`r."isPopular" DESC,
+          (SELECT COUNT(*) FROM "PropertyView" pv WHERE pv."propertyId" = r."id") DESC, ${tieBreak}`;
+      case 'distance':
+        if (hasNear) return Prisma.sql`"distanceKm" ASC, ${tieBreak}`;
+        break;
+      case 'newest':
+        return tieBreak;
+    }
+    // relevance (explicit or default when searching)
+    return hasQuery ? Prisma.sql`rank DESC, ${tieBreak}` : tieBreak;
+  }
+
+  /**
+   * FROM / WHERE / computed columns shared by findAllRaw() and getFacets().
+   *
+   * Full-text (`q`):
+   * 1. Weighted tsvector: title/landmark (A) > location (B) > description (C),
+   *    stored in the generated "searchVector" column (GIN-indexed)
+   * 2. websearch_to_tsquery — accepts natural input ("girls PG with food", quoted phrases, -exclusions)
+   * 3. Typo tolerance: rows that miss the tsquery still match when pg_trgm
+   *    `<%` (word_similarity ≥ SEARCH_SIMILARITY_THRESHOLD) hits title, location
+   *    or landmark — one trigram index each. The threshold is a session
+   *    setting, so these queries go through runSearchQueries().
+   * 4. rank = ts_rank_cd + 0.5 * best word_similarity
+   * 5. ts_headline snippets (evaluated for the returned page only)
+   */
+  private buildRawQueryParts(filters: any): {
+    q: string | null;
+    from: Prisma.Sql;
+    where: Prisma.Sql;
+    rank: Prisma.Sql;
+    titleHighlight: Prisma.Sql;
+    snippet: Prisma.Sql;
+  } {
+    const q = this.searchTerm(filters);
+    const where = this.buildSqlConditions(filters);
+    if (!q) {
+      return {
+        q,
+        from: Prisma.sql`"Room" r`,
+        where,
+        rank: Prisma.sql`NULL::float8`,
+        titleHighlight: Prisma.sql`NULL::text`,
+        snippet: Prisma.sql`NULL::text`
+      };
+    }
+    const fuzzyColumns = [Prisma.sql`r."title"`, Prisma.sql`r."location"`, Prisma.sql`r."landmark"`];
+    const fuzzyMatch = Prisma.join(fuzzyColumns.map((column) => Prisma.sql`${q} <% ${column}`), ' OR ');
+    const fuzzyScore = Prisma.sql`GREATEST(${Prisma.join(fuzzyColumns.map((column) => Prisma.sql`word_similarity(${q}, ${column})`))})`;
+    return {
+      q,
+      from: Prisma.sql`"Room" r, websearch_to_tsquery('english', ${q}) query`,
+      where: Prisma.sql`${where} AND (
+        r."searchVector" @@ query
+        OR ${fuzzyMatch}
+      )`,
+      rank: Prisma.sql`(ts_rank_cd(r."searchVector", query) + 0.5 * ${fuzzyScore})::float8`,
+      titleHighlight: Prisma.sql`ts_headline('english', r."title", query,
+        'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')`,
+      snippet: Prisma.sql`ts_headline('english', concat_ws(' · ', r."description", r."location", r."landmark"), query,
+        'MaxFragments=2, MaxWords=25, MinWords=10, StartSel=<mark>, StopSel=</mark>')`
+    };
+  }
+
+  private searchTerm(filters: any): string | null {
+    return typeof filters?.q === 'string' && filters.q.trim() ? filters.q.trim() : null;
+  }
+
+  /**
+   * Run raw listing queries; with a search term, in one transaction that
+   * first sets pg_trgm's `<%` threshold to SEARCH_SIMILARITY_THRESHOLD
+   * (set_config(..., true) only lasts until the transaction ends).
+   */
+  private async runSearchQueries<T extends Prisma.PrismaPromise<unknown>[]>(q: string | null, queries: [...T]): Promise<{ [K in keyof T]: Awaited<T[K]> }> {
+    if (!q) return Promise.all(queries) as Promise<{ [K in keyof T]: Awaited<T[K]> }>;
+    const [, ...results] = await this.prisma.$transaction([
+    this.prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(SEARCH_SIMILARITY_THRESHOLD)}, true)`,
+    ...queries]
+    );
+    return results as { [K in keyof T]: Awaited<T[K]> };
+  }
+
+  /**
+   * RAW-SQL LISTING PATH — free-text relevance and/or geo distance
+   *
+   * Geo (`near`): haversine distance in km, returned per room as distanceKm.
+   * Ordering: explicit sort wins; otherwise rank (when q); otherwise newest.
+   *
+   * Visibility rules (isActive / reviewStatus) and all other filters come
+   * from buildSqlConditions().
+   */
+  private async findAllRaw(filters: any, skip: number, limit: number): Promise<{
+    rooms: DomainRoom[];
+    total: number;
+  }> {
+    const near: LatLng | undefined = filters?.near;
+    const { q, from, where, rank, titleHighlight, snippet } = this.buildRawQueryParts(filters);
+    const distance = near ? Prisma.sql`${this.haversineKmSql(near)}::float8` : Prisma.sql`NULL::float8`;
+    const orderBy = this.buildSqlOrderBy(filters?.sort, !!q, !!near);
+    const [countRows, hits] = await this.runSearchQueries(q, [this.prisma.$queryRaw<{
+      total: number;
+    }[]>`
+        SELECT COUNT(*)::int AS total
+        FROM ${from}
+        WHERE ${where}
+      `, this.prisma.$queryRaw<{
+      id: string;
+      rank: number | null;
+      distanceKm: number | null;
+      titleHighlight: string | null;
+      snippet: string | null;
+    }[]>`
+        SELECT
+          r."id",
+          ${rank} AS rank,
+          ${distance} AS "distanceKm",
+          ${titleHighlight} AS "titleHighlight",
+          ${snippet} AS snippet
+        FROM ${from}
+        WHERE ${where}
+        ORDER BY ${orderBy}
+        OFFSET ${skip}
+        LIMIT ${limit}
+      `]);
+    if (hits.length === 0) {
+      return {
+        rooms: [],
+        total: countRows[0]?.total ?? 0
+      };
+    }
+    const prismaRooms = await this.prisma.room.findMany({
+      where: {
+        id: {
+          in: hits.map((h) => h.id)
+        }
+      },
+      include: {
+        owner: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      }
+    });
+    const byId = new Map(prismaRooms.map((r) => [r.id, r]));
+    const rooms: DomainRoom[] = [];
+    for (const hit of hits) {
+      const room = byId.get(hit.id);
+      if (!room) continue; // deleted between the two queries
+      rooms.push({
+        ...this.toDomain(room),
+        ...(q && {
+          search: {
+            rank: Number(hit.rank),
+            titleHighlight: hit.titleHighlight ?? room.title,
+            snippet: hit.snippet ?? ''
+          }
+        }),
+        ...(hit.distanceKm !== null && {
+          distanceKm: Math.round(Number(hit.distanceKm) * 100) / 100
+        })
+      });
+    }
+    return {
+      rooms,
+      total: countRows[0]?.total ?? 0
+    };
+  }
+
+  /**
+   * FACET COUNTS — amenities / roomType / city for the current filter set.
+   * Disjunctive: each dimension ignores its own filter (see RoomFacets).
+   */
+  async getFacets(filters?: any): Promise<RoomFacets> {
+    try {
+      const facetQuery = (ownFilter: Record<string, undefined>, valueSql: Prisma.Sql, joinSql: Prisma.Sql = Prisma.empty) => {
+        const { from, where } = this.buildRawQueryParts({
+          ...filters,
+          ...ownFilter
+        });
+        return this.prisma.$queryRaw<RoomFacetBucket[]>`
+          SELECT ${valueSql} AS value, COUNT(*)::int AS count
+          FROM ${from} ${joinSql}
+          WHERE ${where}
+          GROUP BY 1
+          ORDER BY count DESC, value ASC
+        `;
+      };
+      const [amenities, roomType, city] = await this.runSearchQueries(this.searchTerm(filters), [
+      facetQuery({
+        amenities: undefined
+      }, Prisma.sql`amenity`, Prisma.sql`CROSS JOIN LATERAL unnest(r."amenities") AS amenity`),
+      facetQuery({
+        roomType: undefined
+      }, Prisma.sql`r."roomType"`),
+      facetQuery({
+        city: undefined
+      }, Prisma.sql`r."city"`)]
+      );
+      return {
+        amenities,
+        roomType,
+        city
+      };
+    } catch (error: any) {
+      logger.error('Error computing room facets', {
+        error: error.message,
+        code: error.code
+      });
+      throw new Error(`Failed to compute facets: ${error.message}`);
+    }
+  }
+
+  /**
+   * Great-circle distance (km) from `point` to the room, haversine formula.
+   * Rooms without coordinates yield NULL and never satisfy a radius filter.
+   */
+  private haversineKmSql(point: LatLng): Prisma.Sql {
+    return Prisma.sql`(${EARTH_RADIUS_KM}::float8 * 2 * asin(sqrt(
+      power(sin(radians(r."latitude" - ${point.lat}::float8) / 2), 2) +
+      cos(radians(${point.lat}::float8)) * cos(radians(r."latitude")) *
+      power(sin(radians(r."longitude" - ${point.lng}::float8) / 2), 2)
+    )))`;
+  }
   async findByOwnerId(ownerId: string): Promise<DomainRoom[]> {
     try {
       const rooms = await this.prisma.room.findMany({
@@ -349,11 +825,11 @@ export class PrismaRoomRepository implements IRoomRepository {
   id: string,
   data: Partial<DomainRoom>)
   : Promise<DomainRoom | null> {
+    if ('latitude' in data || 'longitude' in data) {
+      this.assertCoordinatePair(data.latitude, data.longitude);
+    }
     try {
-      const { id: _id, ownerId, createdAt, updatedAt, ...rest } = data;
-      const safeUpdate: Prisma.RoomUpdateInput = {
-        ...rest
-      };
+      const safeUpdate = this.toUpdateData(data);
       const room = await this.prisma.room.update({
         where: {
           id
@@ -372,6 +848,105 @@ export class PrismaRoomRepository implements IRoomRepository {
       throw new Error('Failed to update room');
     }
   }
+
+  /**
+   * VERSIONED UPDATE — room update + RoomRevision in one transaction.
+   *
+   * The room row is locked first so concurrent edits get consecutive
+   * revision numbers and each diff is taken against the state it replaced.
+   * Updates that change no revisioned field write no revision.
+   */
+  async updateWithRevision(id: string, data: Partial<DomainRoom>, context: RoomRevisionContext): Promise<RoomUpdateResult> {
+    if ('latitude' in data || 'longitude' in data) {
+      this.assertCoordinatePair(data.latitude, data.longitude);
+    }
+    try {
+      const safeUpdate = this.toUpdateData(data);
+      const result = await this.prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${id} FOR UPDATE`;
+        const current = await tx.room.findUniqueOrThrow({
+          where: {
+            id
+          }
+        });
+        const changes = diffRoomFields(current, safeUpdate as Record<string, unknown>);
+        const material = materialChanges(changes, context.rules);
+        const statusReset = current.reviewStatus === ReviewStatus.APPROVED && material.length > 0;
+        const room = await tx.room.update({
+          where: {
+            id
+          },
+          data: {
+            ...safeUpdate,
+            ...(statusReset && {
+              reviewStatus: ReviewStatus.PENDING
+            })
+          }
+        });
+        if (changes.length === 0) {
+          return {
+            room,
+            revision: null,
+            statusReset
+          };
+        }
+        const last = await tx.roomRevision.aggregate({
+          where: {
+            roomId: id
+          },
+          _max: {
+            revision: true
+          }
+        });
+        const revision = (last._max.revision ?? 0) + 1;
+        await tx.roomRevision.create({
+          data: {
+            roomId: id,
+            revision,
+            changedBy: context.changedBy,
+            changedFields: changes.map((c) => c.field),
+            before: Object.fromEntries(changes.map((c) => [c.field, c.before])) as Prisma.InputJsonObject,
+            after: Object.fromEntries(changes.map((c) => [c.field, c.after])) as Prisma.InputJsonObject,
+            materialFields: material.map((c) => c.field),
+            statusReset
+          }
+        });
+        return {
+          room,
+          revision,
+          statusReset
+        };
+      });
+      logger.info('Room updated with revision', {
+        roomId: id,
+        revision: result.revision,
+        statusReset: result.statusReset
+      });
+      return {
+        ...result,
+        room: this.toDomain(result.room)
+      };
+    } catch (error: any) {
+      logger.error('Error updating room with revision', {
+        error: error.message,
+        stack: error.stack
+      });
+      throw new Error('Failed to update room');
+    }
+  }
+
+  /**
+   * Strip read-only / computed fields and convert to Prisma's update shape.
+   */
+  private toUpdateData(data: Partial<DomainRoom>): Prisma.RoomUpdateInput {
+    const { id: _id, ownerId, createdAt, updatedAt, search, distanceKm, availableFrom, ...rest } = data;
+    return {
+      ...rest,
+      ...(availableFrom !== undefined && {
+        availableFrom: availableFrom ? new Date(availableFrom) : null
+      })
+    };
+  }
   async delete(id: string): Promise<boolean> {
     try {
       await this.prisma.room.delete({
@@ -1,8 +1,11 @@
 import { User } from '@prisma/client';
-import { Room, RoomFilters } from '../models/Room';
+import { Room, RoomFilters, RoomFacets } from '../models/Room';
+import { RoomRevisionContext, RoomUpdateResult } from '../models/RoomRevision';
 import { Booking } from '../models/Booking';
+import { BookingTransitionContext } from '../services/BookingTransitionWriter';
 import { TenantSubscription } from '../models/TenantSubscription';
 import { Payment } from '../models/Payment';
+import { DecodedCursor, CursorPage } from '../utils/cursor';
 
 /**
  * Repository Interfaces
@@ -30,10 +33,17 @@ export interface IRoomRepository {
     rooms: Room[];
     total: number;
   }>;
+  findAllByCursor(filters: RoomFilters, cursor: DecodedCursor | null, limit: number): Promise<CursorPage<Room>>;
+  getFacets(filters?: RoomFilters): Promise<RoomFacets>;
   findById(id: string): Promise<Room | null>;
   findByOwnerId(ownerId: string): Promise<Room[]>;
   create(roomData: Omit<Room, 'id' | 'createdAt' | 'updatedAt'>): Promise<Room>;
   update(id: string, roomData: Partial<Room>): Promise<Room | null>;
+  /**
+   * Update + immutable RoomRevision in one transaction. An APPROVED room goes
+   * back to PENDING when a material field changes (see utils/roomDiff).
+   */
+  updateWithRevision(id: string, roomData: Partial<Room>, context: RoomRevisionContext): Promise<RoomUpdateResult>;
   delete(id: string): Promise<boolean>;
   toggleRoomStatus(id: string): Promise<Room | null>;
 }
@@ -53,6 +63,7 @@ export interface IBookingRepository {
     bookings: Booking[];
     total: number;
   }>;
+  findByOwnerIdCursor(ownerId: string, cursor: DecodedCursor | null, limit?: number): Promise<CursorPage<Booking>>;
   create(bookingData: Omit<Booking, 'id' | 'createdAt' | 'updatedAt'>): Promise<Booking>;
   update(id: string, bookingData: Partial<Booking>): Promise<Booking | null>;
   delete(id: string): Promise<boolean>;
@@ -69,6 +80,7 @@ export interface IBookingRepository {
     tenantEmail: string;
     tenantPhone: string;
     moveInDate: Date;
+    moveOutDate: Date | null;
     message: string | null;
   }): Promise<Booking>;
 
@@ -76,7 +88,7 @@ export interface IBookingRepository {
    * OPTIMISTIC LOCK UPDATE — Only updates if current status matches expectedStatus.
    * Returns null if 0 rows affected (concurrent modification detected).
    */
-  updateWithOptimisticLock(id: string, expectedStatus: string, data: Partial<Booking>): Promise<Booking | null>;
+  updateWithOptimisticLock(id: string, expectedStatus: string, data: Partial<Booking>, transition?: BookingTransitionContext): Promise<Booking | null>;
 }
 
 // ============================================================================
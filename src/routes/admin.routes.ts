@@ -1,9 +1,42 @@
 import { Router } from 'express';
 import { AdminController } from '../controllers/AdminController';
 import { adminAssignmentController } from '../controllers/AdminAssignmentController';
+import { ReviewController } from '../controllers/ReviewController';
+import { ReviewService } from '../services/ReviewService';
+import { RoomRevisionController } from '../controllers/RoomRevisionController';
+import { RoomRevisionService } from '../services/RoomRevisionService';
 import { authMiddleware, requireAdmin } from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import { HideReviewSchema } from '../models/Review';
+import { PaymentReconciliationController } from '../controllers/PaymentReconciliationController';
+import { PaymentReconciliationService } from '../services/PaymentReconciliationService';
+import { PaymentRefundController } from '../controllers/PaymentRefundController';
+import { refundService } from '../services/RefundService';
+import { TenantSubscriptionService } from '../services/TenantSubscriptionService';
+import { ReconciliationRunListQuerySchema, CreateSubscriptionRefundSchema } from '../models/Payment';
+import { CouponController } from '../controllers/CouponController';
+import { couponService } from '../services/CouponService';
+import { CreateCouponSchema, UpdateCouponSchema, CouponListQuerySchema, CouponRedemptionQuerySchema } from '../models/Coupon';
+import { PlanCatalogController } from '../controllers/PlanCatalogController';
+import { planCatalogService } from '../services/PlanCatalogService';
+import { CreatePlanSchema, UpdatePlanSchema, SetCityPriceSchema, SetPlanLimitSchema, PlanListQuerySchema } from '../models/Plan';
+import { BundleController } from '../controllers/BundleController';
+import { bundleService } from '../services/BundleService';
+import { CreateBundleSchema, UpdateBundleSchema, BundleListQuerySchema } from '../models/Bundle';
+import { ContactTopUpController } from '../controllers/ContactTopUpController';
+import { contactTopUpService } from '../services/ContactTopUpService';
+import { CreateTopUpPackSchema, UpdateTopUpPackSchema, TopUpPackListQuerySchema } from '../models/ContactTopUp';
+import { tenantSubscriptionRepository, propertyViewRepository, roomRepository } from '../repositories';
 const router = Router();
 const adminController = new AdminController();
+const reviewController = new ReviewController(new ReviewService());
+const roomRevisionController = new RoomRevisionController(new RoomRevisionService());
+const paymentRefundController = new PaymentRefundController(refundService);
+const couponController = new CouponController(couponService);
+const planCatalogController = new PlanCatalogController(planCatalogService);
+const bundleController = new BundleController(bundleService);
+const contactTopUpController = new ContactTopUpController(contactTopUpService);
+const paymentReconciliationController = new PaymentReconciliationController(new PaymentReconciliationService(new TenantSubscriptionService(tenantSubscriptionRepository, propertyViewRepository, roomRepository)));
 
 // All admin routes require authentication and admin role
 router.use(authMiddleware);
@@ -40,6 +73,70 @@ router.patch('/properties/:id/reject', (req, res, next) => adminController.rejec
 router.patch('/properties/:id/needs-correction', (req, res, next) => adminController.requestCorrection(req as any, res));
 router.patch('/properties/:id/suspend', (req, res, next) => adminController.suspendProperty(req as any, res));
 
+// Listing version history (written on every owner edit)
+router.get('/properties/:id/revisions', (req, res, next) => roomRevisionController.getTimeline(req as any, res));
+router.get('/properties/:id/revisions/:revision', (req, res, next) => roomRevisionController.getRevision(req as any, res));
+
+// ============================================================================
+// REVIEW MODERATION
+// ============================================================================
+
+router.patch('/reviews/:reviewId/hide', validateBody(HideReviewSchema), (req, res, next) => reviewController.hideReview(req as any, res));
+router.patch('/reviews/:reviewId/unhide', (req, res, next) => reviewController.unhideReview(req as any, res));
+
+// ============================================================================
+// PAYMENTS — RECONCILIATION & REFUNDS
+// ============================================================================
+
+router.get('/payments/reconciliation', validateQuery(ReconciliationRunListQuerySchema), (req, res, next) => paymentReconciliationController.listRuns(req as any, res));
+router.post('/payments/reconciliation', (req, res, next) => paymentReconciliationController.triggerRun(req as any, res));
+router.get('/payments/reconciliation/:runId', (req, res, next) => paymentReconciliationController.getRun(req as any, res));
+
+// Subscription refunds (booking payments follow the booking refund policy)
+router.post('/payments/:paymentId/refunds', validateBody(CreateSubscriptionRefundSchema), (req, res, next) => paymentRefundController.refundSubscriptionPayment(req as any, res));
+router.get('/payments/:paymentId/refunds', (req, res, next) => paymentRefundController.listRefunds(req as any, res));
+
+// ============================================================================
+// PLAN CATALOGUE — plans, city pricing, contact limits
+// ============================================================================
+
+router.get('/plans', validateQuery(PlanListQuerySchema), (req, res, next) => planCatalogController.listPlans(req as any, res));
+router.get('/plans/validation', (req, res, next) => planCatalogController.validateCatalogue(req as any, res));
+router.post('/plans', validateBody(CreatePlanSchema), (req, res, next) => planCatalogController.createPlan(req as any, res));
+router.patch('/plans/:name', validateBody(UpdatePlanSchema), (req, res, next) => planCatalogController.updatePlan(req as any, res));
+router.delete('/plans/:name', (req, res, next) => planCatalogController.deletePlan(req as any, res));
+router.put('/plans/:name/pricing/:city', validateBody(SetCityPriceSchema), (req, res, next) => planCatalogController.setCityPrice(req as any, res));
+router.delete('/plans/:name/pricing/:city', (req, res, next) => planCatalogController.removeCityPrice(req as any, res));
+router.get('/plans/:name/pricing/:city/history', (req, res, next) => planCatalogController.getPriceHistory(req as any, res));
+router.delete('/plans/:name/pricing/:city/versions/:pricingId', (req, res, next) => planCatalogController.cancelScheduledPrice(req as any, res));
+router.put('/plans/:name/limits/:city', validateBody(SetPlanLimitSchema), (req, res, next) => planCatalogController.setLimitOverride(req as any, res));
+router.delete('/plans/:name/limits/:city', (req, res, next) => planCatalogController.removeLimitOverride(req as any, res));
+
+// ============================================================================
+// BUNDLES — multi-city plans
+// ============================================================================
+
+router.get('/bundles', validateQuery(BundleListQuerySchema), (req, res, next) => bundleController.listBundles(req as any, res));
+router.post('/bundles', validateBody(CreateBundleSchema), (req, res, next) => bundleController.createBundle(req as any, res));
+router.patch('/bundles/:code', validateBody(UpdateBundleSchema), (req, res, next) => bundleController.updateBundle(req as any, res));
+
+// ============================================================================
+// CONTACT TOP-UP PACKS — extra unlocks beyond a plan's limit
+// ============================================================================
+
+router.get('/contact-top-ups', validateQuery(TopUpPackListQuerySchema), (req, res, next) => contactTopUpController.listPacks(req as any, res));
+router.post('/contact-top-ups', validateBody(CreateTopUpPackSchema), (req, res, next) => contactTopUpController.createPack(req as any, res));
+router.patch('/contact-top-ups/:code', validateBody(UpdateTopUpPackSchema), (req, res, next) => contactTopUpController.updatePack(req as any, res));
+
+// ============================================================================
+// COUPONS
+// ============================================================================
+
+router.get('/coupons', validateQuery(CouponListQuerySchema), (req, res, next) => couponController.listCoupons(req as any, res));
+router.post('/coupons', validateBody(CreateCouponSchema), (req, res, next) => couponController.createCoupon(req as any, res));
+router.patch('/coupons/:id', validateBody(UpdateCouponSchema), (req, res, next) => couponController.updateCoupon(req as any, res));
+router.get('/coupons/:id/redemptions', validateQuery(CouponRedemptionQuerySchema), (req, res, next) => couponController.getRedemptionReport(req as any, res));
+
 // ============================================================================
 // AGENT ASSIGNMENT MANAGEMENT (NEW)
 // ============================================================================
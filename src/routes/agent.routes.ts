@@ -42,7 +42,8 @@ router.use(requireAgent);
 /**
  * GET /api/agent/properties
  *
- * Returns properties assigned to the authenticated agent.
+ * Returns properties assigned to the authenticated agent, each with its
+ * upcoming visits (manage them via /api/visits).
  *
  * Response: {
  *   success: boolean,
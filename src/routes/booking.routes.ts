@@ -6,6 +6,14 @@ import { idempotencyMiddleware } from '../middleware/idempotency.middleware';
 import { BookingService } from '../services/BookingService';
 import { PrismaBookingRepository } from '../repositories/PrismaBookingRepository';
 import { PrismaRoomRepository } from '../repositories/PrismaRoomRepository';
+import { BookingMessageController } from '../controllers/BookingMessageController';
+import { BookingMessageService } from '../services/BookingMessageService';
+import { BookingPaymentController } from '../controllers/BookingPaymentController';
+import { BookingPaymentService } from '../services/BookingPaymentService';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import { UpdateBookingStatusSchema, CancelBookingSchema } from '../models/Booking';
+import { SendBookingMessageSchema, BookingMessageListQuerySchema } from '../models/BookingMessage';
+import { CreateBookingPaymentSchema, VerifyBookingPaymentSchema } from '../models/Payment';
 import { Role } from '@prisma/client';
 const router = Router();
 
@@ -14,6 +22,8 @@ const bookingRepository = new PrismaBookingRepository();
 const roomRepository = new PrismaRoomRepository();
 const bookingService = new BookingService(bookingRepository, roomRepository);
 const bookingController = new BookingController(bookingService);
+const bookingMessageController = new BookingMessageController(new BookingMessageService());
+const bookingPaymentController = new BookingPaymentController(new BookingPaymentService());
 
 // ✅ READ — Tenant bookings
 // FIX: Frontend calls /bookings/my, keep /my-bookings as alias for backward compat
@@ -27,11 +37,25 @@ router.get('/owner', authMiddleware, authorizeRoles(Role.OWNER, Role.ADMIN), (re
 // ✅ CREATE
 router.post('/', authMiddleware, authorizeRoles(Role.TENANT, Role.ADMIN), bookingRateLimiter, idempotencyMiddleware(), (req, res, next) => bookingController.createBooking(req as any, res, next));
 
-// ✅ UPDATE STATUS
+// ✅ UPDATE STATUS — approve / reject / moved_in / completed (see BookingStateMachine)
 // FIX: Frontend calls PATCH, keep PUT as alias for backward compat
-router.patch('/:id/status', authMiddleware, authorizeRoles(Role.ADMIN, Role.OWNER), (req, res, next) => bookingController.updateBookingStatus(req as any, res));
-router.put('/:id/status', authMiddleware, authorizeRoles(Role.ADMIN, Role.OWNER), (req, res, next) => bookingController.updateBookingStatus(req as any, res));
+router.patch('/:id/status', authMiddleware, authorizeRoles(Role.ADMIN, Role.OWNER), validateBody(UpdateBookingStatusSchema), (req, res, next) => bookingController.updateBookingStatus(req as any, res));
+router.put('/:id/status', authMiddleware, authorizeRoles(Role.ADMIN, Role.OWNER), validateBody(UpdateBookingStatusSchema), (req, res, next) => bookingController.updateBookingStatus(req as any, res));
 
-// ✅ CANCEL BOOKING — Tenant can cancel their own pending bookings
-router.patch('/:id/cancel', authMiddleware, authorizeRoles(Role.TENANT), (req, res) => bookingController.cancelBooking(req as any, res));
+// ✅ CANCEL BOOKING — Tenant can withdraw their own pending, approved or confirmed bookings
+// (paid token/deposit is refunded per BookingRefundPolicy)
+router.patch('/:id/cancel', authMiddleware, authorizeRoles(Role.TENANT), validateBody(CancelBookingSchema), (req, res) => bookingController.cancelBooking(req as any, res));
+
+// ✅ STATUS TIMELINE — tenant, owner or admin
+router.get('/:id/timeline', authMiddleware, (req, res) => bookingController.getBookingTimeline(req as any, res));
+
+// ✅ MESSAGE THREAD — tenant, owner, assigned agent; admins read-only
+router.get('/:id/messages', authMiddleware, validateQuery(BookingMessageListQuerySchema), (req, res) => bookingMessageController.getThread(req as any, res));
+router.post('/:id/messages', authMiddleware, authorizeRoles(Role.TENANT, Role.OWNER, Role.AGENT), validateBody(SendBookingMessageSchema), (req, res) => bookingMessageController.sendMessage(req as any, res));
+router.post('/:id/messages/read', authMiddleware, (req, res) => bookingMessageController.markRead(req as any, res));
+
+// ✅ BOOKING TOKEN / DEPOSIT — tenant pays after approval; verified payment confirms the booking
+router.get('/:id/payments', authMiddleware, (req, res) => bookingPaymentController.listPayments(req as any, res));
+router.post('/:id/payments', authMiddleware, authorizeRoles(Role.TENANT), validateBody(CreateBookingPaymentSchema), (req, res) => bookingPaymentController.createOrder(req as any, res));
+router.post('/:id/payments/verify', authMiddleware, authorizeRoles(Role.TENANT), validateBody(VerifyBookingPaymentSchema), (req, res) => bookingPaymentController.verifyPayment(req as any, res));
 export default router;
\ No newline at end of file
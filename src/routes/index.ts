@@ -15,6 +15,8 @@ import { propertyNotesRouter, notesRouter } from './property-note.routes';
 import notificationRoutes from './notification.routes';
 import tenantDashboardRoutes from './tenant-dashboard.routes';
 import contactRoutes from './contact.routes';
+import savedSearchRoutes from './saved-search.routes';
+import visitRoutes from './visit.routes';
 const router = Router();
 router.use('/auth', authRoutes);
 router.use('/rooms', roomRoutes);
@@ -30,6 +32,8 @@ router.use('/health', healthRoutes);
 router.use('/metadata', metadataRoutes);
 router.use('/cloudinary', cloudinaryRoutes);
 router.use('/contacts', contactRoutes);
+router.use('/saved-searches', savedSearchRoutes);
+router.use('/visits', visitRoutes);
 
 // Property Notes Routes
 // POST/GET /api/properties/:propertyId/notes
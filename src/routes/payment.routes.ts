@@ -1,7 +1,16 @@
 import { Router } from 'express';
 import { PaymentController } from '../controllers/PaymentController';
+import { PaymentWebhookController } from '../controllers/PaymentWebhookController';
+import { InvoiceController } from '../controllers/InvoiceController';
+import { CouponController } from '../controllers/CouponController';
 import { TenantSubscriptionService } from '../services/TenantSubscriptionService';
+import { PaymentWebhookService } from '../services/PaymentWebhookService';
+import { InvoiceService } from '../services/InvoiceService';
+import { couponService } from '../services/CouponService';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import { InvoiceQuerySchema } from '../models/Invoice';
+import { ValidateCouponSchema } from '../models/Coupon';
 import { tenantSubscriptionRepository, propertyViewRepository, paymentRepository, roomRepository } from '../repositories';
 const router = Router();
 
@@ -10,6 +19,12 @@ const router = Router();
  */
 const subscriptionService = new TenantSubscriptionService(tenantSubscriptionRepository, propertyViewRepository, roomRepository);
 const paymentController = new PaymentController(subscriptionService, paymentRepository);
+const invoiceController = new InvoiceController(new InvoiceService());
+const couponController = new CouponController(couponService);
+const paymentWebhookController = new PaymentWebhookController(new PaymentWebhookService(subscriptionService));
+
+// Preview a coupon's discount (the code is applied via couponCode on /initiate)
+router.post('/coupons/validate', authMiddleware, validateBody(ValidateCouponSchema), (req, res) => couponController.validateCoupon(req as any, res));
 
 // Create Razorpay order
 router.post('/initiate', authMiddleware, (req, res, next) => paymentController.createOrder(req as any, res, next));
@@ -19,4 +34,11 @@ router.post('/verify', authMiddleware, (req, res, next) => paymentController.ver
 
 // Payment history
 router.get('/history', authMiddleware, (req, res, next) => paymentController.getPaymentHistory(req as any, res, next));
+
+// GST invoice (JSON, or ?format=pdf to download)
+router.get('/:id/invoice', authMiddleware, validateQuery(InvoiceQuerySchema), (req, res) => invoiceController.getInvoice(req as any, res));
+
+// Razorpay webhook — no auth, verified by X-Razorpay-Signature.
+// Receives the raw body (express.raw mounted in index.ts).
+router.post('/webhook', (req, res) => paymentWebhookController.handleRazorpay(req, res));
 export default router;
\ No newline at end of file
@@ -1,18 +1,30 @@
 import { Router } from 'express';
 import { RoomController } from '../controllers/RoomController';
 import { RoomService } from '../services/RoomService';
+import { ReviewService } from '../services/ReviewService';
+import { ReviewController } from '../controllers/ReviewController';
 import { roomRepository } from '../repositories';
 import { authMiddleware, authorizeRoles } from '../middleware/auth.middleware';
 import { validateBody, validateQuery } from '../middleware/validation.middleware';
-import { CreateRoomSchema, UpdateRoomSchema, RoomFiltersSchema } from '../models/Room';
+import { CreateRoomSchema, UpdateRoomSchema, RoomFiltersSchema, RoomAvailabilityQuerySchema } from '../models/Room';
+import { CreateReviewSchema, ReviewReplySchema, ReviewListQuerySchema } from '../models/Review';
 import { Role } from '@prisma/client';
 const router = Router();
 const roomService = new RoomService(roomRepository);
-const roomController = new RoomController(roomService);
+const reviewService = new ReviewService();
+const roomController = new RoomController(roomService, reviewService);
+const reviewController = new ReviewController(reviewService);
 router.get('/', validateQuery(RoomFiltersSchema), (req, res) => roomController.getAllRooms(req, res));
-router.get('/:id', (req, res) => roomController.getRoomById(req, res));
+router.get('/:id', validateQuery(ReviewListQuerySchema), (req, res) => roomController.getRoomById(req, res));
 router.post('/', authMiddleware, authorizeRoles(Role.OWNER), validateBody(CreateRoomSchema), (req, res, next) => roomController.createRoom(req as any, res));
 router.put('/:id', authMiddleware, authorizeRoles(Role.OWNER), validateBody(UpdateRoomSchema), (req, res, next) => roomController.updateRoom(req as any, res));
 router.delete('/:id', authMiddleware, authorizeRoles(Role.OWNER), (req, res, next) => roomController.deleteRoom(req as any, res));
 router.patch('/:id/status', authMiddleware, authorizeRoles(Role.OWNER), (req, res, next) => roomController.toggleRoomStatus(req as any, res));
+router.get('/:id/availability', validateQuery(RoomAvailabilityQuerySchema), (req, res) => roomController.getAvailability(req, res));
+
+// Reviews — listing is public; only tenants with an approved booking can post,
+// only the room owner can reply (once)
+router.get('/:id/reviews', validateQuery(ReviewListQuerySchema), (req, res) => reviewController.listReviews(req, res));
+router.post('/:id/reviews', authMiddleware, authorizeRoles(Role.TENANT), validateBody(CreateReviewSchema), (req, res) => reviewController.createReview(req as any, res));
+router.post('/:id/reviews/:reviewId/reply', authMiddleware, authorizeRoles(Role.OWNER), validateBody(ReviewReplySchema), (req, res) => reviewController.replyToReview(req as any, res));
 export default router;
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { SavedSearchController } from '../controllers/SavedSearchController';
+import { SavedSearchService } from '../services/SavedSearchService';
+import { authMiddleware, authorizeRoles } from '../middleware/auth.middleware';
+import { validateBody } from '../middleware/validation.middleware';
+import { CreateSavedSearchSchema, UpdateSavedSearchSchema, SavedSearchAlertsSchema } from '../models/SavedSearch';
+import { Role } from '@prisma/client';
+const router = Router();
+const savedSearchService = new SavedSearchService();
+const controller = new SavedSearchController(savedSearchService);
+
+/**
+ * Saved searches — TENANT only.
+ * New-listing alerts are delivered as SAVED_SEARCH_MATCH notifications
+ * when an admin approves a matching room.
+ */
+router.use(authMiddleware, authorizeRoles(Role.TENANT));
+router.get('/', (req, res) => controller.list(req as any, res));
+router.post('/', validateBody(CreateSavedSearchSchema), (req, res) => controller.create(req as any, res));
+router.patch('/:id', validateBody(UpdateSavedSearchSchema), (req, res) => controller.update(req as any, res));
+router.patch('/:id/alerts', validateBody(SavedSearchAlertsSchema), (req, res) => controller.setAlerts(req as any, res));
+router.delete('/:id', (req, res) => controller.remove(req as any, res));
+export default router;
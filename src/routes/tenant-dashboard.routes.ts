@@ -1,13 +1,19 @@
 import { Router } from 'express';
 import { TenantDashboardController } from '../controllers/TenantDashboardController';
 import { TenantDashboardService } from '../services/TenantDashboardService';
+import { FavouriteController } from '../controllers/FavouriteController';
+import { FavouriteService } from '../services/FavouriteService';
+import { validateBody } from '../middleware/validation.middleware';
+import { AddFavouriteSchema } from '../models/Favourite';
 import { authMiddleware, authorizeRoles } from '../middleware/auth.middleware';
 import { Role } from '@prisma/client';
 const router = Router();
 
 // Dependency injection
-const dashboardService = new TenantDashboardService();
+const favouriteService = new FavouriteService();
+const dashboardService = new TenantDashboardService(undefined, favouriteService);
 const controller = new TenantDashboardController(dashboardService);
+const favouriteController = new FavouriteController(favouriteService);
 
 /**
  * GET /tenant/dashboard
@@ -16,4 +22,14 @@ const controller = new TenantDashboardController(dashboardService);
  * Owners, agents, and admins CANNOT hit this endpoint.
  */
 router.get('/dashboard', authMiddleware, authorizeRoles(Role.TENANT), (req, res, next) => controller.getDashboard(req as any, res, next));
+
+/**
+ * Favourites / shortlist — TENANT only
+ * GET    /tenant/favourites
+ * POST   /tenant/favourites          { roomId }  (idempotent)
+ * DELETE /tenant/favourites/:roomId
+ */
+router.get('/favourites', authMiddleware, authorizeRoles(Role.TENANT), (req, res) => favouriteController.list(req as any, res));
+router.post('/favourites', authMiddleware, authorizeRoles(Role.TENANT), validateBody(AddFavouriteSchema), (req, res) => favouriteController.add(req as any, res));
+router.delete('/favourites/:roomId', authMiddleware, authorizeRoles(Role.TENANT), (req, res) => favouriteController.remove(req as any, res));
 export default router;
\ No newline at end of file
@@ -4,6 +4,9 @@ import { TenantSubscriptionService } from '../services/TenantSubscriptionService
 import { PlanLimitService } from '../services/PlanLimitService';
 import { tenantSubscriptionRepository, propertyViewRepository, roomRepository } from '../repositories';
 import { authMiddleware } from '../middleware/auth.middleware';
+import { validateBody } from '../middleware/validation.middleware';
+import { CreateBundleOrderSchema } from '../models/Bundle';
+import { CreateTopUpOrderSchema } from '../models/ContactTopUp';
 const router = Router();
 
 // Initialize services with singleton repository instances
@@ -26,6 +29,27 @@ router.get('/pricing', (req, res, next) => controller.getPricing(req as any, res
 // POST /create-order - Create payment order
 router.post('/create-order', authMiddleware, (req, res, next) => controller.createOrder(req as any, res, next));
 
+// POST /renew - One-click renew of the current (or lapsed) plan for a city
+router.post('/renew', authMiddleware, (req, res, next) => controller.renew(req as any, res, next));
+
+// GET /bundles - Multi-city bundles on sale
+router.get('/bundles', (req, res, next) => controller.getBundles(req as any, res, next));
+
+// GET /bundles/current - Bundles the tenant holds
+router.get('/bundles/current', authMiddleware, (req, res, next) => controller.getCurrentBundles(req as any, res, next));
+
+// POST /bundles/create-order - Create payment order for a bundle
+router.post('/bundles/create-order', authMiddleware, validateBody(CreateBundleOrderSchema), (req, res, next) => controller.createBundleOrder(req as any, res, next));
+
+// GET /top-ups - Contact top-up packs on sale
+router.get('/top-ups', (req, res, next) => controller.getTopUps(req as any, res, next));
+
+// GET /top-ups/current - Top-ups the tenant holds
+router.get('/top-ups/current', authMiddleware, (req, res, next) => controller.getCurrentTopUps(req as any, res, next));
+
+// POST /top-ups/create-order - Create payment order for a top-up pack
+router.post('/top-ups/create-order', authMiddleware, validateBody(CreateTopUpOrderSchema), (req, res, next) => controller.createTopUpOrder(req as any, res, next));
+
 // POST /upgrade - Upgrade subscription (after payment)
 router.post('/upgrade', authMiddleware, (req, res, next) => controller.upgrade(req as any, res, next));
 
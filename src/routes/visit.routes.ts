@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { VisitController } from '../controllers/VisitController';
+import { VisitService } from '../services/VisitService';
+import { authMiddleware, authorizeRoles } from '../middleware/auth.middleware';
+import { validateBody, validateQuery } from '../middleware/validation.middleware';
+import { ProposeVisitSchema, ConfirmVisitSchema, RescheduleVisitSchema, DeclineVisitSchema, VisitListQuerySchema } from '../models/Visit';
+import { Role } from '@prisma/client';
+const router = Router();
+const visitService = new VisitService();
+const controller = new VisitController(visitService);
+
+/**
+ * Site visits.
+ * Tenants propose slots and may cancel; the room owner or an agent actively
+ * assigned to the room confirms, reschedules or declines.
+ * Updates and reminders are delivered as VISIT_* notifications via the outbox.
+ */
+router.use(authMiddleware);
+router.get('/', authorizeRoles(Role.TENANT, Role.OWNER, Role.AGENT), validateQuery(VisitListQuerySchema), (req, res) => controller.list(req as any, res));
+router.post('/', authorizeRoles(Role.TENANT), validateBody(ProposeVisitSchema), (req, res) => controller.propose(req as any, res));
+router.patch('/:id/confirm', authorizeRoles(Role.OWNER, Role.AGENT), validateBody(ConfirmVisitSchema), (req, res) => controller.confirm(req as any, res));
+router.patch('/:id/reschedule', authorizeRoles(Role.OWNER, Role.AGENT), validateBody(RescheduleVisitSchema), (req, res) => controller.reschedule(req as any, res));
+router.patch('/:id/decline', authorizeRoles(Role.OWNER, Role.AGENT), validateBody(DeclineVisitSchema), (req, res) => controller.decline(req as any, res));
+router.patch('/:id/cancel', authorizeRoles(Role.TENANT), validateBody(DeclineVisitSchema), (req, res) => controller.cancel(req as any, res));
+export default router;
@@ -1,5 +1,7 @@
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { VisitService } from './VisitService';
+import { UpcomingVisitSummary } from '../models/Visit';
 
 /**
  * AgentService - READ-ONLY Service for Agent Role
@@ -12,11 +14,14 @@ import { logger } from '../utils/logger';
  * ❌ NO review status mutations
  * ✅ READ-ONLY access to assigned properties
  * ✅ READ-ONLY access to assigned tenants
+ * ✅ READ-ONLY view of upcoming visits on assigned properties
+ *    (confirming/rescheduling visits goes through VisitService)
  *
  * All queries filter by agentId to ensure agents only see their own assignments.
  */
 
 const prisma = getPrismaClient();
+const visitService = new VisitService(prisma);
 
 // ============================================================================
 // TYPE DEFINITIONS (Response DTOs)
@@ -52,6 +57,8 @@ export interface AgentPropertyView {
     assignedAt: Date;
     isActive: boolean;
   };
+  // Open visit requests and confirmed visits that haven't happened yet
+  upcomingVisits: UpcomingVisitSummary[];
 }
 
 /**
@@ -142,6 +149,7 @@ export class AgentService {
           createdAt: 'desc'
         }
       });
+      const upcomingVisits = await visitService.getUpcomingForRooms(assignments.map((a) => a.property.id));
 
       // Transform to response DTO
       const properties: AgentPropertyView[] = assignments.map((assignment) => ({
@@ -167,7 +175,8 @@ export class AgentService {
           assignmentNotes: assignment.assignmentNotes,
           assignedAt: assignment.createdAt,
           isActive: assignment.isActive
-        }
+        },
+        upcomingVisits: upcomingVisits.get(assignment.property.id) ?? []
       }));
       logger.info(`[AgentService] Found ${properties.length} assigned properties for agent: ${agentId}`);
       return properties;
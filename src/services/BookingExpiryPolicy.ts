@@ -0,0 +1,61 @@
+/**
+ * BOOKING EXPIRY POLICY — how long an owner has to answer a request
+ *
+ * ┌──────────┬────────────────────────────────────────────────────────┐
+ * │ Rule     │                                                        │
+ * ├──────────┼────────────────────────────────────────────────────────┤
+ * │ expiry   │ a PENDING request expires at the earlier of            │
+ * │          │ createdAt + slaHours and the end (UTC) of its move-in  │
+ * │          │ day — the tenant can no longer move in as asked        │
+ * │ reminder │ the owner is reminded once, reminderHours before it    │
+ * │          │ expires; reminderHours is capped at slaHours, and 0    │
+ * │          │ turns reminders off                                    │
+ * └──────────┴────────────────────────────────────────────────────────┘
+ *
+ * Pure rules only — BookingExpiryWorker runs the cutoffs as queries.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const startOfUtcDay = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// Requests created at or before `createdBy`, or moving in on or before
+// `moveInBy` (before, for expiry), are due
+export interface BookingCutoffs {
+  createdBy: Date;
+  moveInBy: Date;
+}
+
+/**
+ * When a PENDING booking will expire.
+ */
+export function bookingExpiresAt(booking: {
+  createdAt: Date;
+  moveInDate: Date;
+}, slaHours: number): Date {
+  const slaDeadline = booking.createdAt.getTime() + slaHours * HOUR_MS;
+  const moveInDeadline = startOfUtcDay(booking.moveInDate).getTime() + DAY_MS;
+  return new Date(Math.min(slaDeadline, moveInDeadline));
+}
+
+/**
+ * Requests overdue at `now`; moveInBy is exclusive (a move-in today still stands)
+ */
+export function expiryCutoffs(now: Date, slaHours: number): BookingCutoffs {
+  return {
+    createdBy: new Date(now.getTime() - slaHours * HOUR_MS),
+    moveInBy: startOfUtcDay(now)
+  };
+}
+
+/**
+ * Requests whose reminder is due at `now`; null when reminders are off
+ */
+export function reminderCutoffs(now: Date, slaHours: number, reminderHours: number): BookingCutoffs | null {
+  const hours = Math.min(reminderHours, slaHours);
+  if (hours <= 0) return null;
+  return {
+    createdBy: new Date(now.getTime() - (slaHours - hours) * HOUR_MS),
+    moveInBy: new Date(now.getTime() + hours * HOUR_MS - DAY_MS)
+  };
+}
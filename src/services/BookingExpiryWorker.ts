@@ -0,0 +1,208 @@
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+import { PrismaBookingRepository } from '../repositories/PrismaBookingRepository';
+import { createIntervalWorker } from '../utils/intervalWorker';
+import { writeOutboxEvent } from './OutboxWriter';
+import { OutboxAggregateType, OutboxEventType, BookingExpiryReminderDuePayload } from './OutboxEventTypes';
+import { SYSTEM_ACTOR } from './BookingStateMachine';
+import { bookingExpiresAt, expiryCutoffs, reminderCutoffs } from './BookingExpiryPolicy';
+const prisma = getPrismaClient();
+const bookingRepository = new PrismaBookingRepository(prisma);
+
+// =============================================================================
+// BOOKING EXPIRY WORKER — Closes PENDING requests owners never answered
+//
+// A PENDING booking expires at whichever comes first:
+//   - createdAt + BOOKING_PENDING_SLA_HOURS
+//   - the end of its moveInDate (the tenant can no longer move in as asked)
+//
+// Each sweep:
+// 1. Queues reminders for requests expiring within
+//    BOOKING_EXPIRY_REMINDER_HOURS: claims Booking.expiryReminderSentAt and
+//    writes a BOOKING_EXPIRY_REMINDER_DUE outbox event in one transaction.
+//    The outbox worker notifies the owner.
+// 2. Moves overdue requests PENDING → EXPIRED through the optimistic-lock
+//    repository path, which records history + a BOOKING_EXPIRED outbox event.
+//    The outbox worker notifies tenant and owner.
+//
+// Safe to run on several instances: the reminder claim and the status update
+// are both conditional updates, so only one instance wins per booking.
+// The thresholds live in BookingExpiryPolicy.
+// =============================================================================
+
+const BATCH_SIZE = 100;
+const worker = createIntervalWorker({
+  name: 'Booking expiry worker',
+  event: 'BOOKING_EXPIRY',
+  intervalMs: env.BOOKING_EXPIRY_SWEEP_INTERVAL_MINUTES * 60 * 1000,
+  runOnStart: true,
+  startContext: {
+    slaHours: env.BOOKING_PENDING_SLA_HOURS,
+    reminderHours: env.BOOKING_EXPIRY_REMINDER_HOURS
+  },
+  sweep: () => runBookingExpirySweep()
+});
+
+/**
+ * Start the expiry sweep loop. Call once on server startup.
+ */
+export function startBookingExpiryWorker(): void {
+  worker.start();
+}
+
+/**
+ * Stop the expiry sweep loop. Call on SIGTERM/SIGINT.
+ */
+export function stopBookingExpiryWorker(): void {
+  worker.stop();
+}
+
+/**
+ * One sweep: queue due reminders, then expire overdue requests.
+ */
+export async function runBookingExpirySweep(now: Date = new Date()): Promise<{
+  reminded: number;
+  expired: number;
+}> {
+  return worker.exclusive(async () => {
+    const reminded = await queueExpiryReminders(now);
+    const expired = await expireOverdueBookings(now);
+    if (reminded > 0 || expired > 0) {
+      logger.info('Booking expiry sweep complete', {
+        event: 'BOOKING_EXPIRY_SWEEP',
+        reminded,
+        expired
+      });
+    }
+    return {
+      reminded,
+      expired
+    };
+  }, {
+    reminded: 0,
+    expired: 0
+  });
+}
+async function expireOverdueBookings(now: Date): Promise<number> {
+  const cutoffs = expiryCutoffs(now, env.BOOKING_PENDING_SLA_HOURS);
+
+  // OR-branches hit idx_booking_status_created and idx_booking_movein_status
+  const overdue = await prisma.booking.findMany({
+    where: {
+      status: 'PENDING',
+      OR: [{
+        createdAt: {
+          lte: cutoffs.createdBy
+        }
+      }, {
+        moveInDate: {
+          lt: cutoffs.moveInBy
+        }
+      }]
+    },
+    select: {
+      id: true,
+      createdAt: true,
+      moveInDate: true
+    },
+    orderBy: {
+      createdAt: 'asc'
+    },
+    take: BATCH_SIZE
+  });
+  let expired = 0;
+  for (const booking of overdue) {
+    const reason = booking.moveInDate < cutoffs.moveInBy ? 'Move-in date passed without a response from the owner' : `Owner did not respond within ${env.BOOKING_PENDING_SLA_HOURS} hours`;
+    try {
+      const result = await bookingRepository.updateWithOptimisticLock(booking.id, 'PENDING', {
+        status: 'EXPIRED'
+      }, {
+        actor: SYSTEM_ACTOR,
+        reason
+      });
+      // null → owner acted (or tenant cancelled) between our read and update
+      if (result) expired++;
+    } catch (error: any) {
+      logger.error('Booking expiry: Failed to expire booking', {
+        bookingId: booking.id,
+        error: error.message
+      });
+    }
+  }
+  return expired;
+}
+async function queueExpiryReminders(now: Date): Promise<number> {
+  const cutoffs = reminderCutoffs(now, env.BOOKING_PENDING_SLA_HOURS, env.BOOKING_EXPIRY_REMINDER_HOURS);
+  if (!cutoffs) return 0;
+  const due = await prisma.booking.findMany({
+    where: {
+      status: 'PENDING',
+      expiryReminderSentAt: null,
+      OR: [{
+        createdAt: {
+          lte: cutoffs.createdBy
+        }
+      }, {
+        moveInDate: {
+          lte: cutoffs.moveInBy
+        }
+      }]
+    },
+    include: {
+      room: {
+        select: {
+          title: true
+        }
+      }
+    },
+    orderBy: {
+      createdAt: 'asc'
+    },
+    take: BATCH_SIZE
+  });
+  let reminded = 0;
+  for (const booking of due) {
+    const expiresAt = bookingExpiresAt(booking, env.BOOKING_PENDING_SLA_HOURS);
+    // Already overdue — the expiry pass handles it
+    if (expiresAt <= now) continue;
+    try {
+      // Claim the reminder so concurrent sweeps queue it once
+      const claimed = await prisma.$transaction(async (tx) => {
+        const claim = await tx.booking.updateMany({
+          where: {
+            id: booking.id,
+            status: 'PENDING',
+            expiryReminderSentAt: null
+          },
+          data: {
+            expiryReminderSentAt: now
+          }
+        });
+        if (claim.count === 0) return false;
+        const payload: BookingExpiryReminderDuePayload = {
+          bookingId: booking.id,
+          roomId: booking.roomId,
+          roomTitle: booking.room.title,
+          ownerId: booking.ownerId,
+          tenantName: booking.tenantName,
+          expiresAt: expiresAt.toISOString()
+        };
+        await writeOutboxEvent(tx, {
+          aggregateType: OutboxAggregateType.BOOKING,
+          aggregateId: booking.id,
+          eventType: OutboxEventType.BOOKING_EXPIRY_REMINDER_DUE,
+          payload
+        });
+        return true;
+      });
+      if (claimed) reminded++;
+    } catch (error: any) {
+      logger.error('Booking expiry: Failed to queue reminder', {
+        bookingId: booking.id,
+        error: error.message
+      });
+    }
+  }
+  return reminded;
+}
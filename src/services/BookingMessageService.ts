@@ -0,0 +1,319 @@
+import { PrismaClient, Prisma, BookingStatus, Role } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { NotFoundError, ForbiddenError, BusinessLogicError } from '../errors/AppErrors';
+import { redactContactInfo } from '../utils/redact';
+import { ContactService } from './ContactService';
+import { BookingMessageListQuery, BookingMessageView, BookingThread, BookingThreadRole } from '../models/BookingMessage';
+
+/**
+ * BookingMessageService — one conversation thread per booking
+ *
+ * ┌─────────────────┬──────┬──────┐
+ * │ Participant     │ Read │ Post │
+ * ├─────────────────┼──────┼──────┤
+ * │ Tenant          │  ✅  │  ✅  │
+ * │ Owner           │  ✅  │  ✅  │
+ * │ Assigned agent  │  ✅  │  ✅  │  (active property or tenant assignment)
+ * │ Admin           │  ✅  │  ❌  │  (dispute handling, read-only)
+ * └─────────────────┴──────┴──────┘
+ *
+ * Posting stops once a booking is rejected, cancelled or expired.
+ *
+ * Tenants who haven't unlocked the owner's contact (ContactService) see
+ * phone numbers and emails in other participants' messages redacted, so the
+ * thread can't be used to bypass the paid unlock.
+ */
+
+// Bookings in these statuses keep their thread readable but closed
+const CLOSED_THREAD_STATUSES: BookingStatus[] = [BookingStatus.REJECTED, BookingStatus.CANCELLED, BookingStatus.EXPIRED];
+
+/**
+ * SQL condition: the agent has an active assignment to the room or the
+ * tenant of booking `b`. The one rule for agent access to a thread — the
+ * unread badge (NotificationService.getUnreadMessageCount) uses it too.
+ */
+export const agentAssignedToBookingSql = (agentId: string): Prisma.Sql => Prisma.sql`(
+  EXISTS (
+    SELECT 1 FROM "AgentPropertyAssignment" a
+    WHERE a."propertyId" = b."roomId" AND a."agentId" = ${agentId} AND a."isActive" = true
+  )
+  OR EXISTS (
+    SELECT 1 FROM "AgentTenantAssignment" t
+    WHERE t."tenantId" = b."tenantId" AND t."agentId" = ${agentId} AND t."isActive" = true
+  )
+)`;
+interface ThreadAccess {
+  booking: {
+    id: string;
+    roomId: string;
+    ownerId: string;
+    tenantId: string | null;
+    status: BookingStatus;
+  };
+  viewerRole: BookingThreadRole;
+  canPost: boolean;
+}
+export class BookingMessageService {
+  private prisma: PrismaClient;
+  private contactService: ContactService;
+  constructor(prismaClient?: PrismaClient, contactService?: ContactService) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.contactService = contactService || new ContactService(this.prisma);
+    this.getThread = this.getThread.bind(this);
+    this.sendMessage = this.sendMessage.bind(this);
+    this.markRead = this.markRead.bind(this);
+  }
+
+  /**
+   * A page of the thread (oldest first) with read receipts and the viewer's
+   * unread count.
+   */
+  async getThread(bookingId: string, userId: string, role: string, query: BookingMessageListQuery): Promise<BookingThread> {
+    const access = await this.resolveAccess(bookingId, userId, role);
+    const {
+      booking
+    } = access;
+    const rows = await this.prisma.bookingMessage.findMany({
+      where: {
+        bookingId,
+        ...(query.before && {
+          createdAt: {
+            lt: new Date(query.before)
+          }
+        })
+      },
+      include: {
+        sender: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      },
+      take: query.limit + 1
+    });
+    const hasMore = rows.length > query.limit;
+    const page = rows.slice(0, query.limit).reverse();
+    const readStates = await this.prisma.bookingThreadReadState.findMany({
+      where: {
+        bookingId
+      }
+    });
+    const lastReadBy = new Map(readStates.map((s) => [s.userId, s.lastReadAt]));
+    const redact = access.viewerRole === 'TENANT' && !(await this.contactService.hasContactAccess(userId, booking.roomId));
+    const parties = [booking.tenantId, booking.ownerId].filter((id): id is string => !!id);
+    const messages: BookingMessageView[] = page.map((m) => {
+      const hidden = redact && m.senderId !== userId ? redactContactInfo(m.body) : {
+        text: m.body,
+        redacted: false
+      };
+      // Receipt covers the tenant and owner other than the sender
+      const readByAll = parties.filter((id) => id !== m.senderId).every((id) => {
+        const lastRead = lastReadBy.get(id);
+        return !!lastRead && lastRead >= m.createdAt;
+      });
+      return {
+        id: m.id,
+        bookingId: m.bookingId,
+        body: hidden.text,
+        redacted: hidden.redacted,
+        sender: {
+          id: m.sender.id,
+          name: m.sender.name,
+          role: m.senderRole
+        },
+        readByAll,
+        createdAt: m.createdAt.toISOString()
+      };
+    });
+    const viewerLastRead = lastReadBy.get(userId);
+    const unreadCount = access.viewerRole === 'ADMIN' ? 0 : await this.prisma.bookingMessage.count({
+      where: {
+        bookingId,
+        senderId: {
+          not: userId
+        },
+        ...(viewerLastRead && {
+          createdAt: {
+            gt: viewerLastRead
+          }
+        })
+      }
+    });
+    return {
+      bookingId,
+      viewerRole: access.viewerRole,
+      canPost: access.canPost,
+      unreadCount,
+      participants: readStates.map((s) => ({
+        userId: s.userId,
+        role: s.userId === booking.tenantId ? 'TENANT' : s.userId === booking.ownerId ? 'OWNER' : 'AGENT',
+        lastReadAt: s.lastReadAt.toISOString()
+      })),
+      messages,
+      hasMore
+    };
+  }
+
+  /**
+   * Post a message. The sender's own read marker moves past it.
+   */
+  async sendMessage(bookingId: string, userId: string, role: string, body: string): Promise<BookingMessageView> {
+    const access = await this.resolveAccess(bookingId, userId, role);
+    if (access.viewerRole === 'ADMIN') {
+      throw new ForbiddenError('Admins have read-only access to booking threads');
+    }
+    if (!access.canPost) {
+      throw new BusinessLogicError(`This booking is ${access.booking.status.toLowerCase()} — the conversation is closed`);
+    }
+    const message = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.bookingMessage.create({
+        data: {
+          bookingId,
+          senderId: userId,
+          senderRole: access.viewerRole,
+          body
+        },
+        include: {
+          sender: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      });
+      await tx.bookingThreadReadState.upsert({
+        where: {
+          bookingId_userId: {
+            bookingId,
+            userId
+          }
+        },
+        create: {
+          bookingId,
+          userId,
+          lastReadAt: created.createdAt
+        },
+        update: {
+          lastReadAt: created.createdAt
+        }
+      });
+      return created;
+    });
+    logger.info('Booking message sent', {
+      bookingId,
+      messageId: message.id,
+      senderRole: access.viewerRole
+    });
+    return {
+      id: message.id,
+      bookingId: message.bookingId,
+      body: message.body,
+      redacted: false,
+      sender: {
+        id: message.sender.id,
+        name: message.sender.name,
+        role: message.senderRole
+      },
+      readByAll: false,
+      createdAt: message.createdAt.toISOString()
+    };
+  }
+
+  /**
+   * Mark the thread read up to now. No-op for admins so dispute reviews
+   * don't produce read receipts.
+   */
+  async markRead(bookingId: string, userId: string, role: string): Promise<{
+    lastReadAt: string | null;
+  }> {
+    const access = await this.resolveAccess(bookingId, userId, role);
+    if (access.viewerRole === 'ADMIN') {
+      return {
+        lastReadAt: null
+      };
+    }
+    const now = new Date();
+    const state = await this.prisma.bookingThreadReadState.upsert({
+      where: {
+        bookingId_userId: {
+          bookingId,
+          userId
+        }
+      },
+      create: {
+        bookingId,
+        userId,
+        lastReadAt: now
+      },
+      update: {
+        lastReadAt: now
+      }
+    });
+    return {
+      lastReadAt: state.lastReadAt.toISOString()
+    };
+  }
+  private async resolveAccess(bookingId: string, userId: string, role: string): Promise<ThreadAccess> {
+    const booking = await this.prisma.booking.findUnique({
+      where: {
+        id: bookingId
+      },
+      select: {
+        id: true,
+        roomId: true,
+        ownerId: true,
+        tenantId: true,
+        status: true
+      }
+    });
+    if (!booking) {
+      throw new NotFoundError('Booking', bookingId);
+    }
+    const canPost = !CLOSED_THREAD_STATUSES.includes(booking.status);
+    if (booking.tenantId === userId) {
+      return {
+        booking,
+        viewerRole: 'TENANT',
+        canPost
+      };
+    }
+    if (booking.ownerId === userId) {
+      return {
+        booking,
+        viewerRole: 'OWNER',
+        canPost
+      };
+    }
+    if (role === Role.ADMIN) {
+      return {
+        booking,
+        viewerRole: 'ADMIN',
+        canPost: false
+      };
+    }
+    if (role === Role.AGENT && (await this.isAssignedAgent(userId, booking.id))) {
+      return {
+        booking,
+        viewerRole: 'AGENT',
+        canPost
+      };
+    }
+    throw new ForbiddenError('You are not part of this booking conversation');
+  }
+  private async isAssignedAgent(agentId: string, bookingId: string): Promise<boolean> {
+    const [row] = await this.prisma.$queryRaw<{
+      assigned: boolean;
+    }[]>`
+      SELECT ${agentAssignedToBookingSql(agentId)} AS assigned
+      FROM "Booking" b
+      WHERE b."id" = ${bookingId}
+    `;
+    return row?.assigned ?? false;
+  }
+}
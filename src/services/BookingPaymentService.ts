@@ -0,0 +1,363 @@
+import { PrismaClient, BookingStatus, PaymentPurpose, PaymentStatus, Role } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { withSerializationRetry } from '../utils/serializationRetry';
+import { NotFoundError, ForbiddenError, BusinessLogicError, DuplicateError, ValidationError } from '../errors/AppErrors';
+import { RazorpayService } from './RazorpayService';
+import { SYSTEM_ACTOR } from './BookingStateMachine';
+import { recordBookingTransition } from './BookingTransitionWriter';
+import { queueRefund } from './RefundService';
+import { VerifyBookingPaymentInput } from '../models/Payment';
+
+/**
+ * BookingPaymentService — booking token & security deposit via Razorpay
+ *
+ * FLOW:
+ *   owner approves ──► tenant creates order (token or deposit)
+ *                  ──► Razorpay checkout
+ *                  ──► verify signature ──► Payment VERIFIED
+ *                                       ──► Booking APPROVED → CONFIRMED
+ *
+ * The booking is only confirmed after RazorpayService signature
+ * verification. The first verified booking payment confirms it; the other
+ * one (usually the deposit) can still be paid while CONFIRMED.
+ *
+ * A payment verified after the booking was already rejected/cancelled/
+ * expired is refunded in full straight away. Refunds for later rejections
+ * and cancellations are queued by BookingRefundPolicy.
+ */
+
+type BookingPaymentPurpose = 'BOOKING_TOKEN' | 'SECURITY_DEPOSIT';
+const PAYABLE_BOOKING_STATUSES: Record<BookingPaymentPurpose, BookingStatus[]> = {
+  BOOKING_TOKEN: [BookingStatus.APPROVED],
+  SECURITY_DEPOSIT: [BookingStatus.APPROVED, BookingStatus.CONFIRMED]
+};
+const ENDED_BOOKING_STATUSES: BookingStatus[] = [BookingStatus.REJECTED, BookingStatus.CANCELLED, BookingStatus.EXPIRED];
+const PURPOSE_LABELS: Record<BookingPaymentPurpose, string> = {
+  BOOKING_TOKEN: 'Booking token',
+  SECURITY_DEPOSIT: 'Security deposit'
+};
+export interface BookingPaymentOrder {
+  paymentId: string;
+  orderId: string;
+  purpose: BookingPaymentPurpose;
+  amount: number; // paise
+  currency: string;
+  keyId: string;
+}
+export interface BookingPaymentVerification {
+  paymentId: string;
+  purpose: PaymentPurpose;
+  status: PaymentStatus;
+  bookingStatus: string;
+  alreadyProcessed: boolean;
+}
+export class BookingPaymentService {
+  private prisma: PrismaClient;
+  private razorpayService: RazorpayService;
+  constructor(prismaClient?: PrismaClient, razorpayService?: RazorpayService) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.razorpayService = razorpayService || new RazorpayService();
+    this.createOrder = this.createOrder.bind(this);
+    this.verifyPayment = this.verifyPayment.bind(this);
+    this.markVerified = this.markVerified.bind(this);
+    this.listPayments = this.listPayments.bind(this);
+  }
+
+  /**
+   * Create a Razorpay order for the room's booking token or deposit.
+   */
+  async createOrder(bookingId: string, tenantId: string, purpose: BookingPaymentPurpose): Promise<BookingPaymentOrder> {
+    const booking = await this.prisma.booking.findUnique({
+      where: {
+        id: bookingId
+      },
+      include: {
+        room: {
+          select: {
+            city: true,
+            bookingTokenAmount: true,
+            securityDeposit: true
+          }
+        }
+      }
+    });
+    if (!booking) {
+      throw new NotFoundError('Booking', bookingId);
+    }
+    if (booking.tenantId !== tenantId) {
+      throw new ForbiddenError('You can only pay for your own bookings');
+    }
+    if (!PAYABLE_BOOKING_STATUSES[purpose].includes(booking.status)) {
+      throw new BusinessLogicError(`${PURPOSE_LABELS[purpose]} cannot be paid while the booking is ${booking.status.toLowerCase()}`);
+    }
+    const rupees = purpose === 'BOOKING_TOKEN' ? booking.room.bookingTokenAmount : booking.room.securityDeposit;
+    if (!rupees) {
+      throw new BusinessLogicError(`This room does not collect a ${PURPOSE_LABELS[purpose].toLowerCase()} online`);
+    }
+    const alreadyPaid = await this.prisma.payment.findFirst({
+      where: {
+        bookingId,
+        purpose,
+        status: PaymentStatus.VERIFIED
+      },
+      select: {
+        id: true
+      }
+    });
+    if (alreadyPaid) {
+      throw new DuplicateError(`${PURPOSE_LABELS[purpose]} has already been paid for this booking`);
+    }
+    const order = await this.razorpayService.createOrder({
+      amount: rupees * 100,
+      // paise
+      currency: 'INR',
+      receipt: `bkg_${Date.now()}`
+    });
+    const payment = await this.prisma.payment.create({
+      data: {
+        tenantId,
+        purpose,
+        bookingId,
+        city: booking.room.city,
+        amount: order.amount,
+        orderId: order.id,
+        status: PaymentStatus.CREATED
+      }
+    });
+    logger.info('Booking payment order created', {
+      paymentId: payment.id,
+      bookingId,
+      purpose,
+      orderId: order.id
+    });
+    return {
+      paymentId: payment.id,
+      orderId: order.id,
+      purpose,
+      amount: order.amount,
+      currency: order.currency,
+      keyId: this.razorpayService.getKeyId()
+    };
+  }
+
+  /**
+   * Verify the Razorpay checkout signature for a booking payment.
+   */
+  async verifyPayment(bookingId: string, tenantId: string, input: VerifyBookingPaymentInput): Promise<BookingPaymentVerification> {
+    const payment = await this.prisma.payment.findUnique({
+      where: {
+        orderId: input.razorpay_order_id
+      }
+    });
+    if (!payment || payment.bookingId !== bookingId) {
+      throw new NotFoundError('Payment', input.razorpay_order_id);
+    }
+    if (payment.tenantId !== tenantId) {
+      throw new ForbiddenError('You can only verify your own payments');
+    }
+    const isValid = this.razorpayService.verifyPayment(input);
+    if (!isValid) {
+      await this.prisma.payment.updateMany({
+        where: {
+          id: payment.id,
+          status: {
+            in: [PaymentStatus.CREATED, PaymentStatus.INITIATED, PaymentStatus.PENDING]
+          }
+        },
+        data: {
+          status: PaymentStatus.FAILED
+        }
+      });
+      logger.error('Booking payment signature verification failed', {
+        paymentId: payment.id,
+        bookingId
+      });
+      throw new ValidationError('Payment verification failed');
+    }
+    return this.markVerified(payment.id, input.razorpay_payment_id);
+  }
+
+  /**
+   * Mark a booking payment VERIFIED and confirm the booking, atomically.
+   * Idempotent: a payment that is already verified is reported as such. A
+   * second payment for a token or deposit already paid is refunded. The loser
+   * of a verify/webhook race retries and finds the payment already verified.
+   */
+  async markVerified(paymentId: string, razorpayPaymentId: string): Promise<BookingPaymentVerification> {
+    const result = await withSerializationRetry('markBookingPaymentVerified', {
+      paymentId
+    }, () => this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.payment.updateMany({
+        where: {
+          id: paymentId,
+          status: {
+            in: [PaymentStatus.CREATED, PaymentStatus.INITIATED, PaymentStatus.PENDING, PaymentStatus.FAILED, PaymentStatus.EXPIRED]
+          }
+        },
+        data: {
+          status: PaymentStatus.VERIFIED,
+          razorpayPaymentId,
+          utr: razorpayPaymentId,
+          verifiedAt: new Date()
+        }
+      });
+      const payment = await tx.payment.findUniqueOrThrow({
+        where: {
+          id: paymentId
+        }
+      });
+      if (!payment.bookingId) {
+        throw new BusinessLogicError('Not a booking payment');
+      }
+      const booking = await tx.booking.findUniqueOrThrow({
+        where: {
+          id: payment.bookingId
+        }
+      });
+      if (claimed.count === 0) {
+        return {
+          payment,
+          bookingStatus: booking.status,
+          alreadyProcessed: true
+        };
+      }
+      const label = PURPOSE_LABELS[payment.purpose as BookingPaymentPurpose] ?? 'Payment';
+      let bookingStatus = booking.status;
+
+      // Two orders for the same purpose can both be paid (createOrder only
+      // checks for an earlier one) — the second payment goes back
+      const paidBefore = await tx.payment.findFirst({
+        where: {
+          id: {
+            not: payment.id
+          },
+          bookingId: payment.bookingId,
+          purpose: payment.purpose,
+          status: {
+            in: [PaymentStatus.VERIFIED, PaymentStatus.PARTIALLY_REFUNDED]
+          }
+        },
+        select: {
+          id: true
+        }
+      });
+      if (paidBefore) {
+        await queueRefund(tx, {
+          payment,
+          amount: payment.amount,
+          reason: `${label} was already paid for this booking`
+        });
+      } else if (booking.status === BookingStatus.APPROVED) {
+        const moved = await tx.booking.updateMany({
+          where: {
+            id: booking.id,
+            status: BookingStatus.APPROVED
+          },
+          data: {
+            status: BookingStatus.CONFIRMED
+          }
+        });
+        if (moved.count === 0) {
+          throw new BusinessLogicError('Booking was modified concurrently. Please retry.');
+        }
+        await recordBookingTransition(tx, {
+          booking: {
+            id: booking.id,
+            roomId: booking.roomId,
+            ownerId: booking.ownerId,
+            tenantId: booking.tenantId,
+            tenantEmail: booking.tenantEmail
+          },
+          fromStatus: BookingStatus.APPROVED,
+          toStatus: BookingStatus.CONFIRMED,
+          actor: SYSTEM_ACTOR,
+          reason: `${label} paid`
+        });
+        bookingStatus = BookingStatus.CONFIRMED;
+      } else if (ENDED_BOOKING_STATUSES.includes(booking.status)) {
+        // Money arrived for a booking that is no longer going ahead
+        await queueRefund(tx, {
+          payment,
+          amount: payment.amount,
+          reason: `${label} received after the booking was ${booking.status.toLowerCase()}`
+        });
+      }
+      return {
+        payment,
+        bookingStatus,
+        alreadyProcessed: false
+      };
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    }));
+    logger.info('Booking payment verified', {
+      paymentId,
+      bookingId: result.payment.bookingId,
+      purpose: result.payment.purpose,
+      bookingStatus: result.bookingStatus,
+      alreadyProcessed: result.alreadyProcessed
+    });
+    return {
+      paymentId: result.payment.id,
+      purpose: result.payment.purpose,
+      status: result.payment.status,
+      bookingStatus: result.bookingStatus.toLowerCase(),
+      alreadyProcessed: result.alreadyProcessed
+    };
+  }
+
+  /**
+   * Payments and refunds on a booking — tenant, owner or admin.
+   */
+  async listPayments(bookingId: string, userId: string, role: string) {
+    const booking = await this.prisma.booking.findUnique({
+      where: {
+        id: bookingId
+      },
+      select: {
+        tenantId: true,
+        ownerId: true
+      }
+    });
+    if (!booking) {
+      throw new NotFoundError('Booking', bookingId);
+    }
+    if (role !== Role.ADMIN && booking.tenantId !== userId && booking.ownerId !== userId) {
+      throw new ForbiddenError('You do not have permission to view payments for this booking');
+    }
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        bookingId
+      },
+      include: {
+        refunds: {
+          orderBy: {
+            createdAt: 'asc'
+          }
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+    return payments.map((p) => ({
+      id: p.id,
+      purpose: p.purpose,
+      amount: p.amount,
+      status: p.status,
+      orderId: p.orderId,
+      verifiedAt: p.verifiedAt ? p.verifiedAt.toISOString() : null,
+      createdAt: p.createdAt.toISOString(),
+      refunds: p.refunds.map((r) => ({
+        id: r.id,
+        amount: r.amount,
+        status: r.status,
+        reason: r.reason,
+        processedAt: r.processedAt ? r.processedAt.toISOString() : null,
+        createdAt: r.createdAt.toISOString()
+      }))
+    }));
+  }
+}
@@ -0,0 +1,76 @@
+import { BookingStatus, PaymentPurpose } from '@prisma/client';
+import { BookingActorRole } from './BookingStateMachine';
+
+/**
+ * BOOKING REFUND POLICY — what a tenant gets back when a paid booking ends early
+ *
+ * ┌──────────────────────────────┬───────────────┬──────────────────┐
+ * │ Booking ended by             │ Booking token │ Security deposit │
+ * ├──────────────────────────────┼───────────────┼──────────────────┤
+ * │ Owner / admin rejects        │ full          │ full             │
+ * │ Admin cancels                │ full          │ full             │
+ * │ Tenant cancels in window     │ full          │ full             │
+ * │ Tenant cancels after window  │ none          │ full             │
+ * └──────────────────────────────┴───────────────┴──────────────────┘
+ *
+ * "In window" = within BOOKING_REFUND_WINDOW_HOURS of the payment being
+ * verified AND before the move-in date.
+ *
+ * Pure rules only — RefundService.queueBookingRefunds applies them.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+export interface BookingRefundContext {
+  toStatus: BookingStatus;
+  actorRole: BookingActorRole;
+  moveInDate: Date;
+  now: Date;
+  refundWindowHours: number;
+}
+export interface BookingRefundDecision {
+  amount: number; // paise; 0 = nothing to refund
+  reason: string;
+}
+
+/**
+ * Refund owed on one verified booking payment.
+ */
+export function bookingRefundFor(payment: {
+  purpose: PaymentPurpose;
+  amount: number;
+  verifiedAt: Date | null;
+}, ctx: BookingRefundContext): BookingRefundDecision {
+  if (ctx.toStatus === BookingStatus.REJECTED) {
+    return {
+      amount: payment.amount,
+      reason: 'Booking rejected'
+    };
+  }
+  if (ctx.toStatus !== BookingStatus.CANCELLED) {
+    return {
+      amount: 0,
+      reason: `No refund for ${ctx.toStatus.toLowerCase()} bookings`
+    };
+  }
+  if (ctx.actorRole !== 'TENANT') {
+    return {
+      amount: payment.amount,
+      reason: 'Booking cancelled by the admin team'
+    };
+  }
+  if (payment.purpose === PaymentPurpose.SECURITY_DEPOSIT) {
+    return {
+      amount: payment.amount,
+      reason: 'Security deposit returned on cancellation'
+    };
+  }
+  const paidAt = payment.verifiedAt ?? ctx.now;
+  const inWindow = ctx.now.getTime() - paidAt.getTime() <= ctx.refundWindowHours * HOUR_MS && ctx.now < ctx.moveInDate;
+  return inWindow ? {
+    amount: payment.amount,
+    reason: `Cancelled within the ${ctx.refundWindowHours}-hour refund window`
+  } : {
+    amount: 0,
+    reason: `Booking token is non-refundable after ${ctx.refundWindowHours} hours or once the move-in date has passed`
+  };
+}
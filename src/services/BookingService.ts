@@ -1,10 +1,14 @@
 import { IBookingRepository } from '../repositories/interfaces';
 import { IRoomRepository } from '../repositories/interfaces';
-import { NotFoundError, ForbiddenError, InvalidStatusTransitionError, BusinessLogicError, InvalidDateError } from '../errors/AppErrors';
+import { BookingStatus as PrismaBookingStatus } from '@prisma/client';
+import { NotFoundError, ForbiddenError, BusinessLogicError, InvalidDateError } from '../errors/AppErrors';
 import { logger } from '../utils/logger';
 import { getPrismaClient } from '../utils/prisma';
-import { writeOutboxEvent } from './OutboxWriter';
-import { OutboxAggregateType, OutboxEventType, BookingStatusChangedPayload } from './OutboxEventTypes';
+import { withSerializationRetry } from '../utils/serializationRetry';
+import { decodeCursor } from '../utils/cursor';
+import { assertBedAvailable } from './RoomAvailabilityService';
+import { BookingActor, SYSTEM_ACTOR, assertBookingTransition, allowedBookingTransitions, isBookingStatus } from './BookingStateMachine';
+import { recordBookingTransition } from './BookingTransitionWriter';
 
 /**
  * PRODUCTION-GRADE BOOKING SERVICE
@@ -28,9 +32,11 @@ export class BookingService {
     this.createBooking = this.createBooking.bind(this);
     this.getUserBookings = this.getUserBookings.bind(this);
     this.getOwnerBookings = this.getOwnerBookings.bind(this);
+    this.getOwnerBookingsByCursor = this.getOwnerBookingsByCursor.bind(this);
     this.getBookingById = this.getBookingById.bind(this);
     this.updateBookingStatus = this.updateBookingStatus.bind(this);
     this.cancelBooking = this.cancelBooking.bind(this);
+    this.getBookingTimeline = this.getBookingTimeline.bind(this);
   }
 
   /**
@@ -58,10 +64,12 @@ export class BookingService {
     tenantEmail: string;
     tenantPhone: string;
     moveInDate: string;
+    moveOutDate?: string | null;
     message?: string;
   }) {
     // STEP 1: Normalize moveInDate with timezone safety
     const normalizedDate = this.normalizeMoveInDate(bookingData.moveInDate);
+    const normalizedMoveOut = bookingData.moveOutDate ? this.normalizeMoveOutDate(bookingData.moveOutDate, normalizedDate) : null;
 
     // STEP 2: Create booking via atomic transaction
     // This now handles: room exists, isActive, owner exists, duplicate check,
@@ -73,6 +81,7 @@ export class BookingService {
       tenantEmail: bookingData.tenantEmail,
       tenantPhone: bookingData.tenantPhone,
       moveInDate: normalizedDate,
+      moveOutDate: normalizedMoveOut,
       message: bookingData.message || null
     });
 
@@ -113,84 +122,196 @@ export class BookingService {
     }
     return normalized;
   }
+  private normalizeMoveOutDate(dateString: string, moveIn: Date): Date {
+    const date = new Date(dateString);
+    if (isNaN(date.getTime())) {
+      throw new InvalidDateError(`Invalid date: "${dateString}". Use ISO 8601 format (YYYY-MM-DD).`);
+    }
+    const normalized = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    if (normalized <= moveIn) {
+      throw new InvalidDateError('Move-out date must be after move-in date');
+    }
+    return normalized;
+  }
   async getUserBookings(userId: string) {
     return this.bookingRepository.findByTenantId(userId);
   }
   async getOwnerBookings(ownerId: string) {
     return this.bookingRepository.findByOwnerId(ownerId);
   }
+
+  /**
+   * Keyset-paginated owner bookings. `cursorToken` undefined → first page.
+   * @throws ValidationError for forged/foreign cursors
+   */
+  async getOwnerBookingsByCursor(ownerId: string, cursorToken: string | undefined, limit: number = 20) {
+    const cursor = cursorToken ? decodeCursor('owner-bookings', cursorToken) : null;
+    return this.bookingRepository.findByOwnerIdCursor(ownerId, cursor, limit);
+  }
   async getBookingById(bookingId: string) {
     return this.bookingRepository.findById(bookingId);
   }
 
   /**
-   * UPDATE BOOKING STATUS — PRODUCTION FIX
+   * UPDATE BOOKING STATUS — owner/admin side of the state machine
    *
-   * Now wrapped in a Prisma $transaction that:
-   * 1. Validates the booking exists and caller is owner
-   * 2. Validates status transition
-   * 3. Atomically updates status with optimistic lock (WHERE status = current)
-   * 4. Writes BOOKING_STATUS_CHANGED outbox event in SAME transaction
+   * Owners can approve/reject pending bookings, mark approved bookings as
+   * MOVED_IN and moved-in bookings as COMPLETED. Admins can do the same on any
+   * booking. See BookingStateMachine for the full table.
+   */
+  async updateBookingStatus(bookingId: string, status: string, userId?: string, role?: string, reason?: string | null) {
+    const actor: BookingActor = userId ? {
+      id: userId,
+      role: role === 'ADMIN' ? 'ADMIN' : 'OWNER'
+    } : SYSTEM_ACTOR;
+    return this.transitionBooking(bookingId, status, actor, reason);
+  }
+
+  /**
+   * CANCEL BOOKING — tenant withdraws a pending or approved booking
+   */
+  async cancelBooking(bookingId: string, userId: string, reason?: string | null) {
+    return this.transitionBooking(bookingId, 'CANCELLED', {
+      id: userId,
+      role: 'TENANT'
+    }, reason);
+  }
+
+  /**
+   * STATUS TIMELINE — full history of a booking, oldest first.
+   * Visible to the booking's tenant, its owner and admins.
+   */
+  async getBookingTimeline(bookingId: string, userId: string, role?: string) {
+    const booking = await this.bookingRepository.findById(bookingId);
+    if (!booking) {
+      throw new NotFoundError('Booking', bookingId);
+    }
+    if (role !== 'ADMIN' && booking.tenantId !== userId && booking.ownerId !== userId) {
+      throw new ForbiddenError('You do not have permission to view this booking');
+    }
+    const prisma = getPrismaClient();
+    const history = await prisma.bookingStatusHistory.findMany({
+      where: {
+        bookingId
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+    const entries = history.map((h) => ({
+      fromStatus: h.fromStatus ? h.fromStatus.toLowerCase() : null,
+      toStatus: h.toStatus.toLowerCase(),
+      actorId: h.actorId,
+      actorRole: h.actorRole,
+      reason: h.reason,
+      createdAt: h.createdAt.toISOString()
+    }));
+
+    // Bookings created before history was recorded have no creation row
+    if (entries.length === 0 || entries[0].fromStatus !== null) {
+      entries.unshift({
+        fromStatus: null,
+        toStatus: 'pending',
+        actorId: booking.tenantId || null,
+        actorRole: 'TENANT',
+        reason: null,
+        createdAt: booking.createdAt
+      });
+    }
+    return {
+      bookingId,
+      status: booking.status.toLowerCase(),
+      allowedTransitions: role ? this.allowedFor(booking, userId, role).map((s) => s.toLowerCase()) : [],
+      timeline: entries
+    };
+  }
+  private allowedFor(booking: {
+    status: string;
+    tenantId?: string;
+    ownerId: string;
+  }, userId: string, role: string): string[] {
+    const status = booking.status.toUpperCase();
+    if (!isBookingStatus(status)) return [];
+    if (role === 'ADMIN') return allowedBookingTransitions(status, 'ADMIN');
+    if (role === 'OWNER' && booking.ownerId === userId) return allowedBookingTransitions(status, 'OWNER');
+    if (role === 'TENANT' && booking.tenantId === userId) return allowedBookingTransitions(status, 'TENANT');
+    return [];
+  }
+
+  /**
+   * Single path for every booking status change:
+   * 1. Booking exists and the actor owns the relevant side of it
+   * 2. Transition is allowed for this actor (BookingStateMachine)
+   * 3. On approval, re-checks bed capacity (Shared/PG) for the stay
+   * 4. Atomically updates status with optimistic lock (WHERE status = current)
+   * 5. Writes history row + outbox event in SAME transaction
    *
    * If any step fails, entire transaction rolls back. Zero silent status changes.
    */
-  async updateBookingStatus(bookingId: string, status: string, userId?: string) {
+  private async transitionBooking(bookingId: string, status: string, actor: BookingActor, reason?: string | null) {
     const booking = await this.bookingRepository.findById(bookingId);
     if (!booking) {
       throw new NotFoundError('Booking', bookingId);
     }
-
-    // Verify caller is the room owner
-    if (userId && booking.ownerId !== userId) {
+    if (actor.role === 'OWNER' && booking.ownerId !== actor.id) {
       throw new ForbiddenError('Only the property owner can update booking status');
     }
-
-    // Validate status transitions
-    const validTransitions: Record<string, string[]> = {
-      PENDING: ['APPROVED', 'REJECTED'],
-      APPROVED: ['REJECTED']
-    };
-    const currentStatus = booking.status.toUpperCase();
-    const newStatus = status.toUpperCase();
-    const allowed = validTransitions[currentStatus] || [];
-    if (!allowed.includes(newStatus)) {
-      throw new InvalidStatusTransitionError(currentStatus, newStatus);
+    if (actor.role === 'TENANT' && booking.tenantId !== actor.id) {
+      throw new ForbiddenError('Unauthorized to cancel this booking');
     }
+    const currentStatus = booking.status.toUpperCase() as PrismaBookingStatus;
+    const newStatus = status.toUpperCase() as PrismaBookingStatus;
+    assertBookingTransition(currentStatus, newStatus, actor.role);
 
-    // Atomic: status update + outbox event in single transaction
+    // Atomic: status update + history + outbox event in single transaction
+    // A retry after a serialization conflict re-checks the bed and the status
     const prisma = getPrismaClient();
-    const result = await prisma.$transaction(async (tx: any) => {
+    const result = await withSerializationRetry('transitionBooking', {
+      bookingId,
+      toStatus: newStatus
+    }, () => prisma.$transaction(async (tx: any) => {
+      // Approving takes a bed — Serializable makes two concurrent approvals
+      // for the last bed conflict instead of both succeeding
+      if (newStatus === 'APPROVED') {
+        const room = await tx.room.findUniqueOrThrow({
+          where: {
+            id: booking.roomId
+          },
+          select: {
+            id: true,
+            roomType: true,
+            totalBeds: true,
+            availableFrom: true
+          }
+        });
+        await assertBedAvailable(tx, room, new Date(booking.moveInDate), booking.moveOutDate ? new Date(booking.moveOutDate) : null, booking.id);
+      }
+
       // Optimistic lock: only update if status hasn't changed since we read it
       const updateResult = await tx.booking.updateMany({
         where: {
           id: bookingId,
-          status: currentStatus as any
+          status: currentStatus
         },
         data: {
-          status: newStatus as any
+          status: newStatus
         }
       });
       if (updateResult.count === 0) {
         throw new BusinessLogicError('Booking was modified concurrently. Please retry.');
       }
-
-      // Write BOOKING_STATUS_CHANGED outbox event atomically
-      const outboxPayload: BookingStatusChangedPayload = {
-        bookingId: booking.id,
-        roomId: booking.roomId,
-        ownerId: booking.ownerId,
-        tenantId: booking.tenantId || null,
-        tenantEmail: booking.tenantEmail,
-        previousStatus: currentStatus,
-        newStatus: newStatus,
-        changedBy: userId || 'SYSTEM',
-        changedAt: new Date().toISOString()
-      };
-      await writeOutboxEvent(tx, {
-        aggregateType: OutboxAggregateType.BOOKING,
-        aggregateId: booking.id,
-        eventType: OutboxEventType.BOOKING_STATUS_CHANGED,
-        payload: outboxPayload
+      await recordBookingTransition(tx, {
+        booking: {
+          id: booking.id,
+          roomId: booking.roomId,
+          ownerId: booking.ownerId,
+          tenantId: booking.tenantId || null,
+          tenantEmail: booking.tenantEmail
+        },
+        fromStatus: currentStatus,
+        toStatus: newStatus,
+        actor,
+        reason
       });
 
       // Fetch updated booking
@@ -203,14 +324,15 @@ export class BookingService {
     }, {
       isolationLevel: 'Serializable',
       timeout: 10000
-    });
+    }));
     if (!result) {
       throw new BusinessLogicError('Failed to update booking status.');
     }
     logger.info('Booking status updated with outbox event', {
       bookingId,
       from: currentStatus,
-      to: newStatus
+      to: newStatus,
+      actorRole: actor.role
     });
     return {
       id: result.id,
@@ -221,33 +343,11 @@ export class BookingService {
       tenantEmail: result.tenantEmail,
       tenantPhone: result.tenantPhone,
       moveInDate: result.moveInDate instanceof Date ? result.moveInDate.toISOString() : result.moveInDate,
+      moveOutDate: result.moveOutDate instanceof Date ? result.moveOutDate.toISOString() : result.moveOutDate ?? null,
       message: result.message,
       status: typeof result.status === 'string' ? result.status.toLowerCase() : result.status,
       createdAt: result.createdAt instanceof Date ? result.createdAt.toISOString() : result.createdAt,
       updatedAt: result.updatedAt instanceof Date ? result.updatedAt.toISOString() : result.updatedAt
     };
   }
-
-  /**
-   * CANCEL BOOKING — FIXED: Optimistic locking
-   */
-  async cancelBooking(bookingId: string, userId: string) {
-    const booking = await this.bookingRepository.findById(bookingId);
-    if (!booking) {
-      throw new NotFoundError('Booking', bookingId);
-    }
-    if (booking.tenantId !== userId) {
-      throw new ForbiddenError('Unauthorized to cancel this booking');
-    }
-    if (booking.status.toUpperCase() !== 'PENDING') {
-      throw new BusinessLogicError('Only pending bookings can be cancelled');
-    }
-    const result = await this.bookingRepository.updateWithOptimisticLock(bookingId, 'PENDING', {
-      status: 'REJECTED'
-    });
-    if (!result) {
-      throw new BusinessLogicError('Booking was modified concurrently. Please retry.');
-    }
-    return result;
-  }
-}
\ No newline at end of file
+}
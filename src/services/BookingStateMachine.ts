@@ -0,0 +1,80 @@
+import { BookingStatus } from '@prisma/client';
+import { ForbiddenError, InvalidStatusTransitionError } from '../errors/AppErrors';
+
+/**
+ * BOOKING STATE MACHINE — single source of truth for status transitions
+ *
+ *   PENDING ──► APPROVED ──► CONFIRMED ──► MOVED_IN ──► COMPLETED
+ *      │            │             │
+ *      ├──► REJECTED ◄┼─────────────┤
+ *      ├──► CANCELLED ◄┴────────────┘  (tenant withdrawal)
+ *      └──► EXPIRED        (owner never responded — system only)
+ *
+ * APPROVED → CONFIRMED is taken by the system once a booking token or
+ * deposit payment is verified (BookingPaymentService); approved bookings
+ * paid offline can still go straight to MOVED_IN.
+ * REJECTED, CANCELLED, EXPIRED and COMPLETED are terminal.
+ * Each edge lists the actors allowed to take it; ownership of the booking
+ * (tenant / owner) is checked by the caller.
+ */
+export type BookingActorRole = 'TENANT' | 'OWNER' | 'ADMIN' | 'SYSTEM';
+export interface BookingActor {
+  id: string | null;
+  role: BookingActorRole;
+}
+export const SYSTEM_ACTOR: BookingActor = {
+  id: null,
+  role: 'SYSTEM'
+};
+const BOOKING_TRANSITIONS: Record<BookingStatus, Partial<Record<BookingStatus, BookingActorRole[]>>> = {
+  PENDING: {
+    APPROVED: ['OWNER', 'ADMIN'],
+    REJECTED: ['OWNER', 'ADMIN'],
+    CANCELLED: ['TENANT', 'ADMIN'],
+    EXPIRED: ['SYSTEM']
+  },
+  APPROVED: {
+    CONFIRMED: ['SYSTEM'],
+    REJECTED: ['OWNER', 'ADMIN'],
+    CANCELLED: ['TENANT', 'ADMIN'],
+    MOVED_IN: ['OWNER', 'ADMIN']
+  },
+  CONFIRMED: {
+    REJECTED: ['OWNER', 'ADMIN'],
+    CANCELLED: ['TENANT', 'ADMIN'],
+    MOVED_IN: ['OWNER', 'ADMIN']
+  },
+  MOVED_IN: {
+    COMPLETED: ['OWNER', 'ADMIN']
+  },
+  REJECTED: {},
+  CANCELLED: {},
+  EXPIRED: {},
+  COMPLETED: {}
+};
+export const isBookingStatus = (value: string): value is BookingStatus => Object.prototype.hasOwnProperty.call(BOOKING_TRANSITIONS, value);
+export const isTerminalBookingStatus = (status: BookingStatus): boolean => Object.keys(BOOKING_TRANSITIONS[status]).length === 0;
+
+/**
+ * Statuses `actor` may move a booking to from `from`.
+ */
+export const allowedBookingTransitions = (from: BookingStatus, actor: BookingActorRole): BookingStatus[] => (Object.entries(BOOKING_TRANSITIONS[from]) as [BookingStatus, BookingActorRole[]][]).filter(([, actors]) => actors.includes(actor)).map(([to]) => to);
+
+/**
+ * @throws InvalidStatusTransitionError when no such edge exists
+ * @throws ForbiddenError when the edge exists but not for this actor
+ */
+export const assertBookingTransition = (from: string, to: string, actor: BookingActorRole): void => {
+  const fromStatus = from.toUpperCase();
+  const toStatus = to.toUpperCase();
+  if (!isBookingStatus(fromStatus) || !isBookingStatus(toStatus)) {
+    throw new InvalidStatusTransitionError(fromStatus, toStatus);
+  }
+  const actors = BOOKING_TRANSITIONS[fromStatus][toStatus];
+  if (!actors) {
+    throw new InvalidStatusTransitionError(fromStatus, toStatus);
+  }
+  if (!actors.includes(actor)) {
+    throw new ForbiddenError(`${actor.toLowerCase()} cannot change booking status from ${fromStatus} to ${toStatus}`);
+  }
+};
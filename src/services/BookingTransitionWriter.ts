@@ -0,0 +1,146 @@
+import { BookingStatus } from '@prisma/client';
+import { writeOutboxEvent } from './OutboxWriter';
+import { OutboxAggregateType, OutboxEventType, BookingStatusChangedPayload, BookingCancelledPayload, BookingExpiredPayload } from './OutboxEventTypes';
+import { BookingActor } from './BookingStateMachine';
+import { queueBookingRefunds } from './RefundService';
+
+// =============================================================================
+// BOOKING TRANSITION WRITER
+//
+// Every booking status change goes through recordBookingTransition() inside
+// the same transaction as the status update, so the history row and the
+// outbox event exist if and only if the change committed.
+//
+// Event per target status:
+//   CANCELLED → BOOKING_CANCELLED (owner is told the tenant withdrew)
+//   EXPIRED → BOOKING_EXPIRED (both parties are told)
+//   anything else → BOOKING_STATUS_CHANGED
+//
+// REJECTED / CANCELLED also queue refunds for paid token/deposit payments
+// (see BookingRefundPolicy).
+// =============================================================================
+
+export interface BookingTransitionContext {
+  actor: BookingActor;
+  reason?: string | null;
+}
+export interface BookingTransitionTarget {
+  id: string;
+  roomId: string;
+  ownerId: string;
+  tenantId: string | null;
+  tenantEmail: string;
+}
+
+/**
+ * Record the creation of a booking (fromStatus = null) — no event; the
+ * caller already writes BOOKING_CREATED.
+ */
+export async function recordBookingCreated(tx: any, bookingId: string, actor: BookingActor): Promise<void> {
+  await tx.bookingStatusHistory.create({
+    data: {
+      bookingId,
+      fromStatus: null,
+      toStatus: BookingStatus.PENDING,
+      actorId: actor.id,
+      actorRole: actor.role
+    }
+  });
+}
+
+/**
+ * Write the history row + outbox event for a status change.
+ * MUST be called inside the Prisma $transaction that changed the status.
+ */
+export async function recordBookingTransition(tx: any, params: {
+  booking: BookingTransitionTarget;
+  fromStatus: BookingStatus;
+  toStatus: BookingStatus;
+  actor: BookingActor;
+  reason?: string | null;
+}): Promise<void> {
+  const {
+    booking,
+    fromStatus,
+    toStatus,
+    actor
+  } = params;
+  const reason = params.reason ?? null;
+  const history = await tx.bookingStatusHistory.create({
+    data: {
+      bookingId: booking.id,
+      fromStatus,
+      toStatus,
+      actorId: actor.id,
+      actorRole: actor.role,
+      reason
+    }
+  });
+  const changedAt = (history.createdAt as Date).toISOString();
+  if (toStatus === BookingStatus.REJECTED || toStatus === BookingStatus.CANCELLED) {
+    await queueBookingRefunds(tx, {
+      bookingId: booking.id,
+      toStatus,
+      actor,
+      now: history.createdAt
+    });
+  }
+  if (toStatus === BookingStatus.CANCELLED) {
+    const payload: BookingCancelledPayload = {
+      bookingId: booking.id,
+      roomId: booking.roomId,
+      ownerId: booking.ownerId,
+      tenantId: booking.tenantId,
+      tenantEmail: booking.tenantEmail,
+      previousStatus: fromStatus,
+      cancelledBy: actor.id ?? 'SYSTEM',
+      actorRole: actor.role,
+      reason,
+      cancelledAt: changedAt
+    };
+    await writeOutboxEvent(tx, {
+      aggregateType: OutboxAggregateType.BOOKING,
+      aggregateId: booking.id,
+      eventType: OutboxEventType.BOOKING_CANCELLED,
+      payload
+    });
+    return;
+  }
+  if (toStatus === BookingStatus.EXPIRED) {
+    const payload: BookingExpiredPayload = {
+      bookingId: booking.id,
+      roomId: booking.roomId,
+      ownerId: booking.ownerId,
+      tenantId: booking.tenantId,
+      tenantEmail: booking.tenantEmail,
+      reason,
+      expiredAt: changedAt
+    };
+    await writeOutboxEvent(tx, {
+      aggregateType: OutboxAggregateType.BOOKING,
+      aggregateId: booking.id,
+      eventType: OutboxEventType.BOOKING_EXPIRED,
+      payload
+    });
+    return;
+  }
+  const payload: BookingStatusChangedPayload = {
+    bookingId: booking.id,
+    roomId: booking.roomId,
+    ownerId: booking.ownerId,
+    tenantId: booking.tenantId,
+    tenantEmail: booking.tenantEmail,
+    previousStatus: fromStatus,
+    newStatus: toStatus,
+    changedBy: actor.id ?? 'SYSTEM',
+    actorRole: actor.role,
+    reason,
+    changedAt
+  };
+  await writeOutboxEvent(tx, {
+    aggregateType: OutboxAggregateType.BOOKING,
+    aggregateId: booking.id,
+    eventType: OutboxEventType.BOOKING_STATUS_CHANGED,
+    payload
+  });
+}
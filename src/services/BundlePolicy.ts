@@ -0,0 +1,107 @@
+/**
+ * BUNDLE POLICY — multi-city plans
+ *
+ * ┌─────────────┬────────────────────────────────────────────────────────┐
+ * │ Rule        │                                                        │
+ * ├─────────────┼────────────────────────────────────────────────────────┤
+ * │ coverage    │ the bundle's cities, or every city when allCities —    │
+ * │             │ including cities opened after the purchase             │
+ * │ in a city   │ the better of the city's own plan and each covering    │
+ * │             │ bundle, by catalogue sortOrder; a tie goes to the city │
+ * │ expiry      │ same grace period as a city plan, then the bundle      │
+ * │             │ simply stops covering                                  │
+ * │ renewal     │ buying the same bundle again extends it                │
+ * │ contacts    │ the bundle's per-city limit, else the tier's           │
+ * └─────────────┴────────────────────────────────────────────────────────┘
+ *
+ * Pure rules only — BundleService applies them.
+ */
+
+import { effectiveSubscriptionPlan } from './SubscriptionExpiryPolicy';
+import { FREE_PLAN } from './PlanCatalogPolicy';
+
+// A bundle of one city is just a city plan
+export const MIN_BUNDLE_CITIES = 2;
+export interface BundleCoverage {
+  cities: string[];
+  allCities: boolean;
+}
+
+// What a bundle purchase buys; kept on Payment.metadata.bundle
+export interface BundleTerms extends BundleCoverage {
+  code: string;
+  plan: string;
+  durationDays: number;
+  contactLimit: number | null;
+}
+interface HeldBundle extends BundleCoverage {
+  plan: string;
+  expiresAt: Date | null;
+}
+export function bundleCovers(bundle: BundleCoverage, city: string): boolean {
+  return bundle.allCities || bundle.cities.includes(city);
+}
+
+/**
+ * Cities a bundle covers today — an all-cities bundle grows with us
+ */
+export function coveredCities(bundle: BundleCoverage, operatingCities: string[]): string[] {
+  return bundle.allCities ? operatingCities : bundle.cities;
+}
+
+/**
+ * "all cities" or the city list, for invoices and listings
+ */
+export function coverageLabel(bundle: BundleCoverage): string {
+  return bundle.allCities ? 'all cities' : bundle.cities.join(', ');
+}
+
+/**
+ * Plan that applies to a tenant in `city`, and the bundle it comes from
+ * (null when the city's own subscription, or FREE, applies)
+ */
+export function resolveCityPlan<B extends HeldBundle>(subscription: {
+  plan: string;
+  expiresAt: Date | null;
+} | null, bundles: B[], city: string, ctx: {
+  now: Date;
+  graceDays: number;
+  rank: (plan: string) => number;
+}): {
+  plan: string;
+  bundle: B | null;
+} {
+  let best: {
+    plan: string;
+    bundle: B | null;
+  } = {
+    plan: effectiveSubscriptionPlan(subscription, ctx.now, ctx.graceDays),
+    bundle: null
+  };
+  for (const bundle of bundles) {
+    if (!bundleCovers(bundle, city)) continue;
+    const plan = effectiveSubscriptionPlan(bundle, ctx.now, ctx.graceDays);
+    if (plan === FREE_PLAN) continue;
+    if (best.plan === FREE_PLAN || ctx.rank(plan) > ctx.rank(best.plan)) {
+      best = {
+        plan,
+        bundle
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Terms recorded on a bundle payment, or null for a city plan payment
+ */
+export function bundleTermsOf(payment: {
+  bundleCode: string | null;
+  metadata: unknown;
+}): BundleTerms | null {
+  if (!payment.bundleCode) return null;
+  const terms = (payment.metadata as {
+    bundle?: BundleTerms;
+  } | null)?.bundle;
+  return terms ?? null;
+}
@@ -0,0 +1,327 @@
+import { PrismaClient, Prisma, TenantBundle } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { normalizeCity } from '../utils/normalize';
+import { CITIES } from '../config/cities';
+import { env } from '../config/env';
+import { NotFoundError, BusinessLogicError, DuplicateError, ValidationError } from '../errors/AppErrors';
+import { planCatalogService } from './PlanCatalogService';
+import { isPurchasable } from './PlanCatalogPolicy';
+import { PaidPeriod, paidPeriod, subscriptionPhase } from './SubscriptionExpiryPolicy';
+import { BundleCoverage, BundleTerms, MIN_BUNDLE_CITIES, coverageLabel, coveredCities, resolveCityPlan } from './BundlePolicy';
+import { CreateBundleInput, UpdateBundleInput, BundleListQuery } from '../models/Bundle';
+
+// =============================================================================
+// BUNDLES — one payment, several cities
+//
+// BundlePlan is the catalogue admins manage; TenantBundle is what a tenant
+// holds. A bundle is bought through the subscription checkout
+// (TenantSubscriptionService.createBundleOrder) and activated with the
+// payment, alongside any per-city TenantSubscription rows.
+//
+// resolveCityPlan() is where contact unlocks, limits and visibility learn
+// which plan applies to a tenant in a city.
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+type Db = PrismaClient | Prisma.TransactionClient;
+const operatingCities = (): string[] => CITIES.map((c) => c.id);
+export interface CityPlanResolution {
+  plan: string;
+  bundle: TenantBundle | null;
+  subscription: {
+    id: string;
+    plan: string;
+    expiresAt: Date | null;
+  } | null;
+}
+export class BundleService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.listBundles = this.listBundles.bind(this);
+    this.createBundle = this.createBundle.bind(this);
+    this.updateBundle = this.updateBundle.bind(this);
+    this.getOfferedBundles = this.getOfferedBundles.bind(this);
+    this.getTenantBundles = this.getTenantBundles.bind(this);
+    this.resolveCityPlan = this.resolveCityPlan.bind(this);
+    this.quote = this.quote.bind(this);
+    this.applyPaidBundle = this.applyPaidBundle.bind(this);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Admin
+  // ---------------------------------------------------------------------------
+
+  async listBundles(query: BundleListQuery) {
+    return this.prisma.bundlePlan.findMany({
+      where: query.includeInactive ? {} : {
+        isActive: true
+      },
+      orderBy: [{
+        sortOrder: 'asc'
+      }, {
+        code: 'asc'
+      }]
+    });
+  }
+  async createBundle(input: CreateBundleInput, adminId: string) {
+    const tier = await planCatalogService.getPlan(input.tier);
+    if (!tier || !isPurchasable(tier)) {
+      throw new ValidationError(`Not a purchasable plan: ${input.tier}`);
+    }
+    this.assertCoverage(input);
+    try {
+      const bundle = await this.prisma.bundlePlan.create({
+        data: {
+          ...input,
+          cities: input.allCities ? [] : input.cities,
+          createdBy: adminId
+        }
+      });
+      logger.info('Bundle created', {
+        code: bundle.code,
+        tier: bundle.tier,
+        coverage: coverageLabel(bundle),
+        adminId
+      });
+      return bundle;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateError(`Bundle ${input.code} already exists`);
+      }
+      throw error;
+    }
+  }
+  async updateBundle(code: string, input: UpdateBundleInput, adminId: string) {
+    const bundleCode = code.toUpperCase();
+    const bundle = await this.prisma.bundlePlan.findUnique({
+      where: {
+        code: bundleCode
+      }
+    });
+    if (!bundle) throw new NotFoundError('Bundle', bundleCode);
+    const coverage = {
+      cities: input.cities ?? bundle.cities,
+      allCities: input.allCities ?? bundle.allCities
+    };
+    if (input.cities !== undefined || input.allCities !== undefined) {
+      // Switching to allCities drops the stored list
+      if (input.allCities && input.cities === undefined) coverage.cities = [];
+      this.assertCoverage(coverage);
+    }
+    const updated = await this.prisma.bundlePlan.update({
+      where: {
+        code: bundleCode
+      },
+      data: {
+        ...input,
+        ...coverage
+      }
+    });
+    logger.info('Bundle updated', {
+      code: bundleCode,
+      changes: Object.keys(input),
+      adminId
+    });
+    return updated;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tenant
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Bundles on sale, with what their tier includes
+   */
+  async getOfferedBundles() {
+    const [bundles, plans] = await Promise.all([this.prisma.bundlePlan.findMany({
+      where: {
+        isActive: true
+      },
+      orderBy: [{
+        sortOrder: 'asc'
+      }, {
+        price: 'asc'
+      }]
+    }), planCatalogService.getPlans()]);
+    return bundles.flatMap((bundle) => {
+      const tier = plans.find((p) => p.name === bundle.tier);
+      if (!tier || !isPurchasable(tier)) return [];
+      return [{
+        code: bundle.code,
+        displayName: bundle.displayName,
+        description: bundle.description,
+        plan: tier.name,
+        planDisplayName: tier.displayName,
+        allCities: bundle.allCities,
+        cities: coveredCities(bundle, operatingCities()),
+        coverage: coverageLabel(bundle),
+        price: bundle.price,
+        durationDays: bundle.durationDays,
+        features: tier.features
+      }];
+    });
+  }
+
+  /**
+   * A tenant's bundles, newest first, with where each is in its expiry cycle
+   */
+  async getTenantBundles(tenantId: string, now: Date = new Date()) {
+    const bundles = await this.prisma.tenantBundle.findMany({
+      where: {
+        tenantId
+      },
+      orderBy: {
+        startedAt: 'desc'
+      }
+    });
+    return bundles.map((bundle) => ({
+      ...bundle,
+      cities: coveredCities(bundle, operatingCities()),
+      coverage: coverageLabel(bundle),
+      phase: subscriptionPhase(bundle, now, {
+        reminderDays: env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS,
+        graceDays: env.SUBSCRIPTION_GRACE_PERIOD_DAYS
+      })
+    }));
+  }
+
+  /**
+   * Plan that applies to the tenant in `city`: their subscription for the
+   * city or a bundle covering it, whichever is better. Pass the transaction
+   * client when enforcing limits inside one.
+   */
+  async resolveCityPlan(tenantId: string, city: string, now: Date = new Date(), db: Db = this.prisma): Promise<CityPlanResolution> {
+    const normalizedCity = normalizeCity(city);
+    const [subscription, bundles, plans] = await Promise.all([db.tenantSubscription.findUnique({
+      where: {
+        tenantId_city: {
+          tenantId,
+          city: normalizedCity
+        }
+      }
+    }), db.tenantBundle.findMany({
+      where: {
+        tenantId,
+        expiresAt: {
+          gt: new Date(now.getTime() - env.SUBSCRIPTION_GRACE_PERIOD_DAYS * DAY_MS)
+        }
+      }
+    }), planCatalogService.getPlans()]);
+    const resolved = resolveCityPlan(subscription, bundles, normalizedCity, {
+      now,
+      graceDays: env.SUBSCRIPTION_GRACE_PERIOD_DAYS,
+      rank: (plan) => plans.find((p) => p.name === plan)?.sortOrder ?? 0
+    });
+    return {
+      ...resolved,
+      subscription
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Checkout
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Terms and amount (paise) of a bundle that is on sale
+   */
+  async quote(code: string): Promise<{
+    terms: BundleTerms;
+    amount: number;
+  }> {
+    const bundleCode = code.toUpperCase();
+    const bundle = await this.prisma.bundlePlan.findUnique({
+      where: {
+        code: bundleCode
+      }
+    });
+    if (!bundle || !bundle.isActive) throw new NotFoundError('Bundle', bundleCode);
+    const tier = await planCatalogService.getPlan(bundle.tier);
+    if (!tier || !isPurchasable(tier)) {
+      throw new BusinessLogicError(`Bundle ${bundleCode} is not available right now`);
+    }
+    return {
+      terms: {
+        code: bundle.code,
+        plan: bundle.tier,
+        cities: bundle.cities,
+        allCities: bundle.allCities,
+        durationDays: bundle.durationDays,
+        contactLimit: bundle.contactLimit
+      },
+      amount: bundle.price * 100
+    };
+  }
+
+  /**
+   * Give the tenant the bundle they paid for, from `paidAt` or — buying the
+   * same bundle again early — from its current expiry. Pass the period
+   * recorded on the payment to restore it rather than buy another one.
+   */
+  async applyPaidBundle(tx: Prisma.TransactionClient, tenantId: string, terms: BundleTerms, paidAt: Date, recorded: PaidPeriod | null = null): Promise<{
+    bundle: TenantBundle;
+    period: PaidPeriod;
+  }> {
+    const current = await tx.tenantBundle.findUnique({
+      where: {
+        tenantId_bundleCode: {
+          tenantId,
+          bundleCode: terms.code
+        }
+      }
+    });
+    const period = recorded ?? paidPeriod(current, terms.plan, paidAt, terms.durationDays);
+    const expiresAt = period.end;
+    const fields = {
+      plan: terms.plan,
+      cities: terms.cities,
+      allCities: terms.allCities,
+      contactLimit: terms.contactLimit,
+      expiresAt
+    };
+    const bundle = await tx.tenantBundle.upsert({
+      where: {
+        tenantId_bundleCode: {
+          tenantId,
+          bundleCode: terms.code
+        }
+      },
+      create: {
+        tenantId,
+        bundleCode: terms.code,
+        ...fields
+      },
+      update: current && current.expiresAt > paidAt ? fields : {
+        ...fields,
+        startedAt: paidAt
+      }
+    });
+    return {
+      bundle,
+      period
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private assertCoverage(coverage: BundleCoverage): void {
+    if (coverage.allCities) {
+      if (coverage.cities.length > 0) {
+        throw new ValidationError('List the cities or set allCities, not both');
+      }
+      return;
+    }
+    if (coverage.cities.length < MIN_BUNDLE_CITIES) {
+      throw new ValidationError(`A bundle needs at least ${MIN_BUNDLE_CITIES} cities, or allCities`);
+    }
+    const unknown = coverage.cities.filter((city) => !operatingCities().includes(city));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown city: ${unknown.join(', ')}`);
+    }
+  }
+}
+export const bundleService = new BundleService();
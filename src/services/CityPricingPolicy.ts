@@ -0,0 +1,75 @@
+/**
+ * CITY PRICING POLICY — which price version applies when
+ *
+ * ┌────────────┬─────────────────────────────────────────────────────────┐
+ * │ Version    │ Rule                                                    │
+ * ├────────────┼─────────────────────────────────────────────────────────┤
+ * │ effective  │ validFrom ≤ now < validTo (no validTo = open-ended)     │
+ * │ upcoming   │ the next version to start; tenants see it in advance    │
+ * │ new change │ starts now or later, and after every existing version — │
+ * │            │ cancel a scheduled change before scheduling another     │
+ * │ scheduled  │ can be cancelled until it takes effect                  │
+ * │ locked     │ a tenant quoted a version that has just ended still     │
+ * │            │ gets it for PRICE_LOCK_MINUTES; created orders keep     │
+ * │            │ their amount for good                                   │
+ * └────────────┴─────────────────────────────────────────────────────────┘
+ *
+ * Pure rules only — CityPricingService applies them.
+ */
+
+// How long after a price change a checkout started on the old price can
+// still be completed at it
+export const PRICE_LOCK_MINUTES = 30;
+export interface PriceVersion {
+  id: string;
+  price: number;
+  validFrom: Date;
+  validTo: Date | null;
+}
+export type PriceChangeRejection = 'IN_THE_PAST' | 'CHANGE_ALREADY_SCHEDULED';
+export const PRICE_CHANGE_REJECTION_MESSAGES: Record<PriceChangeRejection, string> = {
+  IN_THE_PAST: 'A price change cannot take effect in the past',
+  CHANGE_ALREADY_SCHEDULED: 'A price change is already scheduled for this plan and city. Cancel it first.'
+};
+export function isEffective(version: Pick<PriceVersion, 'validFrom' | 'validTo'>, at: Date): boolean {
+  return version.validFrom <= at && (version.validTo === null || version.validTo > at);
+}
+
+/**
+ * The version of one city/plan in effect at `at`
+ */
+export function effectiveVersion<T extends PriceVersion>(versions: T[], at: Date): T | null {
+  return versions.filter((v) => isEffective(v, at)).sort((a, b) => b.validFrom.getTime() - a.validFrom.getTime())[0] ?? null;
+}
+
+/**
+ * The next version of one city/plan to take effect after `now`
+ */
+export function upcomingVersion<T extends PriceVersion>(versions: T[], now: Date): T | null {
+  return versions.filter((v) => v.validFrom > now).sort((a, b) => a.validFrom.getTime() - b.validFrom.getTime())[0] ?? null;
+}
+
+/**
+ * Why a new version of one city/plan can't start at `validFrom`, or null
+ * when it can. Versions only ever get appended, so the timeline has no gaps
+ * to reason about.
+ */
+export function priceChangeRejection(versions: PriceVersion[], validFrom: Date, now: Date): PriceChangeRejection | null {
+  if (validFrom < now) return 'IN_THE_PAST';
+  if (versions.some((v) => v.validFrom >= validFrom)) return 'CHANGE_ALREADY_SCHEDULED';
+  return null;
+}
+
+/**
+ * The version a checkout quoted on, if it can still be sold at: the one in
+ * effect, or one that ended less than `lockMinutes` ago
+ */
+export function lockedVersion<T extends PriceVersion>(versions: T[], pricingId: string, now: Date, lockMinutes: number = PRICE_LOCK_MINUTES): T | null {
+  const version = versions.find((v) => v.id === pricingId);
+  if (!version) return null;
+  if (isEffective(version, now)) return version;
+  if (version.validTo !== null && version.validTo <= now && now.getTime() - version.validTo.getTime() <= lockMinutes * 60 * 1000) {
+    return version;
+  }
+  return null;
+}
@@ -0,0 +1,353 @@
+import { PrismaClient, Prisma, CityPricing, PricingAuditAction } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { NotFoundError, BusinessLogicError } from '../errors/AppErrors';
+import { effectiveVersion, upcomingVersion, priceChangeRejection, lockedVersion, PRICE_CHANGE_REJECTION_MESSAGES } from './CityPricingPolicy';
+
+// =============================================================================
+// CITY PRICING — effective-dated price versions
+//
+// A price change adds a CityPricing version starting at its validFrom and
+// closes the one before it (validTo = the new validFrom), so past prices
+// stay on record and a change can be scheduled ahead. Every change, and
+// every withdrawal of a scheduled one, is written to CityPricingAudit.
+//
+// Orders lock their price: the Payment keeps the amount and the version it
+// was built on, and nothing after checkout reads CityPricing again. A tenant
+// who was shown a price just before it changed can still order at it for
+// PRICE_LOCK_MINUTES by sending that version's pricingId.
+// =============================================================================
+
+type Db = PrismaClient | Prisma.TransactionClient;
+export interface CurrentPrice {
+  pricingId: string;
+  city: string;
+  plan: string;
+  price: number; // rupees
+  validFrom: Date;
+  validTo: Date | null;
+  upcoming: {
+    pricingId: string;
+    price: number;
+    effectiveFrom: Date;
+  } | null;
+}
+export interface PriceChangeInput {
+  city: string;
+  plan: string;
+  price: number;
+  validFrom?: Date;
+  reason?: string;
+}
+export class CityPricingService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.getCurrentPrices = this.getCurrentPrices.bind(this);
+    this.getOrderPrice = this.getOrderPrice.bind(this);
+    this.getHistory = this.getHistory.bind(this);
+    this.setPrice = this.setPrice.bind(this);
+    this.writePrice = this.writePrice.bind(this);
+    this.cancelScheduledChange = this.cancelScheduledChange.bind(this);
+    this.removePrice = this.removePrice.bind(this);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lookups
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Price in effect for every city/plan matching the filter, with the next
+   * scheduled change. City/plans not priced right now are left out.
+   */
+  async getCurrentPrices(filter: {
+    city?: string;
+    plan?: string;
+  } = {}, now: Date = new Date(), db: Db = this.prisma): Promise<CurrentPrice[]> {
+    const rows = await db.cityPricing.findMany({
+      where: {
+        ...filter,
+        OR: [{
+          validTo: null
+        }, {
+          validTo: {
+            gt: now
+          }
+        }]
+      },
+      orderBy: {
+        validFrom: 'asc'
+      }
+    });
+    const byCityPlan = new Map<string, CityPricing[]>();
+    for (const row of rows) {
+      const key = `${row.city}:${row.plan}`;
+      byCityPlan.set(key, [...(byCityPlan.get(key) ?? []), row]);
+    }
+    const prices: CurrentPrice[] = [];
+    for (const versions of byCityPlan.values()) {
+      const current = effectiveVersion(versions, now);
+      if (!current) continue;
+      const next = upcomingVersion(versions, now);
+      prices.push({
+        pricingId: current.id,
+        city: current.city,
+        plan: current.plan,
+        price: current.price,
+        validFrom: current.validFrom,
+        validTo: current.validTo,
+        upcoming: next ? {
+          pricingId: next.id,
+          price: next.price,
+          effectiveFrom: next.validFrom
+        } : null
+      });
+    }
+    return prices;
+  }
+
+  /**
+   * Version a new order is priced at: the one the tenant was quoted if it is
+   * still honoured, otherwise the one in effect
+   */
+  async getOrderPrice(city: string, plan: string, pricingId?: string, now: Date = new Date(), db: Db = this.prisma): Promise<CityPricing | null> {
+    const versions = await db.cityPricing.findMany({
+      where: {
+        city,
+        plan
+      }
+    });
+    const locked = pricingId ? lockedVersion(versions, pricingId, now) : null;
+    return locked ?? effectiveVersion(versions, now);
+  }
+
+  /**
+   * Every version of a city/plan price and the audit trail, newest first
+   */
+  async getHistory(city: string, plan: string) {
+    const [versions, audit] = await Promise.all([this.prisma.cityPricing.findMany({
+      where: {
+        city,
+        plan
+      },
+      orderBy: {
+        validFrom: 'desc'
+      }
+    }), this.prisma.cityPricingAudit.findMany({
+      where: {
+        city,
+        plan
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    })]);
+    const now = new Date();
+    const current = effectiveVersion(versions, now);
+    return {
+      city,
+      plan,
+      versions: versions.map((v) => ({
+        ...v,
+        status: v.id === current?.id ? 'CURRENT' : v.validFrom > now ? 'SCHEDULED' : 'PAST'
+      })),
+      audit
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Changes
+  // ---------------------------------------------------------------------------
+
+  async setPrice(input: PriceChangeInput, adminId: string): Promise<CityPricing> {
+    return this.prisma.$transaction((tx) => this.writePrice(tx, input, adminId), {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    });
+  }
+
+  /**
+   * Add a price version, closing the one it replaces.
+   * MUST be called inside a transaction.
+   */
+  async writePrice(tx: Prisma.TransactionClient, input: PriceChangeInput, adminId: string, now: Date = new Date()): Promise<CityPricing> {
+    const {
+      city,
+      plan,
+      price
+    } = input;
+    const validFrom = input.validFrom ?? now;
+    const versions = await tx.cityPricing.findMany({
+      where: {
+        city,
+        plan
+      }
+    });
+    const rejection = priceChangeRejection(versions, validFrom, now);
+    if (rejection) throw new BusinessLogicError(PRICE_CHANGE_REJECTION_MESSAGES[rejection]);
+    const replaced = versions.find((v) => v.validTo === null || v.validTo > validFrom);
+    if (replaced) {
+      await tx.cityPricing.update({
+        where: {
+          id: replaced.id
+        },
+        data: {
+          validTo: validFrom
+        }
+      });
+    }
+    const version = await tx.cityPricing.create({
+      data: {
+        city,
+        plan,
+        price,
+        validFrom,
+        createdBy: adminId,
+        reason: input.reason
+      }
+    });
+    const scheduled = validFrom > now;
+    await tx.cityPricingAudit.create({
+      data: {
+        action: scheduled ? PricingAuditAction.CHANGE_SCHEDULED : PricingAuditAction.PRICE_SET,
+        city,
+        plan,
+        pricingId: version.id,
+        oldPrice: replaced?.price,
+        newPrice: price,
+        effectiveFrom: validFrom,
+        actorId: adminId,
+        reason: input.reason
+      }
+    });
+    logger.info(scheduled ? 'City price change scheduled' : 'City price set', {
+      city,
+      plan,
+      price,
+      oldPrice: replaced?.price,
+      validFrom: validFrom.toISOString(),
+      adminId
+    });
+    return version;
+  }
+
+  /**
+   * Withdraw a change that hasn't taken effect; the version before it runs
+   * on in its place
+   */
+  async cancelScheduledChange(city: string, plan: string, pricingId: string, adminId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const version = await tx.cityPricing.findUnique({
+        where: {
+          id: pricingId
+        }
+      });
+      if (!version || version.city !== city || version.plan !== plan) {
+        throw new NotFoundError('Price change', pricingId);
+      }
+      if (version.validFrom <= now) {
+        throw new BusinessLogicError('This price has already taken effect. Set a new price instead.');
+      }
+      const previous = await tx.cityPricing.findFirst({
+        where: {
+          city,
+          plan,
+          validTo: version.validFrom
+        }
+      });
+      if (previous) {
+        await tx.cityPricing.update({
+          where: {
+            id: previous.id
+          },
+          data: {
+            validTo: version.validTo
+          }
+        });
+      }
+      await tx.cityPricing.delete({
+        where: {
+          id: version.id
+        }
+      });
+      await tx.cityPricingAudit.create({
+        data: {
+          action: PricingAuditAction.CHANGE_CANCELLED,
+          city,
+          plan,
+          pricingId: version.id,
+          oldPrice: previous?.price,
+          newPrice: version.price,
+          effectiveFrom: version.validFrom,
+          actorId: adminId
+        }
+      });
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    });
+    logger.info('City price change cancelled', {
+      city,
+      plan,
+      pricingId,
+      adminId
+    });
+  }
+
+  /**
+   * Stop selling a plan in a city: the current version ends now and any
+   * scheduled ones are dropped
+   */
+  async removePrice(city: string, plan: string, adminId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const versions = await tx.cityPricing.findMany({
+        where: {
+          city,
+          plan
+        }
+      });
+      const current = effectiveVersion(versions, now);
+      const scheduled = versions.filter((v) => v.validFrom > now);
+      if (!current && scheduled.length === 0) throw new NotFoundError('Pricing', `${city} - ${plan}`);
+      if (current) {
+        await tx.cityPricing.update({
+          where: {
+            id: current.id
+          },
+          data: {
+            validTo: now
+          }
+        });
+      }
+      await tx.cityPricing.deleteMany({
+        where: {
+          id: {
+            in: scheduled.map((v) => v.id)
+          }
+        }
+      });
+      await tx.cityPricingAudit.create({
+        data: {
+          action: PricingAuditAction.PRICE_REMOVED,
+          city,
+          plan,
+          pricingId: current?.id,
+          oldPrice: current?.price,
+          effectiveFrom: now,
+          actorId: adminId
+        }
+      });
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    });
+    logger.info('City price removed', {
+      city,
+      plan,
+      adminId
+    });
+  }
+}
+export const cityPricingService = new CityPricingService();
@@ -91,6 +91,29 @@ export class CloudinaryService {
     });
   }
 
+  /**
+   * Perceptual hashes (64-bit, hex) of our own Cloudinary images.
+   * Foreign URLs and lookups that fail are skipped — callers get what's available.
+   */
+  async getPerceptualHashes(imageUrls: string[]): Promise<string[]> {
+    const results = await Promise.allSettled(imageUrls.filter((url) => this.isValidCloudinaryUrl(url)).map(async (url) => {
+      const publicId = this.extractPublicId(url);
+      if (!publicId) return null;
+      const resource = await cloudinary.api.resource(publicId, {
+        phash: true
+      });
+      return typeof resource?.phash === 'string' ? resource.phash : null;
+    }));
+    const failed = results.filter((r) => r.status === 'rejected').length;
+    if (failed > 0) {
+      logger.warn('Cloudinary phash lookup failed for some images', {
+        failed,
+        total: results.length
+      });
+    }
+    return results.flatMap((r) => r.status === 'fulfilled' && r.value ? [r.value] : []);
+  }
+
   /**
    * Extract Cloudinary public ID from URL
    * Example: https://res.cloudinary.com/cloud/image/upload/v1234567890/folder/image.jpg
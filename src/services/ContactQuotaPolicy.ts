@@ -0,0 +1,114 @@
+/**
+ * CONTACT QUOTA POLICY — how many owner contacts a tenant may unlock
+ *
+ * ┌─────────────┬────────────────────────────────────────────────────────┐
+ * │ Rule        │                                                        │
+ * ├─────────────┼────────────────────────────────────────────────────────┤
+ * │ quota       │ the plan's limit per city (PlanLimit); null limit =    │
+ * │             │ unlimited                                              │
+ * │ window      │ null windowDays = lifetime; otherwise only unlocks in  │
+ * │             │ the last windowDays count, each one freeing up again   │
+ * │             │ windowDays after it was made                           │
+ * │ top-ups     │ once the quota is used up, an unlock spends one top-up │
+ * │             │ credit — any city, soonest-expiring pack first         │
+ * │ counting    │ unlocks paid from a top-up never count against the     │
+ * │             │ plan's quota                                           │
+ * └─────────────┴────────────────────────────────────────────────────────┘
+ *
+ * Pure rules only — ContactService applies them.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export interface ContactQuota {
+  limit: number | null;
+  windowDays: number | null;
+}
+
+// What a top-up purchase buys; kept on Payment.metadata.topUp
+export interface TopUpTerms {
+  code: string;
+  unlocks: number;
+  validityDays: number | null;
+}
+export interface HeldTopUp {
+  remaining: number;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+export type UnlockSource = 'PLAN' | 'TOP_UP';
+
+// Usage breakdown for one city, as GET /visibility reports it
+export interface UnlockUsage {
+  limit: number | null;
+  windowDays: number | null;
+  windowStartsAt: Date | null;
+  used: number;
+  remaining: number | null;
+  // When the oldest counted unlock leaves the window
+  nextReleaseAt: Date | null;
+  topUpRemaining: number;
+  canUnlock: boolean;
+}
+
+/**
+ * Start of the window unlocks are counted from; null = since ever
+ */
+export function quotaWindowStart(quota: ContactQuota, now: Date): Date | null {
+  return quota.windowDays === null ? null : new Date(now.getTime() - quota.windowDays * DAY_MS);
+}
+export function isUsableTopUp(topUp: HeldTopUp, now: Date): boolean {
+  return topUp.remaining > 0 && (topUp.expiresAt === null || topUp.expiresAt > now);
+}
+
+/**
+ * Usable top-ups in the order they are spent: soonest expiry first,
+ * never-expiring last, then oldest first
+ */
+export function spendOrder<T extends HeldTopUp>(topUps: T[], now: Date): T[] {
+  const expiry = (t: HeldTopUp) => t.expiresAt?.getTime() ?? Infinity;
+  return topUps.filter((t) => isUsableTopUp(t, now)).sort((a, b) => expiry(a) - expiry(b) || a.createdAt.getTime() - b.createdAt.getTime());
+}
+export function unlockUsage(quota: ContactQuota, counted: {
+  used: number;
+  oldestAt: Date | null;
+}, topUpRemaining: number, now: Date): UnlockUsage {
+  const remaining = quota.limit === null ? null : Math.max(0, quota.limit - counted.used);
+  return {
+    limit: quota.limit,
+    windowDays: quota.windowDays,
+    windowStartsAt: quotaWindowStart(quota, now),
+    used: counted.used,
+    remaining,
+    nextReleaseAt: quota.windowDays !== null && counted.oldestAt ? new Date(counted.oldestAt.getTime() + quota.windowDays * DAY_MS) : null,
+    topUpRemaining,
+    canUnlock: remaining === null || remaining > 0 || topUpRemaining > 0
+  };
+}
+
+/**
+ * What a new unlock is paid from, or null when neither the quota nor a
+ * top-up has room
+ */
+export function unlockSource(usage: UnlockUsage): UnlockSource | null {
+  if (usage.remaining === null || usage.remaining > 0) return 'PLAN';
+  return usage.topUpRemaining > 0 ? 'TOP_UP' : null;
+}
+
+/**
+ * Expiry of a top-up paid at `paidAt`
+ */
+export function topUpExpiresAt(terms: TopUpTerms, paidAt: Date): Date | null {
+  return terms.validityDays === null ? null : new Date(paidAt.getTime() + terms.validityDays * DAY_MS);
+}
+
+/**
+ * Terms recorded on a top-up payment
+ */
+export function topUpTermsOf(payment: {
+  metadata: unknown;
+}): TopUpTerms | null {
+  const terms = (payment.metadata as {
+    topUp?: TopUpTerms;
+  } | null)?.topUp;
+  return terms ?? null;
+}
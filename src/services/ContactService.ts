@@ -1,10 +1,14 @@
 import { PrismaClient, Prisma, ReviewStatus } from '@prisma/client';
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
-import { NotFoundError, ForbiddenError, AppError, BusinessLogicError } from '../errors/AppErrors';
+import { withSerializationRetry } from '../utils/serializationRetry';
+import { NotFoundError, ForbiddenError, AppError } from '../errors/AppErrors';
 import { PlanLimitService } from './PlanLimitService';
 import { normalizeCity } from '../utils/normalize';
-const MAX_SERIALIZATION_RETRIES = 2;
+import { BundleService } from './BundleService';
+import { ContactTopUpService } from './ContactTopUpService';
+import { ContactQuota, UnlockUsage, quotaWindowStart, unlockUsage } from './ContactQuotaPolicy';
+type Db = PrismaClient | Prisma.TransactionClient;
 export interface UnlockContactResult {
   ownerName: string;
   ownerPhone: string | null;
@@ -17,61 +21,74 @@ export interface ReadContactResult {
   ownerEmail: string;
   alreadyUnlocked: boolean;
 }
+export interface CityUnlockUsage {
+  plan: string;
+  bundleCode: string | null;
+  usage: UnlockUsage;
+}
 export class ContactService {
   private prisma: PrismaClient;
   private planLimitService: PlanLimitService;
-  constructor(prismaClient?: PrismaClient, planLimitService?: PlanLimitService) {
+  private bundleService: BundleService;
+  private contactTopUpService: ContactTopUpService;
+  constructor(prismaClient?: PrismaClient, planLimitService?: PlanLimitService, bundleService?: BundleService, contactTopUpService?: ContactTopUpService) {
     this.prisma = prismaClient || getPrismaClient();
     this.planLimitService = planLimitService || new PlanLimitService(this.prisma);
-  }
-
-  /**
-   * Detect PostgreSQL serialization failure.
-   */
-  private isSerializationError(error: unknown): boolean {
-    if (error instanceof Prisma.PrismaClientKnownRequestError) {
-      return error.code === 'P2034';
-    }
-    if (error instanceof Error && 'code' in error) {
-      return (error as any).code === '40001';
-    }
-    return false;
+    this.bundleService = bundleService || new BundleService(this.prisma);
+    this.contactTopUpService = contactTopUpService || new ContactTopUpService(this.prisma);
   }
 
   /**
    * CONTACT UNLOCK — Server-side authority over owner contact data.
    *
    * MULTI-CITY FIX: Subscription lookup now uses composite key tenantId_city.
-   * A Kota subscription can NEVER unlock Bangalore contacts.
+   * A Kota subscription can NEVER unlock Bangalore contacts — only a bundle
+   * covering Bangalore can stand in for a Bangalore subscription.
    *
    * CONCURRENCY PROTECTION:
    * - Uses SERIALIZABLE isolation to prevent phantom reads at the limit boundary.
    * - Retries up to MAX_SERIALIZATION_RETRIES times on serialization conflicts.
    */
   async unlockContact(tenantId: string, roomId: string): Promise<UnlockContactResult> {
-    let lastError: unknown;
-    for (let attempt = 0; attempt <= MAX_SERIALIZATION_RETRIES; attempt++) {
-      try {
-        return await this.executeUnlockTransaction(tenantId, roomId);
-      } catch (error: unknown) {
-        lastError = error;
-        if (!this.isSerializationError(error)) {
-          throw error;
-        }
-        logger.warn('Serialization conflict in unlockContact, retrying', {
+    return withSerializationRetry('unlockContact', {
+      tenantId,
+      roomId
+    }, () => this.executeUnlockTransaction(tenantId, roomId));
+  }
+
+  /**
+   * Whether the tenant may see this room owner's contact details — the room
+   * is already unlocked, or the tenant holds a paid, unexpired plan for its
+   * city (directly or through a bundle). Same rules as readContact(),
+   * without loading the owner.
+   */
+  async hasContactAccess(tenantId: string, roomId: string): Promise<boolean> {
+    const room = await this.prisma.room.findUnique({
+      where: {
+        id: roomId
+      },
+      select: {
+        city: true
+      }
+    });
+    if (!room) return false;
+    const existingView = await this.prisma.propertyView.findUnique({
+      where: {
+        tenantId_propertyId: {
           tenantId,
-          roomId,
-          attempt: attempt + 1,
-          maxRetries: MAX_SERIALIZATION_RETRIES
-        });
+          propertyId: roomId
+        }
+      },
+      select: {
+        id: true
       }
-    }
-    logger.error('unlockContact failed after all retries', {
-      tenantId,
-      roomId,
-      attempts: MAX_SERIALIZATION_RETRIES + 1
     });
-    throw new BusinessLogicError('Unable to process your request due to high demand. Please try again in a moment.');
+    if (existingView) return true;
+    // Paid plans keep unlocking through the grace period after expiry
+    const {
+      plan
+    } = await this.bundleService.resolveCityPlan(tenantId, room.city);
+    return plan !== 'FREE';
   }
 
   /**
@@ -83,7 +100,8 @@ export class ContactService {
    * Logic:
    * 1. Check PropertyView (composite key: tenantId_propertyId)
    *    → If found: return owner contact (alreadyUnlocked = true)
-   * 2. Check TenantSubscription (composite key: tenantId_city)
+   * 2. Check TenantSubscription (composite key: tenantId_city) and bundles
+   *    covering the city
    *    → If paid + not expired: return owner contact (alreadyUnlocked = false)
    * 3. Otherwise: throw CONTACT_LOCKED (403)
    */
@@ -137,42 +155,31 @@ export class ContactService {
       };
     }
 
-    // ── 3. CHECK SUBSCRIPTION (composite key: tenantId + city) ────────
-    const normalizedRoomCity = normalizeCity(room.city);
-    const subscription = await this.prisma.tenantSubscription.findUnique({
-      where: {
-        tenantId_city: {
-          tenantId,
-          city: normalizedRoomCity
-        }
-      }
-    });
-    if (subscription) {
-      const now = new Date();
-      const isExpired = subscription.expiresAt && subscription.expiresAt <= now;
-      const effectivePlan = !isExpired ? subscription.plan.toUpperCase() : 'FREE';
-      if (effectivePlan !== 'FREE') {
-        // Paid plan, not expired — return contact WITHOUT creating PropertyView
-        const owner = await this.prisma.user.findUnique({
-          where: {
-            id: room.ownerId
-          },
-          select: {
-            name: true,
-            phone: true,
-            email: true
-          }
-        });
-        if (!owner) {
-          throw new NotFoundError('Owner', room.ownerId);
+    // ── 3. CHECK SUBSCRIPTION (tenantId + city, or a covering bundle) ──
+    const {
+      plan: effectivePlan
+    } = await this.bundleService.resolveCityPlan(tenantId, room.city);
+    if (effectivePlan !== 'FREE') {
+      // Paid plan, not expired — return contact WITHOUT creating PropertyView
+      const owner = await this.prisma.user.findUnique({
+        where: {
+          id: room.ownerId
+        },
+        select: {
+          name: true,
+          phone: true,
+          email: true
         }
-        return {
-          ownerName: owner.name,
-          ownerPhone: owner.phone,
-          ownerEmail: owner.email,
-          alreadyUnlocked: false
-        };
+      });
+      if (!owner) {
+        throw new NotFoundError('Owner', room.ownerId);
       }
+      return {
+        ownerName: owner.name,
+        ownerPhone: owner.phone,
+        ownerEmail: owner.email,
+        alreadyUnlocked: false
+      };
     }
 
     // ── 4. CONTACT LOCKED ─────────────────────────────────────────────
@@ -189,9 +196,9 @@ export class ContactService {
    * Step order:
    * 1. Validate room (exists + active + approved)
    * 2. Normalize city
-   * 3. Fetch subscription (composite key: tenantId + city)
+   * 3. Fetch subscription (composite key: tenantId + city) and bundles
    * 4. Determine effectivePlan
-   * 5. Resolve limit via PlanLimitService (plan-aware, city-aware)
+   * 5. Resolve limit via PlanLimitService (plan-aware, city-aware, bundle-aware)
    * 6. Check existingView (dedup)
    * 7. Count PropertyView if needed (limit enforcement)
    * 8. Create PropertyView if new
@@ -230,36 +237,25 @@ export class ContactService {
       const normalizedRoomCity = normalizeCity(room.city);
 
       // ================================================================
-      // 3. FETCH SUBSCRIPTION — COMPOSITE KEY: tenantId + room.city
-      // ================================================================
-      const subscription = await tx.tenantSubscription.findUnique({
-        where: {
-          tenantId_city: {
-            tenantId,
-            city: normalizedRoomCity
-          }
-        }
-      });
-
-      // ================================================================
-      // 4. DETERMINE EFFECTIVE PLAN
+      // 3+4. FETCH SUBSCRIPTION (tenantId + room.city) AND BUNDLES,
+      //      DETERMINE EFFECTIVE PLAN
       // ================================================================
-      let effectivePlan = 'FREE';
-      if (subscription) {
-        const now = new Date();
-        const isExpired = subscription.expiresAt && subscription.expiresAt <= now;
-        if (!isExpired) {
-          effectivePlan = subscription.plan.toUpperCase();
-        }
-      }
+      //    The better of the city's own plan and any bundle covering it.
+      //    Expired paid plans still count during the grace period.
+      const now = new Date();
+      const {
+        plan: effectivePlan,
+        bundle
+      } = await this.bundleService.resolveCityPlan(tenantId, normalizedRoomCity, now, tx);
 
       // ================================================================
-      // 5. RESOLVE LIMIT — plan-aware, city-aware
+      // 5. RESOLVE QUOTA — plan-aware, city-aware, bundle-aware
       //    Uses actual effectivePlan (not hardcoded FREE).
-      //    Paid plans return null (unlimited). FREE returns numeric limit.
-      //    City-specific overrides are respected.
+      //    Paid plans return null (unlimited). FREE returns numeric limit,
+      //    over a rolling window when the PlanLimit sets one.
+      //    City-specific overrides are respected; a bundle's own limit wins.
       // ================================================================
-      const limit = await this.planLimitService.getEffectiveLimit(effectivePlan, normalizedRoomCity);
+      const quota = await this.planLimitService.getEffectiveQuota(effectivePlan, normalizedRoomCity, bundle);
 
       // ================================================================
       // 6. CHECK IF ALREADY UNLOCKED (dedup before limit check)
@@ -275,17 +271,23 @@ export class ContactService {
       const alreadyUnlocked = !!existingView;
 
       // ================================================================
-      // 7. ENFORCE LIMIT (city-scoped) — only if NOT already unlocked
+      // 7. ENFORCE QUOTA (city-scoped) — only if NOT already unlocked
+      //    Over the quota, the unlock spends a top-up instead. Both the
+      //    count and the decrement are part of this SERIALIZABLE
+      //    transaction, so concurrent unlocks can't overspend either.
       // ================================================================
-      if (!alreadyUnlocked && limit !== null) {
-        const cityViewCount = await tx.propertyView.count({
-          where: {
-            tenantId,
-            city: normalizedRoomCity
-          }
+      let topUpId: string | null = null;
+      if (!alreadyUnlocked && quota.limit !== null) {
+        const used = await tx.propertyView.count({
+          where: this.quotaWhere(tenantId, normalizedRoomCity, quota, now)
         });
-        if (cityViewCount >= limit) {
-          throw new AppError(403, `You have reached the limit of ${limit} contact unlocks in ${room.city}. Please upgrade your subscription.`, 'CONTACT_LIMIT_REACHED');
+        if (used >= quota.limit) {
+          const topUp = await this.contactTopUpService.spendUnlock(tx, tenantId, now);
+          if (!topUp) {
+            const period = quota.windowDays === null ? '' : ` in the last ${quota.windowDays} days`;
+            throw new AppError(403, `You have reached the limit of ${quota.limit} contact unlocks in ${room.city}${period}. Please buy a top-up pack or upgrade your subscription.`, 'CONTACT_LIMIT_REACHED');
+          }
+          topUpId = topUp.id;
         }
       }
 
@@ -297,14 +299,17 @@ export class ContactService {
           data: {
             tenantId,
             propertyId: roomId,
-            city: normalizedRoomCity
+            city: normalizedRoomCity,
+            topUpId
           }
         });
         logger.info('Contact unlocked', {
           tenantId,
           roomId,
           city: normalizedRoomCity,
-          plan: effectivePlan
+          plan: effectivePlan,
+          bundle: bundle?.bundleCode,
+          topUpId
         });
       }
 
@@ -335,4 +340,59 @@ export class ContactService {
       timeout: 15000
     });
   }
+
+  /**
+   * How much of the tenant's contact quota in `city` is used, and what
+   * top-ups they have left — the same numbers unlockContact() enforces.
+   */
+  async getUnlockUsage(tenantId: string, city: string, now: Date = new Date()): Promise<CityUnlockUsage> {
+    const normalizedCity = normalizeCity(city);
+    const {
+      plan,
+      bundle
+    } = await this.bundleService.resolveCityPlan(tenantId, normalizedCity, now);
+    const quota = await this.planLimitService.getEffectiveQuota(plan, normalizedCity, bundle);
+    const [counted, topUpRemaining] = await Promise.all([this.countQuotaUnlocks(this.prisma, tenantId, normalizedCity, quota, now), this.contactTopUpService.getRemainingUnlocks(tenantId, now)]);
+    return {
+      plan,
+      bundleCode: bundle?.bundleCode ?? null,
+      usage: unlockUsage(quota, counted, topUpRemaining, now)
+    };
+  }
+
+  /**
+   * Unlocks that count against the quota: made in the city, within the
+   * window, and not paid from a top-up
+   */
+  private quotaWhere(tenantId: string, city: string, quota: ContactQuota, now: Date): Prisma.PropertyViewWhereInput {
+    const windowStart = quotaWindowStart(quota, now);
+    return {
+      tenantId,
+      city,
+      topUpId: null,
+      ...(windowStart && {
+        viewedAt: {
+          gte: windowStart
+        }
+      })
+    };
+  }
+  private async countQuotaUnlocks(db: Db, tenantId: string, city: string, quota: ContactQuota, now: Date) {
+    const where = this.quotaWhere(tenantId, city, quota, now);
+    const [used, oldest] = await Promise.all([db.propertyView.count({
+      where
+    }), db.propertyView.findFirst({
+      where,
+      orderBy: {
+        viewedAt: 'asc'
+      },
+      select: {
+        viewedAt: true
+      }
+    })]);
+    return {
+      used,
+      oldestAt: oldest?.viewedAt ?? null
+    };
+  }
 }
\ No newline at end of file
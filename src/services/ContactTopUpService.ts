@@ -0,0 +1,255 @@
+import { PrismaClient, Prisma, ContactTopUp } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { NotFoundError, DuplicateError } from '../errors/AppErrors';
+import { TopUpTerms, isUsableTopUp, spendOrder, topUpExpiresAt } from './ContactQuotaPolicy';
+import { CreateTopUpPackInput, UpdateTopUpPackInput, TopUpPackListQuery } from '../models/ContactTopUp';
+
+// =============================================================================
+// CONTACT TOP-UPS — extra unlocks beyond the plan's limit
+//
+// ContactTopUpPack is the catalogue admins manage; ContactTopUp is a pack a
+// tenant paid for, with what is left of it. A pack is bought through the
+// subscription checkout (TenantSubscriptionService.createTopUpOrder) as a
+// CONTACT_TOP_UP payment and granted when that payment is verified.
+//
+// ContactService spends the unlocks, inside its unlock transaction.
+// =============================================================================
+
+type Db = PrismaClient | Prisma.TransactionClient;
+export class ContactTopUpService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.listPacks = this.listPacks.bind(this);
+    this.createPack = this.createPack.bind(this);
+    this.updatePack = this.updatePack.bind(this);
+    this.getOfferedPacks = this.getOfferedPacks.bind(this);
+    this.getTenantTopUps = this.getTenantTopUps.bind(this);
+    this.getRemainingUnlocks = this.getRemainingUnlocks.bind(this);
+    this.spendUnlock = this.spendUnlock.bind(this);
+    this.quote = this.quote.bind(this);
+    this.applyPaidTopUp = this.applyPaidTopUp.bind(this);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Admin
+  // ---------------------------------------------------------------------------
+
+  async listPacks(query: TopUpPackListQuery) {
+    return this.prisma.contactTopUpPack.findMany({
+      where: query.includeInactive ? {} : {
+        isActive: true
+      },
+      orderBy: [{
+        sortOrder: 'asc'
+      }, {
+        code: 'asc'
+      }]
+    });
+  }
+  async createPack(input: CreateTopUpPackInput, adminId: string) {
+    try {
+      const pack = await this.prisma.contactTopUpPack.create({
+        data: {
+          ...input,
+          createdBy: adminId
+        }
+      });
+      logger.info('Contact top-up pack created', {
+        code: pack.code,
+        unlocks: pack.unlocks,
+        price: pack.price,
+        adminId
+      });
+      return pack;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateError(`Top-up pack ${input.code} already exists`);
+      }
+      throw error;
+    }
+  }
+  async updatePack(code: string, input: UpdateTopUpPackInput, adminId: string) {
+    const packCode = code.toUpperCase();
+    const pack = await this.prisma.contactTopUpPack.findUnique({
+      where: {
+        code: packCode
+      }
+    });
+    if (!pack) throw new NotFoundError('Top-up pack', packCode);
+    const updated = await this.prisma.contactTopUpPack.update({
+      where: {
+        code: packCode
+      },
+      data: input
+    });
+    logger.info('Contact top-up pack updated', {
+      code: packCode,
+      changes: Object.keys(input),
+      adminId
+    });
+    return updated;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tenant
+  // ---------------------------------------------------------------------------
+
+  async getOfferedPacks() {
+    const packs = await this.prisma.contactTopUpPack.findMany({
+      where: {
+        isActive: true
+      },
+      orderBy: [{
+        sortOrder: 'asc'
+      }, {
+        price: 'asc'
+      }]
+    });
+    return packs.map((pack) => ({
+      code: pack.code,
+      displayName: pack.displayName,
+      description: pack.description,
+      unlocks: pack.unlocks,
+      price: pack.price,
+      validityDays: pack.validityDays
+    }));
+  }
+
+  /**
+   * A tenant's top-ups, newest first, and how many unlocks are left to use
+   */
+  async getTenantTopUps(tenantId: string, now: Date = new Date()) {
+    const topUps = await this.prisma.contactTopUp.findMany({
+      where: {
+        tenantId
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+    return {
+      remainingUnlocks: spendOrder(topUps, now).reduce((sum, t) => sum + t.remaining, 0),
+      topUps: topUps.map((topUp) => ({
+        ...topUp,
+        usable: isUsableTopUp(topUp, now)
+      }))
+    };
+  }
+
+  /**
+   * Unlocks left across the tenant's usable top-ups
+   */
+  async getRemainingUnlocks(tenantId: string, now: Date = new Date(), db: Db = this.prisma): Promise<number> {
+    const result = await db.contactTopUp.aggregate({
+      where: this.usableWhere(tenantId, now),
+      _sum: {
+        remaining: true
+      }
+    });
+    return result._sum.remaining ?? 0;
+  }
+
+  /**
+   * Take one unlock from the tenant's top-ups, soonest-expiring first.
+   * Run inside the unlock transaction; returns the top-up spent from, or
+   * null when none has any left.
+   */
+  async spendUnlock(tx: Prisma.TransactionClient, tenantId: string, now: Date): Promise<ContactTopUp | null> {
+    const topUps = spendOrder(await tx.contactTopUp.findMany({
+      where: this.usableWhere(tenantId, now)
+    }), now);
+    for (const topUp of topUps) {
+      // Conditional decrement — never below zero, whatever else is spending
+      const spent = await tx.contactTopUp.updateMany({
+        where: {
+          id: topUp.id,
+          remaining: {
+            gt: 0
+          }
+        },
+        data: {
+          remaining: {
+            decrement: 1
+          }
+        }
+      });
+      if (spent.count > 0) return topUp;
+    }
+    return null;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Checkout
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Terms and amount (paise) of a pack that is on sale
+   */
+  async quote(code: string): Promise<{
+    terms: TopUpTerms;
+    amount: number;
+  }> {
+    const packCode = code.toUpperCase();
+    const pack = await this.prisma.contactTopUpPack.findUnique({
+      where: {
+        code: packCode
+      }
+    });
+    if (!pack || !pack.isActive) throw new NotFoundError('Top-up pack', packCode);
+    return {
+      terms: {
+        code: pack.code,
+        unlocks: pack.unlocks,
+        validityDays: pack.validityDays
+      },
+      amount: pack.price * 100
+    };
+  }
+
+  /**
+   * Give the tenant the unlocks they paid for. One top-up per payment, so
+   * applying the same payment twice is a no-op.
+   */
+  async applyPaidTopUp(tx: Prisma.TransactionClient, payment: {
+    id: string;
+    tenantId: string;
+  }, terms: TopUpTerms, paidAt: Date): Promise<ContactTopUp> {
+    return tx.contactTopUp.upsert({
+      where: {
+        paymentId: payment.id
+      },
+      create: {
+        tenantId: payment.tenantId,
+        paymentId: payment.id,
+        packCode: terms.code,
+        unlocks: terms.unlocks,
+        remaining: terms.unlocks,
+        expiresAt: topUpExpiresAt(terms, paidAt)
+      },
+      update: {}
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private usableWhere(tenantId: string, now: Date): Prisma.ContactTopUpWhereInput {
+    return {
+      tenantId,
+      remaining: {
+        gt: 0
+      },
+      OR: [{
+        expiresAt: null
+      }, {
+        expiresAt: {
+          gt: now
+        }
+      }]
+    };
+  }
+}
+export const contactTopUpService = new ContactTopUpService();
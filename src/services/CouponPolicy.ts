@@ -0,0 +1,81 @@
+/**
+ * COUPON POLICY — promo codes on subscription orders
+ *
+ * ┌──────────┬──────────────────────────────────────────────────┐
+ * │ Type     │ Discount                                         │
+ * ├──────────┼──────────────────────────────────────────────────┤
+ * │ PERCENT  │ value% of the plan price, capped at maxDiscount  │
+ * │ FLAT     │ value paise off                                  │
+ * └──────────┴──────────────────────────────────────────────────┘
+ *
+ * Amounts are paise. The discounted order never drops below ₹1
+ * (Razorpay's minimum order), so a 100% coupon still charges ₹1.
+ *
+ * A code applies when it is active, inside its validity window, allowed for
+ * the city and plan, under both redemption caps and — for first-purchase
+ * codes — the tenant has never paid for a subscription. A redemption counts
+ * towards the caps once its payment is VERIFIED (or partly refunded); an
+ * unpaid order only holds it for COUPON_HOLD_MINUTES, long enough to finish
+ * checkout.
+ *
+ * Pure rules only — CouponService applies them.
+ */
+
+export const MIN_ORDER_AMOUNT = 100;
+export const COUPON_HOLD_MINUTES = 30;
+export interface CouponRules {
+  discountType: 'PERCENT' | 'FLAT';
+  discountValue: number;
+  maxDiscount: number | null;
+  validFrom: Date;
+  validUntil: Date | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerTenant: number;
+  cities: string[];
+  plans: string[];
+  firstPurchaseOnly: boolean;
+  isActive: boolean;
+}
+export type CouponRejection = 'INACTIVE' | 'NOT_STARTED' | 'EXPIRED' | 'CITY_NOT_ELIGIBLE' | 'PLAN_NOT_ELIGIBLE' | 'FULLY_REDEEMED' | 'ALREADY_REDEEMED' | 'FIRST_PURCHASE_ONLY';
+export const COUPON_REJECTION_MESSAGES: Record<CouponRejection, string> = {
+  INACTIVE: 'This coupon is no longer active',
+  NOT_STARTED: 'This coupon is not valid yet',
+  EXPIRED: 'This coupon has expired',
+  CITY_NOT_ELIGIBLE: 'This coupon is not valid for the selected city',
+  PLAN_NOT_ELIGIBLE: 'This coupon is not valid for the selected plan',
+  FULLY_REDEEMED: 'This coupon has reached its redemption limit',
+  ALREADY_REDEEMED: 'You have already used this coupon',
+  FIRST_PURCHASE_ONLY: 'This coupon is valid on your first subscription only'
+};
+
+/**
+ * Why the coupon can't be applied, or null if it can.
+ * `city` must already be normalized and `plan` upper-case.
+ */
+export function couponRejection(coupon: CouponRules, ctx: {
+  city: string;
+  plan: string;
+  redemptions: number;
+  tenantRedemptions: number;
+  hasPaidSubscription: boolean;
+  now: Date;
+}): CouponRejection | null {
+  if (!coupon.isActive) return 'INACTIVE';
+  if (ctx.now < coupon.validFrom) return 'NOT_STARTED';
+  if (coupon.validUntil && ctx.now >= coupon.validUntil) return 'EXPIRED';
+  if (coupon.cities.length > 0 && !coupon.cities.includes(ctx.city)) return 'CITY_NOT_ELIGIBLE';
+  if (coupon.plans.length > 0 && !coupon.plans.includes(ctx.plan)) return 'PLAN_NOT_ELIGIBLE';
+  if (coupon.maxRedemptions !== null && ctx.redemptions >= coupon.maxRedemptions) return 'FULLY_REDEEMED';
+  if (ctx.tenantRedemptions >= coupon.maxRedemptionsPerTenant) return 'ALREADY_REDEEMED';
+  if (coupon.firstPurchaseOnly && ctx.hasPaidSubscription) return 'FIRST_PURCHASE_ONLY';
+  return null;
+}
+
+/**
+ * Discount in paise on an order of `amount` paise
+ */
+export function couponDiscount(coupon: Pick<CouponRules, 'discountType' | 'discountValue' | 'maxDiscount'>, amount: number): number {
+  let discount = coupon.discountType === 'PERCENT' ? Math.floor(amount * coupon.discountValue / 100) : coupon.discountValue;
+  if (coupon.maxDiscount !== null) discount = Math.min(discount, coupon.maxDiscount);
+  return Math.max(0, Math.min(discount, amount - MIN_ORDER_AMOUNT));
+}
@@ -0,0 +1,402 @@
+import { PrismaClient, Prisma, PaymentPurpose, PaymentStatus } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { normalizeCity } from '../utils/normalize';
+import { NotFoundError, BusinessLogicError, DuplicateError, ValidationError } from '../errors/AppErrors';
+import { planCatalogService } from './PlanCatalogService';
+import { cityPricingService } from './CityPricingService';
+import { isPurchasable } from './PlanCatalogPolicy';
+import { couponDiscount, couponRejection, COUPON_REJECTION_MESSAGES, COUPON_HOLD_MINUTES } from './CouponPolicy';
+import { CreateCouponInput, UpdateCouponInput, CouponListQuery, CouponRedemptionQuery, CouponQuote, PaymentCouponMetadata } from '../models/Coupon';
+
+// =============================================================================
+// COUPONS — promo codes on subscription orders
+//
+// The discount is worked out before the Razorpay order is created, so the
+// order is for the discounted amount. The redemption is written in the same
+// transaction as the Payment row, with the coupon row locked and the caps
+// re-checked, so two tenants racing for the last redemption can't both get
+// it. An unpaid order only holds its redemption for COUPON_HOLD_MINUTES, so
+// an abandoned checkout frees the code long before reconciliation expires it.
+// =============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const OPEN_STATUSES: PaymentStatus[] = [PaymentStatus.CREATED, PaymentStatus.INITIATED, PaymentStatus.PENDING];
+
+/**
+ * Payments whose redemption counts towards the caps: paid ones, and orders
+ * still inside their checkout hold
+ */
+function countedPayment(now: Date): Prisma.PaymentWhereInput {
+  return {
+    OR: [{
+      status: {
+        in: [PaymentStatus.VERIFIED, PaymentStatus.PARTIALLY_REFUNDED]
+      }
+    }, {
+      status: {
+        in: OPEN_STATUSES
+      },
+      createdAt: {
+        gt: new Date(now.getTime() - COUPON_HOLD_MINUTES * MINUTE_MS)
+      }
+    }]
+  };
+}
+const PAID_STATUSES: PaymentStatus[] = [PaymentStatus.VERIFIED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+type Db = PrismaClient | Prisma.TransactionClient;
+export interface CouponRedemptionRow {
+  id: string;
+  tenant: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+  paymentId: string;
+  paymentStatus: PaymentStatus;
+  city: string;
+  plan: string;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  createdAt: Date;
+}
+export class CouponService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.createCoupon = this.createCoupon.bind(this);
+    this.updateCoupon = this.updateCoupon.bind(this);
+    this.listCoupons = this.listCoupons.bind(this);
+    this.getRedemptionReport = this.getRedemptionReport.bind(this);
+    this.quote = this.quote.bind(this);
+    this.redeem = this.redeem.bind(this);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Admin
+  // ---------------------------------------------------------------------------
+
+  async createCoupon(input: CreateCouponInput, adminId: string) {
+    const plans = await planCatalogService.getPlans();
+    const unknown = input.plans.filter((plan) => !plans.some((p) => p.name === plan && isPurchasable(p)));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Not a purchasable plan: ${unknown.join(', ')}`);
+    }
+    try {
+      const coupon = await this.prisma.coupon.create({
+        data: {
+          code: input.code,
+          description: input.description,
+          discountType: input.discountType,
+          discountValue: input.discountValue,
+          maxDiscount: input.maxDiscount,
+          validFrom: input.validFrom ?? new Date(),
+          validUntil: input.validUntil,
+          maxRedemptions: input.maxRedemptions,
+          maxRedemptionsPerTenant: input.maxRedemptionsPerTenant,
+          cities: input.cities,
+          plans: input.plans,
+          firstPurchaseOnly: input.firstPurchaseOnly,
+          createdBy: adminId
+        }
+      });
+      logger.info('Coupon created', {
+        couponId: coupon.id,
+        code: coupon.code,
+        adminId
+      });
+      return coupon;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateError(`Coupon code ${input.code} already exists`);
+      }
+      throw error;
+    }
+  }
+  async updateCoupon(couponId: string, input: UpdateCouponInput, adminId: string) {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: {
+        id: couponId
+      }
+    });
+    if (!coupon) throw new NotFoundError('Coupon', couponId);
+    if (input.validUntil && input.validUntil <= coupon.validFrom) {
+      throw new BusinessLogicError('validUntil must be after validFrom');
+    }
+    const updated = await this.prisma.coupon.update({
+      where: {
+        id: couponId
+      },
+      data: input
+    });
+    logger.info('Coupon updated', {
+      couponId,
+      changes: Object.keys(input),
+      adminId
+    });
+    return updated;
+  }
+  async listCoupons(query: CouponListQuery) {
+    const where: Prisma.CouponWhereInput = query.active === undefined ? {} : {
+      isActive: query.active
+    };
+    const skip = (query.page - 1) * query.limit;
+    const [coupons, total] = await Promise.all([this.prisma.coupon.findMany({
+      where,
+      orderBy: {
+        createdAt: 'desc'
+      },
+      skip,
+      take: query.limit
+    }), this.prisma.coupon.count({
+      where
+    })]);
+    const counts = await this.prisma.couponRedemption.groupBy({
+      by: ['couponId'],
+      where: {
+        couponId: {
+          in: coupons.map((c) => c.id)
+        },
+        payment: countedPayment(new Date())
+      },
+      _count: {
+        _all: true
+      }
+    });
+    const redeemed = new Map(counts.map((c) => [c.couponId, c._count._all]));
+    return {
+      coupons: coupons.map((coupon) => ({
+        ...coupon,
+        redemptions: redeemed.get(coupon.id) ?? 0
+      })),
+      total,
+      page: query.page,
+      pageSize: query.limit,
+      hasMore: skip + coupons.length < total
+    };
+  }
+
+  /**
+   * Redemption report: totals over the period plus a page of redemptions.
+   * Discount and revenue totals only include orders that were paid.
+   */
+  async getRedemptionReport(couponId: string, query: CouponRedemptionQuery) {
+    const coupon = await this.prisma.coupon.findUnique({
+      where: {
+        id: couponId
+      }
+    });
+    if (!coupon) throw new NotFoundError('Coupon', couponId);
+    const where: Prisma.CouponRedemptionWhereInput = {
+      couponId,
+      createdAt: {
+        gte: query.from,
+        lt: query.to
+      }
+    };
+    const skip = (query.page - 1) * query.limit;
+    const [all, rows] = await Promise.all([this.prisma.couponRedemption.findMany({
+      where,
+      select: {
+        tenantId: true,
+        discountAmount: true,
+        finalAmount: true,
+        payment: {
+          select: {
+            status: true
+          }
+        }
+      }
+    }), this.prisma.couponRedemption.findMany({
+      where,
+      orderBy: {
+        createdAt: 'desc'
+      },
+      skip,
+      take: query.limit,
+      include: {
+        payment: {
+          select: {
+            status: true
+          }
+        }
+      }
+    })]);
+    const paid = all.filter((r) => PAID_STATUSES.includes(r.payment.status));
+    const pending = all.filter((r) => r.payment.status === PaymentStatus.CREATED || r.payment.status === PaymentStatus.PENDING);
+    const tenants = await this.prisma.user.findMany({
+      where: {
+        id: {
+          in: [...new Set(rows.map((r) => r.tenantId))]
+        }
+      },
+      select: {
+        id: true,
+        name: true,
+        email: true
+      }
+    });
+    const tenantById = new Map(tenants.map((t) => [t.id, t]));
+    const redemptions: CouponRedemptionRow[] = rows.map((r) => ({
+      id: r.id,
+      tenant: tenantById.get(r.tenantId) ?? null,
+      paymentId: r.paymentId,
+      paymentStatus: r.payment.status,
+      city: r.city,
+      plan: r.plan,
+      originalAmount: r.originalAmount,
+      discountAmount: r.discountAmount,
+      finalAmount: r.finalAmount,
+      createdAt: r.createdAt
+    }));
+    return {
+      coupon,
+      summary: {
+        orders: all.length,
+        paid: paid.length,
+        pending: pending.length,
+        failedOrExpired: all.length - paid.length - pending.length,
+        uniqueTenants: new Set(paid.map((r) => r.tenantId)).size,
+        totalDiscount: paid.reduce((sum, r) => sum + r.discountAmount, 0),
+        totalRevenue: paid.reduce((sum, r) => sum + r.finalAmount, 0)
+      },
+      redemptions,
+      total: all.length,
+      page: query.page,
+      pageSize: query.limit,
+      hasMore: skip + rows.length < all.length
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Checkout
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Price of a plan with the coupon applied.
+   * Throws NotFoundError for an unknown code, BusinessLogicError when it
+   * doesn't apply. Pass a transaction client to re-check under its lock.
+   */
+  async quote(tenantId: string, params: {
+    code: string;
+    plan: string;
+    city: string;
+    originalAmount?: number;
+  }, now: Date = new Date(), db: Db = this.prisma): Promise<CouponQuote & {
+    coupon: PaymentCouponMetadata;
+  }> {
+    const code = params.code.trim().toUpperCase();
+    const plan = params.plan.toUpperCase();
+    const city = normalizeCity(params.city);
+    await planCatalogService.requirePurchasablePlan(plan);
+    const coupon = await db.coupon.findUnique({
+      where: {
+        code
+      }
+    });
+    if (!coupon) throw new NotFoundError('Coupon', code);
+    let originalAmount = params.originalAmount;
+    if (originalAmount === undefined) {
+      const pricing = await cityPricingService.getOrderPrice(city, plan, undefined, now, db);
+      if (!pricing) throw new NotFoundError('Pricing', `${city} - ${plan}`);
+      originalAmount = pricing.price * 100;
+    }
+    const [redemptions, tenantRedemptions, paidSubscriptions] = await Promise.all([db.couponRedemption.count({
+      where: {
+        couponId: coupon.id,
+        payment: countedPayment(now)
+      }
+    }), db.couponRedemption.count({
+      where: {
+        couponId: coupon.id,
+        tenantId,
+        payment: countedPayment(now)
+      }
+    }), db.payment.count({
+      where: {
+        tenantId,
+        purpose: PaymentPurpose.SUBSCRIPTION,
+        status: {
+          in: PAID_STATUSES
+        }
+      }
+    })]);
+    const rejection = couponRejection(coupon, {
+      city,
+      plan,
+      redemptions,
+      tenantRedemptions,
+      hasPaidSubscription: paidSubscriptions > 0,
+      now
+    });
+    if (rejection) throw new BusinessLogicError(COUPON_REJECTION_MESSAGES[rejection]);
+    const discountAmount = couponDiscount(coupon, originalAmount);
+    return {
+      couponId: coupon.id,
+      code: coupon.code,
+      plan,
+      city,
+      originalAmount,
+      discountAmount,
+      finalAmount: originalAmount - discountAmount,
+      coupon: {
+        couponId: coupon.id,
+        code: coupon.code,
+        discountType: coupon.discountType,
+        discountValue: coupon.discountValue,
+        originalAmount,
+        discountAmount
+      }
+    };
+  }
+
+  /**
+   * Record the coupon against a subscription payment.
+   * MUST be called inside the transaction that creates the Payment row:
+   * locks the coupon row and re-checks the caps before writing.
+   */
+  async redeem(tx: Prisma.TransactionClient, params: {
+    tenantId: string;
+    paymentId: string;
+    quote: CouponQuote;
+    now?: Date;
+  }) {
+    const {
+      tenantId,
+      paymentId,
+      quote
+    } = params;
+    // No-op write to take the row lock; concurrent redeemers queue here
+    await tx.coupon.update({
+      where: {
+        id: quote.couponId
+      },
+      data: {
+        updatedAt: new Date()
+      }
+    });
+    const current = await this.quote(tenantId, {
+      code: quote.code,
+      plan: quote.plan,
+      city: quote.city,
+      originalAmount: quote.originalAmount
+    }, params.now, tx);
+    if (current.discountAmount !== quote.discountAmount) {
+      throw new BusinessLogicError('This coupon changed while your order was being created. Please try again.');
+    }
+    return tx.couponRedemption.create({
+      data: {
+        couponId: quote.couponId,
+        tenantId,
+        paymentId,
+        city: quote.city,
+        plan: quote.plan,
+        originalAmount: quote.originalAmount,
+        discountAmount: quote.discountAmount,
+        finalAmount: quote.finalAmount
+      }
+    });
+  }
+}
+export const couponService = new CouponService();
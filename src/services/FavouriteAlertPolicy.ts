@@ -0,0 +1,29 @@
+/**
+ * FAVOURITE ALERT POLICY — which room edits tenants who favourited it hear about
+ *
+ * ┌──────────────────────┬────────────────────────────────────────────────┐
+ * │ Change               │ Alert                                          │
+ * ├──────────────────────┼────────────────────────────────────────────────┤
+ * │ price went down      │ PRICE_DROP, if the room is visible afterwards: │
+ * │                      │ verified, active and not sent back to review   │
+ * │                      │ by this edit (statusReset)                     │
+ * │ active → inactive    │ DEACTIVATED                                    │
+ * │ anything else        │ none                                           │
+ * └──────────────────────┴────────────────────────────────────────────────┘
+ *
+ * Pure rules only — RoomService applies them.
+ */
+import { Room } from '../models/Room';
+
+export type FavouriteAlert = 'PRICE_DROP' | 'DEACTIVATED';
+
+/**
+ * Alerts owed for an edit that turned `before` into `after`
+ */
+export function favouriteAlertsFor(before: Pick<Room, 'pricePerMonth' | 'isActive'>, after: Pick<Room, 'pricePerMonth' | 'isActive' | 'isVerified'>, statusReset = false): FavouriteAlert[] {
+  const alerts: FavouriteAlert[] = [];
+  const visible = after.isVerified === true && after.isActive && !statusReset;
+  if (visible && after.pricePerMonth < before.pricePerMonth) alerts.push('PRICE_DROP');
+  if (before.isActive && !after.isActive) alerts.push('DEACTIVATED');
+  return alerts;
+}
@@ -0,0 +1,163 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { NotFoundError, BusinessLogicError } from '../errors/AppErrors';
+
+/**
+ * FavouriteService — tenant shortlist of rooms
+ *
+ * Unlike PropertyView (a billing artifact written by contact unlocks),
+ * favourites are free and purely user-driven. Adding is idempotent: a
+ * second add returns the existing row without resetting priceAtSave.
+ *
+ * Price-drop / deactivation alerts are sent from RoomService via
+ * NotificationIntegration.
+ */
+
+const MAX_FAVOURITES_PER_TENANT = 200;
+export interface FavouriteRoom {
+  roomId: string;
+  priceAtSave: number;
+  favouritedAt: string;
+  room: {
+    id: string;
+    title: string;
+    city: string;
+    location: string;
+    pricePerMonth: number;
+    roomType: string;
+    images: string[];
+    isActive: boolean;
+  };
+}
+const roomSelect = {
+  id: true,
+  title: true,
+  city: true,
+  location: true,
+  pricePerMonth: true,
+  roomType: true,
+  images: true,
+  isActive: true
+} as const;
+export class FavouriteService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.add = this.add.bind(this);
+    this.remove = this.remove.bind(this);
+    this.list = this.list.bind(this);
+  }
+
+  /**
+   * Only live (approved + active) rooms can be favourited.
+   */
+  async add(tenantId: string, roomId: string): Promise<FavouriteRoom> {
+    const room = await this.prisma.room.findFirst({
+      where: {
+        id: roomId,
+        isActive: true,
+        reviewStatus: 'APPROVED'
+      },
+      select: roomSelect
+    });
+    if (!room) {
+      throw new NotFoundError('Room', roomId);
+    }
+    const existing = await this.prisma.favourite.findUnique({
+      where: {
+        tenantId_roomId: {
+          tenantId,
+          roomId
+        }
+      }
+    });
+    if (existing) {
+      return toView({
+        ...existing,
+        room
+      });
+    }
+    const count = await this.prisma.favourite.count({
+      where: {
+        tenantId
+      }
+    });
+    if (count >= MAX_FAVOURITES_PER_TENANT) {
+      throw new BusinessLogicError(`You can favourite up to ${MAX_FAVOURITES_PER_TENANT} rooms`);
+    }
+    // upsert: a concurrent add of the same room resolves to one row
+    const favourite = await this.prisma.favourite.upsert({
+      where: {
+        tenantId_roomId: {
+          tenantId,
+          roomId
+        }
+      },
+      create: {
+        tenantId,
+        roomId,
+        priceAtSave: room.pricePerMonth
+      },
+      update: {},
+      include: {
+        room: {
+          select: roomSelect
+        }
+      }
+    });
+    logger.info('Room favourited', {
+      tenantId,
+      roomId
+    });
+    return toView(favourite);
+  }
+  async remove(tenantId: string, roomId: string): Promise<void> {
+    const result = await this.prisma.favourite.deleteMany({
+      where: {
+        tenantId,
+        roomId
+      }
+    });
+    if (result.count === 0) {
+      throw new NotFoundError('Favourite', roomId);
+    }
+  }
+
+  /**
+   * Newest first. Rooms that were deactivated or taken back to review stay
+   * in the list (with isActive=false) so the tenant can see what happened.
+   */
+  async list(tenantId: string, limit?: number): Promise<FavouriteRoom[]> {
+    const favourites = await this.prisma.favourite.findMany({
+      where: {
+        tenantId
+      },
+      orderBy: {
+        createdAt: 'desc'
+      },
+      ...(limit && {
+        take: limit
+      }),
+      include: {
+        room: {
+          select: roomSelect
+        }
+      }
+    });
+    return favourites.map(toView);
+  }
+}
+function toView(favourite: {
+  roomId: string;
+  priceAtSave: number;
+  createdAt: Date;
+  room: FavouriteRoom['room'];
+}): FavouriteRoom {
+  return {
+    roomId: favourite.roomId,
+    priceAtSave: favourite.priceAtSave,
+    favouritedAt: favourite.createdAt.toISOString(),
+    room: favourite.room
+  };
+}
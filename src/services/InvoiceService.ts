@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, PaymentPurpose, PaymentStatus, Role } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+import { NotFoundError, ForbiddenError, BusinessLogicError } from '../errors/AppErrors';
+import { financialYearOf, formatInvoiceNumber, gstBreakdown, gstStateCode, stateForCity } from '../utils/gst';
+import { renderInvoicePdf } from '../utils/invoicePdf';
+import { Invoice, InvoiceData } from '../models/Invoice';
+
+// =============================================================================
+// INVOICES — GST tax invoices for subscription payments
+//
+// One invoice per verified SUBSCRIPTION payment, issued by the outbox worker
+// on PAYMENT_VERIFIED (or on first download, whichever comes first).
+//
+// - Numbers are <prefix>/<FY>/<seq>, gapless per financial year: the
+//   InvoiceSequence row for the year is incremented in the issuing
+//   transaction, so concurrent issues queue on its row lock.
+// - The JSON snapshot and the PDF rendered from it are stored on issue and
+//   never rewritten — later changes to the tenant, plan prices or seller
+//   settings don't alter an issued invoice. Refunds don't either (they need
+//   a credit note).
+// =============================================================================
+
+// A refunded payment was still a supply that needs its invoice
+const INVOICEABLE_STATUSES: PaymentStatus[] = [PaymentStatus.VERIFIED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+export class InvoiceService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.issueForPayment = this.issueForPayment.bind(this);
+    this.getForPayment = this.getForPayment.bind(this);
+  }
+
+  /**
+   * Issue the invoice for a payment. Idempotent: returns the existing
+   * invoice if one was already issued.
+   */
+  async issueForPayment(paymentId: string, now: Date = new Date()) {
+    const existing = await this.prisma.invoice.findUnique({
+      where: {
+        paymentId
+      }
+    });
+    if (existing) return existing;
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.findUnique({
+          where: {
+            id: paymentId
+          }
+        });
+        if (!payment) throw new NotFoundError('Payment', paymentId);
+        if (payment.purpose !== PaymentPurpose.SUBSCRIPTION || !payment.plan) {
+          throw new BusinessLogicError('Invoices are issued for subscription payments only');
+        }
+        if (!INVOICEABLE_STATUSES.includes(payment.status)) {
+          throw new BusinessLogicError(`Cannot invoice a ${payment.status.toLowerCase()} payment`);
+        }
+        const tenant = await tx.user.findUniqueOrThrow({
+          where: {
+            id: payment.tenantId
+          },
+          select: {
+            name: true,
+            email: true,
+            city: true
+          }
+        });
+        const financialYear = financialYearOf(now);
+        const counter = await tx.invoiceSequence.upsert({
+          where: {
+            financialYear
+          },
+          create: {
+            financialYear,
+            lastSequence: 1
+          },
+          update: {
+            lastSequence: {
+              increment: 1
+            }
+          }
+        });
+        const invoiceNumber = formatInvoiceNumber(env.INVOICE.PREFIX, financialYear, counter.lastSequence);
+        const data = buildInvoiceData({
+          invoiceNumber,
+          financialYear,
+          issuedAt: now,
+          payment,
+          tenant
+        });
+        const pdf = renderInvoicePdf(data);
+        const invoice = await tx.invoice.create({
+          data: {
+            invoiceNumber,
+            financialYear,
+            sequence: counter.lastSequence,
+            paymentId: payment.id,
+            tenantId: payment.tenantId,
+            total: payment.amount,
+            data: data as unknown as Prisma.InputJsonValue,
+            pdf,
+            pdfSha256: crypto.createHash('sha256').update(pdf).digest('hex'),
+            issuedAt: now
+          }
+        });
+        logger.info('Invoice issued', {
+          invoiceNumber,
+          paymentId: payment.id,
+          tenantId: payment.tenantId,
+          supplyType: data.tax.supplyType
+        });
+        return invoice;
+      });
+    } catch (error) {
+      // Issued concurrently (outbox worker vs. download) — the sequence
+      // increment rolled back with the losing transaction
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const issued = await this.prisma.invoice.findUnique({
+          where: {
+            paymentId
+          }
+        });
+        if (issued) return issued;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Invoice for download. Tenants see their own; admins see any.
+   * Issues it first if the PAYMENT_VERIFIED event hasn't been handled yet.
+   */
+  async getForPayment(paymentId: string, userId: string, role: Role): Promise<{
+    invoice: Invoice;
+    pdf: Buffer;
+  }> {
+    const payment = await this.prisma.payment.findUnique({
+      where: {
+        id: paymentId
+      },
+      select: {
+        tenantId: true,
+        purpose: true,
+        status: true
+      }
+    });
+    if (!payment) throw new NotFoundError('Payment', paymentId);
+    if (role !== Role.ADMIN && payment.tenantId !== userId) {
+      throw new ForbiddenError('You can only download invoices for your own payments');
+    }
+    if (payment.purpose !== PaymentPurpose.SUBSCRIPTION || !INVOICEABLE_STATUSES.includes(payment.status)) {
+      throw new NotFoundError('Invoice for payment', paymentId);
+    }
+    const invoice = await this.issueForPayment(paymentId);
+    return {
+      invoice: {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        financialYear: invoice.financialYear,
+        paymentId: invoice.paymentId,
+        issuedAt: invoice.issuedAt.toISOString(),
+        pdfSha256: invoice.pdfSha256,
+        data: invoice.data as unknown as InvoiceData
+      },
+      pdf: Buffer.from(invoice.pdf)
+    };
+  }
+}
+
+/**
+ * Snapshot of everything the invoice shows. Place of supply is the tenant's
+ * city on record, else the city the plan was bought for, else our state.
+ */
+function buildInvoiceData(params: {
+  invoiceNumber: string;
+  financialYear: string;
+  issuedAt: Date;
+  payment: {
+    id: string;
+    orderId: string;
+    razorpayPaymentId: string | null;
+    verifiedAt: Date | null;
+    plan: string | null;
+    city: string;
+    amount: number;
+  };
+  tenant: {
+    name: string;
+    email: string;
+    city: string | null;
+  };
+}): InvoiceData {
+  const {
+    payment,
+    tenant
+  } = params;
+  const sellerState = env.INVOICE.SELLER_STATE;
+  const buyerState = stateForCity(tenant.city) ?? stateForCity(payment.city) ?? sellerState;
+  const intraState = buyerState.toLowerCase() === sellerState.toLowerCase();
+  const tax = gstBreakdown(payment.amount, env.INVOICE.GST_RATE_PERCENT, intraState);
+  const plan = payment.plan!.toUpperCase();
+  return {
+    invoiceNumber: params.invoiceNumber,
+    financialYear: params.financialYear,
+    issuedAt: params.issuedAt.toISOString(),
+    paymentId: payment.id,
+    orderId: payment.orderId,
+    razorpayPaymentId: payment.razorpayPaymentId,
+    paidAt: payment.verifiedAt?.toISOString() ?? null,
+    seller: {
+      name: env.INVOICE.SELLER_NAME,
+      gstin: env.INVOICE.SELLER_GSTIN || null,
+      address: env.INVOICE.SELLER_ADDRESS || null,
+      state: sellerState,
+      stateCode: gstStateCode(sellerState)
+    },
+    buyer: {
+      name: tenant.name,
+      email: tenant.email,
+      gstin: null,
+      address: tenant.city,
+      state: buyerState,
+      stateCode: gstStateCode(buyerState)
+    },
+    placeOfSupply: `${buyerState}${gstStateCode(buyerState) ? ` (${gstStateCode(buyerState)})` : ''}`,
+    line: {
+      description: `${plan} plan subscription - ${payment.city}`,
+      sacCode: env.INVOICE.SAC_CODE,
+      quantity: 1,
+      amount: tax.taxableValue
+    },
+    tax,
+    total: payment.amount,
+    currency: 'INR'
+  };
+}
@@ -1,4 +1,4 @@
-import { notificationService } from './NotificationService';
+import { notificationService, NotificationType } from './NotificationService';
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
 
@@ -35,6 +35,12 @@ import { logger } from '../utils/logger';
  * 5. PropertyNoteService.createPropertyNote()
  *    → Call: notifyPropertyNoteCreated() AFTER successful note creation
  *
+ * 6. RoomService.updateRoom()
+ *    → Call: notifyFavouritePriceDrop() when pricePerMonth decreased
+ *
+ * 7. RoomService.updateRoom() / toggleRoomStatus()
+ *    → Call: notifyFavouriteRoomDeactivated() when isActive went true → false
+ *
  * ═══════════════════════════════════════════════════════════════════════════
  * SAFETY GUARANTEES:
  * ═══════════════════════════════════════════════════════════════════════════
@@ -477,6 +483,89 @@ export async function notifyPropertyNoteCreated(noteId: string, propertyId: stri
   }
 }
 
+// ============================================================================
+// FAVOURITE NOTIFICATIONS
+// ============================================================================
+
+interface FavouritedRoomChange {
+  id: string;
+  title: string;
+  city: string;
+  updatedAt: string;
+}
+
+/**
+ * NOTIFY: Favourited room price dropped
+ *
+ * Call this AFTER RoomService.updateRoom() lowers pricePerMonth.
+ * referenceId includes the room's updatedAt, so each distinct drop
+ * notifies once even if the price later returns to the same value.
+ */
+export async function notifyFavouritePriceDrop(room: FavouritedRoomChange, previousPrice: number, newPrice: number): Promise<void> {
+  try {
+    const tenantIds = await getFavouritingTenantIds(room.id);
+    if (tenantIds.length === 0) return;
+    await notificationService.emitBatch(tenantIds.map((tenantId) => ({
+      recipientId: tenantId,
+      type: NotificationType.FAVOURITE_PRICE_DROP,
+      title: 'Price drop on a favourite',
+      message: `"${room.title}" in ${room.city} is now ₹${newPrice}/month (was ₹${previousPrice}).`,
+      payload: {
+        propertyId: room.id,
+        propertyTitle: room.title,
+        propertyCity: room.city,
+        previousPrice,
+        newPrice
+      },
+      referenceId: `favourite_price_${room.id}_${new Date(room.updatedAt).getTime()}`
+    })));
+    logger.info(`[NotificationIntegration] FAVOURITE_PRICE_DROP sent for ${room.id} to ${tenantIds.length} tenants`);
+  } catch (error: any) {
+    logger.error(`[NotificationIntegration] Failed to notify FAVOURITE_PRICE_DROP:`, error);
+  }
+}
+
+/**
+ * NOTIFY: Favourited room deactivated
+ *
+ * Call this AFTER RoomService deactivates a room (isActive true → false).
+ */
+export async function notifyFavouriteRoomDeactivated(room: FavouritedRoomChange): Promise<void> {
+  try {
+    const tenantIds = await getFavouritingTenantIds(room.id);
+    if (tenantIds.length === 0) return;
+    await notificationService.emitBatch(tenantIds.map((tenantId) => ({
+      recipientId: tenantId,
+      type: NotificationType.FAVOURITE_ROOM_DEACTIVATED,
+      title: 'A favourite is no longer available',
+      message: `"${room.title}" in ${room.city} has been taken off the market by its owner.`,
+      payload: {
+        propertyId: room.id,
+        propertyTitle: room.title,
+        propertyCity: room.city
+      },
+      referenceId: `favourite_deactivated_${room.id}_${new Date(room.updatedAt).getTime()}`
+    })));
+    logger.info(`[NotificationIntegration] FAVOURITE_ROOM_DEACTIVATED sent for ${room.id} to ${tenantIds.length} tenants`);
+  } catch (error: any) {
+    logger.error(`[NotificationIntegration] Failed to notify FAVOURITE_ROOM_DEACTIVATED:`, error);
+  }
+}
+async function getFavouritingTenantIds(roomId: string): Promise<string[]> {
+  const favourites = await prisma.favourite.findMany({
+    where: {
+      roomId,
+      tenant: {
+        isActive: true
+      }
+    },
+    select: {
+      tenantId: true
+    }
+  });
+  return favourites.map((f) => f.tenantId);
+}
+
 // ============================================================================
 // EXPORTS
 // ============================================================================
@@ -486,5 +575,7 @@ export const notificationIntegration = {
   notifyAgentPropertyUnassigned,
   notifyAgentTenantAssigned,
   notifyAgentTenantUnassigned,
-  notifyPropertyNoteCreated
+  notifyPropertyNoteCreated,
+  notifyFavouritePriceDrop,
+  notifyFavouriteRoomDeactivated
 };
\ No newline at end of file
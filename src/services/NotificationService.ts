@@ -1,6 +1,8 @@
 import { getPrismaClient } from '../utils/prisma';
 import { Role, NotificationType as PrismaNotificationType } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { DecodedCursor, CursorPage, cursorWhere, cursorOrderBy, toCursorPage } from '../utils/cursor';
+import { agentAssignedToBookingSql } from './BookingMessageService';
 
 /**
  * NotificationService - In-App Notification Infrastructure with Persistence
@@ -65,7 +67,20 @@ export const NotificationType = {
   AGENT_PROPERTY_UNASSIGNED: 'AGENT_PROPERTY_UNASSIGNED' as PrismaNotificationType,
   AGENT_TENANT_ASSIGNED: 'AGENT_TENANT_ASSIGNED' as PrismaNotificationType,
   AGENT_TENANT_UNASSIGNED: 'AGENT_TENANT_UNASSIGNED' as PrismaNotificationType,
-  PROPERTY_NOTE_CREATED: 'PROPERTY_NOTE_CREATED' as PrismaNotificationType
+  PROPERTY_NOTE_CREATED: 'PROPERTY_NOTE_CREATED' as PrismaNotificationType,
+  BOOKING_CANCELLED: 'BOOKING_CANCELLED' as PrismaNotificationType,
+  BOOKING_COMPLETED: 'BOOKING_COMPLETED' as PrismaNotificationType,
+  BOOKING_EXPIRED: 'BOOKING_EXPIRED' as PrismaNotificationType,
+  BOOKING_EXPIRY_REMINDER: 'BOOKING_EXPIRY_REMINDER' as PrismaNotificationType,
+  BOOKING_CONFIRMED: 'BOOKING_CONFIRMED' as PrismaNotificationType,
+  PAYMENT_REFUNDED: 'PAYMENT_REFUNDED' as PrismaNotificationType,
+  SUBSCRIPTION_RENEWAL_REMINDER: 'SUBSCRIPTION_RENEWAL_REMINDER' as PrismaNotificationType,
+  SUBSCRIPTION_EXPIRED: 'SUBSCRIPTION_EXPIRED' as PrismaNotificationType,
+  VISIT_UPDATED: 'VISIT_UPDATED' as PrismaNotificationType,
+  VISIT_REMINDER: 'VISIT_REMINDER' as PrismaNotificationType,
+  SAVED_SEARCH_MATCH: 'SAVED_SEARCH_MATCH' as PrismaNotificationType,
+  FAVOURITE_PRICE_DROP: 'FAVOURITE_PRICE_DROP' as PrismaNotificationType,
+  FAVOURITE_ROOM_DEACTIVATED: 'FAVOURITE_ROOM_DEACTIVATED' as PrismaNotificationType
 } as const;
 export type NotificationType = PrismaNotificationType;
 
@@ -106,6 +121,32 @@ export interface NotificationPayload {
   assignmentId?: string;
   assignmentNotes?: string;
   reason?: string;
+
+  // Saved-search alerts
+  savedSearchId?: string;
+  savedSearchName?: string;
+
+  // Favourite alerts
+  previousPrice?: number;
+  newPrice?: number;
+
+  // Booking lifecycle
+  bookingId?: string;
+  expiresAt?: string;
+
+  // Payments / refunds (amounts in paise)
+  paymentId?: string;
+  refundId?: string;
+  amount?: number;
+
+  // Subscriptions
+  subscriptionId?: string;
+  city?: string;
+  plan?: string;
+
+  // Site visits
+  visitId?: string;
+  scheduledAt?: string;
 }
 export interface CreateNotificationInput {
   recipientId: string;
@@ -145,9 +186,11 @@ export class NotificationService {
     this.emitBatch = this.emitBatch.bind(this);
     this.getNotifications = this.getNotifications.bind(this);
     this.getNotificationsPaginated = this.getNotificationsPaginated.bind(this);
+    this.getNotificationsByCursor = this.getNotificationsByCursor.bind(this);
     this.markAsRead = this.markAsRead.bind(this);
     this.markAllAsRead = this.markAllAsRead.bind(this);
     this.getUnreadCount = this.getUnreadCount.bind(this);
+    this.getUnreadMessageCount = this.getUnreadMessageCount.bind(this);
 
     // Event emitters
     this.onAgentPropertyAssigned = this.onAgentPropertyAssigned.bind(this);
@@ -337,6 +380,45 @@ export class NotificationService {
     }
   }
 
+  /**
+   * GET NOTIFICATIONS BY CURSOR (keyset pagination)
+   *
+   * Newest first on (createdAt, id). Unlike page mode, rows arriving while
+   * the user scrolls never shift the window. Cursor must be pre-decoded
+   * (decodeCursor('notifications', token)) so bad tokens surface as 400s.
+   */
+  async getNotificationsByCursor(recipientId: string, cursor: DecodedCursor | null, pageSize: number = 20, includeRead: boolean = true): Promise<CursorPage<NotificationView>> {
+    try {
+      const rows = await prisma.notification.findMany({
+        where: {
+          recipientId,
+          ...(includeRead ? {} : {
+            isRead: false
+          }),
+          ...cursorWhere(cursor)
+        },
+        orderBy: cursorOrderBy(cursor),
+        take: pageSize + 1
+      });
+      const page = toCursorPage('notifications', rows, pageSize, cursor);
+      return {
+        ...page,
+        items: page.items.map(this.mapToView)
+      };
+    } catch (error: any) {
+      logger.error(`[NotificationService] Failed to get notifications by cursor:`, {
+        recipientId,
+        error: error.message
+      });
+      // Graceful degradation
+      return {
+        items: [],
+        nextCursor: null,
+        prevCursor: null
+      };
+    }
+  }
+
   /**
    * MARK NOTIFICATION AS READ
    *
@@ -437,6 +519,42 @@ export class NotificationService {
     }
   }
 
+  /**
+   * GET UNREAD BOOKING MESSAGE COUNT
+   *
+   * Messages from others in booking threads the user takes part in (tenant,
+   * owner, or actively assigned agent) newer than their read marker.
+   *
+   * @param userId - User ID
+   * @returns Number of unread booking messages (0 on failure)
+   */
+  async getUnreadMessageCount(userId: string): Promise<number> {
+    try {
+      const [row] = await prisma.$queryRaw<{
+        count: number;
+      }[]>`
+        SELECT COUNT(*)::int AS count
+        FROM "BookingMessage" m
+        JOIN "Booking" b ON b."id" = m."bookingId"
+        LEFT JOIN "BookingThreadReadState" r ON r."bookingId" = m."bookingId" AND r."userId" = ${userId}
+        WHERE m."senderId" <> ${userId}
+          AND (r."lastReadAt" IS NULL OR m."createdAt" > r."lastReadAt")
+          AND (
+            b."tenantId" = ${userId}
+            OR b."ownerId" = ${userId}
+            OR ${agentAssignedToBookingSql(userId)}
+          )
+      `;
+      return row?.count ?? 0;
+    } catch (error: any) {
+      logger.error(`[NotificationService] Failed to get unread message count:`, {
+        userId,
+        error: error.message
+      });
+      return 0; // Graceful degradation
+    }
+  }
+
   // ==========================================================================
   // HELPER: MAP PRISMA MODEL TO VIEW
   // ==========================================================================
@@ -782,7 +900,9 @@ export class NotificationService {
       const bookings = await prisma.booking.findMany({
         where: {
           roomId: propertyId,
-          status: 'APPROVED',
+          status: {
+            in: ['APPROVED', 'CONFIRMED', 'MOVED_IN']
+          },
           tenantId: {
             not: null
           }
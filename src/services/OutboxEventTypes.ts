@@ -19,15 +19,24 @@ export enum OutboxAggregateType {
   PAYMENT = 'PAYMENT',
   ASSIGNMENT = 'ASSIGNMENT',
   PROPERTY_NOTE = 'PROPERTY_NOTE',
+  ROOM = 'ROOM',
+  VISIT = 'VISIT',
+  SUBSCRIPTION = 'SUBSCRIPTION',
 }
 export enum OutboxEventType {
   // Booking lifecycle
   BOOKING_CREATED = 'BOOKING_CREATED',
   BOOKING_STATUS_CHANGED = 'BOOKING_STATUS_CHANGED',
   BOOKING_CANCELLED = 'BOOKING_CANCELLED',
-  // Payment lifecycle (future)
+  BOOKING_EXPIRED = 'BOOKING_EXPIRED',
+  BOOKING_EXPIRY_REMINDER_DUE = 'BOOKING_EXPIRY_REMINDER_DUE',
+  // Payment lifecycle (PAYMENT_FAILED: future)
   PAYMENT_VERIFIED = 'PAYMENT_VERIFIED',
   PAYMENT_FAILED = 'PAYMENT_FAILED',
+  PAYMENT_REFUND_REQUESTED = 'PAYMENT_REFUND_REQUESTED',
+  PAYMENT_REFUNDED = 'PAYMENT_REFUNDED',
+  // Subscription lifecycle
+  SUBSCRIPTION_DOWNGRADED = 'SUBSCRIPTION_DOWNGRADED',
   // Agent assignments (future — currently fire-and-forget in NotificationIntegration)
   AGENT_PROPERTY_ASSIGNED = 'AGENT_PROPERTY_ASSIGNED',
   AGENT_PROPERTY_UNASSIGNED = 'AGENT_PROPERTY_UNASSIGNED',
@@ -35,6 +44,12 @@ export enum OutboxEventType {
   AGENT_TENANT_UNASSIGNED = 'AGENT_TENANT_UNASSIGNED',
   // Property notes (future)
   PROPERTY_NOTE_CREATED = 'PROPERTY_NOTE_CREATED',
+  // Room lifecycle
+  ROOM_CREATED = 'ROOM_CREATED',
+  ROOM_APPROVED = 'ROOM_APPROVED',
+  // Site visits
+  VISIT_STATUS_CHANGED = 'VISIT_STATUS_CHANGED',
+  VISIT_REMINDER_DUE = 'VISIT_REMINDER_DUE',
 }
 export enum OutboxEventStatus {
   PENDING = 'PENDING',
@@ -73,16 +88,116 @@ export interface BookingStatusChangedPayload {
   previousStatus: string;
   newStatus: string;
   changedBy: string;
+  actorRole?: string;
+  reason?: string | null;
   changedAt: string;
 }
 export interface BookingCancelledPayload {
   bookingId: string;
   roomId: string;
   ownerId: string;
-  tenantId: string;
+  tenantId: string | null;
   tenantEmail: string;
+  previousStatus?: string;
+  cancelledBy?: string;
+  actorRole?: string;
+  reason?: string | null;
   cancelledAt: string;
 }
+export interface BookingExpiredPayload {
+  bookingId: string;
+  roomId: string;
+  ownerId: string;
+  tenantId: string | null;
+  tenantEmail: string;
+  reason: string | null;
+  expiredAt: string;
+}
+export interface BookingExpiryReminderDuePayload {
+  bookingId: string;
+  roomId: string;
+  roomTitle: string;
+  ownerId: string;
+  tenantName: string;
+  expiresAt: string;
+}
+export interface RoomCreatedPayload {
+  roomId: string;
+  ownerId: string;
+  createdAt: string;
+}
+export interface RoomApprovedPayload {
+  roomId: string;
+  roomTitle: string;
+  roomCity: string;
+  ownerId: string;
+  approvedBy: string | null;
+  approvedAt: string;
+}
+export interface PaymentVerifiedPayload {
+  paymentId: string;
+  tenantId: string;
+  purpose: string;
+  plan: string | null;
+  city: string;
+  amount: number; // paise
+  verifiedAt: string;
+}
+export interface PaymentRefundRequestedPayload {
+  refundId: string;
+  paymentId: string;
+  tenantId: string;
+  bookingId: string | null;
+  purpose: string;
+  amount: number; // paise
+  reason: string;
+  requestedAt: string;
+}
+export interface PaymentRefundedPayload {
+  refundId: string;
+  paymentId: string;
+  tenantId: string;
+  bookingId: string | null;
+  purpose: string;
+  amount: number; // paise
+  reason: string;
+  razorpayRefundId: string;
+  fullyRefunded: boolean;
+  processedAt: string;
+}
+export interface SubscriptionDowngradedPayload {
+  subscriptionId: string;
+  tenantId: string;
+  city: string;
+  previousPlan: string;
+  expiredAt: string;
+  downgradedAt: string;
+}
+export type VisitAction = 'PROPOSED' | 'CONFIRMED' | 'RESCHEDULED' | 'DECLINED' | 'CANCELLED';
+export interface VisitStatusChangedPayload {
+  visitId: string;
+  roomId: string;
+  roomTitle: string;
+  tenantId: string;
+  ownerId: string;
+  hostAgentId: string | null;
+  action: VisitAction;
+  scheduledAt: string | null;
+  proposedSlots: string[];
+  actorId: string;
+  actorRole: string;
+  reason: string | null;
+  changedAt: string;
+}
+export interface VisitReminderDuePayload {
+  visitId: string;
+  roomId: string;
+  roomTitle: string;
+  tenantId: string;
+  ownerId: string;
+  hostAgentId: string | null;
+  scheduledAt: string;
+}
 
 // =============================================================================
 // PAYLOAD TYPE MAP — Ensures type safety when creating/consuming events
@@ -92,14 +207,23 @@ export interface OutboxEventPayloadMap {
   [OutboxEventType.BOOKING_CREATED]: BookingCreatedPayload;
   [OutboxEventType.BOOKING_STATUS_CHANGED]: BookingStatusChangedPayload;
   [OutboxEventType.BOOKING_CANCELLED]: BookingCancelledPayload;
+  [OutboxEventType.BOOKING_EXPIRED]: BookingExpiredPayload;
+  [OutboxEventType.BOOKING_EXPIRY_REMINDER_DUE]: BookingExpiryReminderDuePayload;
   // Future events get their payload types added here
-  [OutboxEventType.PAYMENT_VERIFIED]: Record<string, any>;
+  [OutboxEventType.PAYMENT_VERIFIED]: PaymentVerifiedPayload;
   [OutboxEventType.PAYMENT_FAILED]: Record<string, any>;
+  [OutboxEventType.PAYMENT_REFUND_REQUESTED]: PaymentRefundRequestedPayload;
+  [OutboxEventType.PAYMENT_REFUNDED]: PaymentRefundedPayload;
+  [OutboxEventType.SUBSCRIPTION_DOWNGRADED]: SubscriptionDowngradedPayload;
   [OutboxEventType.AGENT_PROPERTY_ASSIGNED]: Record<string, any>;
   [OutboxEventType.AGENT_PROPERTY_UNASSIGNED]: Record<string, any>;
   [OutboxEventType.AGENT_TENANT_ASSIGNED]: Record<string, any>;
   [OutboxEventType.AGENT_TENANT_UNASSIGNED]: Record<string, any>;
   [OutboxEventType.PROPERTY_NOTE_CREATED]: Record<string, any>;
+  [OutboxEventType.ROOM_CREATED]: RoomCreatedPayload;
+  [OutboxEventType.ROOM_APPROVED]: RoomApprovedPayload;
+  [OutboxEventType.VISIT_STATUS_CHANGED]: VisitStatusChangedPayload;
+  [OutboxEventType.VISIT_REMINDER_DUE]: VisitReminderDuePayload;
 }
 
 // =============================================================================
@@ -1,8 +1,13 @@
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
-import { notificationService } from './NotificationService';
-import { OutboxEventType, OutboxEventStatus, BookingCreatedPayload, BookingStatusChangedPayload, BookingCancelledPayload, calculateNextRetryAt, RETRY_CONFIG } from './OutboxEventTypes';
+import { notificationService, NotificationType } from './NotificationService';
+import { savedSearchService } from './SavedSearchService';
+import { refundService } from './RefundService';
+import { roomRiskService } from './RoomRiskService';
+import { InvoiceService } from './InvoiceService';
+import { OutboxEventType, OutboxEventStatus, BookingCreatedPayload, BookingStatusChangedPayload, BookingCancelledPayload, BookingExpiredPayload, BookingExpiryReminderDuePayload, RoomCreatedPayload, RoomApprovedPayload, PaymentVerifiedPayload, PaymentRefundRequestedPayload, PaymentRefundedPayload, SubscriptionDowngradedPayload, VisitStatusChangedPayload, VisitReminderDuePayload, calculateNextRetryAt, RETRY_CONFIG } from './OutboxEventTypes';
 const prisma = getPrismaClient();
+const invoiceService = new InvoiceService(prisma);
 
 // =============================================================================
 // OUTBOX WORKER — Polls and Dispatches Events with Retry
@@ -341,6 +346,36 @@ async function routeEvent(eventType: string, payload: any, outboxEventId: string
     case OutboxEventType.BOOKING_CANCELLED:
       await handleBookingCancelled(payload as BookingCancelledPayload, outboxEventId);
       break;
+    case OutboxEventType.BOOKING_EXPIRED:
+      await handleBookingExpired(payload as BookingExpiredPayload, outboxEventId);
+      break;
+    case OutboxEventType.BOOKING_EXPIRY_REMINDER_DUE:
+      await handleBookingExpiryReminderDue(payload as BookingExpiryReminderDuePayload);
+      break;
+    case OutboxEventType.ROOM_CREATED:
+      await handleRoomCreated(payload as RoomCreatedPayload);
+      break;
+    case OutboxEventType.ROOM_APPROVED:
+      await handleRoomApproved(payload as RoomApprovedPayload);
+      break;
+    case OutboxEventType.PAYMENT_VERIFIED:
+      await handlePaymentVerified(payload as PaymentVerifiedPayload);
+      break;
+    case OutboxEventType.PAYMENT_REFUND_REQUESTED:
+      await handlePaymentRefundRequested(payload as PaymentRefundRequestedPayload);
+      break;
+    case OutboxEventType.PAYMENT_REFUNDED:
+      await handlePaymentRefunded(payload as PaymentRefundedPayload);
+      break;
+    case OutboxEventType.SUBSCRIPTION_DOWNGRADED:
+      await handleSubscriptionDowngraded(payload as SubscriptionDowngradedPayload);
+      break;
+    case OutboxEventType.VISIT_STATUS_CHANGED:
+      await handleVisitStatusChanged(payload as VisitStatusChangedPayload, outboxEventId);
+      break;
+    case OutboxEventType.VISIT_REMINDER_DUE:
+      await handleVisitReminderDue(payload as VisitReminderDuePayload, outboxEventId);
+      break;
     default:
       logger.warn(`Outbox: Unknown event type: ${eventType}`, {
         event: 'OUTBOX_UNKNOWN_EVENT',
@@ -393,58 +428,476 @@ async function handleBookingCreated(payload: BookingCreatedPayload, outboxEventI
 
 /**
  * Handle BOOKING_STATUS_CHANGED event.
- * Notifies the tenant when their booking is approved/rejected.
+ * Notifies the tenant when their booking is approved, confirmed, rejected or
+ * completed; the owner is also told when a payment confirms the booking.
+ * MOVED_IN is recorded in the timeline only — the tenant is the one moving in.
  *
  * FIX: Uses BOOKING_APPROVED / BOOKING_REJECTED notification types.
  */
 async function handleBookingStatusChanged(payload: BookingStatusChangedPayload, outboxEventId: string): Promise<void> {
   if (!payload.tenantId) return;
-  const isApproved = payload.newStatus === 'APPROVED';
-  const notificationType = isApproved ? 'BOOKING_APPROVED' : 'BOOKING_REJECTED';
-  const statusMessage = isApproved ? 'Your booking request has been approved! The owner will contact you shortly.' : 'Your booking request has been declined. You can browse other properties.';
+  const tenantNotifications: Record<string, {
+    type: string;
+    title: string;
+    message: string;
+  }> = {
+    APPROVED: {
+      type: 'BOOKING_APPROVED',
+      title: 'Booking Approved',
+      message: 'Your booking request has been approved! The owner will contact you shortly.'
+    },
+    CONFIRMED: {
+      type: NotificationType.BOOKING_CONFIRMED,
+      title: 'Booking Confirmed',
+      message: `Your payment was received and your booking is confirmed.${payload.reason ? ` (${payload.reason})` : ''}`
+    },
+    REJECTED: {
+      type: 'BOOKING_REJECTED',
+      title: 'Booking Declined',
+      message: 'Your booking request has been declined. You can browse other properties.'
+    },
+    COMPLETED: {
+      type: NotificationType.BOOKING_COMPLETED,
+      title: 'Stay Completed',
+      message: 'Your stay has been marked as completed. Tell other tenants how it went by leaving a review.'
+    }
+  };
+  const notification = tenantNotifications[payload.newStatus];
+  if (!notification) {
+    logger.info('Outbox handler: BOOKING_STATUS_CHANGED recorded without notification', {
+      event: 'OUTBOX_HANDLER_STATUS_CHANGED_SILENT',
+      bookingId: payload.bookingId,
+      newStatus: payload.newStatus
+    });
+    return;
+  }
   await notificationService.emit({
     recipientId: payload.tenantId,
-    type: notificationType as any,
-    title: isApproved ? 'Booking Approved' : 'Booking Declined',
-    message: statusMessage,
+    type: notification.type as any,
+    title: notification.title,
+    message: notification.message,
     payload: {
       propertyId: payload.roomId,
       ownerId: payload.ownerId
     },
     referenceId: `booking_status_${outboxEventId}`
   });
+  if (payload.newStatus === 'CONFIRMED') {
+    await notificationService.emit({
+      recipientId: payload.ownerId,
+      type: NotificationType.BOOKING_CONFIRMED,
+      title: 'Booking Confirmed',
+      message: `The tenant has paid and the booking for your property is confirmed.${payload.reason ? ` (${payload.reason})` : ''}`,
+      payload: {
+        bookingId: payload.bookingId,
+        propertyId: payload.roomId,
+        ownerId: payload.ownerId
+      },
+      referenceId: `booking_status_${outboxEventId}`
+    });
+  }
   logger.info('Outbox handler: BOOKING_STATUS_CHANGED notification sent', {
     event: 'OUTBOX_HANDLER_STATUS_CHANGED',
     bookingId: payload.bookingId,
     newStatus: payload.newStatus,
-    notificationType
+    notificationType: notification.type
   });
 }
 
 /**
  * Handle BOOKING_CANCELLED event.
- * Notifies the owner when a tenant cancels their booking.
- *
- * FIX: Uses BOOKING_REJECTED notification type (cancellation = tenant-initiated rejection).
+ * Notifies the owner when a booking is withdrawn; when an admin cancelled it
+ * on the tenant's behalf, the tenant is told as well.
  */
 async function handleBookingCancelled(payload: BookingCancelledPayload, outboxEventId: string): Promise<void> {
+  const reasonSuffix = payload.reason ? ` Reason: ${payload.reason}` : '';
   await notificationService.emit({
     recipientId: payload.ownerId,
-    type: 'BOOKING_REJECTED' as any,
+    type: NotificationType.BOOKING_CANCELLED,
     title: 'Booking Cancelled',
-    message: `A booking for your property has been cancelled by the tenant.`,
+    message: `A booking for your property has been cancelled by the ${payload.actorRole === 'ADMIN' ? 'admin team' : 'tenant'}.${reasonSuffix}`,
     payload: {
       propertyId: payload.roomId,
       ownerId: payload.ownerId
     },
     referenceId: `booking_cancelled_${outboxEventId}`
   });
+  if (payload.actorRole === 'ADMIN' && payload.tenantId) {
+    await notificationService.emit({
+      recipientId: payload.tenantId,
+      type: NotificationType.BOOKING_CANCELLED,
+      title: 'Booking Cancelled',
+      message: `Your booking has been cancelled by the admin team.${reasonSuffix}`,
+      payload: {
+        propertyId: payload.roomId,
+        ownerId: payload.ownerId
+      },
+      referenceId: `booking_cancelled_${outboxEventId}`
+    });
+  }
   logger.info('Outbox handler: BOOKING_CANCELLED notification sent', {
     event: 'OUTBOX_HANDLER_CANCELLED',
     bookingId: payload.bookingId
   });
 }
 
+/**
+ * Handle BOOKING_EXPIRED event.
+ * Tells the tenant to look elsewhere and the owner that the request lapsed.
+ */
+async function handleBookingExpired(payload: BookingExpiredPayload, outboxEventId: string): Promise<void> {
+  const notificationPayload = {
+    bookingId: payload.bookingId,
+    propertyId: payload.roomId,
+    ownerId: payload.ownerId,
+    reason: payload.reason || undefined
+  };
+  if (payload.tenantId) {
+    await notificationService.emit({
+      recipientId: payload.tenantId,
+      type: NotificationType.BOOKING_EXPIRED,
+      title: 'Booking Request Expired',
+      message: 'The owner did not respond to your booking request in time. You can browse other properties or send a new request.',
+      payload: notificationPayload,
+      referenceId: `booking_expired_${outboxEventId}`
+    });
+  }
+  await notificationService.emit({
+    recipientId: payload.ownerId,
+    type: NotificationType.BOOKING_EXPIRED,
+    title: 'Booking Request Expired',
+    message: `A booking request for your property expired without a response.${payload.reason ? ` ${payload.reason}.` : ''}`,
+    payload: notificationPayload,
+    referenceId: `booking_expired_${outboxEventId}`
+  });
+  logger.info('Outbox handler: BOOKING_EXPIRED notifications sent', {
+    event: 'OUTBOX_HANDLER_EXPIRED',
+    bookingId: payload.bookingId
+  });
+}
+
+/**
+ * Handle BOOKING_EXPIRY_REMINDER_DUE event.
+ * Reminds the owner to answer a request before it expires, unless they
+ * already have. referenceId is per booking: one reminder per request.
+ */
+async function handleBookingExpiryReminderDue(payload: BookingExpiryReminderDuePayload): Promise<void> {
+  const booking = await prisma.booking.findUnique({
+    where: {
+      id: payload.bookingId
+    },
+    select: {
+      status: true
+    }
+  });
+  if (!booking || booking.status !== 'PENDING') {
+    logger.info('Outbox handler: BOOKING_EXPIRY_REMINDER_DUE skipped, booking answered', {
+      event: 'OUTBOX_HANDLER_BOOKING_EXPIRY_REMINDER_SKIPPED',
+      bookingId: payload.bookingId
+    });
+    return;
+  }
+  const hoursLeft = Math.max(1, Math.round((new Date(payload.expiresAt).getTime() - Date.now()) / (60 * 60 * 1000)));
+  await notificationService.emit({
+    recipientId: payload.ownerId,
+    type: NotificationType.BOOKING_EXPIRY_REMINDER,
+    title: 'Booking Request Expiring Soon',
+    message: `${payload.tenantName}'s request for "${payload.roomTitle}" expires in about ${hoursLeft} hour${hoursLeft === 1 ? '' : 's'}. Approve or decline it before then.`,
+    payload: {
+      bookingId: payload.bookingId,
+      propertyId: payload.roomId,
+      propertyTitle: payload.roomTitle,
+      tenantName: payload.tenantName,
+      expiresAt: payload.expiresAt
+    },
+    referenceId: `booking_expiry_reminder_${payload.bookingId}`
+  });
+  logger.info('Outbox handler: BOOKING_EXPIRY_REMINDER_DUE notification sent', {
+    event: 'OUTBOX_HANDLER_BOOKING_EXPIRY_REMINDER',
+    bookingId: payload.bookingId
+  });
+}
+
+/**
+ * Handle ROOM_CREATED event.
+ * Scores the new listing for duplicates / fraud (RoomRiskService). Scoring
+ * never throws, so a slow or failing image-hash call only leaves the room
+ * unscored (riskCheckedAt = null) instead of retrying.
+ */
+async function handleRoomCreated(payload: RoomCreatedPayload): Promise<void> {
+  const risk = await roomRiskService.assessRoom(payload.roomId);
+  logger.info('Outbox handler: ROOM_CREATED risk scored', {
+    event: 'OUTBOX_HANDLER_ROOM_CREATED',
+    roomId: payload.roomId,
+    riskScore: risk?.riskScore ?? null,
+    skipped: risk === null
+  });
+}
+
+/**
+ * Handle ROOM_APPROVED event.
+ * Alerts tenants whose saved searches match the newly approved room.
+ *
+ * referenceId is keyed by (search, room) rather than the outbox event, so a
+ * room that is suspended and re-approved never alerts the same search twice.
+ */
+async function handleRoomApproved(payload: RoomApprovedPayload): Promise<void> {
+  const room = await prisma.room.findUnique({
+    where: {
+      id: payload.roomId
+    }
+  });
+  // Suspended or edited back to review before the worker got here
+  if (!room || room.reviewStatus !== 'APPROVED' || !room.isActive) {
+    logger.info('Outbox handler: ROOM_APPROVED skipped, room no longer live', {
+      event: 'OUTBOX_HANDLER_ROOM_APPROVED_SKIPPED',
+      roomId: payload.roomId
+    });
+    return;
+  }
+  const matches = await savedSearchService.findSearchesMatchingRoom(room);
+  for (const search of matches) {
+    await notificationService.emit({
+      recipientId: search.tenantId,
+      type: NotificationType.SAVED_SEARCH_MATCH,
+      title: 'New room matches your search',
+      message: `"${room.title}" in ${room.city} (₹${room.pricePerMonth}/month) matches your saved search "${search.name}".`,
+      payload: {
+        propertyId: room.id,
+        propertyTitle: room.title,
+        propertyCity: room.city,
+        savedSearchId: search.id,
+        savedSearchName: search.name
+      },
+      referenceId: `saved_search_${search.id}_${room.id}`
+    });
+  }
+  if (matches.length > 0) {
+    await prisma.savedSearch.updateMany({
+      where: {
+        id: {
+          in: matches.map((m) => m.id)
+        }
+      },
+      data: {
+        lastAlertAt: new Date()
+      }
+    });
+  }
+  logger.info('Outbox handler: ROOM_APPROVED saved-search alerts sent', {
+    event: 'OUTBOX_HANDLER_ROOM_APPROVED',
+    roomId: room.id,
+    matchCount: matches.length
+  });
+}
+
+/**
+ * Handle PAYMENT_VERIFIED event.
+ * Issues the GST invoice for a subscription payment (idempotent).
+ */
+async function handlePaymentVerified(payload: PaymentVerifiedPayload): Promise<void> {
+  if (payload.purpose !== 'SUBSCRIPTION') return;
+  const invoice = await invoiceService.issueForPayment(payload.paymentId);
+  logger.info('Outbox handler: PAYMENT_VERIFIED processed', {
+    event: 'OUTBOX_HANDLER_PAYMENT_VERIFIED',
+    paymentId: payload.paymentId,
+    invoiceNumber: invoice.invoiceNumber
+  });
+}
+
+/**
+ * Handle PAYMENT_REFUND_REQUESTED event.
+ * Sends the refund to Razorpay; a gateway error throws, so the event is
+ * retried with backoff. Acceptance writes PAYMENT_REFUNDED, which notifies
+ * the tenant.
+ */
+async function handlePaymentRefundRequested(payload: PaymentRefundRequestedPayload): Promise<void> {
+  await refundService.processRefund(payload.refundId);
+  logger.info('Outbox handler: PAYMENT_REFUND_REQUESTED processed', {
+    event: 'OUTBOX_HANDLER_REFUND_REQUESTED',
+    refundId: payload.refundId,
+    paymentId: payload.paymentId
+  });
+}
+
+/**
+ * Handle PAYMENT_REFUNDED event.
+ * Tells the tenant the money is on its way back.
+ */
+async function handlePaymentRefunded(payload: PaymentRefundedPayload): Promise<void> {
+  const amount = `₹${(payload.amount / 100).toFixed(2)}`;
+  await notificationService.emit({
+    recipientId: payload.tenantId,
+    type: NotificationType.PAYMENT_REFUNDED,
+    title: payload.fullyRefunded ? 'Refund Initiated' : 'Partial Refund Initiated',
+    message: `A refund of ${amount} has been initiated to your original payment method. It usually arrives within 5–7 working days. Reason: ${payload.reason}`,
+    payload: {
+      paymentId: payload.paymentId,
+      refundId: payload.refundId,
+      bookingId: payload.bookingId || undefined,
+      amount: payload.amount,
+      reason: payload.reason
+    },
+    referenceId: `refund_${payload.refundId}`
+  });
+  logger.info('Outbox handler: PAYMENT_REFUNDED processed', {
+    event: 'OUTBOX_HANDLER_REFUNDED',
+    refundId: payload.refundId,
+    paymentId: payload.paymentId
+  });
+}
+
+/**
+ * Handle SUBSCRIPTION_DOWNGRADED event.
+ * Tells the tenant their paid plan ended and how to get it back.
+ */
+async function handleSubscriptionDowngraded(payload: SubscriptionDowngradedPayload): Promise<void> {
+  await notificationService.emit({
+    recipientId: payload.tenantId,
+    type: NotificationType.SUBSCRIPTION_EXPIRED,
+    title: 'Subscription Expired',
+    message: `Your ${payload.previousPlan} plan for ${payload.city} has expired and your account is now on the FREE plan. Renew any time to unlock contacts again.`,
+    payload: {
+      subscriptionId: payload.subscriptionId,
+      city: payload.city,
+      plan: payload.previousPlan,
+      expiresAt: payload.expiredAt
+    },
+    referenceId: `subscription_expired_${payload.subscriptionId}_${payload.expiredAt}`
+  });
+  logger.info('Outbox handler: SUBSCRIPTION_DOWNGRADED processed', {
+    event: 'OUTBOX_HANDLER_SUBSCRIPTION_DOWNGRADED',
+    subscriptionId: payload.subscriptionId,
+    tenantId: payload.tenantId
+  });
+}
+
+/**
+ * Handle VISIT_STATUS_CHANGED event.
+ * A proposal goes to the owner and the room's assigned agents; the host's
+ * answer goes to the tenant; a tenant cancellation goes back to the hosts.
+ */
+async function handleVisitStatusChanged(payload: VisitStatusChangedPayload, outboxEventId: string): Promise<void> {
+  const when = payload.scheduledAt ? new Date(payload.scheduledAt).toLocaleString() : null;
+  const reasonSuffix = payload.reason ? ` Reason: ${payload.reason}` : '';
+  let recipients: string[];
+  let title: string;
+  let message: string;
+  switch (payload.action) {
+    case 'PROPOSED':
+      recipients = [payload.ownerId, ...(await activeAgentIdsForRoom(payload.roomId))];
+      title = 'New Visit Request';
+      message = `A tenant would like to visit "${payload.roomTitle}" and proposed ${payload.proposedSlots.length} time slot${payload.proposedSlots.length === 1 ? '' : 's'}.`;
+      break;
+    case 'CONFIRMED':
+      recipients = [payload.tenantId];
+      title = 'Visit Confirmed';
+      message = `Your visit to "${payload.roomTitle}" is confirmed for ${when}.`;
+      break;
+    case 'RESCHEDULED':
+      recipients = [payload.tenantId];
+      title = 'Visit Rescheduled';
+      message = `Your visit to "${payload.roomTitle}" has been moved to ${when}.${reasonSuffix}`;
+      break;
+    case 'DECLINED':
+      recipients = [payload.tenantId];
+      title = 'Visit Declined';
+      message = `Your visit request for "${payload.roomTitle}" was declined.${reasonSuffix}`;
+      break;
+    case 'CANCELLED':
+      recipients = [payload.ownerId, ...(payload.hostAgentId ? [payload.hostAgentId] : [])];
+      title = 'Visit Cancelled';
+      message = `The tenant cancelled their visit to "${payload.roomTitle}"${when ? ` on ${when}` : ''}.${reasonSuffix}`;
+      break;
+    default:
+      return;
+  }
+  for (const recipientId of new Set(recipients)) {
+    await notificationService.emit({
+      recipientId,
+      type: NotificationType.VISIT_UPDATED,
+      title,
+      message,
+      payload: {
+        visitId: payload.visitId,
+        propertyId: payload.roomId,
+        propertyTitle: payload.roomTitle,
+        scheduledAt: payload.scheduledAt || undefined,
+        reason: payload.reason || undefined
+      },
+      referenceId: `visit_status_${outboxEventId}`
+    });
+  }
+  logger.info('Outbox handler: VISIT_STATUS_CHANGED notifications sent', {
+    event: 'OUTBOX_HANDLER_VISIT_STATUS_CHANGED',
+    visitId: payload.visitId,
+    action: payload.action
+  });
+}
+
+/**
+ * Handle VISIT_REMINDER_DUE event.
+ * Reminds the tenant and whoever hosts the visit (agent, else the owner).
+ */
+async function handleVisitReminderDue(payload: VisitReminderDuePayload, outboxEventId: string): Promise<void> {
+  const visit = await prisma.visit.findUnique({
+    where: {
+      id: payload.visitId
+    },
+    select: {
+      status: true,
+      scheduledAt: true
+    }
+  });
+  // Cancelled or moved after the reminder was queued
+  if (!visit || visit.status !== 'CONFIRMED' || visit.scheduledAt?.toISOString() !== payload.scheduledAt) {
+    logger.info('Outbox handler: VISIT_REMINDER_DUE skipped, visit changed', {
+      event: 'OUTBOX_HANDLER_VISIT_REMINDER_SKIPPED',
+      visitId: payload.visitId
+    });
+    return;
+  }
+  const when = new Date(payload.scheduledAt).toLocaleString();
+  const notificationPayload = {
+    visitId: payload.visitId,
+    propertyId: payload.roomId,
+    propertyTitle: payload.roomTitle,
+    scheduledAt: payload.scheduledAt
+  };
+  await notificationService.emit({
+    recipientId: payload.tenantId,
+    type: NotificationType.VISIT_REMINDER,
+    title: 'Upcoming Visit',
+    message: `Reminder: your visit to "${payload.roomTitle}" is at ${when}.`,
+    payload: notificationPayload,
+    referenceId: `visit_reminder_${outboxEventId}`
+  });
+  await notificationService.emit({
+    recipientId: payload.hostAgentId || payload.ownerId,
+    type: NotificationType.VISIT_REMINDER,
+    title: 'Upcoming Visit',
+    message: `Reminder: you are showing "${payload.roomTitle}" to a tenant at ${when}.`,
+    payload: notificationPayload,
+    referenceId: `visit_reminder_${outboxEventId}`
+  });
+  logger.info('Outbox handler: VISIT_REMINDER_DUE notifications sent', {
+    event: 'OUTBOX_HANDLER_VISIT_REMINDER',
+    visitId: payload.visitId
+  });
+}
+async function activeAgentIdsForRoom(roomId: string): Promise<string[]> {
+  const assignments = await prisma.agentPropertyAssignment.findMany({
+    where: {
+      propertyId: roomId,
+      isActive: true
+    },
+    select: {
+      agentId: true
+    }
+  });
+  return assignments.map((a) => a.agentId);
+}
+
 // =============================================================================
 // CLEANUP — Remove old delivered events
 // =============================================================================
@@ -0,0 +1,22 @@
+/**
+ * PaymentGateway — the read side of the payment provider that
+ * reconciliation depends on. RazorpayService implements it; tests use
+ * InMemoryPaymentGateway (tests/helpers).
+ */
+
+export type GatewayPaymentStatus = 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
+export interface GatewayPayment {
+  id: string;
+  orderId: string;
+  amount: number; // paise
+  status: GatewayPaymentStatus;
+  errorDescription?: string | null;
+}
+export interface PaymentGateway {
+  isEnabled(): boolean;
+
+  /**
+   * Every payment attempt made against one of our orders (newest first)
+   */
+  fetchOrderPayments(orderId: string): Promise<GatewayPayment[]>;
+}
@@ -0,0 +1,114 @@
+import { GatewayPayment } from './PaymentGateway';
+
+/**
+ * PAYMENT RECONCILIATION POLICY — what a stuck payment becomes
+ *
+ * ┌────────────────────────────────────────┬──────────────────────────────┐
+ * │ Gateway says (attempts on our order)   │ Outcome                      │
+ * ├────────────────────────────────────────┼──────────────────────────────┤
+ * │ captured, amount matches               │ VERIFY (+ subscription /     │
+ * │                                        │ booking side effects)        │
+ * │ captured, amount differs               │ FLAG for a human             │
+ * │ authorized, not yet captured           │ PENDING (EXPIRE once stale)  │
+ * │ only failed / refunded attempts        │ FAIL                         │
+ * │ no attempts                            │ wait, EXPIRE once stale      │
+ * └────────────────────────────────────────┴──────────────────────────────┘
+ *
+ * "Stale" = older than PAYMENT_EXPIRE_AFTER_HOURS. Razorpay voids
+ * authorizations that are never captured, so a stale one will not settle.
+ *
+ * Pure rules only — PaymentReconciliationService applies them.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+export type ReconciliationAction = 'VERIFY' | 'MARK_PENDING' | 'FAIL' | 'EXPIRE' | 'FLAG' | 'WAIT';
+export interface ReconciliationDecision {
+  action: ReconciliationAction;
+  gatewayPaymentId: string | null;
+  reason: string;
+}
+export function reconcilePayment(payment: {
+  amount: number;
+  status: string;
+  createdAt: Date;
+}, attempts: GatewayPayment[], ctx: {
+  now: Date;
+  expireAfterHours: number;
+}): ReconciliationDecision {
+  const captured = attempts.filter((a) => a.status === 'captured');
+  const matching = captured.find((a) => a.amount === payment.amount);
+  if (matching) {
+    return {
+      action: 'VERIFY',
+      gatewayPaymentId: matching.id,
+      reason: 'Captured on the gateway'
+    };
+  }
+  if (captured.length > 0) {
+    return {
+      action: 'FLAG',
+      gatewayPaymentId: captured[0].id,
+      reason: `Captured amount ${captured[0].amount} does not match order amount ${payment.amount}`
+    };
+  }
+  const stale = ctx.now.getTime() - payment.createdAt.getTime() >= ctx.expireAfterHours * HOUR_MS;
+  const authorized = attempts.find((a) => a.status === 'authorized');
+  if (authorized) {
+    if (stale) {
+      return {
+        action: 'EXPIRE',
+        gatewayPaymentId: authorized.id,
+        reason: `Authorized but not captured within ${ctx.expireAfterHours} hours`
+      };
+    }
+    return payment.status === 'PENDING' ? {
+      action: 'WAIT',
+      gatewayPaymentId: authorized.id,
+      reason: 'Authorized, awaiting capture'
+    } : {
+      action: 'MARK_PENDING',
+      gatewayPaymentId: authorized.id,
+      reason: 'Authorized, awaiting capture'
+    };
+  }
+  if (attempts.length > 0 && attempts.every((a) => a.status === 'failed' || a.status === 'refunded')) {
+    return {
+      action: 'FAIL',
+      gatewayPaymentId: attempts[0].id,
+      reason: attempts[0].errorDescription || `Gateway payment ${attempts[0].status}`
+    };
+  }
+  if (stale) {
+    return {
+      action: 'EXPIRE',
+      gatewayPaymentId: null,
+      reason: `No successful payment within ${ctx.expireAfterHours} hours`
+    };
+  }
+  return {
+    action: 'WAIT',
+    gatewayPaymentId: null,
+    reason: 'Checkout may still be in progress'
+  };
+}
+
+/**
+ * Whether a tenant's latest verified subscription payment is missing from
+ * their subscription — the upgrade write was lost or never ran.
+ * `durationDays` is the paid plan's length; the paid period runs to
+ * periodEnd when recorded, else from verifiedAt.
+ */
+export function subscriptionUpgradeMissing(payment: {
+  plan: string;
+  verifiedAt: Date;
+  periodEnd?: Date | null;
+}, subscription: {
+  plan: string;
+  expiresAt: Date | null;
+} | null, durationDays: number, now: Date): boolean {
+  const paidUntil = payment.periodEnd ? payment.periodEnd.getTime() : payment.verifiedAt.getTime() + durationDays * 24 * HOUR_MS;
+  if (durationDays <= 0 || paidUntil <= now.getTime()) return false;
+  if (!subscription || subscription.plan !== payment.plan.toUpperCase()) return true;
+  // Activation stamps expiresAt seconds after verifiedAt; allow an hour of slack
+  return !subscription.expiresAt || subscription.expiresAt.getTime() < paidUntil - HOUR_MS;
+}
@@ -0,0 +1,413 @@
+import { PrismaClient, Prisma, Payment, PaymentPurpose, PaymentStatus, ReconciliationTrigger, ReconciliationRunStatus } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+import { normalizeCity } from '../utils/normalize';
+import { BusinessLogicError, NotFoundError } from '../errors/AppErrors';
+import { PaymentGateway } from './PaymentGateway';
+import { RazorpayService } from './RazorpayService';
+import { BookingPaymentService } from './BookingPaymentService';
+import { TenantSubscriptionService } from './TenantSubscriptionService';
+import { planCatalogService } from './PlanCatalogService';
+import { bundleTermsOf } from './BundlePolicy';
+import { reconcilePayment, subscriptionUpgradeMissing, ReconciliationAction } from './PaymentReconciliationPolicy';
+
+// =============================================================================
+// PAYMENT RECONCILIATION — our Payment table vs. the gateway
+//
+// Checkout can stall between Razorpay and us (tab closed before the verify
+// call, webhook not delivered). Each run:
+// 1. Asks the gateway about every CREATED/INITIATED/PENDING payment older
+//    than PAYMENT_RECONCILE_AFTER_MINUTES and applies
+//    PaymentReconciliationPolicy (VERIFY / PENDING / FAILED / EXPIRED / flag)
+// 2. Re-applies subscription upgrades missing for VERIFIED payments
+// 3. Stores what it did as a PaymentReconciliationRun (the admin report)
+//
+// Every write is conditional or goes through the same idempotent paths as
+// checkout and webhooks, so runs may overlap with either safely.
+// =============================================================================
+
+const BATCH_SIZE = 200;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const OPEN_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.CREATED, PaymentStatus.INITIATED, PaymentStatus.PENDING];
+
+// One run at a time per process (scheduled and admin-triggered share this)
+let runInProgress = false;
+export interface ReconciliationItem {
+  paymentId: string;
+  orderId: string;
+  purpose: PaymentPurpose;
+  fromStatus: PaymentStatus;
+  action: ReconciliationAction | 'REPAIR_SUBSCRIPTION';
+  gatewayPaymentId: string | null;
+  reason: string;
+}
+export class PaymentReconciliationService {
+  private prisma: PrismaClient;
+  private gateway: PaymentGateway;
+  private subscriptionService: TenantSubscriptionService;
+  private bookingPaymentService: BookingPaymentService;
+  constructor(subscriptionService: TenantSubscriptionService, prismaClient?: PrismaClient, gateway?: PaymentGateway, bookingPaymentService?: BookingPaymentService) {
+    this.subscriptionService = subscriptionService;
+    this.prisma = prismaClient || getPrismaClient();
+    const razorpayService = new RazorpayService();
+    this.gateway = gateway || razorpayService;
+    this.bookingPaymentService = bookingPaymentService || new BookingPaymentService(this.prisma, razorpayService);
+    this.run = this.run.bind(this);
+    this.listRuns = this.listRuns.bind(this);
+    this.getRun = this.getRun.bind(this);
+  }
+
+  /**
+   * Reconcile stuck payments and repair subscriptions, recording the run.
+   * @returns null when a scheduled run is skipped (gateway off / run in progress)
+   * @throws BusinessLogicError for a MANUAL run that cannot start
+   */
+  async run(params: {
+    trigger: ReconciliationTrigger;
+    triggeredBy?: string | null;
+    now?: Date;
+  }) {
+    const manual = params.trigger === ReconciliationTrigger.MANUAL;
+    if (!this.gateway.isEnabled()) {
+      if (manual) throw new BusinessLogicError('Payment gateway is not configured');
+      return null;
+    }
+    if (runInProgress) {
+      if (manual) throw new BusinessLogicError('A reconciliation run is already in progress');
+      return null;
+    }
+    runInProgress = true;
+    const now = params.now ?? new Date();
+    const run = await this.prisma.paymentReconciliationRun.create({
+      data: {
+        trigger: params.trigger,
+        triggeredBy: params.triggeredBy ?? null
+      }
+    }).catch((error) => {
+      runInProgress = false;
+      throw error;
+    });
+    const items: ReconciliationItem[] = [];
+    try {
+      const scanned = await this.reconcileStuckPayments(now, items);
+      await this.repairSubscriptions(now, items);
+      const count = (action: ReconciliationItem['action']) => items.filter((i) => i.action === action).length;
+      const finished = await this.prisma.paymentReconciliationRun.update({
+        where: {
+          id: run.id
+        },
+        data: {
+          status: ReconciliationRunStatus.COMPLETED,
+          scanned,
+          verified: count('VERIFY'),
+          failed: count('FAIL'),
+          expired: count('EXPIRE'),
+          markedPending: count('MARK_PENDING'),
+          repaired: count('REPAIR_SUBSCRIPTION'),
+          flagged: count('FLAG'),
+          items: items as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date()
+        }
+      });
+      logger.info('Payment reconciliation complete', {
+        event: 'PAYMENT_RECONCILIATION_RUN',
+        runId: run.id,
+        trigger: params.trigger,
+        scanned,
+        changed: items.length
+      });
+      return finished;
+    } catch (error: any) {
+      logger.error('Payment reconciliation failed', {
+        runId: run.id,
+        error: error.message
+      });
+      return this.prisma.paymentReconciliationRun.update({
+        where: {
+          id: run.id
+        },
+        data: {
+          status: ReconciliationRunStatus.FAILED,
+          error: String(error.message).slice(0, 1000),
+          items: items as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date()
+        }
+      });
+    } finally {
+      runInProgress = false;
+    }
+  }
+
+  /**
+   * Recent runs, newest first, without their item lists
+   */
+  async listRuns(limit: number) {
+    return this.prisma.paymentReconciliationRun.findMany({
+      orderBy: {
+        startedAt: 'desc'
+      },
+      take: limit,
+      select: {
+        id: true,
+        trigger: true,
+        triggeredBy: true,
+        status: true,
+        scanned: true,
+        verified: true,
+        failed: true,
+        expired: true,
+        markedPending: true,
+        repaired: true,
+        flagged: true,
+        error: true,
+        startedAt: true,
+        finishedAt: true
+      }
+    });
+  }
+  async getRun(runId: string) {
+    const run = await this.prisma.paymentReconciliationRun.findUnique({
+      where: {
+        id: runId
+      }
+    });
+    if (!run) throw new NotFoundError('Reconciliation run', runId);
+    return run;
+  }
+  private async reconcileStuckPayments(now: Date, items: ReconciliationItem[]): Promise<number> {
+    const stuck = await this.prisma.payment.findMany({
+      where: {
+        status: {
+          in: OPEN_PAYMENT_STATUSES
+        },
+        createdAt: {
+          lte: new Date(now.getTime() - env.PAYMENT_RECONCILE_AFTER_MINUTES * MINUTE_MS)
+        }
+      },
+      orderBy: {
+        createdAt: 'asc'
+      },
+      take: BATCH_SIZE
+    });
+    for (const payment of stuck) {
+      const item = {
+        paymentId: payment.id,
+        orderId: payment.orderId,
+        purpose: payment.purpose,
+        fromStatus: payment.status
+      };
+      try {
+        const attempts = await this.gateway.fetchOrderPayments(payment.orderId);
+        const decision = reconcilePayment(payment, attempts, {
+          now,
+          expireAfterHours: env.PAYMENT_EXPIRE_AFTER_HOURS
+        });
+        if (decision.action === 'WAIT') continue;
+        const applied = await this.apply(payment, decision.action, decision.gatewayPaymentId);
+        // false → checkout or a webhook settled it between our read and write
+        if (applied) {
+          items.push({
+            ...item,
+            ...decision
+          });
+        }
+      } catch (error: any) {
+        logger.error('Payment reconciliation: Failed to reconcile payment', {
+          paymentId: payment.id,
+          error: error.message
+        });
+        items.push({
+          ...item,
+          action: 'FLAG',
+          gatewayPaymentId: null,
+          reason: `Reconciliation error: ${error.message}`
+        });
+      }
+    }
+    return stuck.length;
+  }
+  private async apply(payment: {
+    id: string;
+    purpose: PaymentPurpose;
+  }, action: ReconciliationAction, gatewayPaymentId: string | null): Promise<boolean> {
+    switch (action) {
+      case 'VERIFY':
+        {
+          // The gateway API is authoritative — no client signature involved
+          const result = payment.purpose === PaymentPurpose.SUBSCRIPTION || payment.purpose === PaymentPurpose.CONTACT_TOP_UP ? await this.subscriptionService.activateFromPayment(payment.id, gatewayPaymentId!) : await this.bookingPaymentService.markVerified(payment.id, gatewayPaymentId!);
+          return !result.alreadyProcessed;
+        }
+      case 'MARK_PENDING':
+        return this.transition(payment.id, [PaymentStatus.CREATED, PaymentStatus.INITIATED], PaymentStatus.PENDING, gatewayPaymentId);
+      case 'FAIL':
+        return this.transition(payment.id, OPEN_PAYMENT_STATUSES, PaymentStatus.FAILED, gatewayPaymentId);
+      case 'EXPIRE':
+        return this.transition(payment.id, OPEN_PAYMENT_STATUSES, PaymentStatus.EXPIRED, gatewayPaymentId);
+      case 'FLAG':
+        return true;
+      default:
+        return false;
+    }
+  }
+  private async transition(paymentId: string, from: PaymentStatus[], to: PaymentStatus, gatewayPaymentId: string | null): Promise<boolean> {
+    const result = await this.prisma.payment.updateMany({
+      where: {
+        id: paymentId,
+        status: {
+          in: from
+        }
+      },
+      data: {
+        status: to,
+        ...(gatewayPaymentId && {
+          razorpayPaymentId: gatewayPaymentId
+        })
+      }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * The latest VERIFIED subscription payment per tenant and city (or
+   * bundle) must be reflected in that tenant's subscription (or bundle)
+   * while its period lasts.
+   */
+  private async repairSubscriptions(now: Date, items: ReconciliationItem[]): Promise<void> {
+    // Payments keep the length they were bought with, which may be longer
+    // than anything in the catalogue today
+    const [longestCityPlanDays, longestBundle, longestPaid] = await Promise.all([planCatalogService.getLongestDurationDays(), this.prisma.bundlePlan.aggregate({
+      _max: {
+        durationDays: true
+      }
+    }), this.prisma.payment.aggregate({
+      where: {
+        purpose: PaymentPurpose.SUBSCRIPTION,
+        status: PaymentStatus.VERIFIED
+      },
+      _max: {
+        durationDays: true
+      }
+    })]);
+    const longestPlanDays = Math.max(longestCityPlanDays, longestBundle._max.durationDays ?? 0, longestPaid._max.durationDays ?? 0);
+    const where: Prisma.PaymentWhereInput = {
+      purpose: PaymentPurpose.SUBSCRIPTION,
+      status: PaymentStatus.VERIFIED,
+      // Once refunded (or while a refund is on its way) the payment no longer
+      // pays for its whole period — RefundService adjusts the subscription
+      refunds: {
+        none: {
+          status: {
+            not: 'FAILED'
+          }
+        }
+      },
+      verifiedAt: {
+        gte: new Date(now.getTime() - longestPlanDays * DAY_MS)
+      }
+    };
+    // Newest first, so the first payment seen per key is the one that counts
+    const seen = new Set<string>();
+    let cursor: string | null = null;
+    for (;;) {
+      const page: Payment[] = await this.prisma.payment.findMany({
+        where,
+        orderBy: [{
+          verifiedAt: 'desc'
+        }, {
+          id: 'desc'
+        }],
+        take: BATCH_SIZE,
+        ...(cursor && {
+          cursor: {
+            id: cursor
+          },
+          skip: 1
+        })
+      });
+      const latest = page.filter((payment) => {
+        const key = this.subscriptionKey(payment);
+        if (seen.has(key) || !payment.plan || !payment.verifiedAt) return false;
+        seen.add(key);
+        return true;
+      });
+      await this.repairPage(latest, now, items);
+      if (page.length < BATCH_SIZE) return;
+      cursor = page[page.length - 1].id;
+    }
+  }
+
+  /**
+   * Check one page of latest payments against their subscriptions / bundles,
+   * loaded in one query each
+   */
+  private async repairPage(payments: Payment[], now: Date, items: ReconciliationItem[]): Promise<void> {
+    const cityPayments = payments.filter((payment) => !bundleTermsOf(payment));
+    const bundlePayments = payments.filter((payment) => bundleTermsOf(payment));
+    const [subscriptions, bundles] = await Promise.all([cityPayments.length === 0 ? [] : this.prisma.tenantSubscription.findMany({
+      where: {
+        OR: cityPayments.map((payment) => ({
+          tenantId: payment.tenantId,
+          city: normalizeCity(payment.city)
+        }))
+      }
+    }), bundlePayments.length === 0 ? [] : this.prisma.tenantBundle.findMany({
+      where: {
+        OR: bundlePayments.map((payment) => ({
+          tenantId: payment.tenantId,
+          bundleCode: bundleTermsOf(payment)!.code
+        }))
+      }
+    })]);
+    const current = new Map<string, {
+      plan: string;
+      expiresAt: Date | null;
+    }>([...subscriptions.map((s) => [`${s.tenantId}:${s.city}`, s] as const), ...bundles.map((b) => [`${b.tenantId}:bundle:${b.bundleCode}`, b] as const)]);
+    for (const payment of payments) {
+      if (!payment.plan || !payment.verifiedAt) continue;
+      const bundle = bundleTermsOf(payment);
+      const subscription = current.get(this.subscriptionKey(payment)) ?? null;
+      const durationDays = await planCatalogService.getPaidDurationDays(payment);
+      if (!subscriptionUpgradeMissing({
+        plan: payment.plan,
+        verifiedAt: payment.verifiedAt,
+        periodEnd: payment.periodEnd
+      }, subscription, durationDays, now)) continue;
+      try {
+        await this.subscriptionService.repairFromPayment(payment.id);
+        items.push({
+          paymentId: payment.id,
+          orderId: payment.orderId,
+          purpose: payment.purpose,
+          fromStatus: payment.status,
+          action: 'REPAIR_SUBSCRIPTION',
+          gatewayPaymentId: payment.razorpayPaymentId,
+          reason: subscription ? `${bundle ? 'Bundle' : 'Subscription'} was ${subscription.plan} until ${subscription.expiresAt?.toISOString() ?? 'no expiry'}` : bundle ? `Tenant has no ${bundle.code} bundle` : 'No subscription for the paid city'
+        });
+      } catch (error: any) {
+        logger.error('Payment reconciliation: Failed to repair subscription', {
+          paymentId: payment.id,
+          error: error.message
+        });
+        items.push({
+          paymentId: payment.id,
+          orderId: payment.orderId,
+          purpose: payment.purpose,
+          fromStatus: payment.status,
+          action: 'FLAG',
+          gatewayPaymentId: payment.razorpayPaymentId,
+          reason: `Subscription repair failed: ${error.message}`
+        });
+      }
+    }
+  }
+
+  /**
+   * What a subscription payment pays for: a tenant's city plan or bundle
+   */
+  private subscriptionKey(payment: Payment): string {
+    const bundle = bundleTermsOf(payment);
+    return bundle ? `${payment.tenantId}:bundle:${bundle.code}` : `${payment.tenantId}:${normalizeCity(payment.city)}`;
+  }
+}
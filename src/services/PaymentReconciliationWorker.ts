@@ -0,0 +1,46 @@
+import { ReconciliationTrigger } from '@prisma/client';
+import { env } from '../config/env';
+import { createIntervalWorker } from '../utils/intervalWorker';
+import { tenantSubscriptionRepository, propertyViewRepository, roomRepository } from '../repositories';
+import { TenantSubscriptionService } from './TenantSubscriptionService';
+import { PaymentReconciliationService } from './PaymentReconciliationService';
+const reconciliationService = new PaymentReconciliationService(new TenantSubscriptionService(tenantSubscriptionRepository, propertyViewRepository, roomRepository));
+
+// =============================================================================
+// PAYMENT RECONCILIATION WORKER — schedules PaymentReconciliationService
+//
+// Runs every PAYMENT_RECONCILE_INTERVAL_MINUTES. Skipped while Razorpay keys
+// are not configured. Admins can also trigger a run from the admin API.
+// =============================================================================
+
+const worker = createIntervalWorker({
+  name: 'Payment reconciliation worker',
+  event: 'PAYMENT_RECONCILIATION',
+  intervalMs: env.PAYMENT_RECONCILE_INTERVAL_MINUTES * 60 * 1000,
+  runOnStart: false,
+  startContext: {
+    reconcileAfterMinutes: env.PAYMENT_RECONCILE_AFTER_MINUTES,
+    expireAfterHours: env.PAYMENT_EXPIRE_AFTER_HOURS
+  },
+  sweep: () => runScheduledReconciliation()
+});
+
+/**
+ * Start the reconciliation loop. Call once on server startup.
+ */
+export function startPaymentReconciliationWorker(): void {
+  worker.start();
+}
+
+/**
+ * Stop the reconciliation loop. Call on SIGTERM/SIGINT.
+ */
+export function stopPaymentReconciliationWorker(): void {
+  worker.stop();
+}
+export async function runScheduledReconciliation(now: Date = new Date()) {
+  return reconciliationService.run({
+    trigger: ReconciliationTrigger.SCHEDULED,
+    now
+  });
+}
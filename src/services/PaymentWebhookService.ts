@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma, PaymentPurpose, PaymentStatus, PaymentWebhookStatus } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../errors/AppErrors';
+import { RazorpayService } from './RazorpayService';
+import { TenantSubscriptionService } from './TenantSubscriptionService';
+import { BookingPaymentService } from './BookingPaymentService';
+import { RefundService } from './RefundService';
+import { RazorpayWebhookEvent, RazorpayPaymentEntity, RazorpayRefundEntity } from '../utils/razorpayWebhook';
+
+/**
+ * PaymentWebhookService — Razorpay → us, for when the browser never calls back
+ *
+ * ┌────────────────────────────┬──────────────────────────────────────────┐
+ * │ Event                      │ Effect                                   │
+ * ├────────────────────────────┼──────────────────────────────────────────┤
+ * │ payment.authorized         │ CREATED/INITIATED → PENDING              │
+ * │ payment.captured/order.paid│ → VERIFIED + subscription upgrade or     │
+ * │                            │   booking confirmation                   │
+ * │ payment.failed             │ CREATED/INITIATED/PENDING → FAILED       │
+ * │ refund.processed           │ Refund → PROCESSED, payment → REFUNDED / │
+ * │                            │   PARTIALLY_REFUNDED, tenant notified    │
+ * │ refund.failed              │ Refund → FAILED                          │
+ * └────────────────────────────┴──────────────────────────────────────────┘
+ *
+ * Every delivery is stored in PaymentWebhookEvent keyed by the event id;
+ * a redelivery of a PROCESSED/IGNORED/FLAGGED event is acknowledged
+ * without running again. A FAILED one is retried, and so is one left
+ * RECEIVED for longer than CLAIM_TIMEOUT_MS (its process died mid-handle).
+ * All downstream writes are idempotent too, so the browser verify call and
+ * the webhook can race.
+ *
+ * An event we can't safely apply — a captured amount that doesn't match the
+ * order — is stored as FLAGGED and acknowledged: redelivering it would never
+ * succeed, and enough 5xx answers make Razorpay disable the webhook.
+ */
+
+const OPEN_PAYMENT_STATUSES: PaymentStatus[] = [PaymentStatus.CREATED, PaymentStatus.INITIATED, PaymentStatus.PENDING];
+// Well past the slowest handler (a Razorpay refund call plus a transaction)
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+export type WebhookOutcome = 'processed' | 'ignored' | 'flagged' | 'duplicate';
+
+// What a handler did: applied something, had nothing to do, or refused
+type DispatchResult = boolean | {
+  flagged: string;
+};
+const OUTCOME_STATUS: Record<Exclude<WebhookOutcome, 'duplicate'>, PaymentWebhookStatus> = {
+  processed: PaymentWebhookStatus.PROCESSED,
+  ignored: PaymentWebhookStatus.IGNORED,
+  flagged: PaymentWebhookStatus.FLAGGED
+};
+export class PaymentWebhookService {
+  private prisma: PrismaClient;
+  private razorpayService: RazorpayService;
+  private subscriptionService: TenantSubscriptionService;
+  private bookingPaymentService: BookingPaymentService;
+  private refundService: RefundService;
+  constructor(subscriptionService: TenantSubscriptionService, prismaClient?: PrismaClient, razorpayService?: RazorpayService, bookingPaymentService?: BookingPaymentService, refundService?: RefundService) {
+    this.subscriptionService = subscriptionService;
+    this.prisma = prismaClient || getPrismaClient();
+    this.razorpayService = razorpayService || new RazorpayService();
+    this.bookingPaymentService = bookingPaymentService || new BookingPaymentService(this.prisma, this.razorpayService);
+    this.refundService = refundService || new RefundService(this.prisma, this.razorpayService);
+    this.handle = this.handle.bind(this);
+  }
+
+  /**
+   * Verify, deduplicate and apply one webhook delivery.
+   * @throws ValidationError on a bad signature or body (respond 400)
+   * Other errors propagate so the endpoint answers 5xx and Razorpay redelivers.
+   */
+  async handle(rawBody: Buffer, signature: string | undefined, eventIdHeader: string | undefined): Promise<WebhookOutcome> {
+    if (!this.razorpayService.verifyWebhookSignature(rawBody, signature)) {
+      throw new ValidationError('Invalid webhook signature');
+    }
+    let event: RazorpayWebhookEvent;
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new ValidationError('Webhook body is not valid JSON');
+    }
+    if (!event || typeof event.event !== 'string') {
+      throw new ValidationError('Webhook body has no event type');
+    }
+    // Razorpay always sends the header; hashing the body keeps dedupe working without it
+    const eventId = eventIdHeader || `body_${crypto.createHash('sha256').update(rawBody).digest('hex')}`;
+    if (!(await this.claimEvent(eventId, event))) {
+      logger.info('Razorpay webhook: duplicate delivery acknowledged', {
+        eventId,
+        eventType: event.event
+      });
+      return 'duplicate';
+    }
+    try {
+      const result = await this.dispatch(event);
+      const flagged = typeof result === 'object' ? result.flagged : null;
+      const outcome = flagged ? 'flagged' : result ? 'processed' : 'ignored';
+      await this.prisma.paymentWebhookEvent.update({
+        where: {
+          eventId
+        },
+        data: {
+          status: OUTCOME_STATUS[outcome],
+          error: flagged,
+          processedAt: new Date()
+        }
+      });
+      if (flagged) {
+        logger.error('Razorpay webhook flagged for review', {
+          eventId,
+          eventType: event.event,
+          reason: flagged
+        });
+      } else {
+        logger.info('Razorpay webhook handled', {
+          eventId,
+          eventType: event.event,
+          applied: result
+        });
+      }
+      return outcome;
+    } catch (error: any) {
+      await this.prisma.paymentWebhookEvent.update({
+        where: {
+          eventId
+        },
+        data: {
+          status: PaymentWebhookStatus.FAILED,
+          error: String(error.message).slice(0, 1000)
+        }
+      });
+      logger.error('Razorpay webhook handler failed', {
+        eventId,
+        eventType: event.event,
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Insert the event row, or take over a FAILED one or one whose claim timed
+   * out. false = already handled (or being handled by a concurrent delivery).
+   */
+  private async claimEvent(eventId: string, event: RazorpayWebhookEvent): Promise<boolean> {
+    try {
+      await this.prisma.paymentWebhookEvent.create({
+        data: {
+          eventId,
+          eventType: event.event,
+          payload: event as unknown as Prisma.InputJsonValue
+        }
+      });
+      return true;
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+    const reopened = await this.prisma.paymentWebhookEvent.updateMany({
+      where: {
+        eventId,
+        OR: [{
+          status: PaymentWebhookStatus.FAILED
+        }, {
+          status: PaymentWebhookStatus.RECEIVED,
+          claimedAt: {
+            lt: new Date(Date.now() - CLAIM_TIMEOUT_MS)
+          }
+        }]
+      },
+      data: {
+        status: PaymentWebhookStatus.RECEIVED,
+        claimedAt: new Date(),
+        attempts: {
+          increment: 1
+        }
+      }
+    });
+    return reopened.count > 0;
+  }
+
+  /**
+   * @returns false when the event needed no action
+   */
+  private async dispatch(event: RazorpayWebhookEvent): Promise<DispatchResult> {
+    const payment = event.payload.payment?.entity;
+    const refund = event.payload.refund?.entity;
+    switch (event.event) {
+      case 'payment.authorized':
+        return payment ? this.onPaymentAuthorized(payment) : false;
+      case 'payment.captured':
+      case 'order.paid':
+        return payment ? this.onPaymentCaptured(payment) : false;
+      case 'payment.failed':
+        return payment ? this.onPaymentFailed(payment) : false;
+      case 'refund.processed':
+      case 'refund.failed':
+        return refund ? this.onRefundUpdate(event.event, refund) : false;
+      default:
+        return false;
+    }
+  }
+  private async onPaymentAuthorized(entity: RazorpayPaymentEntity): Promise<boolean> {
+    const result = await this.prisma.payment.updateMany({
+      where: {
+        orderId: entity.order_id,
+        status: {
+          in: [PaymentStatus.CREATED, PaymentStatus.INITIATED]
+        }
+      },
+      data: {
+        status: PaymentStatus.PENDING,
+        razorpayPaymentId: entity.id
+      }
+    });
+    return result.count > 0;
+  }
+  private async onPaymentCaptured(entity: RazorpayPaymentEntity): Promise<DispatchResult> {
+    const payment = await this.prisma.payment.findUnique({
+      where: {
+        orderId: entity.order_id
+      }
+    });
+    if (!payment) {
+      // Order created outside this backend (e.g. dashboard payment links)
+      logger.warn('Razorpay webhook: no payment for order', {
+        orderId: entity.order_id
+      });
+      return false;
+    }
+    if (entity.amount !== payment.amount) {
+      return {
+        flagged: `Captured amount ${entity.amount} does not match order amount ${payment.amount} for payment ${payment.id}`
+      };
+    }
+    if (payment.purpose === PaymentPurpose.SUBSCRIPTION || payment.purpose === PaymentPurpose.CONTACT_TOP_UP) {
+      const result = await this.subscriptionService.activateFromPayment(payment.id, entity.id);
+      return !result.alreadyProcessed;
+    }
+    const result = await this.bookingPaymentService.markVerified(payment.id, entity.id);
+    return !result.alreadyProcessed;
+  }
+  private async onPaymentFailed(entity: RazorpayPaymentEntity): Promise<boolean> {
+    const result = await this.prisma.payment.updateMany({
+      where: {
+        orderId: entity.order_id,
+        status: {
+          in: OPEN_PAYMENT_STATUSES
+        }
+      },
+      data: {
+        status: PaymentStatus.FAILED,
+        razorpayPaymentId: entity.id
+      }
+    });
+    return result.count > 0;
+  }
+  private async onRefundUpdate(eventType: string, entity: RazorpayRefundEntity): Promise<boolean> {
+    // Our refund id travels in notes; razorpayRefundId covers refunds whose
+    // gateway call already returned
+    const refund = await this.prisma.refund.findFirst({
+      where: {
+        OR: [{
+          razorpayRefundId: entity.id
+        }, ...(entity.notes?.refundId ? [{
+          id: entity.notes.refundId
+        }] : [])]
+      }
+    });
+    if (!refund) {
+      logger.warn('Razorpay webhook: refund not initiated by us', {
+        razorpayRefundId: entity.id,
+        paymentId: entity.payment_id
+      });
+      return false;
+    }
+    if (eventType === 'refund.failed') {
+      if (refund.status === 'FAILED') return false;
+      await this.refundService.markFailed(refund.id, 'Razorpay reported the refund as failed');
+      return true;
+    }
+    if (refund.status === 'PROCESSED' && refund.razorpayRefundId === entity.id) return false;
+    await this.refundService.markProcessed(refund.id, entity.id);
+    return true;
+  }
+}
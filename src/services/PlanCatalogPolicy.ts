@@ -0,0 +1,92 @@
+/**
+ * PLAN CATALOGUE POLICY — which plans can be sold where
+ *
+ * ┌─────────────┬─────────────────────────────────────────────────────┐
+ * │ Plan        │ Rule                                                │
+ * ├─────────────┼─────────────────────────────────────────────────────┤
+ * │ FREE        │ built in; never sold, can't be removed or disabled  │
+ * │ active paid │ needs a price in effect in every city we operate in │
+ * │ inactive    │ kept for existing subscribers; can't be bought      │
+ * └─────────────┴─────────────────────────────────────────────────────┘
+ *
+ * DEFAULT_PLANS is the catalogue used while the TenantSubscriptionPlan
+ * table is still empty (fresh database, before seeding) — the plans that
+ * used to be hardcoded.
+ *
+ * Pure rules only — PlanCatalogService applies them.
+ */
+
+export const FREE_PLAN = 'FREE';
+export const DEFAULT_PLAN_DURATION_DAYS = 30;
+export interface CatalogPlan {
+  name: string;
+  displayName: string | null;
+  description: string | null;
+  durationDays: number;
+  hasCallSupport: boolean;
+  hasMapAccess: boolean;
+  features: string[];
+  sortOrder: number;
+  isActive: boolean;
+}
+export const DEFAULT_PLANS: CatalogPlan[] = [{
+  name: FREE_PLAN,
+  displayName: 'Free',
+  description: null,
+  durationDays: 0,
+  hasCallSupport: false,
+  hasMapAccess: false,
+  features: ['Limited property views'],
+  sortOrder: 0,
+  isActive: true
+}, {
+  name: 'GOLD',
+  displayName: 'Gold',
+  description: null,
+  durationDays: 30,
+  hasCallSupport: false,
+  hasMapAccess: true,
+  features: ['Unlimited views', 'Contact info'],
+  sortOrder: 1,
+  isActive: true
+}, {
+  name: 'PLATINUM',
+  displayName: 'Platinum',
+  description: null,
+  durationDays: 30,
+  hasCallSupport: true,
+  hasMapAccess: true,
+  features: ['Unlimited views', 'Contact info', 'Call support'],
+  sortOrder: 2,
+  isActive: true
+}];
+export function isPurchasable(plan: Pick<CatalogPlan, 'name' | 'isActive'> | null): boolean {
+  return plan !== null && plan.isActive && plan.name !== FREE_PLAN;
+}
+
+/**
+ * Active paid plans with no price in one of `cities`
+ */
+export function missingCityPricing(plans: Pick<CatalogPlan, 'name' | 'isActive'>[], pricing: {
+  plan: string;
+  city: string;
+}[], cities: string[]): {
+  plan: string;
+  city: string;
+}[] {
+  const priced = new Set(pricing.map((p) => `${p.plan}:${p.city}`));
+  const missing: {
+    plan: string;
+    city: string;
+  }[] = [];
+  for (const plan of plans) {
+    if (!isPurchasable(plan)) continue;
+    for (const city of cities) {
+      if (!priced.has(`${plan.name}:${city}`)) missing.push({
+        plan: plan.name,
+        city
+      });
+    }
+  }
+  return missing;
+}
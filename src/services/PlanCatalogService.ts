@@ -0,0 +1,504 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { normalizeCity } from '../utils/normalize';
+import { CITIES } from '../config/cities';
+import { NotFoundError, BusinessLogicError, DuplicateError, ValidationError } from '../errors/AppErrors';
+import { CatalogPlan, DEFAULT_PLANS, DEFAULT_PLAN_DURATION_DAYS, FREE_PLAN, isPurchasable, missingCityPricing } from './PlanCatalogPolicy';
+import { CreatePlanInput, UpdatePlanInput, SetCityPriceInput, PlanListQuery, PlanCatalogueEntry } from '../models/Plan';
+import { cityPricingService } from './CityPricingService';
+import { bundleTermsOf } from './BundlePolicy';
+
+// =============================================================================
+// PLAN CATALOGUE — subscription plans, their city prices and contact limits
+//
+// Plans live in TenantSubscriptionPlan, prices in CityPricing (rupees,
+// versioned — see CityPricingService) and contact limits in PlanLimit
+// (city = NULL for the plan default, a city for an override). Everything
+// that sells or enforces plans reads them from here.
+//
+// Reads are cached per process for CACHE_TTL_MS; admin writes clear the
+// cache, other instances pick changes up within the TTL.
+// =============================================================================
+
+const CACHE_TTL_MS = 60 * 1000;
+let cachedPlans: {
+  plans: CatalogPlan[];
+  loadedAt: number;
+} | null = null;
+const operatingCities = (): string[] => CITIES.map((c) => c.id);
+const toCatalogPlan = (row: CatalogPlan): CatalogPlan => ({
+  name: row.name,
+  displayName: row.displayName,
+  description: row.description,
+  durationDays: row.durationDays,
+  hasCallSupport: row.hasCallSupport,
+  hasMapAccess: row.hasMapAccess,
+  features: row.features,
+  sortOrder: row.sortOrder,
+  isActive: row.isActive
+});
+export class PlanCatalogService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.getPlans = this.getPlans.bind(this);
+    this.getPlan = this.getPlan.bind(this);
+    this.getDurationDays = this.getDurationDays.bind(this);
+    this.requirePurchasablePlan = this.requirePurchasablePlan.bind(this);
+    this.listCatalogue = this.listCatalogue.bind(this);
+    this.validateCatalogue = this.validateCatalogue.bind(this);
+    this.createPlan = this.createPlan.bind(this);
+    this.updatePlan = this.updatePlan.bind(this);
+    this.deletePlan = this.deletePlan.bind(this);
+    this.setCityPrice = this.setCityPrice.bind(this);
+    this.removeCityPrice = this.removeCityPrice.bind(this);
+    this.getPriceHistory = this.getPriceHistory.bind(this);
+    this.cancelScheduledPrice = this.cancelScheduledPrice.bind(this);
+    this.setLimitOverride = this.setLimitOverride.bind(this);
+    this.removeLimitOverride = this.removeLimitOverride.bind(this);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lookups (subscription flow)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * All plans, active or not, in display order
+   */
+  async getPlans(): Promise<CatalogPlan[]> {
+    if (cachedPlans && Date.now() - cachedPlans.loadedAt < CACHE_TTL_MS) {
+      return cachedPlans.plans;
+    }
+    const rows = await this.prisma.tenantSubscriptionPlan.findMany({
+      orderBy: [{
+        sortOrder: 'asc'
+      }, {
+        name: 'asc'
+      }]
+    });
+    const plans = rows.length > 0 ? rows.map(toCatalogPlan) : DEFAULT_PLANS;
+    cachedPlans = {
+      plans,
+      loadedAt: Date.now()
+    };
+    return plans;
+  }
+  async getPlan(name: string): Promise<CatalogPlan | null> {
+    const plans = await this.getPlans();
+    return plans.find((p) => p.name === name.toUpperCase()) ?? null;
+  }
+
+  /**
+   * Length of one paid period. Unknown plans (e.g. removed since) get the
+   * default so existing payments can still be refunded and reconciled.
+   */
+  async getDurationDays(name: string): Promise<number> {
+    const plan = await this.getPlan(name);
+    return plan?.durationDays || DEFAULT_PLAN_DURATION_DAYS;
+  }
+
+  /**
+   * Length of the period a subscription payment bought: what was copied onto
+   * the payment at order time. Payments from before that fall back to their
+   * bundle terms, then the plan's current length.
+   */
+  async getPaidDurationDays(payment: {
+    plan: string | null;
+    durationDays: number | null;
+    bundleCode: string | null;
+    metadata: unknown;
+  }): Promise<number> {
+    if (payment.durationDays) return payment.durationDays;
+    const bundle = bundleTermsOf(payment);
+    if (bundle) return bundle.durationDays;
+    return this.getDurationDays(payment.plan ?? FREE_PLAN);
+  }
+  async getLongestDurationDays(): Promise<number> {
+    const plans = await this.getPlans();
+    return Math.max(DEFAULT_PLAN_DURATION_DAYS, ...plans.map((p) => p.durationDays));
+  }
+
+  /**
+   * The plan, if tenants can buy it right now
+   */
+  async requirePurchasablePlan(name: string): Promise<CatalogPlan> {
+    const plan = await this.getPlan(name);
+    if (!plan || !isPurchasable(plan)) {
+      const available = (await this.getPlans()).filter(isPurchasable).map((p) => p.name);
+      throw new BusinessLogicError(`Invalid plan. Must be one of: ${available.join(', ')}`);
+    }
+    return plan;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Admin
+  // ---------------------------------------------------------------------------
+
+  async listCatalogue(query: PlanListQuery): Promise<PlanCatalogueEntry[]> {
+    const plans = (await this.loadPlans()).filter((p) => query.includeInactive || p.isActive);
+    const [pricing, limits] = await Promise.all([cityPricingService.getCurrentPrices(), this.prisma.planLimit.findMany()]);
+    const cities = operatingCities();
+    return plans.map((plan) => {
+      const planPricing = pricing.filter((p) => p.plan === plan.name);
+      const planLimits = limits.filter((l) => l.plan === plan.name);
+      return {
+        ...plan,
+        contactLimit: planLimits.find((l) => l.city === null)?.contactLimit ?? null,
+        contactWindowDays: planLimits.find((l) => l.city === null)?.windowDays ?? null,
+        pricing: Object.fromEntries(planPricing.map((p) => [p.city, p.price])),
+        upcomingPricing: Object.fromEntries(planPricing.filter((p) => p.upcoming).map((p) => [p.city, {
+          price: p.upcoming!.price,
+          effectiveFrom: p.upcoming!.effectiveFrom
+        }])),
+        limitOverrides: Object.fromEntries(planLimits.filter((l) => l.city !== null).map((l) => [l.city!, l.contactLimit])),
+        limitOverrideWindows: Object.fromEntries(planLimits.filter((l) => l.city !== null).map((l) => [l.city!, l.windowDays])),
+        missingPricing: missingCityPricing([plan], planPricing, cities).map((m) => m.city)
+      };
+    });
+  }
+
+  /**
+   * Every active paid plan must be priced in every city we operate in
+   */
+  async validateCatalogue() {
+    const [plans, pricing] = await Promise.all([this.loadPlans(), cityPricingService.getCurrentPrices()]);
+    const missing = missingCityPricing(plans, pricing, operatingCities());
+    return {
+      valid: missing.length === 0,
+      cities: operatingCities(),
+      missing
+    };
+  }
+  async createPlan(input: CreatePlanInput, adminId: string) {
+    const cities = operatingCities();
+    for (const city of Object.keys(input.pricing)) this.assertOperatingCity(city);
+    if (input.isActive) {
+      const missing = cities.filter((city) => input.pricing[city] === undefined);
+      if (missing.length > 0) {
+        throw new BusinessLogicError(`An active plan needs a price in every city. Missing: ${missing.join(', ')}`);
+      }
+    }
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await this.materializeDefaults(tx);
+        await tx.tenantSubscriptionPlan.create({
+          data: {
+            name: input.name,
+            displayName: input.displayName,
+            description: input.description,
+            durationDays: input.durationDays,
+            hasCallSupport: input.hasCallSupport,
+            hasMapAccess: input.hasMapAccess,
+            features: input.features,
+            sortOrder: input.sortOrder,
+            isActive: input.isActive
+          }
+        });
+        for (const [city, price] of Object.entries(input.pricing)) {
+          await cityPricingService.writePrice(tx, {
+            city,
+            plan: input.name,
+            price
+          }, adminId);
+        }
+        await this.writeDefaultLimit(tx, input.name, {
+          contactLimit: input.contactLimit,
+          windowDays: input.contactWindowDays
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateError(`Plan ${input.name} already exists`);
+      }
+      throw error;
+    }
+    this.clearCache();
+    logger.info('Plan created', {
+      plan: input.name,
+      isActive: input.isActive,
+      adminId
+    });
+    return this.getCatalogueEntry(input.name);
+  }
+  async updatePlan(name: string, input: UpdatePlanInput, adminId: string) {
+    const planName = name.toUpperCase();
+    const {
+      contactLimit,
+      contactWindowDays,
+      ...fields
+    } = input;
+    if (planName === FREE_PLAN && (fields.isActive === false || fields.durationDays !== undefined)) {
+      throw new BusinessLogicError('The FREE plan is always active and has no duration');
+    }
+    await this.prisma.$transaction(async (tx) => {
+      await this.materializeDefaults(tx);
+      const plan = await tx.tenantSubscriptionPlan.findUnique({
+        where: {
+          name: planName
+        }
+      });
+      if (!plan) throw new NotFoundError('Plan', planName);
+      if (fields.isActive && !plan.isActive) {
+        await this.assertFullyPriced(tx, planName);
+      }
+      if (Object.keys(fields).length > 0) {
+        await tx.tenantSubscriptionPlan.update({
+          where: {
+            name: planName
+          },
+          data: fields
+        });
+      }
+      if (contactLimit !== undefined || contactWindowDays !== undefined) {
+        await this.writeDefaultLimit(tx, planName, {
+          contactLimit,
+          windowDays: contactWindowDays
+        });
+      }
+    });
+    this.clearCache();
+    logger.info('Plan updated', {
+      plan: planName,
+      changes: Object.keys(input),
+      adminId
+    });
+    return this.getCatalogueEntry(planName);
+  }
+
+  /**
+   * Remove a plan nobody holds. Plans with subscribers (current, or lapsed
+   * and renewable) or bundles built on them must be deactivated instead.
+   */
+  async deletePlan(name: string, adminId: string): Promise<void> {
+    const planName = name.toUpperCase();
+    if (planName === FREE_PLAN) {
+      throw new BusinessLogicError('The FREE plan cannot be deleted');
+    }
+    await this.prisma.$transaction(async (tx) => {
+      await this.materializeDefaults(tx);
+      const plan = await tx.tenantSubscriptionPlan.findUnique({
+        where: {
+          name: planName
+        }
+      });
+      if (!plan) throw new NotFoundError('Plan', planName);
+      const subscribers = await tx.tenantSubscription.count({
+        where: {
+          OR: [{
+            plan: planName
+          }, {
+            previousPlan: planName
+          }]
+        }
+      });
+      if (subscribers > 0) {
+        throw new BusinessLogicError(`${subscribers} subscription${subscribers === 1 ? '' : 's'} use ${planName}. Deactivate the plan instead.`);
+      }
+      const bundles = await tx.bundlePlan.count({
+        where: {
+          tier: planName
+        }
+      }) + await tx.tenantBundle.count({
+        where: {
+          plan: planName
+        }
+      });
+      if (bundles > 0) {
+        throw new BusinessLogicError(`Bundles are built on ${planName}. Deactivate the plan instead.`);
+      }
+      await tx.cityPricing.deleteMany({
+        where: {
+          plan: planName
+        }
+      });
+      await tx.planLimit.deleteMany({
+        where: {
+          plan: planName
+        }
+      });
+      await tx.tenantSubscriptionPlan.delete({
+        where: {
+          name: planName
+        }
+      });
+    });
+    this.clearCache();
+    logger.info('Plan deleted', {
+      plan: planName,
+      adminId
+    });
+  }
+
+  /**
+   * Change a plan's price in a city, now or from input.validFrom
+   */
+  async setCityPrice(name: string, city: string, input: SetCityPriceInput, adminId: string) {
+    const planName = name.toUpperCase();
+    const normalizedCity = this.assertOperatingCity(city);
+    await this.requireCataloguePlan(planName);
+    return cityPricingService.setPrice({
+      city: normalizedCity,
+      plan: planName,
+      ...input
+    }, adminId);
+  }
+  async removeCityPrice(name: string, city: string, adminId: string): Promise<void> {
+    const planName = name.toUpperCase();
+    const normalizedCity = normalizeCity(city);
+    const plan = await this.requireCataloguePlan(planName);
+    if (isPurchasable(plan) && operatingCities().includes(normalizedCity)) {
+      throw new BusinessLogicError(`${planName} is active and must stay priced in ${normalizedCity}. Deactivate it first.`);
+    }
+    await cityPricingService.removePrice(normalizedCity, planName, adminId);
+  }
+  async getPriceHistory(name: string, city: string) {
+    const planName = name.toUpperCase();
+    await this.requireCataloguePlan(planName);
+    return cityPricingService.getHistory(normalizeCity(city), planName);
+  }
+  async cancelScheduledPrice(name: string, city: string, pricingId: string, adminId: string): Promise<void> {
+    const planName = name.toUpperCase();
+    await this.requireCataloguePlan(planName);
+    await cityPricingService.cancelScheduledChange(normalizeCity(city), planName, pricingId, adminId);
+  }
+  async setLimitOverride(name: string, city: string, contactLimit: number | null, windowDays: number | null, adminId: string) {
+    const planName = name.toUpperCase();
+    const normalizedCity = this.assertOperatingCity(city);
+    await this.requireCataloguePlan(planName);
+    const limit = await this.prisma.planLimit.upsert({
+      where: {
+        plan_city: {
+          plan: planName,
+          city: normalizedCity
+        }
+      },
+      create: {
+        plan: planName,
+        city: normalizedCity,
+        contactLimit,
+        windowDays
+      },
+      update: {
+        contactLimit,
+        windowDays
+      }
+    });
+    logger.info('Plan limit override set', {
+      plan: planName,
+      city: normalizedCity,
+      contactLimit,
+      windowDays,
+      adminId
+    });
+    return limit;
+  }
+  async removeLimitOverride(name: string, city: string, adminId: string): Promise<void> {
+    const planName = name.toUpperCase();
+    const normalizedCity = normalizeCity(city);
+    const result = await this.prisma.planLimit.deleteMany({
+      where: {
+        plan: planName,
+        city: normalizedCity
+      }
+    });
+    if (result.count === 0) throw new NotFoundError('Plan limit override', `${planName} - ${normalizedCity}`);
+    logger.info('Plan limit override removed', {
+      plan: planName,
+      city: normalizedCity,
+      adminId
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private clearCache(): void {
+    cachedPlans = null;
+  }
+
+  /**
+   * Uncached, for admin views
+   */
+  private async loadPlans(): Promise<CatalogPlan[]> {
+    this.clearCache();
+    return this.getPlans();
+  }
+  private async getCatalogueEntry(name: string): Promise<PlanCatalogueEntry> {
+    const entries = await this.listCatalogue({
+      includeInactive: true
+    });
+    return entries.find((e) => e.name === name)!;
+  }
+  private async requireCataloguePlan(name: string): Promise<CatalogPlan> {
+    const plan = (await this.loadPlans()).find((p) => p.name === name);
+    if (!plan) throw new NotFoundError('Plan', name);
+    return plan;
+  }
+  private assertOperatingCity(city: string): string {
+    const normalizedCity = normalizeCity(city);
+    if (!operatingCities().includes(normalizedCity)) {
+      throw new ValidationError(`Unknown city: ${city}`);
+    }
+    return normalizedCity;
+  }
+  private async assertFullyPriced(tx: Prisma.TransactionClient, planName: string): Promise<void> {
+    const pricing = await cityPricingService.getCurrentPrices({
+      plan: planName
+    }, new Date(), tx);
+    const missing = missingCityPricing([{
+      name: planName,
+      isActive: true
+    }], pricing, operatingCities());
+    if (missing.length > 0) {
+      throw new BusinessLogicError(`An active plan needs a price in every city. Missing: ${missing.map((m) => m.city).join(', ')}`);
+    }
+  }
+
+  /**
+   * The first admin write turns the built-in defaults into real rows, so
+   * adding a plan doesn't make the built-in ones disappear.
+   */
+  private async materializeDefaults(tx: Prisma.TransactionClient): Promise<void> {
+    if ((await tx.tenantSubscriptionPlan.count()) > 0) return;
+    await tx.tenantSubscriptionPlan.createMany({
+      data: DEFAULT_PLANS,
+      skipDuplicates: true
+    });
+  }
+
+  /**
+   * PlanLimit has no unique key for city = NULL, so upsert by hand. Fields
+   * left undefined keep their current value.
+   */
+  private async writeDefaultLimit(tx: Prisma.TransactionClient, planName: string, limit: {
+    contactLimit?: number | null;
+    windowDays?: number | null;
+  }): Promise<void> {
+    const existing = await tx.planLimit.findFirst({
+      where: {
+        plan: planName,
+        city: null
+      }
+    });
+    if (existing) {
+      await tx.planLimit.update({
+        where: {
+          id: existing.id
+        },
+        data: limit
+      });
+    } else {
+      await tx.planLimit.create({
+        data: {
+          plan: planName,
+          city: null,
+          contactLimit: limit.contactLimit ?? null,
+          windowDays: limit.windowDays ?? null
+        }
+      });
+    }
+  }
+}
+export const planCatalogService = new PlanCatalogService();
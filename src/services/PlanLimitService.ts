@@ -2,11 +2,13 @@ import { PrismaClient } from '@prisma/client';
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
 import { normalizeCity } from '../utils/normalize';
+import { ContactQuota } from './ContactQuotaPolicy';
 
 /**
  * PlanLimitService — Database-driven contact limit resolution.
  *
  * Resolution priority:
+ * 0. Bundle limit:          the plan comes from a bundle with its own limit
  * 1. City-specific override: (plan='FREE', city='bangalore') → 5
  * 2. Global plan default:   (plan='FREE', city=NULL)         → 10
  * 3. Hardcoded safety net:  FREE → 10 (only if DB has no rows)
@@ -14,6 +16,10 @@ import { normalizeCity } from '../utils/normalize';
  * Returns:
  * - number: the contact limit for this plan+city
  * - null:   unlimited (paid plans)
+ *
+ * A limit counts every unlock ever made in the city, or — with windowDays
+ * set on the PlanLimit row — only those in the last windowDays (see
+ * ContactQuotaPolicy). A bundle's own limit is over its lifetime.
  */
 
 const FALLBACK_FREE_LIMIT = 10;
@@ -28,11 +34,41 @@ export class PlanLimitService {
    *
    * @param plan - Effective plan name (e.g., 'FREE', 'GOLD', 'PLATINUM')
    * @param city - City name for city-specific override lookup
+   * @param bundle - The bundle the plan comes from, if any (see BundleService.resolveCityPlan)
    * @returns number (limit) or null (unlimited)
    */
-  async getEffectiveLimit(plan: string, city: string): Promise<number | null> {
+  async getEffectiveLimit(plan: string, city: string, bundle?: {
+    bundleCode: string;
+    contactLimit: number | null;
+  } | null): Promise<number | null> {
+    return (await this.getEffectiveQuota(plan, city, bundle)).limit;
+  }
+
+  /**
+   * Same resolution as getEffectiveLimit(), with the window the limit
+   * applies to.
+   *
+   * @returns { limit, windowDays } — windowDays null = lifetime
+   */
+  async getEffectiveQuota(plan: string, city: string, bundle?: {
+    bundleCode: string;
+    contactLimit: number | null;
+  } | null): Promise<ContactQuota> {
     const normalizedPlan = plan.toUpperCase();
     const normalizedCity = normalizeCity(city);
+
+    // 0. A bundle sold with its own per-city limit
+    if (bundle && bundle.contactLimit !== null) {
+      logger.debug('PlanLimit: bundle limit applies', {
+        bundleCode: bundle.bundleCode,
+        city: normalizedCity,
+        contactLimit: bundle.contactLimit
+      });
+      return {
+        limit: bundle.contactLimit,
+        windowDays: null
+      };
+    }
     try {
       // 1. Check city-specific override first
       const cityOverride = await this.prisma.planLimit.findUnique({
@@ -47,9 +83,14 @@ export class PlanLimitService {
         logger.debug('PlanLimit: city override found', {
           plan: normalizedPlan,
           city: normalizedCity,
-          contactLimit: cityOverride.contactLimit
+          contactLimit: cityOverride.contactLimit,
+          windowDays: cityOverride.windowDays
         });
-        return cityOverride.contactLimit; // null = unlimited
+        return {
+          limit: cityOverride.contactLimit,
+          // null = unlimited
+          windowDays: cityOverride.windowDays
+        };
       }
 
       // 2. Check global plan default (city = null)
@@ -63,9 +104,14 @@ export class PlanLimitService {
       if (globalDefault) {
         logger.debug('PlanLimit: global default found', {
           plan: normalizedPlan,
-          contactLimit: globalDefault.contactLimit
+          contactLimit: globalDefault.contactLimit,
+          windowDays: globalDefault.windowDays
         });
-        return globalDefault.contactLimit; // null = unlimited
+        return {
+          limit: globalDefault.contactLimit,
+          // null = unlimited
+          windowDays: globalDefault.windowDays
+        };
       }
 
       // 3. Hardcoded safety fallback (only if DB has no config at all)
@@ -74,11 +120,17 @@ export class PlanLimitService {
         city: normalizedCity
       });
       if (normalizedPlan === 'FREE') {
-        return FALLBACK_FREE_LIMIT;
+        return {
+          limit: FALLBACK_FREE_LIMIT,
+          windowDays: null
+        };
       }
 
       // Paid plans default to unlimited if no DB config
-      return null;
+      return {
+        limit: null,
+        windowDays: null
+      };
     } catch (error: any) {
       logger.error('PlanLimit: error fetching limit, using fallback', {
         plan: normalizedPlan,
@@ -87,7 +139,10 @@ export class PlanLimitService {
       });
 
       // Safety: if DB is down, FREE gets hardcoded limit, paid gets unlimited
-      return normalizedPlan === 'FREE' ? FALLBACK_FREE_LIMIT : null;
+      return {
+        limit: normalizedPlan === 'FREE' ? FALLBACK_FREE_LIMIT : null,
+        windowDays: null
+      };
     }
   }
 }
\ No newline at end of file
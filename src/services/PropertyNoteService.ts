@@ -184,7 +184,9 @@ export class PropertyNoteService {
         where: {
           roomId: propertyId,
           tenantId: userId,
-          status: 'APPROVED'
+          status: {
+            in: ['APPROVED', 'CONFIRMED', 'MOVED_IN']
+          }
         }
       });
       if (booking) return true;
@@ -1,5 +1,7 @@
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { verifyRazorpayWebhookSignature } from '../utils/razorpayWebhook';
+import { PaymentGateway, GatewayPayment } from './PaymentGateway';
 interface RazorpayOrderInput {
   amount: number; // in paise (100 paise = 1 INR)
   currency: string;
@@ -13,6 +15,19 @@ interface RazorpayOrder {
   receipt: string;
   status: string;
 }
+interface RazorpayRefundInput {
+  amount: number; // in paise
+  receipt: string;
+  notes?: Record<string, string>;
+}
+interface RazorpayRefund {
+  id: string;
+  entity: string;
+  amount: number;
+  payment_id: string;
+  receipt?: string | null;
+  status: string;
+}
 interface RazorpayVerificationInput {
   razorpay_order_id: string;
   razorpay_payment_id: string;
@@ -25,16 +40,20 @@ interface RazorpayVerificationInput {
  * PHASE-2: Minimal Razorpay integration for subscription upgrades
  * - Creates Razorpay orders
  * - Verifies payment signatures
- * - NO webhooks (future phase)
+ * - Issues refunds against captured payments
+ * - Verifies webhook signatures (PaymentWebhookService handles the events)
+ * - Fetches order payments for reconciliation (PaymentGateway)
  * - NO complex payment state machines
  */
-export class RazorpayService {
+export class RazorpayService implements PaymentGateway {
   private razorpay: any;
   private keyId: string;
   private keySecret: string;
+  private webhookSecret: string;
   constructor() {
     this.keyId = process.env.RAZORPAY_KEY_ID || '';
     this.keySecret = process.env.RAZORPAY_KEY_SECRET || '';
+    this.webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET || '';
 
     // Only initialize Razorpay if keys are provided
     if (this.keyId && this.keySecret) {
@@ -86,6 +105,70 @@ export class RazorpayService {
     }
   }
 
+  /**
+   * Refund (part of) a captured payment.
+   * `receipt` is our Refund id so gateway records can be traced back.
+   */
+  async refundPayment(razorpayPaymentId: string, input: RazorpayRefundInput): Promise<RazorpayRefund> {
+    if (!this.isEnabled()) {
+      throw new Error('Razorpay is not configured. Please set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET');
+    }
+    try {
+      const refund = await this.razorpay.payments.refund(razorpayPaymentId, {
+        amount: input.amount,
+        speed: 'normal',
+        receipt: input.receipt,
+        notes: input.notes
+      });
+      logger.info('Razorpay refund created', {
+        refundId: refund.id,
+        paymentId: razorpayPaymentId,
+        amount: input.amount
+      });
+      return refund;
+    } catch (error: any) {
+      logger.error('Failed to create Razorpay refund', {
+        error: error.message,
+        paymentId: razorpayPaymentId,
+        amount: input.amount
+      });
+      throw new Error('Failed to create refund. Please try again.');
+    }
+  }
+
+  /**
+   * The refund issued against a payment with our `receipt` (Refund id), if
+   * any — to tell whether an interrupted refundPayment() reached Razorpay.
+   * Errors propagate, like fetchOrderPayments().
+   */
+  async findRefundByReceipt(razorpayPaymentId: string, receipt: string): Promise<RazorpayRefund | null> {
+    if (!this.isEnabled()) {
+      throw new Error('Razorpay is not configured. Please set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET');
+    }
+    const result = await this.razorpay.payments.fetchMultipleRefund(razorpayPaymentId, {
+      count: 100
+    });
+    return (result.items || []).find((item: any) => item.receipt === receipt || item.notes?.refundId === receipt) ?? null;
+  }
+
+  /**
+   * Payment attempts against an order, for reconciliation.
+   * Errors propagate — a gateway outage must not be read as "no payment".
+   */
+  async fetchOrderPayments(orderId: string): Promise<GatewayPayment[]> {
+    if (!this.isEnabled()) {
+      throw new Error('Razorpay is not configured. Please set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET');
+    }
+    const result = await this.razorpay.orders.fetchPayments(orderId);
+    return (result.items || []).map((item: any) => ({
+      id: item.id,
+      orderId: item.order_id,
+      amount: item.amount,
+      status: item.status,
+      errorDescription: item.error_description ?? null
+    }));
+  }
+
   /**
    * Verify Razorpay payment signature
    *
@@ -132,6 +215,18 @@ export class RazorpayService {
     return this.verifySignature(input);
   }
 
+  /**
+   * Verify X-Razorpay-Signature against the raw webhook body.
+   * Works without API keys — only the webhook secret is needed.
+   */
+  verifyWebhookSignature(rawBody: Buffer | string, signature: string | undefined): boolean {
+    if (!this.webhookSecret) {
+      logger.error('Razorpay webhook received but RAZORPAY_WEBHOOK_SECRET is not configured');
+      return false;
+    }
+    return verifyRazorpayWebhookSignature(rawBody, signature, this.webhookSecret);
+  }
+
   /**
    * Get Razorpay key ID for frontend
    */
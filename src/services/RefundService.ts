@@ -0,0 +1,546 @@
+import { PrismaClient, Prisma, BookingStatus, Payment, PaymentPurpose, PaymentStatus, Refund, RefundStatus } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+import { normalizeCity } from '../utils/normalize';
+import { NotFoundError, BusinessLogicError, ValidationError } from '../errors/AppErrors';
+import { BookingActor } from './BookingStateMachine';
+import { bookingRefundFor } from './BookingRefundPolicy';
+import { subscriptionRefundAmount, subscriptionAfterRefund, SubscriptionRefundMode } from './SubscriptionRefundPolicy';
+import { planCatalogService } from './PlanCatalogService';
+import { bundleTermsOf } from './BundlePolicy';
+import { RazorpayService } from './RazorpayService';
+import { writeOutboxEvent } from './OutboxWriter';
+import { OutboxAggregateType, OutboxEventType, PaymentRefundRequestedPayload, PaymentRefundedPayload } from './OutboxEventTypes';
+
+// =============================================================================
+// REFUNDS
+//
+// A refund is requested inside the transaction that made it owed (booking
+// rejected, cancelled, ...): queueRefund() writes a PENDING Refund row and a
+// PAYMENT_REFUND_REQUESTED outbox event. The outbox worker then calls
+// processRefund(), which talks to Razorpay outside any DB transaction and
+// gets the worker's retry/backoff for free when the gateway is down.
+// The refund is PROCESSING while the gateway call is in flight; a retry
+// looks the refund up at Razorpay before issuing it again.
+// Once Razorpay accepts it, markProcessed() writes PAYMENT_REFUNDED, which
+// notifies the tenant.
+// =============================================================================
+
+export interface RefundablePaymentRef {
+  id: string;
+  tenantId: string;
+  bookingId: string | null;
+  purpose: PaymentPurpose;
+}
+
+/**
+ * Record a refund and queue it for the gateway.
+ * MUST be called inside the Prisma $transaction that made the refund owed.
+ */
+export async function queueRefund(tx: any, params: {
+  payment: RefundablePaymentRef;
+  amount: number;
+  reason: string;
+  initiatedBy?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}): Promise<string> {
+  const {
+    payment,
+    amount,
+    reason
+  } = params;
+  const refund = await tx.refund.create({
+    data: {
+      paymentId: payment.id,
+      amount,
+      reason,
+      initiatedBy: params.initiatedBy ?? null,
+      metadata: params.metadata
+    }
+  });
+  const payload: PaymentRefundRequestedPayload = {
+    refundId: refund.id,
+    paymentId: payment.id,
+    tenantId: payment.tenantId,
+    bookingId: payment.bookingId,
+    purpose: payment.purpose,
+    amount,
+    reason,
+    requestedAt: (refund.createdAt as Date).toISOString()
+  };
+  await writeOutboxEvent(tx, {
+    aggregateType: OutboxAggregateType.PAYMENT,
+    aggregateId: payment.id,
+    eventType: OutboxEventType.PAYMENT_REFUND_REQUESTED,
+    payload
+  });
+  return refund.id;
+}
+
+/**
+ * Queue refunds (per BookingRefundPolicy) for every verified token/deposit
+ * payment of a booking that was just rejected or cancelled. Called by
+ * recordBookingTransition inside the status-change transaction.
+ * Refunds already queued or processed against a payment (e.g. the duplicate
+ * payment refund from BookingPaymentService.markVerified) come off what the
+ * policy can refund; failed ones don't.
+ */
+export async function queueBookingRefunds(tx: any, params: {
+  bookingId: string;
+  toStatus: BookingStatus;
+  actor: BookingActor;
+  now: Date;
+}): Promise<number> {
+  const payments = await tx.payment.findMany({
+    where: {
+      bookingId: params.bookingId,
+      status: {
+        in: [PaymentStatus.VERIFIED, PaymentStatus.PARTIALLY_REFUNDED]
+      },
+      purpose: {
+        not: PaymentPurpose.SUBSCRIPTION
+      }
+    },
+    include: {
+      refunds: {
+        where: {
+          status: {
+            not: RefundStatus.FAILED
+          }
+        }
+      }
+    }
+  });
+  if (payments.length === 0) return 0;
+  const booking = await tx.booking.findUniqueOrThrow({
+    where: {
+      id: params.bookingId
+    },
+    select: {
+      moveInDate: true
+    }
+  });
+  let queued = 0;
+  for (const payment of payments) {
+    const alreadyRefunded = payment.refunds.reduce((sum: number, r: Refund) => sum + r.amount, 0);
+    const refundable = payment.amount - alreadyRefunded;
+    if (refundable <= 0) continue;
+    const decision = bookingRefundFor({
+      ...payment,
+      amount: refundable
+    }, {
+      toStatus: params.toStatus,
+      actorRole: params.actor.role,
+      moveInDate: booking.moveInDate,
+      now: params.now,
+      refundWindowHours: env.BOOKING_REFUND_WINDOW_HOURS
+    });
+    if (decision.amount <= 0) continue;
+    await queueRefund(tx, {
+      payment,
+      amount: decision.amount,
+      reason: decision.reason,
+      initiatedBy: params.actor.id
+    });
+    queued++;
+  }
+  return queued;
+}
+export class RefundService {
+  private prisma: PrismaClient;
+  private razorpayService: RazorpayService;
+  constructor(prismaClient?: PrismaClient, razorpayService?: RazorpayService) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.razorpayService = razorpayService || new RazorpayService();
+    this.processRefund = this.processRefund.bind(this);
+    this.markProcessed = this.markProcessed.bind(this);
+    this.markFailed = this.markFailed.bind(this);
+    this.refundSubscriptionPayment = this.refundSubscriptionPayment.bind(this);
+    this.listRefunds = this.listRefunds.bind(this);
+  }
+
+  /**
+   * Admin refund of a GOLD/PLATINUM payment (see SubscriptionRefundPolicy).
+   * Records the refund and queues the gateway call in one transaction; the
+   * tenant's subscription for that city is shortened or downgraded once the
+   * refund is processed (markProcessed). Failed refunds don't count towards
+   * what was already refunded, so they can simply be retried.
+   */
+  async refundSubscriptionPayment(paymentId: string, adminId: string, input: {
+    mode: SubscriptionRefundMode;
+    amount?: number;
+    reason: string;
+  }, now: Date = new Date()) {
+    return this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: {
+          id: paymentId
+        },
+        include: {
+          refunds: {
+            where: {
+              status: {
+                not: RefundStatus.FAILED
+              }
+            }
+          }
+        }
+      });
+      if (!payment) throw new NotFoundError('Payment', paymentId);
+      if (payment.purpose === PaymentPurpose.CONTACT_TOP_UP) {
+        throw new BusinessLogicError('Contact top-up payments are not refundable');
+      }
+      if (payment.purpose !== PaymentPurpose.SUBSCRIPTION || !payment.plan) {
+        throw new BusinessLogicError('Booking payments are refunded through the booking refund policy');
+      }
+      if (payment.status !== PaymentStatus.VERIFIED && payment.status !== PaymentStatus.PARTIALLY_REFUNDED) {
+        throw new BusinessLogicError(`Cannot refund a ${payment.status.toLowerCase()} payment`);
+      }
+      const bundle = bundleTermsOf(payment);
+      const durationDays = await planCatalogService.getPaidDurationDays(payment);
+      const alreadyRefunded = payment.refunds.reduce((sum, r) => sum + r.amount, 0);
+      const refundable = payment.amount - alreadyRefunded;
+      const amount = subscriptionRefundAmount({
+        amount: payment.amount,
+        verifiedAt: payment.verifiedAt ?? payment.createdAt,
+        periodStart: payment.periodStart
+      }, {
+        mode: input.mode,
+        requestedAmount: input.amount,
+        alreadyRefunded,
+        durationDays,
+        now
+      });
+      if (amount <= 0) {
+        throw new BusinessLogicError(input.mode === 'PRORATED' ? 'The paid period is already used up — nothing to pro-rate' : 'This payment has already been fully refunded');
+      }
+      if (amount > refundable) {
+        throw new ValidationError(`Refund amount exceeds the refundable balance of ${refundable} paise`);
+      }
+
+      // The subscription only gives back time once Razorpay confirms the
+      // refund (markProcessed), so a failed refund leaves it as it was
+      const subscription = await this.findRefundedSubscription(tx, payment);
+      const refundId = await queueRefund(tx, {
+        payment,
+        amount,
+        reason: input.reason,
+        initiatedBy: adminId,
+        metadata: {
+          mode: input.mode,
+          subscriptionId: bundle ? null : subscription?.id ?? null,
+          bundleId: bundle ? subscription?.id ?? null : null
+        }
+      });
+      logger.info('Subscription refund queued', {
+        refundId,
+        paymentId,
+        adminId,
+        mode: input.mode,
+        amount
+      });
+      const refund = await tx.refund.findUniqueOrThrow({
+        where: {
+          id: refundId
+        }
+      });
+      return {
+        refund,
+        subscription
+      };
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    });
+  }
+
+  /**
+   * Refunds recorded against a payment, newest first
+   */
+  async listRefunds(paymentId: string) {
+    const payment = await this.prisma.payment.findUnique({
+      where: {
+        id: paymentId
+      },
+      select: {
+        id: true
+      }
+    });
+    if (!payment) throw new NotFoundError('Payment', paymentId);
+    return this.prisma.refund.findMany({
+      where: {
+        paymentId
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+  }
+
+  /**
+   * Send a PENDING refund to Razorpay and record the outcome.
+   * Gateway errors are rethrown so the outbox retries the event. A refund
+   * left PROCESSING by an earlier attempt is only re-sent when Razorpay has
+   * no refund with its receipt, so a partial refund is never paid twice.
+   */
+  async processRefund(refundId: string): Promise<void> {
+    const refund = await this.prisma.refund.findUnique({
+      where: {
+        id: refundId
+      },
+      include: {
+        payment: true
+      }
+    });
+    if (!refund || (refund.status !== RefundStatus.PENDING && refund.status !== RefundStatus.PROCESSING)) {
+      logger.info('Refund already handled, skipping', {
+        refundId,
+        status: refund?.status
+      });
+      return;
+    }
+    const {
+      payment
+    } = refund;
+    if (!payment.razorpayPaymentId) {
+      await this.prisma.refund.update({
+        where: {
+          id: refund.id
+        },
+        data: {
+          status: RefundStatus.FAILED,
+          failureReason: 'Payment has no Razorpay payment id'
+        }
+      });
+      logger.error('Refund failed: payment was never captured by Razorpay', {
+        refundId,
+        paymentId: payment.id
+      });
+      return;
+    }
+    if (refund.status === RefundStatus.PENDING) {
+      const claimed = await this.prisma.refund.updateMany({
+        where: {
+          id: refund.id,
+          status: RefundStatus.PENDING
+        },
+        data: {
+          status: RefundStatus.PROCESSING
+        }
+      });
+      if (claimed.count === 0) {
+        logger.info('Refund claimed by another attempt, skipping', {
+          refundId
+        });
+        return;
+      }
+    } else {
+      const issued = await this.razorpayService.findRefundByReceipt(payment.razorpayPaymentId, refund.id);
+      if (issued) {
+        await this.markProcessed(refund.id, issued.id);
+        logger.warn('Refund had already reached Razorpay, recorded it', {
+          refundId: refund.id,
+          razorpayRefundId: issued.id
+        });
+        return;
+      }
+    }
+    const gatewayRefund = await this.razorpayService.refundPayment(payment.razorpayPaymentId, {
+      amount: refund.amount,
+      receipt: refund.id,
+      notes: {
+        refundId: refund.id,
+        paymentId: payment.id,
+        ...(payment.bookingId && {
+          bookingId: payment.bookingId
+        })
+      }
+    });
+    await this.markProcessed(refund.id, gatewayRefund.id);
+    logger.info('Refund processed', {
+      refundId: refund.id,
+      paymentId: payment.id,
+      razorpayRefundId: gatewayRefund.id,
+      amount: refund.amount
+    });
+  }
+
+  /**
+   * Record that Razorpay accepted/settled a refund and queue the tenant's
+   * PAYMENT_REFUNDED notification. The payment becomes PARTIALLY_REFUNDED,
+   * or REFUNDED once processed refunds cover its full amount, and a
+   * subscription refund takes its time off the subscription. Idempotent.
+   */
+  async markProcessed(refundId: string, razorpayRefundId: string): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.refund.updateMany({
+        where: {
+          id: refundId,
+          status: {
+            not: RefundStatus.PROCESSED
+          }
+        },
+        data: {
+          status: RefundStatus.PROCESSED,
+          razorpayRefundId,
+          failureReason: null,
+          processedAt: new Date()
+        }
+      });
+      // Already recorded (gateway response and webhook both report it)
+      if (claimed.count === 0) return;
+      const refund = await tx.refund.findUniqueOrThrow({
+        where: {
+          id: refundId
+        },
+        include: {
+          payment: true
+        }
+      });
+      const refunded = await tx.refund.aggregate({
+        where: {
+          paymentId: refund.paymentId,
+          status: RefundStatus.PROCESSED
+        },
+        _sum: {
+          amount: true
+        }
+      });
+      const fullyRefunded = (refunded._sum.amount ?? 0) >= refund.payment.amount;
+      await tx.payment.update({
+        where: {
+          id: refund.paymentId
+        },
+        data: {
+          status: fullyRefunded ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED
+        }
+      });
+      if (refund.payment.purpose === PaymentPurpose.SUBSCRIPTION && refund.payment.plan) {
+        await this.giveBackRefundedTime(tx, refund, refund.processedAt!);
+      }
+      const payload: PaymentRefundedPayload = {
+        refundId: refund.id,
+        paymentId: refund.paymentId,
+        tenantId: refund.payment.tenantId,
+        bookingId: refund.payment.bookingId,
+        purpose: refund.payment.purpose,
+        amount: refund.amount,
+        reason: refund.reason,
+        razorpayRefundId,
+        fullyRefunded,
+        processedAt: refund.processedAt!.toISOString()
+      };
+      await writeOutboxEvent(tx, {
+        aggregateType: OutboxAggregateType.PAYMENT,
+        aggregateId: refund.paymentId,
+        eventType: OutboxEventType.PAYMENT_REFUNDED,
+        payload
+      });
+    });
+  }
+
+  /**
+   * Record a refund Razorpay could not complete (refund.failed webhook).
+   * Nothing else to undo: the subscription is only adjusted once processed.
+   */
+  async markFailed(refundId: string, failureReason: string): Promise<void> {
+    await this.prisma.refund.update({
+      where: {
+        id: refundId
+      },
+      data: {
+        status: RefundStatus.FAILED,
+        failureReason
+      }
+    });
+  }
+
+  /**
+   * The subscription (or bundle) a subscription payment paid for.
+   */
+  private async findRefundedSubscription(tx: Prisma.TransactionClient, payment: {
+    tenantId: string;
+    city: string;
+    bundleCode: string | null;
+    metadata: Prisma.JsonValue;
+  }) {
+    const bundle = bundleTermsOf(payment);
+    return bundle ? tx.tenantBundle.findUnique({
+      where: {
+        tenantId_bundleCode: {
+          tenantId: payment.tenantId,
+          bundleCode: bundle.code
+        }
+      }
+    }) : tx.tenantSubscription.findUnique({
+      where: {
+        tenantId_city: {
+          tenantId: payment.tenantId,
+          city: normalizeCity(payment.city)
+        }
+      }
+    });
+  }
+
+  /**
+   * Take the time a processed subscription refund paid for off the
+   * subscription — only while the paid plan is still in force — and record
+   * the before/after on the refund.
+   */
+  private async giveBackRefundedTime(tx: Prisma.TransactionClient, refund: Refund & {
+    payment: Payment;
+  }, now: Date): Promise<void> {
+    const payment = refund.payment;
+    const subscription = await this.findRefundedSubscription(tx, payment);
+    if (!subscription || subscription.plan.toUpperCase() !== payment.plan!.toUpperCase() || !subscription.expiresAt || subscription.expiresAt <= now) {
+      return;
+    }
+    const after = subscriptionAfterRefund(subscription, {
+      refundAmount: refund.amount,
+      paymentAmount: payment.amount,
+      durationDays: await planCatalogService.getPaidDurationDays(payment),
+      now
+    });
+    const data = {
+      plan: after.plan,
+      expiresAt: after.expiresAt
+    };
+    if (bundleTermsOf(payment)) {
+      await tx.tenantBundle.update({
+        where: {
+          id: subscription.id
+        },
+        data
+      });
+    } else {
+      await tx.tenantSubscription.update({
+        where: {
+          id: subscription.id
+        },
+        data
+      });
+    }
+    await tx.refund.update({
+      where: {
+        id: refund.id
+      },
+      data: {
+        metadata: {
+          ...(refund.metadata as Prisma.JsonObject | null),
+          planBefore: subscription.plan,
+          expiresAtBefore: subscription.expiresAt.toISOString(),
+          planAfter: after.plan,
+          expiresAtAfter: after.expiresAt.toISOString()
+        }
+      }
+    });
+    logger.info('Subscription shortened for processed refund', {
+      refundId: refund.id,
+      paymentId: payment.id,
+      subscriptionId: subscription.id,
+      downgraded: after.downgraded
+    });
+  }
+}
+export const refundService = new RefundService();
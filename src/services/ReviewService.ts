@@ -0,0 +1,282 @@
+import { Prisma, PrismaClient, BookingStatus } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { NotFoundError, ForbiddenError, DuplicateError, BusinessLogicError } from '../errors/AppErrors';
+import { CreateReviewInput, Review, ReviewPage } from '../models/Review';
+
+/**
+ * Booking statuses that prove the tenant actually dealt with the room.
+ */
+const REVIEW_ELIGIBLE_BOOKING_STATUSES: BookingStatus[] = [BookingStatus.APPROVED, BookingStatus.CONFIRMED, BookingStatus.MOVED_IN, BookingStatus.COMPLETED];
+
+/**
+ * ReviewService — verified tenant reviews + Room.rating aggregation
+ *
+ * RULES:
+ * - Only a tenant with an eligible booking on the room may review it, once.
+ * - The room owner may post exactly one public reply per review.
+ * - Admins hide/unhide abusive reviews; hidden reviews are excluded from
+ *   listings AND from the aggregate.
+ *
+ * AGGREGATION:
+ * Room.rating / Room.reviewsCount are recomputed from the visible reviews
+ * inside the same transaction as every write that changes them. The room
+ * row is locked first (SELECT ... FOR UPDATE) so two concurrent reviews
+ * can't each compute an aggregate that misses the other.
+ */
+export class ReviewService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.listForRoom = this.listForRoom.bind(this);
+    this.createReview = this.createReview.bind(this);
+    this.replyToReview = this.replyToReview.bind(this);
+    this.setHidden = this.setHidden.bind(this);
+  }
+
+  /**
+   * Visible reviews for a room, newest first.
+   */
+  async listForRoom(roomId: string, page: number = 1, limit: number = 10): Promise<ReviewPage> {
+    const where: Prisma.ReviewWhereInput = {
+      roomId,
+      isHidden: false
+    };
+    const [rows, total] = await Promise.all([this.prisma.review.findMany({
+      where,
+      orderBy: [{
+        createdAt: 'desc'
+      }, {
+        id: 'desc'
+      }],
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        tenant: {
+          select: {
+            name: true
+          }
+        }
+      }
+    }), this.prisma.review.count({
+      where
+    })]);
+    return {
+      items: rows.map(toView),
+      total,
+      page,
+      limit
+    };
+  }
+  async createReview(tenantId: string, roomId: string, input: CreateReviewInput): Promise<Review> {
+    const room = await this.prisma.room.findUnique({
+      where: {
+        id: roomId
+      },
+      select: {
+        id: true
+      }
+    });
+    if (!room) {
+      throw new NotFoundError('Room', roomId);
+    }
+    const eligibleBooking = await this.prisma.booking.findFirst({
+      where: {
+        tenantId,
+        roomId,
+        status: {
+          in: REVIEW_ELIGIBLE_BOOKING_STATUSES
+        }
+      },
+      select: {
+        id: true
+      }
+    });
+    if (!eligibleBooking) {
+      throw new ForbiddenError('Only tenants with an approved booking for this room can review it');
+    }
+    try {
+      const review = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.review.create({
+          data: {
+            roomId,
+            tenantId,
+            rating: input.rating,
+            comment: input.comment.trim()
+          },
+          include: {
+            tenant: {
+              select: {
+                name: true
+              }
+            }
+          }
+        });
+        await this.recomputeRoomRating(tx, roomId);
+        return created;
+      });
+      logger.info('Review created', {
+        reviewId: review.id,
+        roomId,
+        tenantId,
+        rating: input.rating
+      });
+      return toView(review);
+    } catch (error: any) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateError('You have already reviewed this room');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * One public reply per review, by the room's owner.
+   */
+  async replyToReview(ownerId: string, roomId: string, reviewId: string, reply: string): Promise<Review> {
+    const review = await this.prisma.review.findFirst({
+      where: {
+        id: reviewId,
+        roomId
+      },
+      include: {
+        room: {
+          select: {
+            ownerId: true
+          }
+        }
+      }
+    });
+    if (!review) {
+      throw new NotFoundError('Review', reviewId);
+    }
+    if (review.room.ownerId !== ownerId) {
+      throw new ForbiddenError('You can only reply to reviews on your own properties');
+    }
+    // Conditional update — a concurrent second reply matches 0 rows
+    const result = await this.prisma.review.updateMany({
+      where: {
+        id: reviewId,
+        ownerReply: null
+      },
+      data: {
+        ownerReply: reply.trim(),
+        ownerRepliedAt: new Date()
+      }
+    });
+    if (result.count === 0) {
+      throw new BusinessLogicError('This review already has a reply');
+    }
+    const updated = await this.prisma.review.findUniqueOrThrow({
+      where: {
+        id: reviewId
+      },
+      include: {
+        tenant: {
+          select: {
+            name: true
+          }
+        }
+      }
+    });
+    return toView(updated);
+  }
+
+  /**
+   * Admin moderation. Hiding/unhiding changes the aggregate, so it runs in
+   * the same transaction as the rating recompute.
+   */
+  async setHidden(adminId: string, reviewId: string, hidden: boolean, reason?: string): Promise<Review> {
+    const existing = await this.prisma.review.findUnique({
+      where: {
+        id: reviewId
+      },
+      select: {
+        roomId: true
+      }
+    });
+    if (!existing) {
+      throw new NotFoundError('Review', reviewId);
+    }
+    const review = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.review.update({
+        where: {
+          id: reviewId
+        },
+        data: hidden ? {
+          isHidden: true,
+          hiddenReason: reason ?? null,
+          hiddenBy: adminId,
+          hiddenAt: new Date()
+        } : {
+          isHidden: false,
+          hiddenReason: null,
+          hiddenBy: null,
+          hiddenAt: null
+        },
+        include: {
+          tenant: {
+            select: {
+              name: true
+            }
+          }
+        }
+      });
+      await this.recomputeRoomRating(tx, existing.roomId);
+      return updated;
+    });
+    logger.info(hidden ? 'Review hidden by admin' : 'Review unhidden by admin', {
+      reviewId,
+      adminId,
+      roomId: existing.roomId
+    });
+    return toView(review);
+  }
+  private async recomputeRoomRating(tx: Prisma.TransactionClient, roomId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${roomId} FOR UPDATE`;
+    const aggregate = await tx.review.aggregate({
+      where: {
+        roomId,
+        isHidden: false
+      },
+      _avg: {
+        rating: true
+      },
+      _count: {
+        _all: true
+      }
+    });
+    await tx.room.update({
+      where: {
+        id: roomId
+      },
+      data: {
+        rating: aggregate._avg.rating ? Math.round(aggregate._avg.rating * 10) / 10 : 0,
+        reviewsCount: aggregate._count._all
+      }
+    });
+  }
+}
+function toView(review: {
+  id: string;
+  roomId: string;
+  rating: number;
+  comment: string;
+  ownerReply: string | null;
+  ownerRepliedAt: Date | null;
+  createdAt: Date;
+  tenant: {
+    name: string;
+  };
+}): Review {
+  return {
+    id: review.id,
+    roomId: review.roomId,
+    rating: review.rating,
+    comment: review.comment,
+    tenantName: review.tenant.name,
+    ownerReply: review.ownerReply,
+    ownerRepliedAt: review.ownerRepliedAt ? review.ownerRepliedAt.toISOString() : null,
+    createdAt: review.createdAt.toISOString()
+  };
+}
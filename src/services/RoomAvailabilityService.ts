@@ -0,0 +1,175 @@
+import { Prisma, PrismaClient, BookingStatus } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { NotFoundError, BusinessLogicError } from '../errors/AppErrors';
+
+/**
+ * ROOM AVAILABILITY — capacity (beds) + availability calendar
+ *
+ * MODEL:
+ * - Room.totalBeds: beds rentable independently. Only Shared/PG rooms track
+ *   capacity; every other room type is a single unit (totalBeds = 1) and is
+ *   gated only by Room.availableFrom, as before.
+ * - A booking occupies one bed on every date in [moveInDate, moveOutDate)
+ *   while its status is in OCCUPYING_BOOKING_STATUSES. moveOutDate = null
+ *   means open-ended.
+ * - PENDING bookings are leads and do NOT hold a bed; approval does.
+ *
+ * NUMERIC EXAMPLE (PG, totalBeds = 3):
+ *   approved A: Mar 1 → open     approved B: Mar 1 → Apr 1
+ *   approved C: Mar 10 → open
+ *   occupancy Mar 5 = 2, Mar 15 = 3 (full), Apr 5 = 2
+ *   new request Mar 5 → Mar 12  → peak over [Mar 5, Mar 12) = 3 → rejected
+ *   new request Apr 2 → open    → peak over [Apr 2, ∞)      = 2 → accepted
+ */
+
+export const CAPACITY_ROOM_TYPES = ['Shared', 'PG'];
+export const OCCUPYING_BOOKING_STATUSES: BookingStatus[] = [BookingStatus.APPROVED, BookingStatus.CONFIRMED, BookingStatus.MOVED_IN];
+export const MAX_CALENDAR_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+export interface OccupancyInterval {
+  moveInDate: Date;
+  moveOutDate: Date | null;
+}
+export interface CapacityRoom {
+  id: string;
+  roomType: string;
+  totalBeds: number;
+  availableFrom: Date | null;
+}
+export interface AvailabilityDay {
+  date: string; // YYYY-MM-DD
+  occupiedBeds: number;
+  freeBeds: number | null; // null when the room type doesn't track capacity
+  available: boolean;
+}
+export interface RoomAvailabilityCalendar {
+  roomId: string;
+  roomType: string;
+  totalBeds: number;
+  capacityTracked: boolean;
+  availableFrom: string | null;
+  days: AvailabilityDay[];
+}
+export const tracksCapacity = (roomType: string): boolean => CAPACITY_ROOM_TYPES.includes(roomType);
+export const startOfUtcDay = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Beds occupied on `date`.
+ */
+export const occupancyOn = (intervals: OccupancyInterval[], date: Date): number => intervals.filter((i) => i.moveInDate <= date && (!i.moveOutDate || i.moveOutDate > date)).length;
+
+/**
+ * Maximum beds occupied on any date in [from, to) — `to` null = open-ended.
+ * Occupancy only rises at a move-in, so checking `from` and every move-in
+ * inside the window is enough.
+ */
+export const peakOccupancy = (intervals: OccupancyInterval[], from: Date, to: Date | null): number => {
+  const checkpoints = [from, ...intervals.map((i) => i.moveInDate).filter((d) => d > from && (!to || d < to))];
+  return Math.max(0, ...checkpoints.map((d) => occupancyOn(intervals, d)));
+};
+
+/**
+ * Throw if the room can't take one more tenant for [moveIn, moveOut).
+ * Must run inside the caller's (Serializable) transaction so the occupancy
+ * read and the booking write are atomic.
+ *
+ * @throws BusinessLogicError when the room isn't available yet or is full
+ */
+export async function assertBedAvailable(tx: Prisma.TransactionClient, room: CapacityRoom, moveIn: Date, moveOut: Date | null, excludeBookingId?: string): Promise<void> {
+  if (room.availableFrom && moveIn < startOfUtcDay(room.availableFrom)) {
+    throw new BusinessLogicError(`Room is available from ${room.availableFrom.toISOString().slice(0, 10)}`);
+  }
+  if (!tracksCapacity(room.roomType)) return;
+  const intervals = await loadOccupancy(tx, room.id, moveIn, moveOut, excludeBookingId);
+  if (peakOccupancy(intervals, moveIn, moveOut) >= room.totalBeds) {
+    throw new BusinessLogicError('No beds are free for the requested dates');
+  }
+}
+
+/**
+ * Occupying bookings that overlap [from, to).
+ */
+async function loadOccupancy(db: Prisma.TransactionClient | PrismaClient, roomId: string, from: Date, to: Date | null, excludeBookingId?: string): Promise<OccupancyInterval[]> {
+  return db.booking.findMany({
+    where: {
+      roomId,
+      status: {
+        in: OCCUPYING_BOOKING_STATUSES
+      },
+      ...(excludeBookingId && {
+        id: {
+          not: excludeBookingId
+        }
+      }),
+      ...(to && {
+        moveInDate: {
+          lt: to
+        }
+      }),
+      OR: [{
+        moveOutDate: null
+      }, {
+        moveOutDate: {
+          gt: from
+        }
+      }]
+    },
+    select: {
+      moveInDate: true,
+      moveOutDate: true
+    }
+  });
+}
+export class RoomAvailabilityService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.getCalendar = this.getCalendar.bind(this);
+  }
+
+  /**
+   * Day-by-day bed availability for `days` days starting at `from`.
+   */
+  async getCalendar(roomId: string, from: Date, days: number): Promise<RoomAvailabilityCalendar> {
+    const room = await this.prisma.room.findUnique({
+      where: {
+        id: roomId
+      },
+      select: {
+        id: true,
+        roomType: true,
+        totalBeds: true,
+        availableFrom: true,
+        isActive: true
+      }
+    });
+    if (!room) {
+      throw new NotFoundError('Room', roomId);
+    }
+    const start = startOfUtcDay(from);
+    const end = new Date(start.getTime() + days * DAY_MS);
+    const intervals = await loadOccupancy(this.prisma, roomId, start, end);
+    const capacityTracked = tracksCapacity(room.roomType);
+    const openFrom = room.availableFrom ? startOfUtcDay(room.availableFrom) : null;
+    const calendar: AvailabilityDay[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = new Date(start.getTime() + i * DAY_MS);
+      const occupiedBeds = occupancyOn(intervals, date);
+      const freeBeds = capacityTracked ? Math.max(room.totalBeds - occupiedBeds, 0) : null;
+      calendar.push({
+        date: date.toISOString().slice(0, 10),
+        occupiedBeds,
+        freeBeds,
+        available: room.isActive && (!openFrom || date >= openFrom) && (freeBeds === null || freeBeds > 0)
+      });
+    }
+    return {
+      roomId: room.id,
+      roomType: room.roomType,
+      totalBeds: room.totalBeds,
+      capacityTracked,
+      availableFrom: room.availableFrom ? room.availableFrom.toISOString() : null,
+      days: calendar
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { PrismaClient, RoomRevision as PrismaRoomRevision } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { NotFoundError } from '../errors/AppErrors';
+import { RoomRevisionSummary, RoomRevisionDetail } from '../models/RoomRevision';
+import { RevisionedRoomField } from '../utils/roomDiff';
+
+/**
+ * RoomRevisionService — read side of the listing audit trail (admin only).
+ * Revisions are written by PrismaRoomRepository.updateWithRevision().
+ */
+export class RoomRevisionService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.getTimeline = this.getTimeline.bind(this);
+    this.getRevision = this.getRevision.bind(this);
+  }
+
+  /**
+   * All revisions of a room, newest first.
+   */
+  async getTimeline(roomId: string): Promise<RoomRevisionSummary[]> {
+    const room = await this.prisma.room.findUnique({
+      where: {
+        id: roomId
+      },
+      select: {
+        id: true
+      }
+    });
+    if (!room) {
+      throw new NotFoundError('Room', roomId);
+    }
+    const revisions = await this.prisma.roomRevision.findMany({
+      where: {
+        roomId
+      },
+      orderBy: {
+        revision: 'desc'
+      }
+    });
+    const editors = await this.loadEditors(revisions.map((r) => r.changedBy));
+    return revisions.map((r) => this.toSummary(r, editors));
+  }
+
+  /**
+   * One revision with its field-by-field before/after diff.
+   */
+  async getRevision(roomId: string, revision: number): Promise<RoomRevisionDetail> {
+    const row = await this.prisma.roomRevision.findUnique({
+      where: {
+        roomId_revision: {
+          roomId,
+          revision
+        }
+      }
+    });
+    if (!row) {
+      throw new NotFoundError('Room revision', `${roomId}#${revision}`);
+    }
+    const editors = await this.loadEditors([row.changedBy]);
+    const before = row.before as Record<string, unknown>;
+    const after = row.after as Record<string, unknown>;
+    return {
+      ...this.toSummary(row, editors),
+      changes: row.changedFields.map((field) => ({
+        field: field as RevisionedRoomField,
+        before: before[field] ?? null,
+        after: after[field] ?? null
+      }))
+    };
+  }
+  private async loadEditors(ids: string[]): Promise<Map<string, string>> {
+    const users = await this.prisma.user.findMany({
+      where: {
+        id: {
+          in: [...new Set(ids)]
+        }
+      },
+      select: {
+        id: true,
+        name: true
+      }
+    });
+    return new Map(users.map((u) => [u.id, u.name]));
+  }
+  private toSummary(row: PrismaRoomRevision, editors: Map<string, string>): RoomRevisionSummary {
+    return {
+      id: row.id,
+      revision: row.revision,
+      changedBy: {
+        id: row.changedBy,
+        name: editors.get(row.changedBy) ?? null
+      },
+      changedFields: row.changedFields,
+      materialFields: row.materialFields,
+      statusReset: row.statusReset,
+      createdAt: row.createdAt.toISOString()
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * ROOM RISK POLICY — how duplicate / fraud signals turn into a score
+ *
+ * SIGNALS (weights add up, capped at 100):
+ * ┌──────────────────────┬────────┬──────────────────────────────────────────┐
+ * │ DUPLICATE_LISTING    │ 40     │ Same owner, near-identical title+location│
+ * │ REUSED_IMAGE_URL     │ 50/25  │ Image URL already on another owner's /   │
+ * │                      │        │ the same owner's listing                 │
+ * │ SIMILAR_IMAGE        │ 45/20  │ Perceptual hash within Hamming distance  │
+ * │                      │        │ of another owner's / own listing image   │
+ * │ PRICE_ANOMALY        │ 35/15  │ Price < 40% / < 60% of the city median   │
+ * └──────────────────────┴────────┴──────────────────────────────────────────┘
+ *
+ * Pure rules only — RoomRiskService gathers the signals and applies them.
+ */
+
+// 64-bit pHash: ≤ 6 differing bits ≈ same photo (re-encoded, resized, lightly cropped)
+export const PHASH_MAX_HAMMING_DISTANCE = 6;
+export const MAX_RISK_SCORE = 100;
+export const DUPLICATE_LISTING_WEIGHT = 40;
+export type RoomRiskCode = 'DUPLICATE_LISTING' | 'REUSED_IMAGE_URL' | 'SIMILAR_IMAGE' | 'PRICE_ANOMALY';
+export interface RoomRiskReason {
+  code: RoomRiskCode;
+  weight: number;
+  message: string;
+  relatedRoomIds?: string[];
+}
+
+// A signal that weighs more when the match is on someone else's listing
+export interface OwnerSplitSignal {
+  code: RoomRiskCode;
+  foreignWeight: number;
+  ownWeight: number;
+  foreignMessage: string;
+  ownMessage: string;
+}
+
+/**
+ * Bit distance between two hex-encoded hashes of equal length
+ * (Infinity when lengths differ or input isn't hex).
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length || !/^[0-9a-f]+$/i.test(a) || !/^[0-9a-f]+$/i.test(b)) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Whether any of `hashes` looks like any of `existing`
+ */
+export function hasSimilarImage(existing: string[], hashes: string[]): boolean {
+  return existing.some((e) => hashes.some((h) => hammingDistance(e, h) <= PHASH_MAX_HAMMING_DISTANCE));
+}
+
+/**
+ * Weight of a price that is `ratio` of the city median; null = not anomalous
+ */
+export function priceAnomalyWeight(ratio: number): number | null {
+  if (ratio < 0.4) return 35;
+  if (ratio < 0.6) return 15;
+  return null;
+}
+
+/**
+ * One reason for the matched rooms: the foreign weight if any belongs to
+ * another owner, else the own weight, else none
+ */
+export function splitByOwner(ownerId: string, rooms: {
+  id: string;
+  ownerId: string;
+}[], signal: OwnerSplitSignal): RoomRiskReason[] {
+  const foreign = rooms.filter((r) => r.ownerId !== ownerId).map((r) => r.id);
+  const own = rooms.filter((r) => r.ownerId === ownerId).map((r) => r.id);
+  if (foreign.length > 0) {
+    return [{
+      code: signal.code,
+      weight: signal.foreignWeight,
+      message: signal.foreignMessage,
+      relatedRoomIds: foreign
+    }];
+  }
+  if (own.length > 0) {
+    return [{
+      code: signal.code,
+      weight: signal.ownWeight,
+      message: signal.ownMessage,
+      relatedRoomIds: own
+    }];
+  }
+  return [];
+}
+export function riskScoreOf(reasons: RoomRiskReason[]): number {
+  return Math.min(MAX_RISK_SCORE, reasons.reduce((sum, r) => sum + r.weight, 0));
+}
@@ -0,0 +1,268 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { CloudinaryService } from './CloudinaryService';
+
+import { RoomRiskCode, RoomRiskReason, DUPLICATE_LISTING_WEIGHT, hasSimilarImage, priceAnomalyWeight, riskScoreOf, splitByOwner } from './RoomRiskPolicy';
+
+/**
+ * RoomRiskService — duplicate / fraud screening for new listings
+ *
+ * Runs from the ROOM_CREATED outbox event, after the listing is inserted, and
+ * stores a 0–100 risk score plus human-readable reasons for moderators. It
+ * never blocks creation: every listing still goes to PENDING review; the
+ * score only decides what admins look at first
+ * (GET /api/admin/properties?sort=risk). Signals and weights live in
+ * RoomRiskPolicy.
+ *
+ * Every signal is best-effort: a failing check is logged and skipped.
+ */
+
+// pg_trgm similarity (0..1) above which title / location count as "the same"
+const DUPLICATE_TITLE_SIMILARITY = 0.8;
+const DUPLICATE_LOCATION_SIMILARITY = 0.7;
+// Most recent hashed rooms in the same city to compare against
+const PHASH_CANDIDATE_LIMIT = 2000;
+// City median needs at least this many approved rooms to be meaningful
+const PRICE_MEDIAN_MIN_SAMPLES = 5;
+export interface RoomRiskAssessment {
+  riskScore: number;
+  riskReasons: RoomRiskReason[];
+  imageHashes: string[];
+  riskCheckedAt: Date | null;
+}
+export interface RoomRiskCandidate {
+  // The listing being scored, left out of its own matches
+  id: string;
+  ownerId: string;
+  title: string;
+  location: string;
+  city: string;
+  roomType: string;
+  pricePerMonth: number;
+  images: string[];
+}
+export class RoomRiskService {
+  private prisma: PrismaClient;
+  private cloudinaryService: CloudinaryService | null | undefined;
+  constructor(prismaClient?: PrismaClient, cloudinaryService?: CloudinaryService | null) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.cloudinaryService = cloudinaryService;
+  }
+
+  /**
+   * Score a stored listing and save the result on it. A room that no longer
+   * exists is skipped.
+   */
+  async assessRoom(roomId: string): Promise<RoomRiskAssessment | null> {
+    const room = await this.prisma.room.findUnique({
+      where: {
+        id: roomId
+      },
+      select: {
+        id: true,
+        ownerId: true,
+        title: true,
+        location: true,
+        city: true,
+        roomType: true,
+        pricePerMonth: true,
+        images: true
+      }
+    });
+    if (!room) return null;
+    const risk = await this.assess(room);
+    await this.prisma.room.update({
+      where: {
+        id: room.id
+      },
+      data: {
+        riskScore: risk.riskScore,
+        riskReasons: risk.riskReasons as unknown as Prisma.InputJsonValue,
+        riskCheckedAt: risk.riskCheckedAt,
+        imageHashes: risk.imageHashes
+      }
+    });
+    return risk;
+  }
+
+  /**
+   * Score a listing.
+   * Never throws — on unexpected failure returns score 0 with riskCheckedAt = null.
+   */
+  async assess(candidate: RoomRiskCandidate): Promise<RoomRiskAssessment> {
+    try {
+      const imageHashes = await this.computeImageHashes(candidate.images);
+      const reasonGroups = await Promise.all([this.safely('DUPLICATE_LISTING', () => this.checkDuplicateListing(candidate)), this.safely('REUSED_IMAGE_URL', () => this.checkReusedImageUrls(candidate)), this.safely('SIMILAR_IMAGE', () => this.checkSimilarImages(candidate, imageHashes)), this.safely('PRICE_ANOMALY', () => this.checkPriceAnomaly(candidate))]);
+      const riskReasons = reasonGroups.flat();
+      const riskScore = riskScoreOf(riskReasons);
+      if (riskScore > 0) {
+        logger.info('Room risk assessed', {
+          roomId: candidate.id,
+          ownerId: candidate.ownerId,
+          riskScore,
+          codes: riskReasons.map((r) => r.code)
+        });
+      }
+      return {
+        riskScore,
+        riskReasons,
+        imageHashes,
+        riskCheckedAt: new Date()
+      };
+    } catch (error: any) {
+      logger.error('Room risk assessment failed', {
+        error: error.message,
+        ownerId: candidate.ownerId
+      });
+      return {
+        riskScore: 0,
+        riskReasons: [],
+        imageHashes: [],
+        riskCheckedAt: null
+      };
+    }
+  }
+  private async safely(code: RoomRiskCode, check: () => Promise<RoomRiskReason[]>): Promise<RoomRiskReason[]> {
+    try {
+      return await check();
+    } catch (error: any) {
+      logger.warn('Room risk check failed, skipping', {
+        check: code,
+        error: error.message
+      });
+      return [];
+    }
+  }
+  private async checkDuplicateListing(candidate: RoomRiskCandidate): Promise<RoomRiskReason[]> {
+    const matches = await this.prisma.$queryRaw<{
+      id: string;
+    }[]>`
+      SELECT r."id"
+      FROM "Room" r
+      WHERE r."ownerId" = ${candidate.ownerId}
+        AND r."id" <> ${candidate.id}
+        AND similarity(lower(r."title"), lower(${candidate.title})) >= ${DUPLICATE_TITLE_SIMILARITY}
+        AND similarity(lower(r."location"), lower(${candidate.location})) >= ${DUPLICATE_LOCATION_SIMILARITY}
+      ORDER BY r."createdAt" DESC
+      LIMIT 5
+    `;
+    if (matches.length === 0) return [];
+    return [{
+      code: 'DUPLICATE_LISTING',
+      weight: DUPLICATE_LISTING_WEIGHT,
+      message: `Owner already has ${matches.length} listing(s) with a near-identical title and location`,
+      relatedRoomIds: matches.map((m) => m.id)
+    }];
+  }
+  private async checkReusedImageUrls(candidate: RoomRiskCandidate): Promise<RoomRiskReason[]> {
+    if (candidate.images.length === 0) return [];
+    const rooms = await this.prisma.room.findMany({
+      where: {
+        id: {
+          not: candidate.id
+        },
+        images: {
+          hasSome: candidate.images
+        }
+      },
+      select: {
+        id: true,
+        ownerId: true
+      },
+      take: 20
+    });
+    return splitByOwner(candidate.ownerId, rooms, {
+      code: 'REUSED_IMAGE_URL',
+      foreignWeight: 50,
+      ownWeight: 25,
+      foreignMessage: 'Images are already used by another owner\'s listing',
+      ownMessage: 'Images are reused from the owner\'s other listing(s)'
+    });
+  }
+  private async checkSimilarImages(candidate: RoomRiskCandidate, hashes: string[]): Promise<RoomRiskReason[]> {
+    if (hashes.length === 0) return [];
+    const rooms = await this.prisma.room.findMany({
+      where: {
+        id: {
+          not: candidate.id
+        },
+        city: candidate.city,
+        imageHashes: {
+          isEmpty: false
+        }
+      },
+      select: {
+        id: true,
+        ownerId: true,
+        imageHashes: true
+      },
+      orderBy: {
+        createdAt: 'desc'
+      },
+      take: PHASH_CANDIDATE_LIMIT
+    });
+    const similar = rooms.filter((room) => hasSimilarImage(room.imageHashes, hashes));
+    return splitByOwner(candidate.ownerId, similar, {
+      code: 'SIMILAR_IMAGE',
+      foreignWeight: 45,
+      ownWeight: 20,
+      foreignMessage: 'Photos look like another owner\'s listing (perceptual match)',
+      ownMessage: 'Photos look like the owner\'s other listing(s) (perceptual match)'
+    });
+  }
+  private async checkPriceAnomaly(candidate: RoomRiskCandidate): Promise<RoomRiskReason[]> {
+    const medianFor = async (roomTypeFilter: Prisma.Sql) => {
+      const [row] = await this.prisma.$queryRaw<{
+        median: number | null;
+        samples: number;
+      }[]>`
+        SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY r."pricePerMonth")::float8 AS median,
+               COUNT(*)::int AS samples
+        FROM "Room" r
+        WHERE lower(r."city") = lower(${candidate.city})
+          AND r."reviewStatus" = 'APPROVED'::"ReviewStatus"
+          ${roomTypeFilter}
+      `;
+      return row && row.median !== null && row.samples >= PRICE_MEDIAN_MIN_SAMPLES ? row.median : null;
+    };
+    // Prefer same room type; fall back to the whole city
+    const median = (await medianFor(Prisma.sql`AND r."roomType" = ${candidate.roomType}`)) ?? (await medianFor(Prisma.empty));
+    if (!median) return [];
+    const ratio = candidate.pricePerMonth / median;
+    const weight = priceAnomalyWeight(ratio);
+    if (weight === null) return [];
+    return [{
+      code: 'PRICE_ANOMALY',
+      weight,
+      message: `Price ₹${candidate.pricePerMonth} is ${Math.round(ratio * 100)}% of the ${candidate.city} median (₹${Math.round(median)})`
+    }];
+  }
+  private async computeImageHashes(images: string[]): Promise<string[]> {
+    const cloudinary = this.getCloudinary();
+    if (!cloudinary || images.length === 0) return [];
+    try {
+      return await cloudinary.getPerceptualHashes(images);
+    } catch (error: any) {
+      logger.warn('Skipping perceptual image check', {
+        error: error.message
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Cloudinary is optional here (dev / tests run without credentials).
+   */
+  private getCloudinary(): CloudinaryService | null {
+    if (this.cloudinaryService === undefined) {
+      try {
+        this.cloudinaryService = new CloudinaryService();
+      } catch {
+        this.cloudinaryService = null;
+      }
+    }
+    return this.cloudinaryService;
+  }
+}
+export const roomRiskService = new RoomRiskService();
@@ -1,7 +1,13 @@
 import { IRoomRepository } from '../repositories/interfaces';
-import { Room, CreateRoomInput, UpdateRoomInput, RoomFilters } from '../models/Room';
+import { Room, CreateRoomInput, UpdateRoomInput, RoomFilters, RoomFacets } from '../models/Room';
 import { CloudinaryService } from './CloudinaryService';
 import { logger } from '../utils/logger';
+import { CursorPage, decodeCursor } from '../utils/cursor';
+import { notificationIntegration } from './NotificationIntegration';
+import { tracksCapacity } from './RoomAvailabilityService';
+import { favouriteAlertsFor } from './FavouriteAlertPolicy';
+import { ValidationError } from '../errors/AppErrors';
+import { env } from '../config/env';
 export class RoomService {
   private roomRepository: IRoomRepository;
   private cloudinaryService: CloudinaryService;
@@ -9,29 +15,71 @@ export class RoomService {
     this.roomRepository = roomRepository;
     this.cloudinaryService = new CloudinaryService();
   }
+
+  /**
+   * Keyset-paginated variant of getAllRooms() (same visibility rules).
+   * @throws ValidationError for forged/foreign cursors
+   */
+  async getRoomsByCursor(filters: RoomFilters): Promise<CursorPage<Room> & {
+    limit: number;
+  }> {
+    const limit = filters.limit ?? 20;
+    const cursor = filters.cursor ? decodeCursor('rooms', filters.cursor) : null;
+    const page = await this.roomRepository.findAllByCursor(this.toRepositoryFilters(filters), cursor, limit);
+    return {
+      ...page,
+      limit
+    };
+  }
   async getAllRooms(filters: RoomFilters): Promise<{
     rooms: Room[];
     total: number;
     page: number;
     limit: number;
+    facets?: RoomFacets;
   }> {
     const page = filters.page ?? 1;
     const limit = filters.limit ?? 20;
-    const result = await this.roomRepository.findAll({
+    const repositoryFilters: RoomFilters = {
+      ...this.toRepositoryFilters(filters),
+      page,
+      limit
+    };
+    const [result, facets] = await Promise.all([this.roomRepository.findAll(repositoryFilters), filters.facets ? this.roomRepository.getFacets(repositoryFilters) : Promise.resolve(undefined)]);
+    return {
+      ...result,
+      page,
+      limit,
+      ...(facets && {
+        facets
+      })
+    };
+  }
+
+  /**
+   * Public listing filters → repository filters.
+   * Tenants only ever see admin-approved rooms (isVerified forced on).
+   */
+  private toRepositoryFilters(filters: RoomFilters): RoomFilters {
+    return {
+      q: filters.q,
       city: filters.city,
       roomType: filters.roomType,
+      idealFor: filters.idealFor,
+      amenities: filters.amenities,
+      amenitiesMatch: filters.amenitiesMatch ?? 'all',
       minPrice: filters.minPrice,
       maxPrice: filters.maxPrice,
       isPopular: filters.isPopular,
       onlyActive: filters.onlyActive ?? true,
       isVerified: true,
-      page,
-      limit
-    });
-    return {
-      ...result,
-      page,
-      limit
+      near: filters.near,
+      radiusKm: filters.radiusKm,
+      bbox: filters.bbox,
+      availableFrom: filters.availableFrom,
+      sort: filters.sort,
+      page: filters.page ?? 1,
+      limit: filters.limit ?? 20
     };
   }
   async getRoomById(id: string): Promise<Room> {
@@ -55,6 +103,7 @@ export class RoomService {
     if (!roomData.ownerId) {
       throw new Error('ownerId is required');
     }
+    this.assertValidCapacity(roomData.roomType, roomData.totalBeds ?? 1);
 
     // Pass data directly to repository
     return await this.roomRepository.create(roomData);
@@ -67,11 +116,27 @@ export class RoomService {
     if (room.ownerId !== ownerId) {
       throw new Error('You can only update your own properties');
     }
+    this.assertValidCapacity(input.roomType ?? room.roomType, input.totalBeds ?? room.totalBeds);
     // console.log('[RoomService] Updating room with data:', JSON.stringify(input, null, 2));
-    const updatedRoom = await this.roomRepository.update(id, input);
-    if (!updatedRoom) {
-      throw new Error('Failed to update room');
+    // Every edit is versioned; material edits send an approved listing back to review
+    const {
+      room: updatedRoom,
+      revision,
+      statusReset
+    } = await this.roomRepository.updateWithRevision(id, input, {
+      changedBy: ownerId,
+      rules: {
+        materialFields: env.ROOM_MATERIAL_FIELDS,
+        priceTolerancePercent: env.ROOM_PRICE_CHANGE_TOLERANCE_PERCENT
+      }
+    });
+    if (statusReset) {
+      logger.info('Approved room sent back to review after material edit', {
+        roomId: id,
+        revision
+      });
     }
+    this.notifyFavouriteChanges(room, updatedRoom, statusReset);
     return updatedRoom;
   }
   async deleteRoom(roomId: string, userId: string): Promise<void> {
@@ -110,9 +175,36 @@ export class RoomService {
     if (!updatedRoom) {
       throw new Error('Failed to update room status');
     }
+    this.notifyFavouriteChanges(room, updatedRoom);
     return updatedRoom;
   }
 
+  /**
+   * Only Shared/PG rooms rent individual beds; everything else is one unit.
+   */
+  private assertValidCapacity(roomType: string, totalBeds: number): void {
+    if (totalBeds > 1 && !tracksCapacity(roomType)) {
+      throw new ValidationError('totalBeds can only exceed 1 for Shared or PG rooms');
+    }
+  }
+
+  /**
+   * Fire-and-forget alerts to tenants who favourited the room
+   * (see FavouriteAlertPolicy). A failure is logged, never thrown.
+   */
+  private notifyFavouriteChanges(before: Room, after: Room, statusReset = false): void {
+    for (const alert of favouriteAlertsFor(before, after, statusReset)) {
+      const sent = alert === 'PRICE_DROP' ? notificationIntegration.notifyFavouritePriceDrop(after, before.pricePerMonth, after.pricePerMonth) : notificationIntegration.notifyFavouriteRoomDeactivated(after);
+      sent.catch((error) => {
+        logger.error('Failed to send favourite alert', {
+          roomId: after.id,
+          alert,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+  }
+
   //   async toggleRoomStatus(id: string, ownerId: string): Promise<Room> {
   //   const room = await this.roomRepository.findById(id);
 
@@ -0,0 +1,62 @@
+/**
+ * SAVED SEARCH MATCH POLICY — does a newly approved room match a saved search
+ *
+ * ┌─────────────┬───────────────────────────────────────────────────────┐
+ * │ Filter      │ Rule                                                  │
+ * ├─────────────┼───────────────────────────────────────────────────────┤
+ * │ city        │ equal after normalizeCity()                           │
+ * │ price       │ minPrice ≤ pricePerMonth ≤ maxPrice (inclusive)       │
+ * │ roomType    │ equal                                                 │
+ * │ idealFor    │ one of the room's audiences                           │
+ * │ amenities   │ all listed (amenitiesMatch=all) or at least one       │
+ * │             │ (any), case-insensitive                               │
+ * │ near / bbox │ room has coordinates, inside the box and within       │
+ * │             │ radiusKm (default DEFAULT_SEARCH_RADIUS_KM)           │
+ * │ q           │ every keyword of 3+ characters appears in the title,  │
+ * │             │ description, location or landmark                     │
+ * └─────────────┴───────────────────────────────────────────────────────┘
+ *
+ * In-memory twin of the GET /api/rooms filters (see PrismaRoomRepository.buildWhere).
+ *
+ * Pure rules only — SavedSearchService applies them.
+ */
+import { Room as PrismaRoom } from '@prisma/client';
+import { normalizeCity } from '../utils/normalize';
+import { haversineKm, DEFAULT_SEARCH_RADIUS_KM } from '../utils/geo';
+import { SavedSearchFilters } from '../models/SavedSearch';
+
+/**
+ * Whether `room` passes every filter of a saved search.
+ */
+export function matchesSavedSearch(room: Pick<PrismaRoom, 'title' | 'description' | 'city' | 'location' | 'landmark' | 'pricePerMonth' | 'roomType' | 'idealFor' | 'amenities' | 'latitude' | 'longitude'>, filters: SavedSearchFilters): boolean {
+  if (filters.city && normalizeCity(filters.city) !== normalizeCity(room.city)) return false;
+  if (filters.roomType && filters.roomType !== room.roomType) return false;
+  if (filters.idealFor && !room.idealFor.includes(filters.idealFor)) return false;
+  if (filters.minPrice !== undefined && room.pricePerMonth < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && room.pricePerMonth > filters.maxPrice) return false;
+  if (filters.amenities?.length) {
+    const has = new Set(room.amenities.map((a) => a.toLowerCase()));
+    const wanted = filters.amenities.map((a) => a.toLowerCase());
+    const ok = filters.amenitiesMatch === 'any' ? wanted.some((a) => has.has(a)) : wanted.every((a) => has.has(a));
+    if (!ok) return false;
+  }
+  if (filters.near || filters.bbox) {
+    if (room.latitude === null || room.longitude === null) return false;
+    const point = {
+      lat: room.latitude,
+      lng: room.longitude
+    };
+    if (filters.bbox && (point.lat < filters.bbox.minLat || point.lat > filters.bbox.maxLat || point.lng < filters.bbox.minLng || point.lng > filters.bbox.maxLng)) {
+      return false;
+    }
+    if (filters.near && haversineKm(filters.near, point) > (filters.radiusKm ?? DEFAULT_SEARCH_RADIUS_KM)) {
+      return false;
+    }
+  }
+  if (filters.q) {
+    const text = [room.title, room.description, room.location, room.landmark].join(' ').toLowerCase();
+    const keywords = filters.q.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((k) => k.length >= 3);
+    if (!keywords.every((k) => text.includes(k))) return false;
+  }
+  return true;
+}
@@ -0,0 +1,189 @@
+import { PrismaClient, Room as PrismaRoom, SavedSearch as PrismaSavedSearch } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { NotFoundError, BusinessLogicError, ValidationError } from '../errors/AppErrors';
+import { normalizeCity } from '../utils/normalize';
+import { SavedSearch, SavedSearchFilters, SavedSearchFiltersSchema, CreateSavedSearchInput, UpdateSavedSearchInput } from '../models/SavedSearch';
+import { matchesSavedSearch } from './SavedSearchMatchPolicy';
+const MAX_SAVED_SEARCHES_PER_TENANT = 20;
+
+/**
+ * SavedSearchService — tenant-owned named room filters + new-listing alerts
+ *
+ * CRUD is tenant-scoped: every query filters by tenantId, so a foreign id
+ * is indistinguishable from a missing one (404, no existence leak).
+ *
+ * ALERT FLOW:
+ *   AdminController.approveProperty
+ *     → ROOM_APPROVED outbox event (same transaction as the approval)
+ *     → OutboxWorker → findSearchesMatchingRoom()
+ *     → SAVED_SEARCH_MATCH notification per matching, non-paused search
+ *
+ * Matching is done in memory against the stored filters by
+ * SavedSearchMatchPolicy (candidates are prefiltered by city in SQL). `q`
+ * uses a simpler keyword rule than the listing's full-text ranking: every
+ * keyword must appear in the room text.
+ */
+export class SavedSearchService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.list = this.list.bind(this);
+    this.create = this.create.bind(this);
+    this.update = this.update.bind(this);
+    this.setAlertsPaused = this.setAlertsPaused.bind(this);
+    this.delete = this.delete.bind(this);
+    this.findSearchesMatchingRoom = this.findSearchesMatchingRoom.bind(this);
+  }
+  async list(tenantId: string): Promise<SavedSearch[]> {
+    const rows = await this.prisma.savedSearch.findMany({
+      where: {
+        tenantId
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+    return rows.map(toDomain);
+  }
+  async create(tenantId: string, input: CreateSavedSearchInput): Promise<SavedSearch> {
+    const filters = this.parseFilters(input.filters);
+    const count = await this.prisma.savedSearch.count({
+      where: {
+        tenantId
+      }
+    });
+    if (count >= MAX_SAVED_SEARCHES_PER_TENANT) {
+      throw new BusinessLogicError(`You can save up to ${MAX_SAVED_SEARCHES_PER_TENANT} searches`);
+    }
+    const row = await this.prisma.savedSearch.create({
+      data: {
+        tenantId,
+        name: input.name.trim(),
+        filters: filters as any,
+        city: filters.city ? normalizeCity(filters.city) : null,
+        alertsPaused: input.alertsPaused ?? false
+      }
+    });
+    logger.info('Saved search created', {
+      savedSearchId: row.id,
+      tenantId
+    });
+    return toDomain(row);
+  }
+  async update(tenantId: string, id: string, input: UpdateSavedSearchInput): Promise<SavedSearch> {
+    await this.getOwned(tenantId, id);
+    const filters = input.filters ? this.parseFilters(input.filters) : undefined;
+    const row = await this.prisma.savedSearch.update({
+      where: {
+        id
+      },
+      data: {
+        ...(input.name !== undefined && {
+          name: input.name.trim()
+        }),
+        ...(filters && {
+          filters: filters as any,
+          city: filters.city ? normalizeCity(filters.city) : null
+        }),
+        ...(input.alertsPaused !== undefined && {
+          alertsPaused: input.alertsPaused
+        })
+      }
+    });
+    return toDomain(row);
+  }
+
+  /**
+   * Pause / resume new-listing alerts without touching the filters.
+   */
+  async setAlertsPaused(tenantId: string, id: string, paused: boolean): Promise<SavedSearch> {
+    await this.getOwned(tenantId, id);
+    const row = await this.prisma.savedSearch.update({
+      where: {
+        id
+      },
+      data: {
+        alertsPaused: paused
+      }
+    });
+    logger.info('Saved search alerts toggled', {
+      savedSearchId: id,
+      paused
+    });
+    return toDomain(row);
+  }
+  async delete(tenantId: string, id: string): Promise<void> {
+    const result = await this.prisma.savedSearch.deleteMany({
+      where: {
+        id,
+        tenantId
+      }
+    });
+    if (result.count === 0) {
+      throw new NotFoundError('Saved search', id);
+    }
+  }
+
+  /**
+   * Non-paused saved searches (other than the owner's own) whose filters
+   * match the given room. Used by the ROOM_APPROVED outbox handler.
+   */
+  async findSearchesMatchingRoom(room: PrismaRoom): Promise<SavedSearch[]> {
+    const candidates = await this.prisma.savedSearch.findMany({
+      where: {
+        alertsPaused: false,
+        tenantId: {
+          not: room.ownerId
+        },
+        tenant: {
+          isActive: true
+        },
+        OR: [{
+          city: null
+        }, {
+          city: normalizeCity(room.city)
+        }]
+      }
+    });
+    return candidates.map(toDomain).filter((search) => matchesSavedSearch(room, search.filters));
+  }
+
+  /**
+   * Re-validate through the listing schema so stored JSON is always the
+   * parsed shape (amenities array, near/bbox objects).
+   */
+  private parseFilters(raw: unknown): SavedSearchFilters {
+    const result = SavedSearchFiltersSchema.safeParse(raw);
+    if (!result.success) {
+      throw new ValidationError('Invalid saved search filters', result.error.errors);
+    }
+    return result.data;
+  }
+  private async getOwned(tenantId: string, id: string): Promise<PrismaSavedSearch> {
+    const row = await this.prisma.savedSearch.findFirst({
+      where: {
+        id,
+        tenantId
+      }
+    });
+    if (!row) {
+      throw new NotFoundError('Saved search', id);
+    }
+    return row;
+  }
+}
+
+function toDomain(row: PrismaSavedSearch): SavedSearch {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    name: row.name,
+    filters: row.filters as unknown as SavedSearchFilters,
+    alertsPaused: row.alertsPaused,
+    lastAlertAt: row.lastAlertAt ? row.lastAlertAt.toISOString() : null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+export const savedSearchService = new SavedSearchService();
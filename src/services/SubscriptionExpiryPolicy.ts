@@ -0,0 +1,87 @@
+/**
+ * SUBSCRIPTION EXPIRY POLICY — life of a paid (GOLD/PLATINUM) plan
+ *
+ * ┌──────────────┬───────────────────────────────────────────────────┐
+ * │ Phase        │ When                                              │
+ * ├──────────────┼───────────────────────────────────────────────────┤
+ * │ ACTIVE       │ more than reminderDays before expiresAt           │
+ * │ RENEWAL_DUE  │ within reminderDays of expiresAt → reminder sent  │
+ * │ GRACE        │ expired less than graceDays ago — still unlocks   │
+ * │ LAPSED       │ grace over → downgraded to FREE                   │
+ * └──────────────┴───────────────────────────────────────────────────┘
+ *
+ * Paying for the plan the tenant already holds extends it from the current
+ * expiry, so renewing early loses no days. Switching plans, or paying after
+ * the plan ran out, starts a fresh period.
+ *
+ * Pure rules only — ContactService and TenantSubscriptionService apply
+ * them; SubscriptionExpiryWorker runs the same thresholds as queries.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export type SubscriptionPhase = 'FREE' | 'ACTIVE' | 'RENEWAL_DUE' | 'GRACE' | 'LAPSED';
+interface SubscriptionLike {
+  plan: string;
+  expiresAt: Date | null;
+}
+export function subscriptionPhase(subscription: SubscriptionLike, now: Date, ctx: {
+  reminderDays: number;
+  graceDays: number;
+}): SubscriptionPhase {
+  if (subscription.plan.toUpperCase() === 'FREE') return 'FREE';
+  if (!subscription.expiresAt) return 'ACTIVE';
+  const expiresAt = subscription.expiresAt.getTime();
+  if (now.getTime() >= expiresAt + ctx.graceDays * DAY_MS) return 'LAPSED';
+  if (now.getTime() >= expiresAt) return 'GRACE';
+  if (now.getTime() >= expiresAt - ctx.reminderDays * DAY_MS) return 'RENEWAL_DUE';
+  return 'ACTIVE';
+}
+
+/**
+ * Plan that governs contact unlocks: the paid plan until the grace period
+ * is over, FREE after.
+ */
+export function effectiveSubscriptionPlan(subscription: SubscriptionLike | null, now: Date, graceDays: number): string {
+  if (!subscription) return 'FREE';
+  const phase = subscriptionPhase(subscription, now, {
+    reminderDays: 0,
+    graceDays
+  });
+  return phase === 'FREE' || phase === 'LAPSED' ? 'FREE' : subscription.plan.toUpperCase();
+}
+
+export interface PaidPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Period bought by paying for `plan` at `paidAt`
+ */
+export function paidPeriod(current: SubscriptionLike | null, plan: string, paidAt: Date, durationDays: number): PaidPeriod {
+  const samePlan = current !== null && current.plan.toUpperCase() === plan.toUpperCase();
+  const start = samePlan && current.expiresAt && current.expiresAt > paidAt ? current.expiresAt : paidAt;
+  return {
+    start,
+    end: new Date(start.getTime() + durationDays * DAY_MS)
+  };
+}
+
+/**
+ * expiresAt after paying for `plan` at `paidAt`
+ */
+export function renewedExpiresAt(current: SubscriptionLike | null, plan: string, paidAt: Date, durationDays: number): Date {
+  return paidPeriod(current, plan, paidAt, durationDays).end;
+}
+
+/**
+ * Paid plan a one-click renew buys: the current one, or the one held before
+ * the expiry downgrade. Null when there is nothing to renew.
+ */
+export function renewalPlanFor(subscription: SubscriptionLike & {
+  previousPlan: string | null;
+}): string | null {
+  const plan = subscription.plan.toUpperCase();
+  if (plan !== 'FREE') return plan;
+  return subscription.previousPlan ? subscription.previousPlan.toUpperCase() : null;
+}
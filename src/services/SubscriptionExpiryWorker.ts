@@ -0,0 +1,198 @@
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+import { createIntervalWorker } from '../utils/intervalWorker';
+import { notificationService, NotificationType } from './NotificationService';
+import { writeOutboxEvent } from './OutboxWriter';
+import { OutboxAggregateType, OutboxEventType, SubscriptionDowngradedPayload } from './OutboxEventTypes';
+const prisma = getPrismaClient();
+
+// =============================================================================
+// SUBSCRIPTION EXPIRY WORKER — Reminds, then downgrades lapsed paid plans
+//
+// Each sweep:
+// 1. Reminds tenants whose GOLD/PLATINUM plan expires within
+//    SUBSCRIPTION_RENEWAL_REMINDER_DAYS (once per period —
+//    TenantSubscription.renewalReminderSentAt is claimed first and cleared
+//    when the plan is paid for again)
+// 2. Downgrades plans that expired more than SUBSCRIPTION_GRACE_PERIOD_DAYS
+//    ago to FREE and writes a SUBSCRIPTION_DOWNGRADED outbox event, which
+//    notifies the tenant. Until then ContactService keeps honouring the plan
+//    (see SubscriptionExpiryPolicy).
+//
+// Safe to run on several instances: the reminder claim and the downgrade are
+// both conditional on the row being unchanged since it was read.
+// =============================================================================
+
+const BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const worker = createIntervalWorker({
+  name: 'Subscription expiry worker',
+  event: 'SUBSCRIPTION_EXPIRY',
+  intervalMs: env.SUBSCRIPTION_EXPIRY_SWEEP_INTERVAL_MINUTES * 60 * 1000,
+  runOnStart: true,
+  startContext: {
+    reminderDays: env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS,
+    graceDays: env.SUBSCRIPTION_GRACE_PERIOD_DAYS
+  },
+  sweep: () => runSubscriptionExpirySweep()
+});
+
+/**
+ * Start the expiry sweep loop. Call once on server startup.
+ */
+export function startSubscriptionExpiryWorker(): void {
+  worker.start();
+}
+
+/**
+ * Stop the expiry sweep loop. Call on SIGTERM/SIGINT.
+ */
+export function stopSubscriptionExpiryWorker(): void {
+  worker.stop();
+}
+
+/**
+ * One sweep: send due renewal reminders, then downgrade lapsed plans.
+ */
+export async function runSubscriptionExpirySweep(now: Date = new Date()): Promise<{
+  reminded: number;
+  downgraded: number;
+}> {
+  return worker.exclusive(async () => {
+    const reminded = await sendRenewalReminders(now);
+    const downgraded = await downgradeLapsedSubscriptions(now);
+    if (reminded > 0 || downgraded > 0) {
+      logger.info('Subscription expiry sweep complete', {
+        event: 'SUBSCRIPTION_EXPIRY_SWEEP',
+        reminded,
+        downgraded
+      });
+    }
+    return {
+      reminded,
+      downgraded
+    };
+  }, {
+    reminded: 0,
+    downgraded: 0
+  });
+}
+async function sendRenewalReminders(now: Date): Promise<number> {
+  if (env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS <= 0) return 0;
+  const due = await prisma.tenantSubscription.findMany({
+    where: {
+      plan: {
+        not: 'FREE'
+      },
+      renewalReminderSentAt: null,
+      expiresAt: {
+        gt: now,
+        lte: new Date(now.getTime() + env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS * DAY_MS)
+      }
+    },
+    orderBy: {
+      expiresAt: 'asc'
+    },
+    take: BATCH_SIZE
+  });
+  let reminded = 0;
+  for (const subscription of due) {
+    // Claim the reminder so concurrent sweeps send it once
+    const claim = await prisma.tenantSubscription.updateMany({
+      where: {
+        id: subscription.id,
+        plan: subscription.plan,
+        expiresAt: subscription.expiresAt,
+        renewalReminderSentAt: null
+      },
+      data: {
+        renewalReminderSentAt: now
+      }
+    });
+    if (claim.count === 0) continue;
+    const expiresAt = subscription.expiresAt!;
+    const daysLeft = Math.max(1, Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS));
+    try {
+      await notificationService.emit({
+        recipientId: subscription.tenantId,
+        type: NotificationType.SUBSCRIPTION_RENEWAL_REMINDER,
+        title: 'Subscription Expiring Soon',
+        message: `Your ${subscription.plan} plan for ${subscription.city} expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}. Renew now to keep unlocking contacts without interruption.`,
+        payload: {
+          subscriptionId: subscription.id,
+          city: subscription.city,
+          plan: subscription.plan,
+          expiresAt: expiresAt.toISOString()
+        },
+        referenceId: `subscription_renewal_reminder_${subscription.id}_${expiresAt.toISOString()}`
+      });
+      reminded++;
+    } catch (error: any) {
+      logger.error('Subscription expiry: Failed to send renewal reminder', {
+        subscriptionId: subscription.id,
+        error: error.message
+      });
+    }
+  }
+  return reminded;
+}
+async function downgradeLapsedSubscriptions(now: Date): Promise<number> {
+  const lapsed = await prisma.tenantSubscription.findMany({
+    where: {
+      plan: {
+        not: 'FREE'
+      },
+      expiresAt: {
+        lte: new Date(now.getTime() - env.SUBSCRIPTION_GRACE_PERIOD_DAYS * DAY_MS)
+      }
+    },
+    orderBy: {
+      expiresAt: 'asc'
+    },
+    take: BATCH_SIZE
+  });
+  let downgraded = 0;
+  for (const subscription of lapsed) {
+    try {
+      const done = await prisma.$transaction(async (tx) => {
+        // null → renewed (or already downgraded) between our read and update
+        const result = await tx.tenantSubscription.updateMany({
+          where: {
+            id: subscription.id,
+            plan: subscription.plan,
+            expiresAt: subscription.expiresAt
+          },
+          data: {
+            plan: 'FREE',
+            previousPlan: subscription.plan,
+            downgradedAt: now
+          }
+        });
+        if (result.count === 0) return false;
+        const payload: SubscriptionDowngradedPayload = {
+          subscriptionId: subscription.id,
+          tenantId: subscription.tenantId,
+          city: subscription.city,
+          previousPlan: subscription.plan,
+          expiredAt: subscription.expiresAt!.toISOString(),
+          downgradedAt: now.toISOString()
+        };
+        await writeOutboxEvent(tx, {
+          aggregateType: OutboxAggregateType.SUBSCRIPTION,
+          aggregateId: subscription.id,
+          eventType: OutboxEventType.SUBSCRIPTION_DOWNGRADED,
+          payload
+        });
+        return true;
+      });
+      if (done) downgraded++;
+    } catch (error: any) {
+      logger.error('Subscription expiry: Failed to downgrade subscription', {
+        subscriptionId: subscription.id,
+        error: error.message
+      });
+    }
+  }
+  return downgraded;
+}
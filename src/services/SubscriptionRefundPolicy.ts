@@ -0,0 +1,92 @@
+/**
+ * SUBSCRIPTION REFUND POLICY — admin refunds of GOLD/PLATINUM payments
+ *
+ * ┌───────────┬─────────────────────────────────────────────┐
+ * │ Mode      │ Amount                                      │
+ * ├───────────┼─────────────────────────────────────────────┤
+ * │ FULL      │ everything not refunded yet                 │
+ * │ PRORATED  │ the unused part of the paid period — all of │
+ * │           │ it for a renewal that hasn't started yet    │
+ * │ PARTIAL   │ an amount the admin chooses                 │
+ * └───────────┴─────────────────────────────────────────────┘
+ *
+ * The subscription gives back the time the refund paid for:
+ * refund / payment × plan length comes off expiresAt. When (almost) nothing
+ * is left the tenant drops to FREE. A FULL or PRORATED refund of the
+ * current period therefore downgrades; one of a period already renewed only
+ * shortens it.
+ *
+ * Pure rules only — RefundService applies them (the time comes off once the
+ * refund is processed).
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+export type SubscriptionRefundMode = 'FULL' | 'PRORATED' | 'PARTIAL';
+
+/**
+ * Refund amount in paise (0 = nothing refundable).
+ * PARTIAL amounts are returned as requested — the caller validates them.
+ */
+export function subscriptionRefundAmount(payment: {
+  amount: number;
+  verifiedAt: Date;
+  // Start of the paid period when recorded; else it ran from verifiedAt
+  periodStart?: Date | null;
+}, ctx: {
+  mode: SubscriptionRefundMode;
+  requestedAmount?: number;
+  alreadyRefunded: number;
+  durationDays: number;
+  now: Date;
+}): number {
+  const refundable = Math.max(0, payment.amount - ctx.alreadyRefunded);
+  switch (ctx.mode) {
+    case 'FULL':
+      return refundable;
+    case 'PRORATED':
+      {
+        const periodMs = ctx.durationDays * DAY_MS;
+        const start = (payment.periodStart ?? payment.verifiedAt).getTime();
+        const unusedMs = Math.min(periodMs, Math.max(0, start + periodMs - ctx.now.getTime()));
+        const unusedValue = periodMs > 0 ? Math.floor(payment.amount * unusedMs / periodMs) : 0;
+        return Math.min(unusedValue, refundable);
+      }
+    case 'PARTIAL':
+      return ctx.requestedAmount ?? 0;
+  }
+}
+
+/**
+ * Subscription plan/expiry after refunding `refundAmount` of a payment.
+ */
+export function subscriptionAfterRefund(subscription: {
+  plan: string;
+  expiresAt: Date | null;
+}, ctx: {
+  refundAmount: number;
+  paymentAmount: number;
+  durationDays: number;
+  now: Date;
+}): {
+  plan: string;
+  expiresAt: Date;
+  downgraded: boolean;
+} {
+  const expiresAt = subscription.expiresAt ?? ctx.now;
+  const returnedMs = ctx.durationDays * DAY_MS * ctx.refundAmount / ctx.paymentAmount;
+  const shortened = new Date(expiresAt.getTime() - Math.round(returnedMs));
+  // Under an hour left (rounding of pro-rated paise) counts as nothing left
+  if (shortened.getTime() - ctx.now.getTime() < HOUR_MS) {
+    return {
+      plan: 'FREE',
+      expiresAt: ctx.now,
+      downgraded: true
+    };
+  }
+  return {
+    plan: subscription.plan,
+    expiresAt: shortened,
+    downgraded: false
+  };
+}
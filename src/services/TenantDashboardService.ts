@@ -1,11 +1,15 @@
 import { getPrismaClient } from '../utils/prisma';
 import { logger } from '../utils/logger';
+import { CITIES } from '../config/cities';
+import { FavouriteService, FavouriteRoom } from './FavouriteService';
+import { coverageLabel, coveredCities } from './BundlePolicy';
 
 /**
  * TenantDashboardService — MULTI-CITY ARCHITECTURE
  *
- * Returns all city subscriptions for the tenant.
- * Phone masking uses ANY active subscription (not city-specific for dashboard).
+ * Returns all city subscriptions and multi-city bundles for the tenant.
+ * Phone masking uses ANY active subscription or bundle (not city-specific
+ * for dashboard).
  */
 
 export interface TenantDashboardBooking {
@@ -35,6 +39,17 @@ export interface TenantDashboardSubscription {
   expiresAt: string | null;
   isActive: boolean;
 }
+export interface TenantDashboardBundle {
+  id: string;
+  bundleCode: string;
+  plan: string;
+  allCities: boolean;
+  cities: string[]; // covered today; every operating city when allCities
+  coverage: string; // "all cities" or the city list
+  startedAt: string;
+  expiresAt: string;
+  isActive: boolean;
+}
 export interface TenantDashboardRecentView {
   id: string;
   title: string;
@@ -47,24 +62,31 @@ export interface TenantDashboardRecentView {
 export interface TenantDashboardData {
   bookings: TenantDashboardBooking[];
   subscriptions: TenantDashboardSubscription[];
+  bundles: TenantDashboardBundle[];
   recentlyViewed: TenantDashboardRecentView[];
+  favourites: FavouriteRoom[];
 }
+const DASHBOARD_FAVOURITES_LIMIT = 10;
 export class TenantDashboardService {
   private prisma;
-  constructor(prismaClient?: any) {
+  private favouriteService: FavouriteService;
+  constructor(prismaClient?: any, favouriteService?: FavouriteService) {
     this.prisma = prismaClient || getPrismaClient();
+    this.favouriteService = favouriteService || new FavouriteService(this.prisma);
   }
 
   /**
    * GET DASHBOARD — Aggregated endpoint
    *
-   * MULTI-CITY: Returns ALL subscriptions (one per city).
-   * Phone masking: visible if tenant has ANY active subscription or booking is APPROVED.
+   * MULTI-CITY: Returns ALL subscriptions (one per city) and bundles.
+   * Phone masking: visible if tenant has ANY active subscription or bundle, or booking is APPROVED.
    */
   async getDashboard(tenantId: string): Promise<TenantDashboardData> {
     let bookingsRaw: any[] = [];
     let subscriptionsRaw: any[] = [];
+    let bundlesRaw: any[] = [];
     let viewsRaw: any[] = [];
+    let favourites: FavouriteRoom[] = [];
     try {
       logger.info('[DASHBOARD DIAG] Fetching bookings...', {
         tenantId
@@ -99,6 +121,17 @@ export class TenantDashboardService {
       });
       throw err;
     }
+    try {
+      bundlesRaw = await this.fetchBundles(tenantId);
+    } catch (err: any) {
+      logger.error('[DASHBOARD DIAG] BUNDLES QUERY FAILED:', {
+        name: err?.name,
+        message: err?.message,
+        code: err?.code,
+        meta: err?.meta
+      });
+      throw err;
+    }
     try {
       logger.info('[DASHBOARD DIAG] Fetching recently viewed...', {
         tenantId
@@ -117,6 +150,18 @@ export class TenantDashboardService {
       throw err;
     }
 
+    try {
+      favourites = await this.favouriteService.list(tenantId, DASHBOARD_FAVOURITES_LIMIT);
+    } catch (err: any) {
+      logger.error('[DASHBOARD DIAG] FAVOURITES QUERY FAILED:', {
+        name: err?.name,
+        message: err?.message,
+        code: err?.code,
+        meta: err?.meta
+      });
+      throw err;
+    }
+
     // Compute isActive for each subscription
     const now = new Date();
     const subscriptions: TenantDashboardSubscription[] = subscriptionsRaw.map((s: any) => ({
@@ -128,12 +173,29 @@ export class TenantDashboardService {
       isActive: !s.expiresAt || (s.expiresAt instanceof Date ? s.expiresAt > now : new Date(s.expiresAt) > now)
     }));
 
-    // Phone masking: visible if tenant has ANY active subscription
-    const hasAnyActiveSubscription = subscriptions.some((s) => s.isActive);
+    // Bundle coverage: which cities each bundle unlocks
+    const operatingCities = CITIES.map((c) => c.id);
+    const bundles: TenantDashboardBundle[] = bundlesRaw.map((b: any) => {
+      const expiresAt = b.expiresAt instanceof Date ? b.expiresAt : new Date(b.expiresAt);
+      return {
+        id: b.id,
+        bundleCode: b.bundleCode,
+        plan: b.plan,
+        allCities: b.allCities,
+        cities: coveredCities(b, operatingCities),
+        coverage: coverageLabel(b),
+        startedAt: b.startedAt instanceof Date ? b.startedAt.toISOString() : b.startedAt,
+        expiresAt: expiresAt.toISOString(),
+        isActive: b.plan !== 'FREE' && expiresAt > now
+      };
+    });
+
+    // Phone masking: visible if tenant has ANY active subscription or bundle
+    const hasAnyActiveSubscription = subscriptions.some((s) => s.isActive) || bundles.some((b) => b.isActive);
 
     // Map bookings with owner phone masking
     const bookings: TenantDashboardBooking[] = bookingsRaw.map((b: any) => {
-      const canSeePhone = hasAnyActiveSubscription || b.status === 'APPROVED';
+      const canSeePhone = hasAnyActiveSubscription || b.status === 'APPROVED' || b.status === 'CONFIRMED' || b.status === 'MOVED_IN';
       return {
         id: b.id,
         roomId: b.roomId,
@@ -169,12 +231,16 @@ export class TenantDashboardService {
       tenantId,
       bookingCount: bookings.length,
       subscriptionCount: subscriptions.length,
-      recentViewCount: recentlyViewed.length
+      bundleCount: bundles.length,
+      recentViewCount: recentlyViewed.length,
+      favouriteCount: favourites.length
     });
     return {
       bookings,
       subscriptions,
-      recentlyViewed
+      bundles,
+      recentlyViewed,
+      favourites
     };
   }
 
@@ -226,6 +292,20 @@ export class TenantDashboardService {
     });
   }
 
+  /**
+   * FETCH BUNDLES — multi-city purchases, newest first
+   */
+  private async fetchBundles(tenantId: string) {
+    return this.prisma.tenantBundle.findMany({
+      where: {
+        tenantId
+      },
+      orderBy: {
+        startedAt: 'desc'
+      }
+    });
+  }
+
   /**
    * FETCH RECENTLY VIEWED
    */
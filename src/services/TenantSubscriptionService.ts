@@ -1,6 +1,18 @@
 import { logger } from '../utils/logger';
 import { getPrismaClient } from '../utils/prisma';
+import { withSerializationRetry } from '../utils/serializationRetry';
 import { normalizeCity } from '../utils/normalize';
+import { writeOutboxEvent } from './OutboxWriter';
+import { OutboxAggregateType, OutboxEventType, PaymentVerifiedPayload } from './OutboxEventTypes';
+import { couponService } from './CouponService';
+import { PaidPeriod, paidPeriod, renewalPlanFor } from './SubscriptionExpiryPolicy';
+import { BusinessLogicError } from '../errors/AppErrors';
+import { planCatalogService } from './PlanCatalogService';
+import { cityPricingService } from './CityPricingService';
+import { bundleService } from './BundleService';
+import { bundleTermsOf, coverageLabel } from './BundlePolicy';
+import { contactTopUpService } from './ContactTopUpService';
+import { topUpTermsOf } from './ContactQuotaPolicy';
 import crypto from 'crypto';
 
 /**
@@ -11,15 +23,11 @@ import crypto from 'crypto';
  * All tenant-only lookups use findMany (returns all city subscriptions).
  */
 
-// Default plan durations (days)
-const PLAN_DURATION_DAYS: Record<string, number> = {
-  FREE: 0,
-  GOLD: 30,
-  PLATINUM: 30
-};
+// Plan names, durations and features come from the plan catalogue
+// (PlanCatalogService)
 interface UpgradeSubscriptionInput {
   userId: string;
-  plan: 'FREE' | 'GOLD' | 'PLATINUM';
+  plan: string;
   city: string;
   paymentId: string;
 }
@@ -37,61 +45,94 @@ export class TenantSubscriptionService {
 
   /**
    * CREATE ORDER (for payment flow)
+   *
+   * Applies the coupon (if any) before the Razorpay order is created, then
+   * records the CREATED payment and the coupon redemption together. The
+   * applied discount is kept on Payment.metadata.coupon.
+   *
+   * The order is priced at the version in effect, or at `pricingId` (as
+   * returned by getPricing) if the price changed moments ago. The payment
+   * keeps that version and the plan's length; later catalogue changes
+   * don't touch either.
    */
   async createOrder(data: {
+    tenantId: string;
     plan: string;
     city: string;
     amount: number;
+    couponCode?: string;
+    pricingId?: string;
   }) {
     try {
       const {
+        tenantId,
         plan,
-        city
+        city,
+        couponCode,
+        pricingId
       } = data;
       const normalizedPlan = plan.toUpperCase();
       const normalizedCity = normalizeCity(city);
-      const validPlans = ['FREE', 'GOLD', 'PLATINUM'];
-      if (!validPlans.includes(normalizedPlan)) {
-        throw new Error('Invalid plan. Must be FREE, GOLD, or PLATINUM');
-      }
-      const pricing = await this.prisma.cityPricing.findUnique({
-        where: {
-          city_plan: {
-            city: normalizedCity,
-            plan: normalizedPlan
-          }
-        }
-      });
+      const catalogPlan = await planCatalogService.requirePurchasablePlan(normalizedPlan);
+      const pricing = await cityPricingService.getOrderPrice(normalizedCity, normalizedPlan, pricingId);
       if (!pricing) {
         throw new Error(`Pricing not found for ${normalizedCity} - ${normalizedPlan}`);
       }
+      const originalAmount = pricing.price * 100; // paise
+      const quote = couponCode ? await couponService.quote(tenantId, {
+        code: couponCode,
+        plan: normalizedPlan,
+        city: normalizedCity,
+        originalAmount
+      }) : null;
+
+      const order = await this.createRazorpayOrder(quote ? quote.finalAmount : originalAmount);
 
-      // Lazy-load Razorpay only when needed
-      let razorpay;
-      try {
-        const Razorpay = require('razorpay');
-        razorpay = new Razorpay({
-          key_id: process.env.RAZORPAY_KEY_ID || '',
-          key_secret: process.env.RAZORPAY_KEY_SECRET || ''
+      // If the coupon was used up in the meantime this throws and the
+      // Razorpay order is simply never paid
+      const payment = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.payment.create({
+          data: {
+            tenantId,
+            orderId: order.id,
+            amount: Number(order.amount),
+            plan: normalizedPlan,
+            city: normalizedCity,
+            status: 'CREATED',
+            pricingId: pricing.id,
+            durationDays: catalogPlan.durationDays,
+            metadata: quote ? {
+              coupon: { ...quote.coupon
+              }
+            } : undefined
+          }
         });
-      } catch {
-        throw new Error('Razorpay SDK not available');
-      }
-      const order = await razorpay.orders.create({
-        amount: pricing.price * 100,
-        // paise
-        currency: 'INR',
-        receipt: `sub_${Date.now()}`
+        if (quote) {
+          await couponService.redeem(tx, {
+            tenantId,
+            paymentId: created.id,
+            quote
+          });
+        }
+        return created;
       });
       logger.info('Razorpay order created', {
         orderId: order.id,
+        paymentId: payment.id,
         plan: normalizedPlan,
-        city: normalizedCity
+        city: normalizedCity,
+        pricingId: pricing.id,
+        coupon: quote?.code
       });
       return {
         orderId: order.id,
         amount: order.amount,
-        currency: order.currency
+        currency: order.currency,
+        paymentId: payment.id,
+        pricingId: pricing.id,
+        originalAmount,
+        discountAmount: quote?.discountAmount ?? 0,
+        couponCode: quote?.code ?? null
       };
     } catch (error: any) {
       logger.error('Error creating order', {
@@ -101,6 +142,127 @@ export class TenantSubscriptionService {
     }
   }
 
+  /**
+   * CREATE BUNDLE ORDER — one payment for a multi-city bundle
+   *
+   * The bundle's terms are copied onto Payment.metadata.bundle, so what the
+   * tenant gets is what was on sale when they ordered. Verified through the
+   * same flow as a city plan (activateFromPayment).
+   */
+  async createBundleOrder(tenantId: string, bundleCode: string) {
+    try {
+      const {
+        terms,
+        amount
+      } = await bundleService.quote(bundleCode);
+      const order = await this.createRazorpayOrder(amount);
+      const payment = await this.prisma.payment.create({
+        data: {
+          tenantId,
+          orderId: order.id,
+          amount: Number(order.amount),
+          plan: terms.plan,
+          city: coverageLabel(terms),
+          bundleCode: terms.code,
+          durationDays: terms.durationDays,
+          status: 'CREATED',
+          metadata: {
+            bundle: { ...terms
+            }
+          }
+        }
+      });
+      logger.info('Razorpay bundle order created', {
+        orderId: order.id,
+        paymentId: payment.id,
+        bundle: terms.code,
+        plan: terms.plan
+      });
+      return {
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        paymentId: payment.id,
+        bundle: terms
+      };
+    } catch (error: any) {
+      logger.error('Error creating bundle order', {
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * CREATE TOP-UP ORDER — extra contact unlocks, usable in any city
+   *
+   * A CONTACT_TOP_UP payment with the pack's terms on Payment.metadata.topUp.
+   * Verified through the same flow as a plan (activateFromPayment), which
+   * grants the unlocks.
+   */
+  async createTopUpOrder(tenantId: string, packCode: string) {
+    try {
+      const {
+        terms,
+        amount
+      } = await contactTopUpService.quote(packCode);
+      const order = await this.createRazorpayOrder(amount);
+      const payment = await this.prisma.payment.create({
+        data: {
+          tenantId,
+          purpose: 'CONTACT_TOP_UP',
+          orderId: order.id,
+          amount: Number(order.amount),
+          city: 'all cities',
+          status: 'CREATED',
+          metadata: {
+            topUp: { ...terms
+            }
+          }
+        }
+      });
+      logger.info('Razorpay top-up order created', {
+        orderId: order.id,
+        paymentId: payment.id,
+        pack: terms.code,
+        unlocks: terms.unlocks
+      });
+      return {
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        paymentId: payment.id,
+        topUp: terms
+      };
+    } catch (error: any) {
+      logger.error('Error creating top-up order', {
+        error: error.message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lazy-load Razorpay only when needed
+   */
+  private async createRazorpayOrder(amount: number) {
+    let razorpay;
+    try {
+      const Razorpay = require('razorpay');
+      razorpay = new Razorpay({
+        key_id: process.env.RAZORPAY_KEY_ID || '',
+        key_secret: process.env.RAZORPAY_KEY_SECRET || ''
+      });
+    } catch {
+      throw new Error('Razorpay SDK not available');
+    }
+    return razorpay.orders.create({
+      amount,
+      currency: 'INR',
+      receipt: `sub_${Date.now()}`
+    });
+  }
+
   /**
    * VERIFY PAYMENT
    */
@@ -140,13 +302,12 @@ export class TenantSubscriptionService {
       } = input;
       const normalizedPlan = plan.toUpperCase();
       const normalizedCity = normalizeCity(city);
-      const validPlans = ['FREE', 'GOLD', 'PLATINUM'];
-      if (!validPlans.includes(normalizedPlan)) {
-        throw new Error('Invalid plan. Must be FREE, GOLD, or PLATINUM');
+      if (!(await planCatalogService.getPlan(normalizedPlan))) {
+        throw new Error(`Invalid plan: ${normalizedPlan}`);
       }
 
       // Calculate expiry
-      const durationDays = PLAN_DURATION_DAYS[normalizedPlan] || 30;
+      const durationDays = await planCatalogService.getDurationDays(normalizedPlan);
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + durationDays);
 
@@ -169,7 +330,10 @@ export class TenantSubscriptionService {
         },
         update: {
           plan: normalizedPlan,
-          expiresAt
+          expiresAt,
+          renewalReminderSentAt: null,
+          previousPlan: null,
+          downgradedAt: null
         }
       });
       logger.info('Subscription upgraded successfully', {
@@ -187,6 +351,310 @@ export class TenantSubscriptionService {
     }
   }
 
+  /**
+   * ACTIVATE FROM PAYMENT — mark a subscription payment VERIFIED and upgrade
+   * the tenant's subscription for the payment's city (or grant the bundle
+   * or contact top-up it paid for), atomically.
+   *
+   * Shared by POST /api/payments/verify and the Razorpay webhook, so it must
+   * only run once the caller has checked the checkout or webhook signature.
+   * Idempotent: a payment already VERIFIED (or refunded) is left untouched,
+   * which is also how the loser of a verify/webhook race ends up after its
+   * serialization retry.
+   */
+  async activateFromPayment(paymentId: string, razorpayPaymentId: string) {
+    return withSerializationRetry('activateFromPayment', {
+      paymentId
+    }, () => this.prisma.$transaction(async (tx: any) => {
+      // Re-read payment inside transaction
+      const payment = await tx.payment.findUnique({
+        where: {
+          id: paymentId
+        }
+      });
+      if (!payment || payment.status === 'VERIFIED' || payment.status === 'PARTIALLY_REFUNDED' || payment.status === 'REFUNDED') {
+        return {
+          alreadyProcessed: true,
+          payment,
+          subscription: null,
+          bundle: null,
+          topUp: null
+        };
+      }
+      const topUpTerms = payment.purpose === 'CONTACT_TOP_UP' ? topUpTermsOf(payment) : null;
+      if (payment.purpose === 'CONTACT_TOP_UP' && !topUpTerms) {
+        throw new Error(`Top-up payment has no top-up terms: ${payment.id}`);
+      }
+      if (!topUpTerms && (payment.purpose !== 'SUBSCRIPTION' || !payment.plan)) {
+        throw new Error('Not a subscription payment');
+      }
+
+      // Mark payment as VERIFIED
+      const updatedPayment = await tx.payment.update({
+        where: {
+          id: payment.id
+        },
+        data: {
+          status: 'VERIFIED',
+          razorpayPaymentId,
+          utr: razorpayPaymentId,
+          verifiedAt: new Date()
+        }
+      });
+
+      // Upgrade subscription INSIDE transaction — COMPOSITE UPSERT
+      // (or grant the top-up's unlocks)
+      const {
+        subscription,
+        bundle
+      } = topUpTerms ? {
+        subscription: null,
+        bundle: null
+      } : await this.applyPaidPlan(tx, payment, new Date());
+      const topUp = topUpTerms ? await contactTopUpService.applyPaidTopUp(tx, payment, topUpTerms, updatedPayment.verifiedAt) : null;
+
+      // Invoice is issued by the outbox worker
+      const verifiedPayload: PaymentVerifiedPayload = {
+        paymentId: payment.id,
+        tenantId: payment.tenantId,
+        purpose: payment.purpose,
+        plan: payment.plan,
+        city: payment.city,
+        amount: payment.amount,
+        verifiedAt: updatedPayment.verifiedAt.toISOString()
+      };
+      await writeOutboxEvent(tx, {
+        aggregateType: OutboxAggregateType.PAYMENT,
+        aggregateId: payment.id,
+        eventType: OutboxEventType.PAYMENT_VERIFIED,
+        payload: verifiedPayload
+      });
+      logger.info('Subscription activated from payment', {
+        paymentId: payment.id,
+        subscriptionId: subscription?.id,
+        bundleId: bundle?.id,
+        topUpId: topUp?.id,
+        plan: payment.plan,
+        city: payment.city
+      });
+      return {
+        alreadyProcessed: false,
+        payment: updatedPayment,
+        subscription,
+        bundle,
+        topUp
+      };
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    }));
+  }
+
+  /**
+   * REPAIR FROM PAYMENT — re-apply the upgrade of a VERIFIED subscription
+   * payment whose subscription write was lost (found by reconciliation).
+   * The period recorded at activation is restored as it was; for payments
+   * without one, the paid period runs from verifiedAt, not from the repair.
+   */
+  async repairFromPayment(paymentId: string) {
+    return this.prisma.$transaction(async (tx: any) => {
+      const payment = await tx.payment.findUnique({
+        where: {
+          id: paymentId
+        }
+      });
+      if (!payment || payment.status !== 'VERIFIED' || payment.purpose !== 'SUBSCRIPTION' || !payment.plan) {
+        throw new Error('Only verified subscription payments can be repaired');
+      }
+      const {
+        subscription,
+        bundle
+      } = await this.applyPaidPlan(tx, payment, payment.verifiedAt || payment.createdAt);
+      logger.warn('Subscription upgrade repaired from payment', {
+        paymentId: payment.id,
+        subscriptionId: subscription?.id,
+        bundleId: bundle?.id,
+        plan: payment.plan,
+        city: payment.city
+      });
+      return subscription ?? bundle;
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    });
+  }
+
+  /**
+   * APPLY VERIFIED PAYMENT — POST /upgrade for a paid plan. Only the tenant's
+   * own VERIFIED subscription payment for exactly this plan and city counts,
+   * and it is applied at most once: activateFromPayment() has normally
+   * applied it already (period recorded), in which case the subscription is
+   * returned as it is.
+   *
+   * @throws BusinessLogicError when the payment doesn't pay for this upgrade
+   */
+  async applyVerifiedPayment(tenantId: string, plan: string, city: string, razorpayPaymentId: string) {
+    const normalizedPlan = plan.toUpperCase();
+    const normalizedCity = normalizeCity(city);
+    return this.prisma.$transaction(async (tx: any) => {
+      const payment = await tx.payment.findFirst({
+        where: {
+          razorpayPaymentId,
+          tenantId,
+          purpose: 'SUBSCRIPTION',
+          status: 'VERIFIED'
+        }
+      });
+      if (!payment || payment.bundleCode || payment.plan?.toUpperCase() !== normalizedPlan || normalizeCity(payment.city) !== normalizedCity) {
+        throw new BusinessLogicError('Payment verification required. No verified payment of yours matches this plan and city.');
+      }
+      if (payment.periodStart) {
+        return tx.tenantSubscription.findUnique({
+          where: {
+            tenantId_city: {
+              tenantId,
+              city: normalizedCity
+            }
+          }
+        });
+      }
+      const {
+        subscription
+      } = await this.applyPaidPlan(tx, payment, payment.verifiedAt || payment.createdAt);
+      logger.warn('Subscription upgrade applied from an unapplied verified payment', {
+        paymentId: payment.id,
+        subscriptionId: subscription?.id,
+        plan: normalizedPlan,
+        city: normalizedCity
+      });
+      return subscription;
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    });
+  }
+
+  /**
+   * Upsert the tenant's subscription for the payment's city to the paid
+   * plan for one catalogue period — from `paidAt`, or from the current expiry
+   * when renewing the same plan early. Starts a new reminder cycle.
+   * Bundle payments grant the bundle instead.
+   *
+   * The period bought is recorded on the payment (refunds pro-rate against
+   * it). A repair restores that recorded period instead of buying another.
+   */
+  private async applyPaidPlan(tx: any, payment: {
+    id: string;
+    tenantId: string;
+    plan: string;
+    city: string;
+    durationDays: number | null;
+    bundleCode: string | null;
+    metadata: unknown;
+    periodStart: Date | null;
+    periodEnd: Date | null;
+  }, paidAt: Date) {
+    const terms = bundleTermsOf(payment);
+    if (payment.bundleCode && !terms) {
+      throw new Error(`Bundle payment has no bundle terms: ${payment.bundleCode}`);
+    }
+    const recorded = payment.periodStart && payment.periodEnd ? {
+      start: payment.periodStart,
+      end: payment.periodEnd
+    } : null;
+    const applied = terms ? {
+      subscription: null,
+      ...(await bundleService.applyPaidBundle(tx, payment.tenantId, terms, paidAt, recorded))
+    } : {
+      bundle: null,
+      ...(await this.applyPaidCityPlan(tx, payment, paidAt, recorded))
+    };
+    if (!recorded) {
+      await tx.payment.update({
+        where: {
+          id: payment.id
+        },
+        data: {
+          periodStart: applied.period.start,
+          periodEnd: applied.period.end
+        }
+      });
+    }
+    return {
+      subscription: applied.subscription,
+      bundle: applied.bundle
+    };
+  }
+  private async applyPaidCityPlan(tx: any, payment: {
+    tenantId: string;
+    plan: string;
+    city: string;
+    durationDays: number | null;
+    bundleCode: string | null;
+    metadata: unknown;
+  }, paidAt: Date, recorded: PaidPeriod | null) {
+    const normalizedPlan = payment.plan.toUpperCase();
+    const normalizedCity = normalizeCity(payment.city);
+    const durationDays = await planCatalogService.getPaidDurationDays(payment);
+    const current = await tx.tenantSubscription.findUnique({
+      where: {
+        tenantId_city: {
+          tenantId: payment.tenantId,
+          city: normalizedCity
+        }
+      }
+    });
+    const period = recorded ?? paidPeriod(current, normalizedPlan, paidAt, durationDays);
+    const expiresAt = period.end;
+    const subscription = await tx.tenantSubscription.upsert({
+      where: {
+        tenantId_city: {
+          tenantId: payment.tenantId,
+          city: normalizedCity
+        }
+      },
+      create: {
+        tenantId: payment.tenantId,
+        plan: normalizedPlan,
+        city: normalizedCity,
+        expiresAt
+      },
+      update: {
+        plan: normalizedPlan,
+        expiresAt,
+        renewalReminderSentAt: null,
+        previousPlan: null,
+        downgradedAt: null
+      }
+    });
+    return {
+      subscription,
+      period
+    };
+  }
+
+  /**
+   * ONE-CLICK RENEW
+   *
+   * Creates an order for the plan the tenant holds (or held before the
+   * expiry downgrade) in this city, through the regular createOrder flow.
+   * Paying for it extends the current period rather than restarting it.
+   */
+  async renew(tenantId: string, city: string, couponCode?: string) {
+    const subscription = await this.getSubscriptionByCity(tenantId, city);
+    const plan = subscription ? renewalPlanFor(subscription) : null;
+    if (!subscription || !plan) {
+      throw new BusinessLogicError(`No paid subscription to renew in ${normalizeCity(city)}`);
+    }
+    return this.createOrder({
+      tenantId,
+      plan,
+      city: subscription.city,
+      amount: 0,
+      couponCode
+    });
+  }
+
   /**
    * GET USER SUBSCRIPTIONS — ALL CITIES
    *
@@ -240,26 +708,39 @@ export class TenantSubscriptionService {
 
   /**
    * GET PRICING FOR CITY
+   *
+   * Prices in effect now, each with the next scheduled change (if any) so
+   * tenants see it coming. Send pricingId back with the order to keep the
+   * price shown.
    */
   async getPricing(city: string) {
     try {
       const normalizedCity = normalizeCity(city);
-      const pricingRecords = await this.prisma.cityPricing.findMany({
-        where: {
-          city: normalizedCity
-        },
-        orderBy: {
-          price: 'asc'
-        }
-      });
-      if (pricingRecords.length === 0) {
+      const pricingRecords = (await cityPricingService.getCurrentPrices({
+        city: normalizedCity
+      })).sort((a, b) => a.price - b.price);
+      // Only plans tenants can currently be on; inactive ones are hidden
+      const plans = await planCatalogService.getPlans();
+      const planByName = new Map(plans.filter((p) => p.isActive).map((p) => [p.name, p]));
+      const offered = pricingRecords.filter((p) => planByName.has(p.plan));
+      if (offered.length === 0) {
         throw new Error(`City pricing not configured for ${normalizedCity}`);
       }
-      return pricingRecords.map((p: any) => ({
-        plan: p.plan,
-        price: p.price,
-        features: p.plan === 'PLATINUM' ? ['Unlimited views', 'Contact info', 'Call support'] : p.plan === 'GOLD' ? ['Unlimited views', 'Contact info'] : ['Limited property views']
-      }));
+      return offered.map((p) => {
+        const plan = planByName.get(p.plan)!;
+        return {
+          plan: p.plan,
+          displayName: plan.displayName,
+          price: p.price,
+          pricingId: p.pricingId,
+          durationDays: plan.durationDays,
+          features: plan.features,
+          upcomingChange: p.upcoming ? {
+            price: p.upcoming.price,
+            effectiveFrom: p.upcoming.effectiveFrom
+          } : null
+        };
+      });
     } catch (error: any) {
       logger.error('Error fetching pricing', {
         error: error.message
@@ -0,0 +1,125 @@
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+import { createIntervalWorker } from '../utils/intervalWorker';
+import { writeOutboxEvent } from './OutboxWriter';
+import { OutboxAggregateType, OutboxEventType, VisitReminderDuePayload } from './OutboxEventTypes';
+const prisma = getPrismaClient();
+
+// =============================================================================
+// VISIT REMINDER WORKER — Queues reminders for upcoming site visits
+//
+// Each sweep finds CONFIRMED visits starting within VISIT_REMINDER_HOURS whose
+// reminder hasn't been sent, claims Visit.reminderSentAt and writes a
+// VISIT_REMINDER_DUE outbox event in the same transaction. The outbox worker
+// notifies the tenant and the host (assigned agent, or the owner).
+//
+// Rescheduling clears reminderSentAt, so a moved visit is reminded again.
+// Safe on several instances: the claim is a conditional update.
+// =============================================================================
+
+const BATCH_SIZE = 100;
+const HOUR_MS = 60 * 60 * 1000;
+const worker = createIntervalWorker({
+  name: 'Visit reminder worker',
+  event: 'VISIT_REMINDER',
+  intervalMs: env.VISIT_REMINDER_SWEEP_INTERVAL_MINUTES * 60 * 1000,
+  runOnStart: true,
+  startContext: {
+    reminderHours: env.VISIT_REMINDER_HOURS
+  },
+  sweep: () => runVisitReminderSweep()
+});
+
+/**
+ * Start the visit reminder loop. Call once on server startup.
+ */
+export function startVisitReminderWorker(): void {
+  worker.start();
+}
+
+/**
+ * Stop the visit reminder loop. Call on SIGTERM/SIGINT.
+ */
+export function stopVisitReminderWorker(): void {
+  worker.stop();
+}
+
+/**
+ * One sweep: queue reminders for confirmed visits starting soon.
+ */
+export async function runVisitReminderSweep(now: Date = new Date()): Promise<number> {
+  return worker.exclusive(async () => {
+    const horizon = new Date(now.getTime() + env.VISIT_REMINDER_HOURS * HOUR_MS);
+    const due = await prisma.visit.findMany({
+      where: {
+        status: 'CONFIRMED',
+        reminderSentAt: null,
+        scheduledAt: {
+          gt: now,
+          lte: horizon
+        }
+      },
+      include: {
+        room: {
+          select: {
+            title: true,
+            ownerId: true
+          }
+        }
+      },
+      orderBy: {
+        scheduledAt: 'asc'
+      },
+      take: BATCH_SIZE
+    });
+    let queued = 0;
+    for (const visit of due) {
+      try {
+        const claimed = await prisma.$transaction(async (tx) => {
+          const claim = await tx.visit.updateMany({
+            where: {
+              id: visit.id,
+              status: 'CONFIRMED',
+              scheduledAt: visit.scheduledAt,
+              reminderSentAt: null
+            },
+            data: {
+              reminderSentAt: now
+            }
+          });
+          if (claim.count === 0) return false;
+          const payload: VisitReminderDuePayload = {
+            visitId: visit.id,
+            roomId: visit.roomId,
+            roomTitle: visit.room.title,
+            tenantId: visit.tenantId,
+            ownerId: visit.room.ownerId,
+            hostAgentId: visit.hostAgentId,
+            scheduledAt: visit.scheduledAt!.toISOString()
+          };
+          await writeOutboxEvent(tx, {
+            aggregateType: OutboxAggregateType.VISIT,
+            aggregateId: visit.id,
+            eventType: OutboxEventType.VISIT_REMINDER_DUE,
+            payload
+          });
+          return true;
+        });
+        if (claimed) queued++;
+      } catch (error: any) {
+        logger.error('Visit reminder: Failed to queue reminder', {
+          visitId: visit.id,
+          error: error.message
+        });
+      }
+    }
+    if (queued > 0) {
+      logger.info('Visit reminder sweep complete', {
+        event: 'VISIT_REMINDER_SWEEP',
+        queued
+      });
+    }
+    return queued;
+  }, 0);
+}
@@ -0,0 +1,526 @@
+import { PrismaClient, Prisma, VisitStatus, Role } from '@prisma/client';
+import { getPrismaClient } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { withSerializationRetry } from '../utils/serializationRetry';
+import { NotFoundError, ForbiddenError, ValidationError, BusinessLogicError, DuplicateError } from '../errors/AppErrors';
+import { writeOutboxEvent } from './OutboxWriter';
+import { OutboxAggregateType, OutboxEventType, VisitAction, VisitStatusChangedPayload } from './OutboxEventTypes';
+import { ProposeVisitInput, Visit, VisitListQuery, UpcomingVisitSummary } from '../models/Visit';
+
+/**
+ * VisitService — site visits before a tenant commits to a room
+ *
+ * FLOW:
+ *   tenant proposes 1–3 slots ──► PROPOSED
+ *   owner / assigned agent     ──► confirm(slot) → CONFIRMED
+ *                              ──► reschedule(time) → CONFIRMED at new time
+ *                              ──► decline → DECLINED
+ *   tenant                     ──► cancel → CANCELLED
+ *
+ * CONFLICTS: a confirmed visit may not overlap another confirmed visit for
+ * the same room, nor for the same hosting agent. Checked and written inside
+ * a Serializable transaction so two hosts confirming at once can't both win.
+ *
+ * Every change writes VISIT_STATUS_CHANGED to the outbox; reminders are
+ * queued by VisitReminderWorker as VISIT_REMINDER_DUE.
+ */
+
+const OPEN_VISIT_STATUSES: VisitStatus[] = [VisitStatus.PROPOSED, VisitStatus.CONFIRMED];
+const MINUTE_MS = 60 * 1000;
+type VisitActorRole = 'TENANT' | 'OWNER' | 'AGENT';
+const visitInclude = {
+  room: {
+    select: {
+      id: true,
+      title: true,
+      ownerId: true
+    }
+  },
+  tenant: {
+    select: {
+      name: true
+    }
+  }
+} satisfies Prisma.VisitInclude;
+type VisitWithRelations = Prisma.VisitGetPayload<{
+  include: typeof visitInclude;
+}>;
+export class VisitService {
+  private prisma: PrismaClient;
+  constructor(prismaClient?: PrismaClient) {
+    this.prisma = prismaClient || getPrismaClient();
+    this.propose = this.propose.bind(this);
+    this.confirm = this.confirm.bind(this);
+    this.reschedule = this.reschedule.bind(this);
+    this.decline = this.decline.bind(this);
+    this.cancel = this.cancel.bind(this);
+    this.list = this.list.bind(this);
+    this.getUpcomingForRooms = this.getUpcomingForRooms.bind(this);
+  }
+
+  /**
+   * Tenant proposes candidate slots for a live room.
+   * One open visit per tenant per room.
+   */
+  async propose(tenantId: string, input: ProposeVisitInput): Promise<Visit> {
+    const room = await this.prisma.room.findUnique({
+      where: {
+        id: input.roomId
+      },
+      select: {
+        id: true,
+        title: true,
+        ownerId: true,
+        reviewStatus: true,
+        isActive: true
+      }
+    });
+    if (!room) {
+      throw new NotFoundError('Room', input.roomId);
+    }
+    if (room.reviewStatus !== 'APPROVED' || !room.isActive) {
+      throw new BusinessLogicError('Visits can only be requested for live listings');
+    }
+    const now = new Date();
+    const slots = input.slots.map((s) => new Date(s)).sort((a, b) => a.getTime() - b.getTime());
+    if (slots.some((slot) => slot <= now)) {
+      throw new ValidationError('Time slots must be in the future');
+    }
+    if (input.bookingId) {
+      const booking = await this.prisma.booking.findUnique({
+        where: {
+          id: input.bookingId
+        },
+        select: {
+          tenantId: true,
+          roomId: true
+        }
+      });
+      if (!booking || booking.tenantId !== tenantId || booking.roomId !== room.id) {
+        throw new ValidationError('bookingId must be one of your bookings for this room');
+      }
+    }
+    // Serializable so two concurrent proposals can't both pass the open-visit check
+    const visit = await withSerializationRetry('proposeVisit', {
+      tenantId,
+      roomId: room.id
+    }, () => this.prisma.$transaction(async (tx) => {
+      const open = await tx.visit.findFirst({
+        where: {
+          tenantId,
+          roomId: room.id,
+          status: {
+            in: OPEN_VISIT_STATUSES
+          },
+          OR: [{
+            scheduledAt: null
+          }, {
+            scheduledAt: {
+              gte: now
+            }
+          }]
+        },
+        select: {
+          id: true
+        }
+      });
+      if (open) {
+        throw new DuplicateError('You already have an open visit request for this room');
+      }
+      const created = await tx.visit.create({
+        data: {
+          roomId: room.id,
+          tenantId,
+          bookingId: input.bookingId ?? null,
+          proposedSlots: slots,
+          durationMinutes: input.durationMinutes,
+          note: input.note ?? null
+        },
+        include: visitInclude
+      });
+      await this.writeVisitEvent(tx, created, 'PROPOSED', {
+        id: tenantId,
+        role: 'TENANT'
+      });
+      return created;
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    }));
+    logger.info('Visit proposed', {
+      visitId: visit.id,
+      roomId: room.id,
+      slots: slots.length
+    });
+    return this.toView(visit);
+  }
+
+  /**
+   * Owner or assigned agent accepts one of the proposed slots.
+   * An agent who confirms becomes the visit's host.
+   */
+  async confirm(actorId: string, role: string, visitId: string, slot: string): Promise<Visit> {
+    const {
+      visit,
+      actorRole
+    } = await this.loadForHost(actorId, role, visitId);
+    if (visit.status !== VisitStatus.PROPOSED) {
+      throw new BusinessLogicError(`Cannot confirm a ${visit.status.toLowerCase()} visit`);
+    }
+    const start = new Date(slot);
+    if (!visit.proposedSlots.some((s) => s.getTime() === start.getTime())) {
+      throw new ValidationError('slot must be one of the proposed time slots');
+    }
+    return this.schedule(visit, start, actorId, actorRole, 'CONFIRMED');
+  }
+
+  /**
+   * Owner or assigned agent moves a proposed or confirmed visit to a new time.
+   */
+  async reschedule(actorId: string, role: string, visitId: string, scheduledAt: string, reason?: string): Promise<Visit> {
+    const {
+      visit,
+      actorRole
+    } = await this.loadForHost(actorId, role, visitId);
+    if (!OPEN_VISIT_STATUSES.includes(visit.status)) {
+      throw new BusinessLogicError(`Cannot reschedule a ${visit.status.toLowerCase()} visit`);
+    }
+    return this.schedule(visit, new Date(scheduledAt), actorId, actorRole, 'RESCHEDULED', reason);
+  }
+
+  /**
+   * Owner or assigned agent turns the visit down.
+   */
+  async decline(actorId: string, role: string, visitId: string, reason?: string): Promise<Visit> {
+    const {
+      visit,
+      actorRole
+    } = await this.loadForHost(actorId, role, visitId);
+    return this.close(visit, VisitStatus.DECLINED, actorId, actorRole, reason);
+  }
+
+  /**
+   * Tenant withdraws their visit request.
+   */
+  async cancel(tenantId: string, visitId: string, reason?: string): Promise<Visit> {
+    const visit = await this.findVisit(visitId);
+    if (visit.tenantId !== tenantId) {
+      throw new ForbiddenError('You can only cancel your own visits');
+    }
+    return this.close(visit, VisitStatus.CANCELLED, tenantId, 'TENANT', reason);
+  }
+
+  /**
+   * Visits the caller takes part in: tenants see their own, owners those on
+   * their rooms, agents those on their actively assigned rooms.
+   */
+  async list(userId: string, role: string, query: VisitListQuery): Promise<Visit[]> {
+    let scope: Prisma.VisitWhereInput;
+    if (role === Role.TENANT) {
+      scope = {
+        tenantId: userId
+      };
+    } else if (role === Role.OWNER) {
+      scope = {
+        room: {
+          ownerId: userId
+        }
+      };
+    } else if (role === Role.AGENT) {
+      scope = {
+        roomId: {
+          in: await this.assignedRoomIds(userId)
+        }
+      };
+    } else {
+      throw new ForbiddenError('Visits are available to tenants, owners and agents');
+    }
+    const visits = await this.prisma.visit.findMany({
+      where: {
+        ...scope,
+        ...(query.scope === 'upcoming' && this.upcomingWhere(new Date()))
+      },
+      include: visitInclude,
+      orderBy: [{
+        scheduledAt: {
+          sort: 'asc',
+          nulls: 'first'
+        }
+      }, {
+        createdAt: 'desc'
+      }],
+      take: 200
+    });
+    return visits.map((v) => this.toView(v));
+  }
+
+  /**
+   * Open, not-yet-past visits per room (for GET /api/agent/properties).
+   */
+  async getUpcomingForRooms(roomIds: string[]): Promise<Map<string, UpcomingVisitSummary[]>> {
+    const byRoom = new Map<string, UpcomingVisitSummary[]>();
+    if (roomIds.length === 0) return byRoom;
+    const visits = await this.prisma.visit.findMany({
+      where: {
+        roomId: {
+          in: roomIds
+        },
+        ...this.upcomingWhere(new Date())
+      },
+      include: visitInclude,
+      orderBy: {
+        scheduledAt: {
+          sort: 'asc',
+          nulls: 'last'
+        }
+      }
+    });
+    for (const v of visits) {
+      const list = byRoom.get(v.roomId) ?? [];
+      list.push({
+        id: v.id,
+        status: v.status.toLowerCase(),
+        scheduledAt: v.scheduledAt ? v.scheduledAt.toISOString() : null,
+        proposedSlots: v.proposedSlots.map((s) => s.toISOString()),
+        durationMinutes: v.durationMinutes,
+        tenantName: v.tenant.name,
+        hostAgentId: v.hostAgentId
+      });
+      byRoom.set(v.roomId, list);
+    }
+    return byRoom;
+  }
+  private upcomingWhere(now: Date): Prisma.VisitWhereInput {
+    return {
+      status: {
+        in: OPEN_VISIT_STATUSES
+      },
+      OR: [{
+        scheduledAt: null
+      }, {
+        scheduledEnd: {
+          gt: now
+        }
+      }]
+    };
+  }
+
+  /**
+   * Confirm / reschedule: conflict check + optimistic update + event, atomically.
+   */
+  private async schedule(visit: VisitWithRelations, start: Date, actorId: string, actorRole: VisitActorRole, action: VisitAction, reason?: string): Promise<Visit> {
+    if (isNaN(start.getTime()) || start <= new Date()) {
+      throw new ValidationError('Visit time must be in the future');
+    }
+    const end = new Date(start.getTime() + visit.durationMinutes * MINUTE_MS);
+    // An agent taking action hosts the visit; owner actions keep the current host
+    const hostAgentId = actorRole === 'AGENT' ? actorId : visit.hostAgentId;
+    // A retry re-runs the conflict check, so the loser of a race gets a real answer
+    const updated = await withSerializationRetry('scheduleVisit', {
+      visitId: visit.id
+    }, () => this.prisma.$transaction(async (tx) => {
+      await this.assertNoConflict(tx, visit, hostAgentId, start, end);
+      const result = await tx.visit.updateMany({
+        where: {
+          id: visit.id,
+          status: visit.status,
+          updatedAt: visit.updatedAt
+        },
+        data: {
+          status: VisitStatus.CONFIRMED,
+          scheduledAt: start,
+          scheduledEnd: end,
+          hostAgentId,
+          reminderSentAt: null
+        }
+      });
+      if (result.count === 0) {
+        throw new BusinessLogicError('Visit was modified concurrently. Please retry.');
+      }
+      const fresh = await tx.visit.findUniqueOrThrow({
+        where: {
+          id: visit.id
+        },
+        include: visitInclude
+      });
+      await this.writeVisitEvent(tx, fresh, action, {
+        id: actorId,
+        role: actorRole
+      }, reason);
+      return fresh;
+    }, {
+      isolationLevel: 'Serializable',
+      timeout: 10000
+    }), 'Unable to schedule the visit due to high demand. Please try again in a moment.');
+    logger.info('Visit scheduled', {
+      visitId: visit.id,
+      action,
+      scheduledAt: start.toISOString(),
+      hostAgentId
+    });
+    return this.toView(updated);
+  }
+
+  private async close(visit: VisitWithRelations, status: VisitStatus, actorId: string, actorRole: VisitActorRole, reason?: string): Promise<Visit> {
+    if (!OPEN_VISIT_STATUSES.includes(visit.status)) {
+      throw new BusinessLogicError(`Visit is already ${visit.status.toLowerCase()}`);
+    }
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.visit.updateMany({
+        where: {
+          id: visit.id,
+          status: visit.status
+        },
+        data: {
+          status,
+          declineReason: reason ?? null
+        }
+      });
+      if (result.count === 0) {
+        throw new BusinessLogicError('Visit was modified concurrently. Please retry.');
+      }
+      const fresh = await tx.visit.findUniqueOrThrow({
+        where: {
+          id: visit.id
+        },
+        include: visitInclude
+      });
+      await this.writeVisitEvent(tx, fresh, status === VisitStatus.DECLINED ? 'DECLINED' : 'CANCELLED', {
+        id: actorId,
+        role: actorRole
+      }, reason);
+      return fresh;
+    });
+    return this.toView(updated);
+  }
+  private async assertNoConflict(tx: Prisma.TransactionClient, visit: VisitWithRelations, hostAgentId: string | null, start: Date, end: Date): Promise<void> {
+    const clash = await tx.visit.findFirst({
+      where: {
+        id: {
+          not: visit.id
+        },
+        status: VisitStatus.CONFIRMED,
+        scheduledAt: {
+          lt: end
+        },
+        scheduledEnd: {
+          gt: start
+        },
+        OR: [{
+          roomId: visit.roomId
+        }, ...(hostAgentId ? [{
+          hostAgentId
+        }] : [])]
+      },
+      select: {
+        roomId: true
+      }
+    });
+    if (!clash) return;
+    throw new BusinessLogicError(clash.roomId === visit.roomId ? 'Another visit is already scheduled for this room at that time' : 'The hosting agent already has a visit at that time');
+  }
+
+  /**
+   * Hosts are the room owner and agents actively assigned to the room.
+   */
+  private async loadForHost(actorId: string, role: string, visitId: string): Promise<{
+    visit: VisitWithRelations;
+    actorRole: VisitActorRole;
+  }> {
+    const visit = await this.findVisit(visitId);
+    if (role === Role.OWNER && visit.room.ownerId === actorId) {
+      return {
+        visit,
+        actorRole: 'OWNER'
+      };
+    }
+    if (role === Role.AGENT) {
+      const assignment = await this.prisma.agentPropertyAssignment.findFirst({
+        where: {
+          agentId: actorId,
+          propertyId: visit.roomId,
+          isActive: true
+        },
+        select: {
+          id: true
+        }
+      });
+      if (assignment) {
+        return {
+          visit,
+          actorRole: 'AGENT'
+        };
+      }
+    }
+    throw new ForbiddenError('Only the room owner or an assigned agent can manage this visit');
+  }
+  private async findVisit(visitId: string): Promise<VisitWithRelations> {
+    const visit = await this.prisma.visit.findUnique({
+      where: {
+        id: visitId
+      },
+      include: visitInclude
+    });
+    if (!visit) {
+      throw new NotFoundError('Visit', visitId);
+    }
+    return visit;
+  }
+  private async assignedRoomIds(agentId: string): Promise<string[]> {
+    const assignments = await this.prisma.agentPropertyAssignment.findMany({
+      where: {
+        agentId,
+        isActive: true
+      },
+      select: {
+        propertyId: true
+      }
+    });
+    return assignments.map((a) => a.propertyId);
+  }
+  private async writeVisitEvent(tx: Prisma.TransactionClient, visit: VisitWithRelations, action: VisitAction, actor: {
+    id: string;
+    role: VisitActorRole;
+  }, reason?: string): Promise<void> {
+    const payload: VisitStatusChangedPayload = {
+      visitId: visit.id,
+      roomId: visit.roomId,
+      roomTitle: visit.room.title,
+      tenantId: visit.tenantId,
+      ownerId: visit.room.ownerId,
+      hostAgentId: visit.hostAgentId,
+      action,
+      scheduledAt: visit.scheduledAt ? visit.scheduledAt.toISOString() : null,
+      proposedSlots: visit.proposedSlots.map((s) => s.toISOString()),
+      actorId: actor.id,
+      actorRole: actor.role,
+      reason: reason ?? null,
+      changedAt: new Date().toISOString()
+    };
+    await writeOutboxEvent(tx, {
+      aggregateType: OutboxAggregateType.VISIT,
+      aggregateId: visit.id,
+      eventType: OutboxEventType.VISIT_STATUS_CHANGED,
+      payload
+    });
+  }
+  private toView(v: VisitWithRelations): Visit {
+    return {
+      id: v.id,
+      roomId: v.roomId,
+      roomTitle: v.room.title,
+      tenantId: v.tenantId,
+      tenantName: v.tenant.name,
+      bookingId: v.bookingId,
+      proposedSlots: v.proposedSlots.map((s) => s.toISOString()),
+      durationMinutes: v.durationMinutes,
+      scheduledAt: v.scheduledAt ? v.scheduledAt.toISOString() : null,
+      status: v.status.toLowerCase(),
+      hostAgentId: v.hostAgentId,
+      note: v.note,
+      declineReason: v.declineReason,
+      createdAt: v.createdAt.toISOString(),
+      updatedAt: v.updatedAt.toISOString()
+    };
+  }
+}
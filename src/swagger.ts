@@ -180,7 +180,7 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: 'string',
-              enum: ['PENDING', 'APPROVED', 'REJECTED']
+              enum: ['PENDING', 'APPROVED', 'CONFIRMED', 'REJECTED', 'CANCELLED', 'EXPIRED', 'MOVED_IN', 'COMPLETED']
             },
             createdAt: {
               type: 'string',
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { env } from '../config/env';
+import { ValidationError } from '../errors/AppErrors';
+
+/**
+ * Opaque, signed keyset cursors for (createdAt DESC, id DESC) listings.
+ *
+ * Token format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256)
+ *
+ * - Keyset (createdAt + id) instead of OFFSET: no skipped/duplicated rows when
+ *   new rows arrive while a client scrolls, and no deep-offset scans.
+ * - Signed so clients can't forge positions or probe other listings;
+ *   the `scope` binds a token to the listing that issued it.
+ * - Opaque: clients must treat tokens as strings, so the format can change.
+ */
+
+export type CursorDirection = 'next' | 'prev';
+export type CursorScope = 'rooms' | 'owner-bookings' | 'notifications';
+export interface DecodedCursor {
+  createdAt: Date;
+  id: string;
+  direction: CursorDirection;
+}
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+interface CursorPayload {
+  s: CursorScope;
+  c: string; // createdAt ISO
+  i: string; // id
+  d: CursorDirection;
+}
+const sign = (data: string): string => crypto.createHmac('sha256', env.CURSOR_SECRET).update(data).digest('base64url');
+export const encodeCursor = (scope: CursorScope, row: {
+  createdAt: Date | string;
+  id: string;
+}, direction: CursorDirection): string => {
+  const payload: CursorPayload = {
+    s: scope,
+    c: new Date(row.createdAt).toISOString(),
+    i: row.id,
+    d: direction
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+};
+
+/**
+ * @throws ValidationError on malformed, tampered or foreign-scope tokens
+ */
+export const decodeCursor = (scope: CursorScope, token: string): DecodedCursor => {
+  const [data, signature, extra] = token.split('.');
+  if (!data || !signature || extra !== undefined) {
+    throw new ValidationError('Invalid cursor');
+  }
+  const expected = Buffer.from(sign(data));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    throw new ValidationError('Invalid cursor');
+  }
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+  const createdAt = new Date(payload.c);
+  if (payload.s !== scope || !payload.i || isNaN(createdAt.getTime()) || payload.d !== 'next' && payload.d !== 'prev') {
+    throw new ValidationError('Invalid cursor');
+  }
+  return {
+    createdAt,
+    id: payload.i,
+    direction: payload.d
+  };
+};
+
+/**
+ * Prisma `where` fragment positioning the page after (next) or before (prev) the cursor.
+ */
+export const cursorWhere = (cursor: DecodedCursor | null): {
+  OR?: ({
+    createdAt: {
+      lt?: Date;
+      gt?: Date;
+    };
+  } | {
+    createdAt: Date;
+    id: {
+      lt?: string;
+      gt?: string;
+    };
+  })[];
+} => {
+  if (!cursor) return {};
+  const op = cursor.direction === 'next' ? 'lt' : 'gt';
+  return {
+    OR: [{
+      createdAt: {
+        [op]: cursor.createdAt
+      }
+    }, {
+      createdAt: cursor.createdAt,
+      id: {
+        [op]: cursor.id
+      }
+    }]
+  };
+};
+
+/**
+ * Prisma `orderBy` for the fetch. Backwards pages are read ascending and
+ * flipped by toCursorPage() so callers always receive newest-first.
+ */
+export const cursorOrderBy = (cursor: DecodedCursor | null): {
+  createdAt?: 'asc' | 'desc';
+  id?: 'asc' | 'desc';
+}[] => {
+  const dir = cursor?.direction === 'prev' ? 'asc' : 'desc';
+  return [{
+    createdAt: dir
+  }, {
+    id: dir
+  }];
+};
+
+/**
+ * Build the page from `limit + 1` fetched rows (the extra row only signals "more").
+ */
+export const toCursorPage = <T extends {
+  createdAt: Date | string;
+  id: string;
+}>(scope: CursorScope, rows: T[], limit: number, cursor: DecodedCursor | null): CursorPage<T> => {
+  const hasMore = rows.length > limit;
+  const slice = rows.slice(0, limit);
+  if (cursor?.direction === 'prev') {
+    const items = slice.reverse();
+    return {
+      items,
+      nextCursor: items.length ? encodeCursor(scope, items[items.length - 1], 'next') : null,
+      prevCursor: hasMore && items.length ? encodeCursor(scope, items[0], 'prev') : null
+    };
+  }
+  return {
+    items: slice,
+    nextCursor: hasMore && slice.length ? encodeCursor(scope, slice[slice.length - 1], 'next') : null,
+    // First page has nothing newer; later pages can always step back
+    prevCursor: cursor && slice.length ? encodeCursor(scope, slice[0], 'prev') : null
+  };
+};
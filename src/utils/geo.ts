@@ -0,0 +1,90 @@
+/**
+ * Geo utilities for map / radius search.
+ *
+ * Plain-PostgreSQL friendly: distances are computed with the haversine
+ * formula (no PostGIS). A radius search is first narrowed to a bounding box
+ * so the (latitude, longitude) B-tree index can do most of the work.
+ */
+
+export const EARTH_RADIUS_KM = 6371;
+export const MAX_SEARCH_RADIUS_KM = 100;
+export const DEFAULT_SEARCH_RADIUS_KM = 5;
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+export interface BoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+const isLatitude = (v: number) => Number.isFinite(v) && v >= -90 && v <= 90;
+const isLongitude = (v: number) => Number.isFinite(v) && v >= -180 && v <= 180;
+
+/**
+ * Parse "lat,lng" → LatLng. Returns null on malformed or out-of-range input.
+ *
+ * Examples:
+ *   parseLatLng('19.1334,72.9133') → { lat: 19.1334, lng: 72.9133 }
+ *   parseLatLng('91,0')            → null
+ */
+export const parseLatLng = (value: string): LatLng | null => {
+  const parts = value.split(',').map((p) => p.trim());
+  if (parts.length !== 2 || parts.some((p) => p === '')) return null;
+  const [lat, lng] = parts.map(Number);
+  if (!isLatitude(lat) || !isLongitude(lng)) return null;
+  return {
+    lat,
+    lng
+  };
+};
+
+/**
+ * Parse "minLng,minLat,maxLng,maxLat" (GeoJSON / map-SDK order) → BoundingBox.
+ * Boxes crossing the antimeridian are not supported.
+ */
+export const parseBoundingBox = (value: string): BoundingBox | null => {
+  const parts = value.split(',').map((p) => p.trim());
+  if (parts.length !== 4 || parts.some((p) => p === '')) return null;
+  const [minLng, minLat, maxLng, maxLat] = parts.map(Number);
+  if (!isLongitude(minLng) || !isLongitude(maxLng) || !isLatitude(minLat) || !isLatitude(maxLat)) {
+    return null;
+  }
+  if (minLng > maxLng || minLat > maxLat) return null;
+  return {
+    minLat,
+    minLng,
+    maxLat,
+    maxLng
+  };
+};
+
+/**
+ * Smallest lat/lng box containing the circle (center, radiusKm).
+ * Used as an index-friendly pre-filter before the exact haversine check.
+ */
+export const boundingBoxForRadius = (center: LatLng, radiusKm: number): BoundingBox => {
+  const latDelta = radiusKm / EARTH_RADIUS_KM * (180 / Math.PI);
+  const cosLat = Math.cos(center.lat * Math.PI / 180);
+  // Near the poles the longitude span blows up — fall back to the full range
+  const lngDelta = cosLat > 1e-6 ? latDelta / cosLat : 180;
+  return {
+    minLat: Math.max(center.lat - latDelta, -90),
+    maxLat: Math.min(center.lat + latDelta, 90),
+    minLng: Math.max(center.lng - lngDelta, -180),
+    maxLng: Math.min(center.lng + lngDelta, 180)
+  };
+};
+
+/**
+ * Great-circle distance in km (haversine). JS twin of the SQL used by
+ * PrismaRoomRepository, for in-memory matching (e.g. saved-search alerts).
+ */
+export const haversineKm = (a: LatLng, b: LatLng): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
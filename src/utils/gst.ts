@@ -0,0 +1,90 @@
+import { CITIES } from '../config/cities';
+import { normalizeCity } from './normalize';
+import { InvoiceTax } from '../models/Invoice';
+
+/**
+ * GST helpers for invoices.
+ *
+ * Plan prices are GST inclusive: the taxable value is backed out of the
+ * amount paid. Supplies within the seller's state carry CGST + SGST (half
+ * the rate each), supplies to other states carry IGST.
+ */
+
+// GST state codes (first two digits of a GSTIN)
+const GST_STATE_CODES: Record<string, string> = {
+  'jammu and kashmir': '01',
+  'himachal pradesh': '02',
+  'punjab': '03',
+  'chandigarh': '04',
+  'uttarakhand': '05',
+  'haryana': '06',
+  'delhi': '07',
+  'rajasthan': '08',
+  'uttar pradesh': '09',
+  'bihar': '10',
+  'sikkim': '11',
+  'arunachal pradesh': '12',
+  'nagaland': '13',
+  'manipur': '14',
+  'mizoram': '15',
+  'tripura': '16',
+  'meghalaya': '17',
+  'assam': '18',
+  'west bengal': '19',
+  'jharkhand': '20',
+  'odisha': '21',
+  'chhattisgarh': '22',
+  'madhya pradesh': '23',
+  'gujarat': '24',
+  'dadra and nagar haveli and daman and diu': '26',
+  'maharashtra': '27',
+  'karnataka': '29',
+  'goa': '30',
+  'lakshadweep': '31',
+  'kerala': '32',
+  'tamil nadu': '33',
+  'puducherry': '34',
+  'andaman and nicobar islands': '35',
+  'telangana': '36',
+  'andhra pradesh': '37',
+  'ladakh': '38'
+};
+export const gstStateCode = (state: string): string | null => GST_STATE_CODES[state.trim().toLowerCase()] ?? null;
+
+/**
+ * State of one of our cities, or null for a city we don't know
+ */
+export const stateForCity = (city: string | null | undefined): string | null => {
+  if (!city) return null;
+  const id = normalizeCity(city);
+  return CITIES.find((c) => c.id === id)?.state ?? null;
+};
+
+/**
+ * Indian financial year (April–March, IST) of a date, e.g. "2026-27"
+ */
+export const financialYearOf = (date: Date): string => {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+export const formatInvoiceNumber = (prefix: string, financialYear: string, sequence: number): string => `${prefix}/${financialYear}/${String(sequence).padStart(6, '0')}`;
+
+/**
+ * Split a GST-inclusive amount (paise) into taxable value and tax heads.
+ */
+export const gstBreakdown = (totalInclusive: number, ratePercent: number, intraState: boolean): InvoiceTax => {
+  const taxableValue = Math.round(totalInclusive * 100 / (100 + ratePercent));
+  const totalTax = totalInclusive - taxableValue;
+  // Odd paise go to SGST so CGST + SGST always equals the total tax
+  const cgst = intraState ? Math.floor(totalTax / 2) : 0;
+  return {
+    supplyType: intraState ? 'INTRA_STATE' : 'INTER_STATE',
+    ratePercent,
+    taxableValue,
+    cgst,
+    sgst: intraState ? totalTax - cgst : 0,
+    igst: intraState ? 0 : totalTax,
+    totalTax
+  };
+};
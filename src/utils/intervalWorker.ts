@@ -0,0 +1,88 @@
+import { logger } from './logger';
+
+/**
+ * Start/stop scaffold shared by the sweep workers (booking expiry, visit
+ * reminders, payment reconciliation, subscription expiry).
+ *
+ * The timer is unref'd so it never keeps the process alive, and exclusive()
+ * keeps a slow sweep from overlapping the next tick on the same instance.
+ * Log events are `${event}_WORKER_START`, `${event}_WORKER_STOP` and
+ * `${event}_SWEEP_ERROR`.
+ */
+export interface IntervalWorkerOptions {
+  // Log prefix, e.g. 'Booking expiry worker'
+  name: string;
+  // Log event prefix, e.g. 'BOOKING_EXPIRY'
+  event: string;
+  intervalMs: number;
+  // Also sweep once right away on start
+  runOnStart: boolean;
+  // Extra fields for the start log line (thresholds in effect)
+  startContext?: Record<string, unknown>;
+  sweep: () => Promise<unknown>;
+}
+export interface IntervalWorker {
+  start(): void;
+  stop(): void;
+  /**
+   * Run `sweep` unless one is already running here; returns `busy` if so
+   */
+  exclusive<T>(sweep: () => Promise<T>, busy: T): Promise<T>;
+}
+export function createIntervalWorker(options: IntervalWorkerOptions): IntervalWorker {
+  let timer: NodeJS.Timeout | null = null;
+  let isRunning = false;
+  let sweepInProgress = false;
+  const runSweep = async (failure: string) => {
+    try {
+      await options.sweep();
+    } catch (err: any) {
+      logger.error(`${options.name}: ${failure}`, {
+        event: `${options.event}_SWEEP_ERROR`,
+        error: err.message
+      });
+    }
+  };
+  return {
+    start() {
+      if (isRunning) {
+        logger.warn(`${options.name}: Already running`);
+        return;
+      }
+      isRunning = true;
+      logger.info(`${options.name}: Starting`, {
+        event: `${options.event}_WORKER_START`,
+        intervalMs: options.intervalMs,
+        ...options.startContext
+      });
+      if (options.runOnStart) {
+        void runSweep('Initial sweep failed');
+      }
+      timer = setInterval(() => void runSweep('Sweep failed'), options.intervalMs);
+
+      // Don't prevent process exit
+      if (timer.unref) {
+        timer.unref();
+      }
+    },
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      isRunning = false;
+      logger.info(`${options.name}: Stopped`, {
+        event: `${options.event}_WORKER_STOP`
+      });
+    },
+    async exclusive(sweep, busy) {
+      if (sweepInProgress) return busy;
+      sweepInProgress = true;
+      try {
+        return await sweep();
+      } finally {
+        sweepInProgress = false;
+      }
+    }
+  };
+}
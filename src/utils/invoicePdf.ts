@@ -0,0 +1,155 @@
+import { InvoiceData } from '../models/Invoice';
+import { renderPdf, approxTextWidth, PdfText, PdfRule, PDF_PAGE_HEIGHT } from './pdf';
+
+/**
+ * Tax invoice layout. Everything printed comes from the InvoiceData
+ * snapshot, so re-rendering an issued invoice gives identical bytes.
+ */
+
+const LEFT = 50;
+const RIGHT = 545;
+const rupees = (paise: number): string => `Rs. ${(paise / 100).toLocaleString('en-IN', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+})}`;
+const istDate = (iso: string): string => new Date(new Date(iso).getTime() + 330 * 60 * 1000).toISOString().slice(0, 10);
+export function renderInvoicePdf(data: InvoiceData): Buffer {
+  const texts: PdfText[] = [];
+  const rules: PdfRule[] = [];
+  let y = PDF_PAGE_HEIGHT - 60;
+  const line = (text: string, opts: {
+    size?: number;
+    bold?: boolean;
+    x?: number;
+  } = {}) => {
+    texts.push({
+      x: opts.x ?? LEFT,
+      y,
+      text,
+      size: opts.size,
+      bold: opts.bold
+    });
+  };
+  const amountRow = (label: string, paise: number, bold = false) => {
+    line(label, {
+      bold
+    });
+    const value = rupees(paise);
+    line(value, {
+      bold,
+      x: RIGHT - approxTextWidth(value, 10)
+    });
+    y -= 16;
+  };
+  line('TAX INVOICE', {
+    size: 18,
+    bold: true
+  });
+  y -= 28;
+  line(`Invoice No: ${data.invoiceNumber}`, {
+    bold: true
+  });
+  line(`Date: ${istDate(data.issuedAt)}`, {
+    x: 380
+  });
+  y -= 24;
+
+  // Supplier / recipient blocks
+  const partyTop = y;
+  const party = (title: string, p: InvoiceData['seller'], x: number, extra: string[]) => {
+    y = partyTop;
+    line(title, {
+      bold: true,
+      x
+    });
+    y -= 14;
+    for (const text of [p.name, p.address, p.gstin ? `GSTIN: ${p.gstin}` : null, `State: ${p.state}${p.stateCode ? ` (${p.stateCode})` : ''}`, ...extra]) {
+      if (!text) continue;
+      line(text, {
+        x
+      });
+      y -= 13;
+    }
+    return y;
+  };
+  const sellerBottom = party('Supplier', data.seller, LEFT, []);
+  const buyerBottom = party('Billed to', data.buyer, 310, [data.buyer.email]);
+  y = Math.min(sellerBottom, buyerBottom) - 10;
+  line(`Place of supply: ${data.placeOfSupply}`);
+  y -= 24;
+
+  // Line item
+  rules.push({
+    x1: LEFT,
+    x2: RIGHT,
+    y: y + 12
+  });
+  line('Description', {
+    bold: true
+  });
+  line('SAC', {
+    bold: true,
+    x: 330
+  });
+  line('Qty', {
+    bold: true,
+    x: 400
+  });
+  line('Amount', {
+    bold: true,
+    x: RIGHT - approxTextWidth('Amount', 10)
+  });
+  y -= 8;
+  rules.push({
+    x1: LEFT,
+    x2: RIGHT,
+    y
+  });
+  y -= 16;
+  line(data.line.description);
+  line(data.line.sacCode, {
+    x: 330
+  });
+  line(String(data.line.quantity), {
+    x: 400
+  });
+  const lineAmount = rupees(data.line.amount);
+  line(lineAmount, {
+    x: RIGHT - approxTextWidth(lineAmount, 10)
+  });
+  y -= 12;
+  rules.push({
+    x1: LEFT,
+    x2: RIGHT,
+    y
+  });
+  y -= 18;
+
+  // Tax summary
+  const halfRate = data.tax.ratePercent / 2;
+  amountRow('Taxable value', data.tax.taxableValue);
+  if (data.tax.supplyType === 'INTRA_STATE') {
+    amountRow(`CGST @ ${halfRate}%`, data.tax.cgst);
+    amountRow(`SGST @ ${halfRate}%`, data.tax.sgst);
+  } else {
+    amountRow(`IGST @ ${data.tax.ratePercent}%`, data.tax.igst);
+  }
+  rules.push({
+    x1: 300,
+    x2: RIGHT,
+    y: y + 10
+  });
+  amountRow('Total (GST inclusive)', data.total, true);
+  y -= 20;
+  line(`Paid online via Razorpay${data.razorpayPaymentId ? ` (${data.razorpayPaymentId})` : ''}${data.paidAt ? ` on ${istDate(data.paidAt)}` : ''}. Order ${data.orderId}.`, {
+    size: 8
+  });
+  y -= 12;
+  line('This is a computer-generated invoice and does not require a signature.', {
+    size: 8
+  });
+  return renderPdf({
+    texts,
+    rules
+  });
+}
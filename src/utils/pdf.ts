@@ -0,0 +1,54 @@
+/**
+ * Minimal single-page PDF writer — positioned text and horizontal rules in
+ * the built-in Helvetica fonts, which is all an invoice needs.
+ *
+ * Output is deterministic (no timestamps or ids), so the same input always
+ * produces the same bytes. Text is WinAnsi: characters outside Latin-1 are
+ * replaced with '?', so write "Rs." rather than the rupee sign.
+ */
+
+export interface PdfText {
+  x: number; // points from the left edge
+  y: number; // points from the bottom edge
+  text: string;
+  size?: number;
+  bold?: boolean;
+}
+export interface PdfRule {
+  x1: number;
+  x2: number;
+  y: number;
+}
+export const PDF_PAGE_WIDTH = 595; // A4
+export const PDF_PAGE_HEIGHT = 842;
+const escapeText = (text: string): string => text.replace(/[^\x20-\xff]/g, '?').replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+/**
+ * Approximate width of Helvetica text, for right-aligning amounts
+ */
+export const approxTextWidth = (text: string, size: number): number => text.length * size * 0.5;
+export function renderPdf(content: {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}): Buffer {
+  const ops: string[] = [];
+  for (const rule of content.rules ?? []) {
+    ops.push(`0.5 w ${rule.x1} ${rule.y} m ${rule.x2} ${rule.y} l S`);
+  }
+  for (const t of content.texts) {
+    ops.push(`BT /${t.bold ? 'F2' : 'F1'} ${t.size ?? 10} Tf ${t.x} ${t.y} Td (${escapeText(t.text)}) Tj ET`);
+  }
+  const stream = ops.join('\n');
+  const objects = ['<< /Type /Catalog /Pages 2 0 R >>', '<< /Type /Pages /Kids [3 0 R] /Count 1 >>', `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>', '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>', `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`];
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(body, 'latin1');
+}
@@ -3,6 +3,8 @@ import { logger } from './logger';
 
 // Singleton Prisma client instance
 let prisma: PrismaClient;
+const IMMUTABLE_MODELS = new Set<string>(['Invoice']);
+const IMMUTABLE_ACTIONS = new Set<string>(['update', 'updateMany', 'upsert', 'delete', 'deleteMany']);
 
 /**
  * Get or create Prisma client instance
@@ -25,6 +27,14 @@ export function getPrismaClient(): PrismaClient {
     prisma.$on('error' as never, (e: any) => {
       logger.error('Prisma error', e);
     });
+
+    // Issued invoices are legal records — refuse to rewrite or delete them
+    prisma.$use(async (params, next) => {
+      if (params.model && IMMUTABLE_MODELS.has(params.model) && IMMUTABLE_ACTIONS.has(params.action)) {
+        throw new Error(`${params.model} records are immutable (attempted ${params.action})`);
+      }
+      return next(params);
+    });
     logger.info('Prisma client initialized');
   }
   return prisma;
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+
+/**
+ * Razorpay webhook signatures.
+ *
+ * Razorpay signs the raw request body with HMAC-SHA256 using the webhook
+ * secret and sends the hex digest in X-Razorpay-Signature. The body must be
+ * verified byte-for-byte as received — re-serialising parsed JSON changes it.
+ */
+
+export const RAZORPAY_SIGNATURE_HEADER = 'x-razorpay-signature';
+export const RAZORPAY_EVENT_ID_HEADER = 'x-razorpay-event-id';
+export const signRazorpayWebhook = (rawBody: Buffer | string, secret: string): string => crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+export const verifyRazorpayWebhookSignature = (rawBody: Buffer | string, signature: string | undefined, secret: string): boolean => {
+  if (!signature || !secret) return false;
+  const expected = Buffer.from(signRazorpayWebhook(rawBody, secret), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+/**
+ * Shape of the webhook envelope (only the fields we read).
+ */
+export interface RazorpayWebhookEvent {
+  entity: 'event';
+  event: string;
+  contains: string[];
+  payload: {
+    payment?: {
+      entity: RazorpayPaymentEntity;
+    };
+    order?: {
+      entity: {
+        id: string;
+        amount: number;
+        status: string;
+      };
+    };
+    refund?: {
+      entity: RazorpayRefundEntity;
+    };
+  };
+  created_at: number;
+}
+export interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number;
+  status: string;
+  error_description?: string | null;
+}
+export interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount: number;
+  status: string;
+  notes?: Record<string, string>;
+}
@@ -0,0 +1,33 @@
+/**
+ * Contact-detail redaction for user-to-user text.
+ *
+ * Owner contacts sit behind the paid unlock (ContactService); free-text
+ * channels must not become a way around it.
+ */
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// 10+ digits, optionally with +country code and space / dot / dash separators
+// (e.g. +91 98765 43210, 98765-43210, 0141.2345678)
+const PHONE_PATTERN = /(?:\+?\d{1,3}[\s.-]?)?(?:\d[\s.-]?){9,13}\d/g;
+export const REDACTED_EMAIL = '[email hidden]';
+export const REDACTED_PHONE = '[phone hidden]';
+export interface RedactionResult {
+  text: string;
+  redacted: boolean;
+}
+
+/**
+ * Replace email addresses and phone numbers in `text`.
+ *
+ * Examples:
+ *   redactContactInfo('Call 98765 43210')      → 'Call [phone hidden]'
+ *   redactContactInfo('mail a.b@example.com')  → 'mail [email hidden]'
+ *   redactContactInfo('Rent is 12000 per month') → unchanged (too few digits)
+ */
+export const redactContactInfo = (text: string): RedactionResult => {
+  const redactedText = text.replace(EMAIL_PATTERN, REDACTED_EMAIL).replace(PHONE_PATTERN, REDACTED_PHONE);
+  return {
+    text: redactedText,
+    redacted: redactedText !== text
+  };
+};
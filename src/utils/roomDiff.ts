@@ -0,0 +1,61 @@
+/**
+ * Field-level diff for room listing revisions + "material change" rules.
+ *
+ * Values are compared in their JSON form so arrays (images, amenities) and
+ * dates (availableFrom) compare by content, not identity.
+ */
+
+// Owner-editable listing fields that are versioned
+export const REVISIONED_ROOM_FIELDS = ['title', 'description', 'city', 'location', 'landmark', 'latitude', 'longitude', 'pricePerMonth', 'roomType', 'totalBeds', 'availableFrom', 'bookingTokenAmount', 'securityDeposit', 'idealFor', 'amenities', 'images'] as const;
+export type RevisionedRoomField = typeof REVISIONED_ROOM_FIELDS[number];
+export interface RoomFieldChange {
+  field: RevisionedRoomField;
+  before: unknown;
+  after: unknown;
+}
+export interface MaterialChangeRules {
+  materialFields: string[];
+  // Price moves within ±N% of the old price are not material
+  priceTolerancePercent: number;
+}
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+};
+
+/**
+ * Fields whose value differs between `before` and `after`.
+ * Fields absent from `after` are treated as unchanged (partial update).
+ */
+export const diffRoomFields = (before: Record<string, unknown>, after: Record<string, unknown>): RoomFieldChange[] => {
+  const changes: RoomFieldChange[] = [];
+  for (const field of REVISIONED_ROOM_FIELDS) {
+    if (!(field in after) || after[field] === undefined) continue;
+    const oldValue = normalize(before[field]);
+    const newValue = normalize(after[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({
+        field,
+        before: oldValue,
+        after: newValue
+      });
+    }
+  }
+  return changes;
+};
+
+/**
+ * Subset of `changes` that requires the listing to be re-reviewed.
+ */
+export const materialChanges = (changes: RoomFieldChange[], rules: MaterialChangeRules): RoomFieldChange[] => changes.filter((change) => {
+  if (!rules.materialFields.includes(change.field)) return false;
+  if (change.field === 'pricePerMonth' && rules.priceTolerancePercent > 0) {
+    const oldPrice = Number(change.before);
+    const newPrice = Number(change.after);
+    if (oldPrice > 0) {
+      return Math.abs(newPrice - oldPrice) / oldPrice * 100 > rules.priceTolerancePercent;
+    }
+  }
+  return true;
+});
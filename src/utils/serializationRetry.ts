@@ -0,0 +1,57 @@
+import { Prisma } from '@prisma/client';
+import { logger } from './logger';
+import { BusinessLogicError } from '../errors/AppErrors';
+
+/**
+ * Retry for Serializable transactions that lose a race to a concurrent one.
+ *
+ * PostgreSQL aborts the loser with a serialization failure (Prisma P2034);
+ * re-running the whole transaction re-reads the winner's writes, so the
+ * caller gets a real answer (a conflict, "already done") instead of a 500.
+ *
+ *   return withSerializationRetry('scheduleVisit', { visitId }, () =>
+ *     this.prisma.$transaction(async (tx) => { ... }, { isolationLevel: 'Serializable' }));
+ */
+
+export const MAX_SERIALIZATION_RETRIES = 2;
+const BUSY_MESSAGE = 'Unable to process your request due to high demand. Please try again in a moment.';
+
+/**
+ * Detect PostgreSQL serialization failure.
+ */
+export function isSerializationError(error: unknown): boolean {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return error.code === 'P2034';
+  }
+  if (error instanceof Error && 'code' in error) {
+    return (error as any).code === '40001';
+  }
+  return false;
+}
+
+/**
+ * Run `run`, re-running it up to MAX_SERIALIZATION_RETRIES times on a
+ * serialization failure. Other errors pass straight through.
+ * @throws BusinessLogicError (`busyMessage`) once every attempt conflicted
+ */
+export async function withSerializationRetry<T>(operation: string, context: Record<string, unknown>, run: () => Promise<T>, busyMessage: string = BUSY_MESSAGE): Promise<T> {
+  for (let attempt = 0; attempt <= MAX_SERIALIZATION_RETRIES; attempt++) {
+    try {
+      return await run();
+    } catch (error: unknown) {
+      if (!isSerializationError(error)) {
+        throw error;
+      }
+      logger.warn(`Serialization conflict in ${operation}, retrying`, {
+        ...context,
+        attempt: attempt + 1,
+        maxRetries: MAX_SERIALIZATION_RETRIES
+      });
+    }
+  }
+  logger.error(`${operation} failed after all retries`, {
+    ...context,
+    attempts: MAX_SERIALIZATION_RETRIES + 1
+  });
+  throw new BusinessLogicError(busyMessage);
+}
@@ -0,0 +1,112 @@
+import { RazorpayWebhookEvent, RAZORPAY_SIGNATURE_HEADER, RAZORPAY_EVENT_ID_HEADER, signRazorpayWebhook } from '../../src/utils/razorpayWebhook';
+
+export interface SignedWebhookRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Local stand-in for Razorpay: builds webhook deliveries signed with a test
+ * secret, so the webhook endpoint can be exercised without the dashboard.
+ *
+ *   const fake = new FakeRazorpayWebhookSigner(process.env.RAZORPAY_WEBHOOK_SECRET!);
+ *   const { body, headers } = fake.paymentCaptured({ orderId, paymentId: 'pay_test_1', amount: 49900 });
+ *   // POST body with headers to /api/payments/webhook
+ */
+export class FakeRazorpayWebhookSigner {
+  private sequence = 0;
+  constructor(private readonly secret: string) {}
+  sign(event: string, payload: RazorpayWebhookEvent['payload'], eventId?: string): SignedWebhookRequest {
+    const envelope: RazorpayWebhookEvent = {
+      entity: 'event',
+      event,
+      contains: Object.keys(payload),
+      payload,
+      created_at: Math.floor(Date.now() / 1000)
+    };
+    const body = JSON.stringify(envelope);
+    return {
+      body,
+      headers: {
+        'content-type': 'application/json',
+        [RAZORPAY_SIGNATURE_HEADER]: signRazorpayWebhook(body, this.secret),
+        [RAZORPAY_EVENT_ID_HEADER]: eventId ?? `evt_test_${Date.now()}_${++this.sequence}`
+      }
+    };
+  }
+  paymentCaptured(p: {
+    orderId: string;
+    paymentId: string;
+    amount: number;
+  }, eventId?: string): SignedWebhookRequest {
+    return this.sign('payment.captured', {
+      payment: {
+        entity: {
+          id: p.paymentId,
+          order_id: p.orderId,
+          amount: p.amount,
+          status: 'captured'
+        }
+      }
+    }, eventId);
+  }
+  paymentFailed(p: {
+    orderId: string;
+    paymentId: string;
+    amount: number;
+    reason?: string;
+  }, eventId?: string): SignedWebhookRequest {
+    return this.sign('payment.failed', {
+      payment: {
+        entity: {
+          id: p.paymentId,
+          order_id: p.orderId,
+          amount: p.amount,
+          status: 'failed',
+          error_description: p.reason ?? 'Payment failed'
+        }
+      }
+    }, eventId);
+  }
+  orderPaid(p: {
+    orderId: string;
+    paymentId: string;
+    amount: number;
+  }, eventId?: string): SignedWebhookRequest {
+    return this.sign('order.paid', {
+      order: {
+        entity: {
+          id: p.orderId,
+          amount: p.amount,
+          status: 'paid'
+        }
+      },
+      payment: {
+        entity: {
+          id: p.paymentId,
+          order_id: p.orderId,
+          amount: p.amount,
+          status: 'captured'
+        }
+      }
+    }, eventId);
+  }
+  refund(event: 'refund.created' | 'refund.processed' | 'refund.failed', r: {
+    refundId: string;
+    paymentId: string;
+    amount: number;
+    notes?: Record<string, string>;
+  }, eventId?: string): SignedWebhookRequest {
+    return this.sign(event, {
+      refund: {
+        entity: {
+          id: r.refundId,
+          payment_id: r.paymentId,
+          amount: r.amount,
+          status: event.split('.')[1],
+          notes: r.notes
+        }
+      }
+    }, eventId);
+  }
+}
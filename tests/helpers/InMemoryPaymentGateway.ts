@@ -0,0 +1,21 @@
+import { GatewayPayment, PaymentGateway } from '../../src/services/PaymentGateway';
+
+/**
+ * Gateway double: payments are whatever the caller recorded.
+ *
+ *   const gateway = new InMemoryPaymentGateway();
+ *   gateway.record({ id: 'pay_1', orderId: 'order_1', amount: 49900, status: 'captured' });
+ */
+export class InMemoryPaymentGateway implements PaymentGateway {
+  private payments = new Map<string, GatewayPayment[]>();
+  isEnabled(): boolean {
+    return true;
+  }
+  record(payment: GatewayPayment): void {
+    const existing = this.payments.get(payment.orderId) ?? [];
+    this.payments.set(payment.orderId, [payment, ...existing.filter((p) => p.id !== payment.id)]);
+  }
+  async fetchOrderPayments(orderId: string): Promise<GatewayPayment[]> {
+    return this.payments.get(orderId) ?? [];
+  }
+}
@@ -0,0 +1,43 @@
+import { bookingExpiresAt, expiryCutoffs, reminderCutoffs } from '../../src/services/BookingExpiryPolicy';
+
+const HOUR_MS = 60 * 60 * 1000;
+const SLA_HOURS = 48;
+const now = new Date('2026-06-10T15:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+
+describe('booking expiry policy', () => {
+  it('expires at the SLA deadline when the move-in day is further off', () => {
+    expect(bookingExpiresAt({
+      createdAt: hoursAgo(10),
+      moveInDate: new Date('2026-06-20T00:00:00Z')
+    }, SLA_HOURS)).toEqual(new Date(hoursAgo(10).getTime() + SLA_HOURS * HOUR_MS));
+  });
+  it('expires at the end of the move-in day when that comes first', () => {
+    expect(bookingExpiresAt({
+      createdAt: hoursAgo(1),
+      moveInDate: new Date('2026-06-11T09:30:00Z')
+    }, SLA_HOURS)).toEqual(new Date('2026-06-12T00:00:00Z'));
+  });
+  it('treats requests past the SLA or with a move-in day already gone as overdue', () => {
+    const cutoffs = expiryCutoffs(now, SLA_HOURS);
+    expect(cutoffs.createdBy).toEqual(hoursAgo(SLA_HOURS));
+    // Moving in today still stands; moveInBy is exclusive
+    expect(cutoffs.moveInBy).toEqual(new Date('2026-06-10T00:00:00Z'));
+  });
+  it('makes a reminder due reminderHours before either deadline', () => {
+    const cutoffs = reminderCutoffs(now, SLA_HOURS, 12)!;
+    // Created 36h ago → 12h left on the SLA
+    expect(cutoffs.createdBy).toEqual(hoursAgo(36));
+    // Move-in day ending within 12h
+    expect(cutoffs.moveInBy).toEqual(new Date('2026-06-10T03:00:00Z'));
+    const booking = {
+      createdAt: cutoffs.createdBy,
+      moveInDate: new Date('2026-06-30T00:00:00Z')
+    };
+    expect(bookingExpiresAt(booking, SLA_HOURS).getTime() - now.getTime()).toBe(12 * HOUR_MS);
+  });
+  it('caps the reminder at the SLA and turns it off at 0', () => {
+    expect(reminderCutoffs(now, SLA_HOURS, 100)!.createdBy).toEqual(now);
+    expect(reminderCutoffs(now, SLA_HOURS, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { BookingStatus, PaymentPurpose, PaymentStatus, Prisma, PrismaClient } from '@prisma/client';
+import { BookingPaymentService } from '../../src/services/BookingPaymentService';
+import { RazorpayService } from '../../src/services/RazorpayService';
+
+// Module singletons must not open a real database client
+jest.mock('../../src/utils/prisma', () => ({
+  getPrismaClient: jest.fn()
+}));
+let payment: any;
+const prisma: any = {
+  payment: {
+    updateMany: jest.fn(({ where, data }) => {
+      const claimed = where.status.in.includes(payment.status);
+      if (claimed) Object.assign(payment, data);
+      return Promise.resolve({
+        count: claimed ? 1 : 0
+      });
+    }),
+    findUniqueOrThrow: jest.fn(() => Promise.resolve({
+      ...payment
+    }))
+  },
+  booking: {
+    findUniqueOrThrow: jest.fn(() => Promise.resolve({
+      id: 'booking-1',
+      status: BookingStatus.CONFIRMED
+    }))
+  },
+  $transaction: jest.fn((run: (tx: unknown) => Promise<unknown>) => run(prisma))
+};
+const serializationFailure = () => new Prisma.PrismaClientKnownRequestError('could not serialize access', {
+  code: 'P2034',
+  clientVersion: '5.22.0'
+});
+const service = new BookingPaymentService(prisma as PrismaClient, {} as RazorpayService);
+describe('BookingPaymentService.markVerified', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    payment = {
+      id: 'payment-1',
+      bookingId: 'booking-1',
+      purpose: PaymentPurpose.BOOKING_TOKEN,
+      amount: 500000,
+      status: PaymentStatus.CREATED
+    };
+  });
+  it('retries the loser of a verify/webhook race, which then finds the payment verified', async () => {
+    prisma.$transaction.mockImplementationOnce(() => {
+      // The webhook's transaction committed first
+      payment.status = PaymentStatus.VERIFIED;
+      return Promise.reject(serializationFailure());
+    });
+    await expect(service.markVerified('payment-1', 'pay_1')).resolves.toMatchObject({
+      paymentId: 'payment-1',
+      status: PaymentStatus.VERIFIED,
+      bookingStatus: 'confirmed',
+      alreadyProcessed: true
+    });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+  });
+  it('answers with a busy error once every attempt conflicted', async () => {
+    prisma.$transaction.mockRejectedValueOnce(serializationFailure()).mockRejectedValueOnce(serializationFailure()).mockRejectedValueOnce(serializationFailure());
+    await expect(service.markVerified('payment-1', 'pay_1')).rejects.toThrow('Unable to process your request due to high demand. Please try again in a moment.');
+    expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,52 @@
+import { bookingRefundFor, BookingRefundContext } from '../../src/services/BookingRefundPolicy';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2026-10-19T10:00:00Z');
+const moveInDate = new Date('2026-11-01T00:00:00Z');
+const token = {
+  purpose: 'BOOKING_TOKEN' as const,
+  amount: 200000,
+  verifiedAt: new Date(now.getTime() - 2 * HOUR_MS)
+};
+const deposit = {
+  ...token,
+  purpose: 'SECURITY_DEPOSIT' as const,
+  amount: 1500000
+};
+const ctx = (overrides: Partial<BookingRefundContext>): BookingRefundContext => ({
+  toStatus: 'CANCELLED',
+  actorRole: 'TENANT',
+  moveInDate,
+  now,
+  refundWindowHours: 48,
+  ...overrides
+});
+
+describe('booking refund policy', () => {
+  it('refunds everything when the owner rejects or an admin cancels', () => {
+    expect(bookingRefundFor(token, ctx({
+      toStatus: 'REJECTED',
+      actorRole: 'OWNER'
+    })).amount).toBe(200000);
+    expect(bookingRefundFor(token, ctx({
+      actorRole: 'ADMIN'
+    })).amount).toBe(200000);
+  });
+  it('refunds the token when the tenant cancels inside the window', () => {
+    expect(bookingRefundFor(token, ctx({})).amount).toBe(200000);
+  });
+  it('keeps the token after the window or once move-in has passed, but returns the deposit', () => {
+    const late = {
+      ...token,
+      verifiedAt: new Date(now.getTime() - 49 * HOUR_MS)
+    };
+    expect(bookingRefundFor(late, ctx({})).amount).toBe(0);
+    expect(bookingRefundFor(token, ctx({
+      moveInDate: new Date(now.getTime() - HOUR_MS)
+    })).amount).toBe(0);
+    expect(bookingRefundFor({
+      ...deposit,
+      verifiedAt: late.verifiedAt
+    }, ctx({})).amount).toBe(1500000);
+  });
+});
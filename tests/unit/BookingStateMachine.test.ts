@@ -0,0 +1,41 @@
+import { assertBookingTransition, allowedBookingTransitions, isTerminalBookingStatus } from '../../src/services/BookingStateMachine';
+import { ForbiddenError, InvalidStatusTransitionError } from '../../src/errors/AppErrors';
+
+describe('booking state machine', () => {
+  it('lets owners decide pending bookings and tenants withdraw them', () => {
+    expect(allowedBookingTransitions('PENDING', 'OWNER').sort()).toEqual(['APPROVED', 'REJECTED']);
+    expect(allowedBookingTransitions('PENDING', 'TENANT')).toEqual(['CANCELLED']);
+    expect(allowedBookingTransitions('PENDING', 'SYSTEM')).toEqual(['EXPIRED']);
+  });
+  it('walks the happy path approved → moved in → completed', () => {
+    expect(() => assertBookingTransition('PENDING', 'APPROVED', 'OWNER')).not.toThrow();
+    expect(() => assertBookingTransition('APPROVED', 'MOVED_IN', 'OWNER')).not.toThrow();
+    expect(() => assertBookingTransition('MOVED_IN', 'COMPLETED', 'ADMIN')).not.toThrow();
+  });
+  it('confirms approved bookings only through the payment path', () => {
+    expect(() => assertBookingTransition('APPROVED', 'CONFIRMED', 'SYSTEM')).not.toThrow();
+    expect(() => assertBookingTransition('APPROVED', 'CONFIRMED', 'OWNER')).toThrow(ForbiddenError);
+    expect(allowedBookingTransitions('CONFIRMED', 'OWNER').sort()).toEqual(['MOVED_IN', 'REJECTED']);
+    expect(allowedBookingTransitions('CONFIRMED', 'TENANT')).toEqual(['CANCELLED']);
+  });
+  it('accepts lowercase statuses from the API layer', () => {
+    expect(() => assertBookingTransition('approved', 'cancelled', 'TENANT')).not.toThrow();
+  });
+  it('rejects edges that do not exist', () => {
+    expect(() => assertBookingTransition('PENDING', 'MOVED_IN', 'OWNER')).toThrow(InvalidStatusTransitionError);
+    expect(() => assertBookingTransition('MOVED_IN', 'CANCELLED', 'TENANT')).toThrow(InvalidStatusTransitionError);
+    expect(() => assertBookingTransition('PENDING', 'UNKNOWN', 'ADMIN')).toThrow(InvalidStatusTransitionError);
+  });
+  it('rejects existing edges for the wrong actor', () => {
+    expect(() => assertBookingTransition('PENDING', 'APPROVED', 'TENANT')).toThrow(ForbiddenError);
+    expect(() => assertBookingTransition('PENDING', 'CANCELLED', 'OWNER')).toThrow(ForbiddenError);
+    expect(() => assertBookingTransition('PENDING', 'EXPIRED', 'ADMIN')).toThrow(ForbiddenError);
+  });
+  it('treats rejected, cancelled, expired and completed as terminal', () => {
+    for (const status of ['REJECTED', 'CANCELLED', 'EXPIRED', 'COMPLETED'] as const) {
+      expect(isTerminalBookingStatus(status)).toBe(true);
+      expect(() => assertBookingTransition(status, 'PENDING', 'ADMIN')).toThrow(InvalidStatusTransitionError);
+    }
+    expect(isTerminalBookingStatus('APPROVED')).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { bundleCovers, coverageLabel, resolveCityPlan, bundleTermsOf } from '../../src/services/BundlePolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-01T00:00:00Z');
+const inDays = (days: number) => new Date(now.getTime() + days * DAY_MS);
+const rank = (plan: string) => ['FREE', 'GOLD', 'PLATINUM'].indexOf(plan);
+const ctx = {
+  now,
+  graceDays: 3,
+  rank
+};
+
+describe('bundle policy', () => {
+  it('covers its own cities, or every city', () => {
+    const duo = {
+      cities: ['kota', 'jaipur'],
+      allCities: false
+    };
+    expect(bundleCovers(duo, 'jaipur')).toBe(true);
+    expect(bundleCovers(duo, 'pune')).toBe(false);
+    expect(bundleCovers({
+      cities: [],
+      allCities: true
+    }, 'pune')).toBe(true);
+    expect(coverageLabel(duo)).toBe('kota, jaipur');
+  });
+  it('applies the better of the city plan and any covering bundle', () => {
+    const goldDuo = {
+      id: 'b1',
+      plan: 'GOLD',
+      cities: ['kota', 'jaipur'],
+      allCities: false,
+      expiresAt: inDays(10)
+    };
+    const platinumAll = {
+      id: 'b2',
+      plan: 'PLATINUM',
+      cities: [],
+      allCities: true,
+      expiresAt: inDays(-5)
+    };
+    expect(resolveCityPlan(null, [goldDuo], 'kota', ctx)).toEqual({
+      plan: 'GOLD',
+      bundle: goldDuo
+    });
+    expect(resolveCityPlan(null, [goldDuo], 'pune', ctx)).toEqual({
+      plan: 'FREE',
+      bundle: null
+    });
+    // A tie keeps the city's own plan
+    expect(resolveCityPlan({
+      plan: 'GOLD',
+      expiresAt: inDays(2)
+    }, [goldDuo], 'kota', ctx).bundle).toBeNull();
+    // Lapsed past the grace period → no longer covers
+    expect(resolveCityPlan(null, [goldDuo, platinumAll], 'kota', ctx).bundle?.id).toBe('b1');
+    expect(resolveCityPlan(null, [goldDuo, {
+      ...platinumAll,
+      expiresAt: inDays(-1)
+    }], 'kota', ctx).plan).toBe('PLATINUM');
+  });
+  it('reads bundle terms off bundle payments only', () => {
+    const terms = {
+      code: 'DUO',
+      plan: 'GOLD',
+      cities: ['kota', 'jaipur'],
+      allCities: false,
+      durationDays: 30,
+      contactLimit: null
+    };
+    expect(bundleTermsOf({
+      bundleCode: 'DUO',
+      metadata: {
+        bundle: terms
+      }
+    })).toEqual(terms);
+    expect(bundleTermsOf({
+      bundleCode: null,
+      metadata: null
+    })).toBeNull();
+  });
+});
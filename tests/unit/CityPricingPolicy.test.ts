@@ -0,0 +1,46 @@
+import { effectiveVersion, upcomingVersion, priceChangeRejection, lockedVersion } from '../../src/services/CityPricingPolicy';
+
+const at = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const versions = [{
+  id: 'v1',
+  price: 99,
+  validFrom: at('2026-01-01'),
+  validTo: at('2026-03-01')
+}, {
+  id: 'v2',
+  price: 129,
+  validFrom: at('2026-03-01'),
+  validTo: at('2026-06-01')
+}, {
+  id: 'v3',
+  price: 149,
+  validFrom: at('2026-06-01'),
+  validTo: null
+}];
+
+describe('city pricing policy', () => {
+  it('resolves the version in effect and the next one announced', () => {
+    expect(effectiveVersion(versions, at('2026-02-15'))?.id).toBe('v1');
+    expect(effectiveVersion(versions, at('2026-03-01'))?.id).toBe('v2');
+    expect(effectiveVersion(versions, at('2027-01-01'))?.id).toBe('v3');
+    expect(effectiveVersion(versions, at('2025-12-31'))).toBeNull();
+    expect(upcomingVersion(versions, at('2026-04-01'))?.id).toBe('v3');
+    expect(upcomingVersion(versions, at('2026-07-01'))).toBeNull();
+  });
+  it('only appends changes after every existing version', () => {
+    const now = at('2026-04-01');
+    expect(priceChangeRejection(versions, at('2026-03-15'), now)).toBe('IN_THE_PAST');
+    expect(priceChangeRejection(versions, at('2026-05-01'), now)).toBe('CHANGE_ALREADY_SCHEDULED');
+    expect(priceChangeRejection(versions.slice(0, 2).map((v) => ({
+      ...v,
+      validTo: v.id === 'v2' ? null : v.validTo
+    })), now, now)).toBeNull();
+  });
+  it('honours a quoted price for a short while after it changes', () => {
+    const justAfter = new Date(at('2026-03-01').getTime() + 10 * 60 * 1000);
+    expect(lockedVersion(versions, 'v1', justAfter, 30)?.price).toBe(99);
+    expect(lockedVersion(versions, 'v1', at('2026-03-02'), 30)).toBeNull();
+    expect(lockedVersion(versions, 'v3', justAfter, 30)).toBeNull();
+    expect(lockedVersion(versions, 'unknown', justAfter, 30)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { quotaWindowStart, unlockUsage, unlockSource, spendOrder, topUpExpiresAt } from '../../src/services/ContactQuotaPolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-01T00:00:00Z');
+const inDays = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+describe('contact quota policy', () => {
+  it('counts a rolling window, or every unlock when there is none', () => {
+    expect(quotaWindowStart({
+      limit: 5,
+      windowDays: 7
+    }, now)).toEqual(inDays(-7));
+    expect(quotaWindowStart({
+      limit: 5,
+      windowDays: null
+    }, now)).toBeNull();
+    const usage = unlockUsage({
+      limit: 5,
+      windowDays: 7
+    }, {
+      used: 5,
+      oldestAt: inDays(-6)
+    }, 0, now);
+    expect(usage).toMatchObject({
+      used: 5,
+      remaining: 0,
+      nextReleaseAt: inDays(1),
+      canUnlock: false
+    });
+    expect(unlockSource(usage)).toBeNull();
+  });
+  it('falls back to top-ups once the quota is used up', () => {
+    const quota = {
+      limit: 5,
+      windowDays: 7
+    };
+    expect(unlockSource(unlockUsage(quota, {
+      used: 4,
+      oldestAt: inDays(-1)
+    }, 3, now))).toBe('PLAN');
+    expect(unlockSource(unlockUsage(quota, {
+      used: 5,
+      oldestAt: inDays(-1)
+    }, 3, now))).toBe('TOP_UP');
+    // Unlimited plans never touch top-ups
+    expect(unlockSource(unlockUsage({
+      limit: null,
+      windowDays: null
+    }, {
+      used: 50,
+      oldestAt: null
+    }, 3, now))).toBe('PLAN');
+  });
+  it('spends the soonest-expiring usable top-up first', () => {
+    const topUps = [{
+      id: 'forever',
+      remaining: 2,
+      expiresAt: null,
+      createdAt: inDays(-20)
+    }, {
+      id: 'later',
+      remaining: 1,
+      expiresAt: inDays(20),
+      createdAt: inDays(-10)
+    }, {
+      id: 'soon',
+      remaining: 1,
+      expiresAt: inDays(2),
+      createdAt: inDays(-5)
+    }, {
+      id: 'expired',
+      remaining: 4,
+      expiresAt: inDays(-1),
+      createdAt: inDays(-30)
+    }, {
+      id: 'spent',
+      remaining: 0,
+      expiresAt: null,
+      createdAt: inDays(-30)
+    }];
+    expect(spendOrder(topUps, now).map((t) => t.id)).toEqual(['soon', 'later', 'forever']);
+    expect(topUpExpiresAt({
+      code: 'TEN',
+      unlocks: 10,
+      validityDays: 30
+    }, now)).toEqual(inDays(30));
+  });
+});
@@ -0,0 +1,86 @@
+import { couponDiscount, couponRejection, CouponRules } from '../../src/services/CouponPolicy';
+
+const now = new Date('2026-10-19T10:00:00Z');
+const coupon: CouponRules = {
+  discountType: 'PERCENT',
+  discountValue: 20,
+  maxDiscount: null,
+  validFrom: new Date('2026-10-01T00:00:00Z'),
+  validUntil: new Date('2026-11-01T00:00:00Z'),
+  maxRedemptions: 100,
+  maxRedemptionsPerTenant: 1,
+  cities: ['kota'],
+  plans: ['GOLD'],
+  firstPurchaseOnly: true,
+  isActive: true
+};
+const ctx = {
+  city: 'kota',
+  plan: 'GOLD',
+  redemptions: 10,
+  tenantRedemptions: 0,
+  hasPaidSubscription: false,
+  now
+};
+
+describe('coupon policy', () => {
+  it('takes percentage and flat discounts, never below the minimum order', () => {
+    expect(couponDiscount(coupon, 49900)).toBe(9980);
+    expect(couponDiscount({
+      ...coupon,
+      maxDiscount: 5000
+    }, 49900)).toBe(5000);
+    expect(couponDiscount({
+      ...coupon,
+      discountType: 'FLAT',
+      discountValue: 10000
+    }, 49900)).toBe(10000);
+    expect(couponDiscount({
+      ...coupon,
+      discountValue: 100
+    }, 49900)).toBe(49800);
+  });
+  it('checks the window, restrictions and caps', () => {
+    expect(couponRejection(coupon, ctx)).toBeNull();
+    expect(couponRejection({
+      ...coupon,
+      isActive: false
+    }, ctx)).toBe('INACTIVE');
+    expect(couponRejection(coupon, {
+      ...ctx,
+      now: new Date('2026-11-01T00:00:00Z')
+    })).toBe('EXPIRED');
+    expect(couponRejection(coupon, {
+      ...ctx,
+      city: 'bangalore'
+    })).toBe('CITY_NOT_ELIGIBLE');
+    expect(couponRejection(coupon, {
+      ...ctx,
+      plan: 'PLATINUM'
+    })).toBe('PLAN_NOT_ELIGIBLE');
+    expect(couponRejection(coupon, {
+      ...ctx,
+      redemptions: 100
+    })).toBe('FULLY_REDEEMED');
+    expect(couponRejection(coupon, {
+      ...ctx,
+      tenantRedemptions: 1
+    })).toBe('ALREADY_REDEEMED');
+    expect(couponRejection(coupon, {
+      ...ctx,
+      hasPaidSubscription: true
+    })).toBe('FIRST_PURCHASE_ONLY');
+    expect(couponRejection({
+      ...coupon,
+      cities: [],
+      plans: [],
+      maxRedemptions: null,
+      firstPurchaseOnly: false
+    }, {
+      ...ctx,
+      city: 'bangalore',
+      redemptions: 5000,
+      hasPaidSubscription: true
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { PaymentStatus, PrismaClient, Prisma } from '@prisma/client';
+import { CouponService } from '../../src/services/CouponService';
+import { planCatalogService } from '../../src/services/PlanCatalogService';
+import { CatalogPlan } from '../../src/services/PlanCatalogPolicy';
+
+// Module singletons must not open a real database client
+jest.mock('../../src/utils/prisma', () => ({
+  getPrismaClient: jest.fn()
+}));
+const MINUTE_MS = 60 * 1000;
+const now = new Date('2026-06-10T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * MINUTE_MS);
+
+// In-memory redemptions, each with its payment. countedPayment() only uses
+// OR / status IN / createdAt > — enough of Prisma's where to match it here.
+let redemptions: {
+  tenantId: string;
+  payment: {
+    status: PaymentStatus;
+    createdAt: Date;
+  };
+}[];
+const matches = (payment: any, where: Prisma.PaymentWhereInput): boolean => {
+  if (where.OR) return (where.OR as Prisma.PaymentWhereInput[]).some((w) => matches(payment, w));
+  const status = where.status as {
+    in: PaymentStatus[];
+  };
+  const createdAt = where.createdAt as {
+    gt: Date;
+  } | undefined;
+  return status.in.includes(payment.status) && (!createdAt || payment.createdAt > createdAt.gt);
+};
+const coupon = {
+  id: 'coupon-1',
+  code: 'LAUNCH50',
+  discountType: 'PERCENT',
+  discountValue: 50,
+  maxDiscount: null,
+  validFrom: new Date('2026-01-01T00:00:00Z'),
+  validUntil: null,
+  maxRedemptions: 2,
+  maxRedemptionsPerTenant: 1,
+  cities: [],
+  plans: [],
+  firstPurchaseOnly: false,
+  isActive: true
+};
+const db: any = {
+  coupon: {
+    findUnique: jest.fn(() => Promise.resolve(coupon)),
+    update: jest.fn(() => Promise.resolve(coupon))
+  },
+  couponRedemption: {
+    count: jest.fn(({ where }) => Promise.resolve(redemptions.filter((r) => (!where.tenantId || r.tenantId === where.tenantId) && matches(r.payment, where.payment)).length)),
+    create: jest.fn(({ data }) => Promise.resolve({
+      id: 'redemption-1',
+      ...data
+    }))
+  },
+  payment: {
+    count: jest.fn(() => Promise.resolve(0))
+  }
+};
+const service = new CouponService(db as PrismaClient);
+const quote = (tenantId: string) => service.quote(tenantId, {
+  code: 'launch50',
+  plan: 'gold',
+  city: 'Pune',
+  originalAmount: 49900
+}, now);
+const redemption = (tenantId: string, status: PaymentStatus, createdAt: Date = minutesAgo(5)) => ({
+  tenantId,
+  payment: {
+    status,
+    createdAt
+  }
+});
+describe('CouponService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(planCatalogService, 'requirePurchasablePlan').mockResolvedValue({
+      name: 'GOLD'
+    } as CatalogPlan);
+    redemptions = [];
+  });
+  it('prices the order with the coupon applied', async () => {
+    await expect(quote('tenant-1')).resolves.toMatchObject({
+      code: 'LAUNCH50',
+      plan: 'GOLD',
+      city: 'pune',
+      discountAmount: 24950,
+      finalAmount: 24950
+    });
+  });
+  it('counts paid redemptions towards the caps', async () => {
+    redemptions = [redemption('tenant-2', PaymentStatus.VERIFIED, minutesAgo(60 * 24)), redemption('tenant-3', PaymentStatus.PARTIALLY_REFUNDED, minutesAgo(60 * 24))];
+    await expect(quote('tenant-1')).rejects.toThrow('This coupon has reached its redemption limit');
+    redemptions = [redemption('tenant-1', PaymentStatus.VERIFIED, minutesAgo(60 * 24))];
+    await expect(quote('tenant-1')).rejects.toThrow('You have already used this coupon');
+  });
+  it('lets an unpaid order hold its redemption only while checkout is open', async () => {
+    redemptions = [redemption('tenant-2', PaymentStatus.CREATED, minutesAgo(5)), redemption('tenant-3', PaymentStatus.PENDING, minutesAgo(29))];
+    await expect(quote('tenant-1')).rejects.toThrow('This coupon has reached its redemption limit');
+    redemptions = [redemption('tenant-2', PaymentStatus.CREATED, minutesAgo(5)), redemption('tenant-3', PaymentStatus.CREATED, minutesAgo(30))];
+    await expect(quote('tenant-1')).resolves.toMatchObject({
+      discountAmount: 24950
+    });
+  });
+  it('frees the code when the payment failed, expired or was fully refunded', async () => {
+    redemptions = [redemption('tenant-1', PaymentStatus.FAILED), redemption('tenant-1', PaymentStatus.EXPIRED), redemption('tenant-1', PaymentStatus.REFUNDED)];
+    await expect(quote('tenant-1')).resolves.toMatchObject({
+      discountAmount: 24950
+    });
+  });
+  it('locks the coupon and re-checks the caps before recording a redemption', async () => {
+    const tx = db as Prisma.TransactionClient;
+    const current = await quote('tenant-1');
+    // Another tenant paid for the last redemption in the meantime
+    redemptions = [redemption('tenant-2', PaymentStatus.VERIFIED), redemption('tenant-3', PaymentStatus.CREATED)];
+    await expect(service.redeem(tx, {
+      tenantId: 'tenant-1',
+      paymentId: 'payment-1',
+      quote: current,
+      now
+    })).rejects.toThrow('This coupon has reached its redemption limit');
+    expect(db.coupon.update).toHaveBeenCalledTimes(1);
+    expect(db.couponRedemption.create).not.toHaveBeenCalled();
+    redemptions = [redemption('tenant-2', PaymentStatus.VERIFIED)];
+    await expect(service.redeem(tx, {
+      tenantId: 'tenant-1',
+      paymentId: 'payment-1',
+      quote: current,
+      now
+    })).resolves.toMatchObject({
+      couponId: 'coupon-1',
+      paymentId: 'payment-1',
+      finalAmount: 24950
+    });
+  });
+});
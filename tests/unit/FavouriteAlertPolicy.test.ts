@@ -0,0 +1,60 @@
+import { favouriteAlertsFor } from '../../src/services/FavouriteAlertPolicy';
+
+const live = {
+  pricePerMonth: 10000,
+  isActive: true,
+  isVerified: true
+};
+describe('favourite alert policy', () => {
+  it('announces a price drop on a visible room', () => {
+    expect(favouriteAlertsFor(live, {
+      ...live,
+      pricePerMonth: 9000
+    })).toEqual(['PRICE_DROP']);
+  });
+  it('stays quiet about price rises and unchanged prices', () => {
+    expect(favouriteAlertsFor(live, {
+      ...live,
+      pricePerMonth: 11000
+    })).toEqual([]);
+    expect(favouriteAlertsFor(live, live)).toEqual([]);
+  });
+  it('only announces price drops on rooms tenants can see', () => {
+    expect(favouriteAlertsFor(live, {
+      ...live,
+      pricePerMonth: 9000,
+      isVerified: false
+    })).toEqual([]);
+    expect(favouriteAlertsFor({
+      ...live,
+      isActive: false
+    }, {
+      ...live,
+      pricePerMonth: 9000,
+      isActive: false
+    })).toEqual([]);
+  });
+  it('suppresses the price drop when the edit sent the room back to review', () => {
+    expect(favouriteAlertsFor(live, {
+      ...live,
+      pricePerMonth: 9000
+    }, true)).toEqual([]);
+  });
+  it('announces deactivation, but not reactivation', () => {
+    expect(favouriteAlertsFor(live, {
+      ...live,
+      isActive: false
+    })).toEqual(['DEACTIVATED']);
+    expect(favouriteAlertsFor({
+      ...live,
+      isActive: false
+    }, live)).toEqual([]);
+  });
+  it('announces only the deactivation when a room is cut in price and taken down together', () => {
+    expect(favouriteAlertsFor(live, {
+      ...live,
+      pricePerMonth: 9000,
+      isActive: false
+    })).toEqual(['DEACTIVATED']);
+  });
+});
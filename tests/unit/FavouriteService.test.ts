@@ -0,0 +1,131 @@
+import { PrismaClient } from '@prisma/client';
+import { FavouriteService } from '../../src/services/FavouriteService';
+import { BusinessLogicError, NotFoundError } from '../../src/errors/AppErrors';
+
+// Module singletons must not open a real database client
+jest.mock('../../src/utils/prisma', () => ({
+  getPrismaClient: jest.fn()
+}));
+const liveRoom = {
+  id: 'room-1',
+  title: 'Sunny PG',
+  city: 'pune',
+  location: 'Baner',
+  pricePerMonth: 9000,
+  roomType: 'PG',
+  images: [],
+  isActive: true
+};
+const saved = {
+  id: 'favourite-1',
+  tenantId: 'tenant-1',
+  roomId: 'room-1',
+  priceAtSave: 10000,
+  createdAt: new Date('2026-06-01T10:00:00Z')
+};
+const prisma: any = {
+  room: {
+    findFirst: jest.fn()
+  },
+  favourite: {
+    findUnique: jest.fn(),
+    count: jest.fn(),
+    upsert: jest.fn(({ create }) => Promise.resolve({
+      ...saved,
+      ...create,
+      room: liveRoom
+    })),
+    deleteMany: jest.fn(),
+    findMany: jest.fn()
+  }
+};
+const service = new FavouriteService(prisma as PrismaClient);
+describe('FavouriteService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.room.findFirst.mockResolvedValue(liveRoom);
+    prisma.favourite.findUnique.mockResolvedValue(null);
+    prisma.favourite.count.mockResolvedValue(0);
+  });
+  describe('add', () => {
+    it('saves a live room at its current price', async () => {
+      await expect(service.add('tenant-1', 'room-1')).resolves.toEqual({
+        roomId: 'room-1',
+        priceAtSave: 9000,
+        favouritedAt: '2026-06-01T10:00:00.000Z',
+        room: liveRoom
+      });
+      expect(prisma.room.findFirst.mock.calls[0][0].where).toEqual({
+        id: 'room-1',
+        isActive: true,
+        reviewStatus: 'APPROVED'
+      });
+    });
+    it('rejects rooms that are not live', async () => {
+      prisma.room.findFirst.mockResolvedValue(null);
+      await expect(service.add('tenant-1', 'room-1')).rejects.toBeInstanceOf(NotFoundError);
+      expect(prisma.favourite.upsert).not.toHaveBeenCalled();
+    });
+    it('returns an existing favourite without resetting its saved price', async () => {
+      prisma.favourite.findUnique.mockResolvedValue(saved);
+      await expect(service.add('tenant-1', 'room-1')).resolves.toMatchObject({
+        priceAtSave: 10000,
+        room: {
+          pricePerMonth: 9000
+        }
+      });
+      expect(prisma.favourite.upsert).not.toHaveBeenCalled();
+    });
+    it('caps the shortlist at 200 rooms', async () => {
+      prisma.favourite.count.mockResolvedValue(200);
+      await expect(service.add('tenant-1', 'room-1')).rejects.toThrow(new BusinessLogicError('You can favourite up to 200 rooms'));
+      prisma.favourite.count.mockResolvedValue(199);
+      await expect(service.add('tenant-1', 'room-1')).resolves.toMatchObject({
+        roomId: 'room-1'
+      });
+    });
+  });
+  describe('remove', () => {
+    it('deletes only the tenant\'s own favourite', async () => {
+      prisma.favourite.deleteMany.mockResolvedValue({
+        count: 1
+      });
+      await expect(service.remove('tenant-1', 'room-1')).resolves.toBeUndefined();
+      expect(prisma.favourite.deleteMany).toHaveBeenCalledWith({
+        where: {
+          tenantId: 'tenant-1',
+          roomId: 'room-1'
+        }
+      });
+    });
+    it('reports a room that was not favourited', async () => {
+      prisma.favourite.deleteMany.mockResolvedValue({
+        count: 0
+      });
+      await expect(service.remove('tenant-1', 'room-1')).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+  describe('list', () => {
+    it('lists newest first and keeps rooms that were taken down', async () => {
+      prisma.favourite.findMany.mockResolvedValue([{
+        ...saved,
+        room: {
+          ...liveRoom,
+          isActive: false
+        }
+      }]);
+      const favourites = await service.list('tenant-1', 10);
+      expect(favourites).toHaveLength(1);
+      expect(favourites[0].room.isActive).toBe(false);
+      expect(prisma.favourite.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          tenantId: 'tenant-1'
+        },
+        orderBy: {
+          createdAt: 'desc'
+        },
+        take: 10
+      }));
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { reconcilePayment, subscriptionUpgradeMissing } from '../../src/services/PaymentReconciliationPolicy';
+import { GatewayPayment } from '../../src/services/PaymentGateway';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const now = new Date('2026-10-19T10:00:00Z');
+const ctx = {
+  now,
+  expireAfterHours: 24
+};
+const payment = {
+  amount: 49900,
+  status: 'CREATED',
+  createdAt: new Date(now.getTime() - 2 * HOUR_MS)
+};
+const attempt = (status: GatewayPayment['status'], overrides: Partial<GatewayPayment> = {}): GatewayPayment => ({
+  id: `pay_${status}`,
+  orderId: 'order_1',
+  amount: 49900,
+  status,
+  ...overrides
+});
+
+describe('payment reconciliation policy', () => {
+  it('verifies a captured attempt of the right amount and flags a mismatch', () => {
+    expect(reconcilePayment(payment, [attempt('failed'), attempt('captured')], ctx)).toMatchObject({
+      action: 'VERIFY',
+      gatewayPaymentId: 'pay_captured'
+    });
+    expect(reconcilePayment(payment, [attempt('captured', {
+      amount: 100
+    })], ctx).action).toBe('FLAG');
+  });
+  it('marks authorized payments pending, and expires them once stale', () => {
+    expect(reconcilePayment(payment, [attempt('authorized')], ctx).action).toBe('MARK_PENDING');
+    expect(reconcilePayment({
+      ...payment,
+      status: 'PENDING'
+    }, [attempt('authorized')], ctx).action).toBe('WAIT');
+    expect(reconcilePayment({
+      ...payment,
+      createdAt: new Date(now.getTime() - 25 * HOUR_MS)
+    }, [attempt('authorized')], ctx).action).toBe('EXPIRE');
+  });
+  it('fails orders whose attempts all failed and expires abandoned ones', () => {
+    expect(reconcilePayment(payment, [attempt('failed', {
+      errorDescription: 'Card declined'
+    })], ctx)).toMatchObject({
+      action: 'FAIL',
+      reason: 'Card declined'
+    });
+    expect(reconcilePayment(payment, [], ctx).action).toBe('WAIT');
+    expect(reconcilePayment({
+      ...payment,
+      createdAt: new Date(now.getTime() - 24 * HOUR_MS)
+    }, [], ctx).action).toBe('EXPIRE');
+  });
+  it('detects a paid plan missing from the subscription while the period lasts', () => {
+    const paid = {
+      plan: 'gold',
+      verifiedAt: new Date(now.getTime() - 3 * DAY_MS)
+    };
+    const applied = {
+      plan: 'GOLD',
+      expiresAt: new Date(paid.verifiedAt.getTime() + 30 * DAY_MS)
+    };
+    expect(subscriptionUpgradeMissing(paid, applied, 30, now)).toBe(false);
+    expect(subscriptionUpgradeMissing(paid, null, 30, now)).toBe(true);
+    expect(subscriptionUpgradeMissing(paid, {
+      plan: 'FREE',
+      expiresAt: null
+    }, 30, now)).toBe(true);
+    expect(subscriptionUpgradeMissing({
+      ...paid,
+      verifiedAt: new Date(now.getTime() - 31 * DAY_MS)
+    }, null, 30, now)).toBe(false);
+  });
+});
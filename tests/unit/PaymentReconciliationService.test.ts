@@ -0,0 +1,225 @@
+import { PaymentPurpose, PaymentStatus, PrismaClient, ReconciliationTrigger } from '@prisma/client';
+import { PaymentReconciliationService } from '../../src/services/PaymentReconciliationService';
+import { TenantSubscriptionService } from '../../src/services/TenantSubscriptionService';
+import { BookingPaymentService } from '../../src/services/BookingPaymentService';
+import { planCatalogService } from '../../src/services/PlanCatalogService';
+import { InMemoryPaymentGateway } from '../helpers/InMemoryPaymentGateway';
+
+// Module singletons must not open a real database client
+jest.mock('../../src/utils/prisma', () => ({
+  getPrismaClient: jest.fn()
+}));
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2026-06-10T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR_MS);
+
+// In-memory payments and subscriptions; findMany tells the stuck-payment scan
+// (status IN open statuses) from the repair scan (status = VERIFIED)
+let payments: any[];
+let subscriptions: any[];
+const prisma: any = {
+  paymentReconciliationRun: {
+    create: jest.fn(() => Promise.resolve({
+      id: 'run-1'
+    })),
+    update: jest.fn(({ data }) => Promise.resolve({
+      id: 'run-1',
+      ...data
+    }))
+  },
+  payment: {
+    findMany: jest.fn(({ where }) => Promise.resolve(payments.filter((p) => where.status.in ? where.status.in.includes(p.status) && p.createdAt <= where.createdAt.lte : p.status === where.status && p.purpose === where.purpose))),
+    updateMany: jest.fn(({ where, data }) => {
+      const payment = payments.find((p) => p.id === where.id && where.status.in.includes(p.status));
+      if (payment) Object.assign(payment, data);
+      return Promise.resolve({
+        count: payment ? 1 : 0
+      });
+    }),
+    aggregate: jest.fn(() => Promise.resolve({
+      _max: {
+        durationDays: null
+      }
+    }))
+  },
+  bundlePlan: {
+    aggregate: jest.fn(() => Promise.resolve({
+      _max: {
+        durationDays: null
+      }
+    }))
+  },
+  tenantSubscription: {
+    findMany: jest.fn(() => Promise.resolve(subscriptions))
+  },
+  tenantBundle: {
+    findMany: jest.fn(() => Promise.resolve([]))
+  }
+};
+const subscriptionService = {
+  activateFromPayment: jest.fn(() => Promise.resolve({
+    alreadyProcessed: false
+  })),
+  repairFromPayment: jest.fn(() => Promise.resolve())
+};
+const bookingPaymentService = {
+  markVerified: jest.fn(() => Promise.resolve({
+    alreadyProcessed: false
+  }))
+};
+const payment = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  orderId: `order_${id}`,
+  tenantId: 'tenant-1',
+  purpose: PaymentPurpose.SUBSCRIPTION,
+  plan: 'GOLD',
+  city: 'pune',
+  amount: 49900,
+  status: PaymentStatus.CREATED,
+  bundleCode: null,
+  metadata: null,
+  durationDays: 30,
+  razorpayPaymentId: null,
+  verifiedAt: null,
+  periodEnd: null,
+  createdAt: hoursAgo(2),
+  ...overrides
+});
+describe('PaymentReconciliationService', () => {
+  let gateway: InMemoryPaymentGateway;
+  let service: PaymentReconciliationService;
+  const reconcile = () => service.run({
+    trigger: ReconciliationTrigger.MANUAL,
+    triggeredBy: 'admin-1',
+    now
+  });
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(planCatalogService, 'getLongestDurationDays').mockResolvedValue(30);
+    payments = [];
+    subscriptions = [];
+    gateway = new InMemoryPaymentGateway();
+    service = new PaymentReconciliationService(subscriptionService as unknown as TenantSubscriptionService, prisma as PrismaClient, gateway, bookingPaymentService as unknown as BookingPaymentService);
+  });
+  describe('stuck payments', () => {
+    it('verifies payments captured on the gateway through the checkout paths', async () => {
+      payments = [payment('sub'), payment('token', {
+        purpose: PaymentPurpose.BOOKING_TOKEN,
+        plan: null
+      })];
+      gateway.record({
+        id: 'pay_sub',
+        orderId: 'order_sub',
+        amount: 49900,
+        status: 'captured'
+      });
+      gateway.record({
+        id: 'pay_token',
+        orderId: 'order_token',
+        amount: 49900,
+        status: 'captured'
+      });
+      const run = await reconcile();
+      expect(subscriptionService.activateFromPayment).toHaveBeenCalledWith('sub', 'pay_sub');
+      expect(bookingPaymentService.markVerified).toHaveBeenCalledWith('token', 'pay_token');
+      expect(run).toMatchObject({
+        status: 'COMPLETED',
+        scanned: 2,
+        verified: 2
+      });
+    });
+    it('does not count a payment checkout already verified', async () => {
+      payments = [payment('sub')];
+      gateway.record({
+        id: 'pay_sub',
+        orderId: 'order_sub',
+        amount: 49900,
+        status: 'captured'
+      });
+      subscriptionService.activateFromPayment.mockResolvedValueOnce({
+        alreadyProcessed: true
+      });
+      expect(await reconcile()).toMatchObject({
+        verified: 0
+      });
+    });
+    it('fails payments whose attempts all failed and expires abandoned ones', async () => {
+      payments = [payment('declined'), payment('abandoned', {
+        createdAt: hoursAgo(25)
+      }), payment('recent')];
+      gateway.record({
+        id: 'pay_declined',
+        orderId: 'order_declined',
+        amount: 49900,
+        status: 'failed',
+        errorDescription: 'Card declined'
+      });
+      const run = await reconcile();
+      expect(payments.map((p) => [p.id, p.status])).toEqual([['declined', PaymentStatus.FAILED], ['abandoned', PaymentStatus.EXPIRED], ['recent', PaymentStatus.CREATED]]);
+      expect(payments[0].razorpayPaymentId).toBe('pay_declined');
+      expect(run).toMatchObject({
+        scanned: 3,
+        failed: 1,
+        expired: 1
+      });
+    });
+    it('flags a payment the gateway could not be asked about', async () => {
+      payments = [payment('sub')];
+      jest.spyOn(gateway, 'fetchOrderPayments').mockRejectedValueOnce(new Error('Gateway timeout'));
+      const run: any = await reconcile();
+      expect(run.flagged).toBe(1);
+      expect(run.items[0]).toMatchObject({
+        paymentId: 'sub',
+        action: 'FLAG',
+        reason: 'Reconciliation error: Gateway timeout'
+      });
+    });
+  });
+  describe('subscription repair', () => {
+    const verified = (id: string, hours: number) => payment(id, {
+      status: PaymentStatus.VERIFIED,
+      razorpayPaymentId: `pay_${id}`,
+      verifiedAt: hoursAgo(hours),
+      createdAt: hoursAgo(hours)
+    });
+    it('re-applies a verified payment the subscription does not reflect', async () => {
+      payments = [verified('paid', 48)];
+      subscriptions = [{
+        tenantId: 'tenant-1',
+        city: 'pune',
+        plan: 'FREE',
+        expiresAt: null
+      }];
+      const run: any = await reconcile();
+      expect(subscriptionService.repairFromPayment).toHaveBeenCalledWith('paid');
+      expect(run.repaired).toBe(1);
+      expect(run.items[0].reason).toBe('Subscription was FREE until no expiry');
+    });
+    it('leaves subscriptions that already run until the paid period ends', async () => {
+      payments = [verified('paid', 48)];
+      subscriptions = [{
+        tenantId: 'tenant-1',
+        city: 'pune',
+        plan: 'GOLD',
+        expiresAt: new Date(hoursAgo(48).getTime() + 30 * 24 * HOUR_MS)
+      }];
+      expect(await reconcile()).toMatchObject({
+        repaired: 0
+      });
+      expect(subscriptionService.repairFromPayment).not.toHaveBeenCalled();
+    });
+    it('only looks at the latest payment for each tenant and city', async () => {
+      // Newest first, as the repair query orders them; the older one has run out
+      payments = [verified('renewal', 2), verified('expired', 24 * 40)];
+      subscriptions = [{
+        tenantId: 'tenant-1',
+        city: 'pune',
+        plan: 'GOLD',
+        expiresAt: new Date(hoursAgo(2).getTime() + 30 * 24 * HOUR_MS)
+      }];
+      expect(await reconcile()).toMatchObject({
+        repaired: 0
+      });
+    });
+  });
+});
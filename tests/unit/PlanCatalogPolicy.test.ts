@@ -0,0 +1,39 @@
+import { missingCityPricing, isPurchasable, DEFAULT_PLANS } from '../../src/services/PlanCatalogPolicy';
+
+describe('plan catalogue policy', () => {
+  it('only sells active paid plans', () => {
+    expect(DEFAULT_PLANS.filter(isPurchasable).map((p) => p.name)).toEqual(['GOLD', 'PLATINUM']);
+    expect(isPurchasable({
+      name: 'SILVER',
+      isActive: false
+    })).toBe(false);
+    expect(isPurchasable(null)).toBe(false);
+  });
+  it('reports every city an active paid plan has no price in', () => {
+    const plans = [{
+      name: 'FREE',
+      isActive: true
+    }, {
+      name: 'GOLD',
+      isActive: true
+    }, {
+      name: 'SILVER',
+      isActive: false
+    }];
+    const pricing = [{
+      plan: 'GOLD',
+      city: 'kota'
+    }, {
+      plan: 'FREE',
+      city: 'kota'
+    }];
+    expect(missingCityPricing(plans, pricing, ['kota', 'jaipur'])).toEqual([{
+      plan: 'GOLD',
+      city: 'jaipur'
+    }]);
+    expect(missingCityPricing(plans, [...pricing, {
+      plan: 'GOLD',
+      city: 'jaipur'
+    }], ['kota', 'jaipur'])).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PrismaRoomRepository } from '../../src/repositories/PrismaRoomRepository';
+
+// Records every raw query as Prisma.Sql so the generated SQL can be inspected
+const queries: Prisma.Sql[] = [];
+const mockPrisma = {
+  $queryRaw: jest.fn((strings: TemplateStringsArray, ...values: unknown[]) => {
+    queries.push(Prisma.sql(strings, ...values));
+    return Promise.resolve([]);
+  }),
+  $transaction: jest.fn((batch: Promise<unknown>[]) => Promise.all(batch)),
+  room: {
+    count: jest.fn().mockResolvedValue(0),
+    findMany: jest.fn().mockResolvedValue([])
+  }
+};
+const repository = new PrismaRoomRepository(mockPrisma as unknown as PrismaClient);
+const normalize = (sql: Prisma.Sql) => sql.text.replace(/\s+/g, ' ');
+const findQuery = (fragment: string) => queries.find((q) => normalize(q).includes(fragment));
+const orderByOf = (sql: Prisma.Sql) => normalize(sql).split('ORDER BY ')[1].split(' OFFSET')[0].trim();
+
+describe('PrismaRoomRepository', () => {
+  beforeEach(() => {
+    queries.length = 0;
+    jest.clearAllMocks();
+  });
+  describe('free-text search', () => {
+    it('matches on the stored search vector and the trigram-indexed columns', async () => {
+      await repository.findAll({
+        q: 'koramangla pg'
+      });
+      const count = findQuery('COUNT(*)')!;
+      const sql = normalize(count);
+      expect(sql).toContain('r."searchVector" @@ query');
+      expect(sql).toMatch(/\$\d+ <% r\."title" OR \$\d+ <% r\."location" OR \$\d+ <% r\."landmark"/);
+      expect(sql).not.toContain('to_tsvector');
+      expect(count.values).toContain('koramangla pg');
+    });
+    it('sets the word-similarity threshold in the same transaction as the search', async () => {
+      await repository.findAll({
+        q: 'koramangla'
+      });
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      const [batch] = mockPrisma.$transaction.mock.calls[0];
+      expect(batch).toHaveLength(3);
+      expect(findQuery("set_config('pg_trgm.word_similarity_threshold'")?.values).toEqual(['0.4']);
+    });
+    it('needs no transaction without a search term', async () => {
+      await repository.findAll({
+        near: {
+          lat: 12.93,
+          lng: 77.62
+        }
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+      expect(queries).toHaveLength(2);
+      expect(findQuery('<%')).toBeUndefined();
+    });
+  });
+  describe('facets', () => {
+    const filters = {
+      city: 'Pune',
+      roomType: 'PG',
+      amenities: ['wifi'],
+      maxPrice: 9000
+    };
+    it('drops only its own dimension from each facet query', async () => {
+      await repository.getFacets(filters);
+      expect(queries).toHaveLength(3);
+      const amenity = normalize(findQuery('unnest(r."amenities")')!);
+      const roomType = normalize(findQuery('r."roomType" AS value')!);
+      const city = normalize(findQuery('r."city" AS value')!);
+      expect(amenity).not.toContain('r."amenities" @>');
+      expect(amenity).toContain('r."city" =');
+      expect(amenity).toContain('r."roomType" =');
+      expect(roomType).not.toContain('r."roomType" =');
+      expect(roomType).toContain('r."city" =');
+      expect(roomType).toContain('r."amenities" @>');
+      expect(city).not.toContain('r."city" =');
+      expect(city).toContain('r."roomType" =');
+      expect(city).toContain('r."amenities" @>');
+      // Filters outside the facet dimensions narrow every count
+      for (const sql of [amenity, roomType, city]) {
+        expect(sql).toContain('r."pricePerMonth" <=');
+      }
+    });
+    it('leaves the caller\'s filters untouched', async () => {
+      await repository.getFacets(filters);
+      expect(filters).toEqual({
+        city: 'Pune',
+        roomType: 'PG',
+        amenities: ['wifi'],
+        maxPrice: 9000
+      });
+    });
+  });
+  describe('amenitiesMatch', () => {
+    it('requires every amenity by default and any one with amenitiesMatch=any', async () => {
+      await repository.findAll({
+        amenities: 'wifi, ac'
+      });
+      await repository.findAll({
+        amenities: ['wifi', 'ac'],
+        amenitiesMatch: 'any'
+      });
+      const [all, any] = mockPrisma.room.findMany.mock.calls.map(([args]) => args.where.amenities);
+      expect(all).toEqual({
+        hasEvery: ['wifi', 'ac']
+      });
+      expect(any).toEqual({
+        hasSome: ['wifi', 'ac']
+      });
+    });
+    it('uses array containment or overlap on the raw path', async () => {
+      await repository.findAll({
+        q: 'pg',
+        amenities: 'wifi,ac'
+      });
+      expect(normalize(findQuery('COUNT(*)')!)).toMatch(/r\."amenities" @> \$\d+::text\[\]/);
+      queries.length = 0;
+      await repository.findAll({
+        q: 'pg',
+        amenities: 'wifi,ac',
+        amenitiesMatch: 'any'
+      });
+      const count = findQuery('COUNT(*)')!;
+      expect(normalize(count)).toMatch(/r\."amenities" && \$\d+::text\[\]/);
+      expect(count.values).toContainEqual(['wifi', 'ac']);
+    });
+    it('ignores an empty amenity list', async () => {
+      await repository.findAll({
+        amenities: ' , '
+      });
+      expect(mockPrisma.room.findMany.mock.calls[0][0].where).not.toHaveProperty('amenities');
+    });
+  });
+  describe('sort', () => {
+    const prismaOrderBy = async (sort?: string) => {
+      mockPrisma.room.findMany.mockClear();
+      await repository.findAll({
+        sort
+      });
+      return mockPrisma.room.findMany.mock.calls[0][0].orderBy;
+    };
+    const tieBreak = [{
+      createdAt: 'desc'
+    }, {
+      id: 'desc'
+    }];
+    it('maps each sort to a Prisma orderBy ending on (createdAt, id)', async () => {
+      expect(await prismaOrderBy()).toEqual(tieBreak);
+      expect(await prismaOrderBy('newest')).toEqual(tieBreak);
+      expect(await prismaOrderBy('price_asc')).toEqual([{
+        pricePerMonth: 'asc'
+      }, ...tieBreak]);
+      expect(await prismaOrderBy('price_desc')).toEqual([{
+        pricePerMonth: 'desc'
+      }, ...tieBreak]);
+      expect(await prismaOrderBy('rating')).toEqual([{
+        rating: 'desc'
+      }, {
+        reviewsCount: 'desc'
+      }, ...tieBreak]);
+      expect(await prismaOrderBy('popularity')).toEqual([{
+        isPopular: 'desc'
+      }, {
+        propertyViews: {
+          _count: 'desc'
+        }
+      }, ...tieBreak]);
+    });
+    const sqlOrderBy = async (filters: Record<string, unknown>) => {
+      queries.length = 0;
+      await repository.findAll(filters);
+      return orderByOf(findQuery('OFFSET')!);
+    };
+    const near = {
+      lat: 18.52,
+      lng: 73.86
+    };
+    it('maps each sort to an ORDER BY on the raw path', async () => {
+      expect(await sqlOrderBy({
+        q: 'pg',
+        sort: 'price_asc'
+      })).toBe('r."pricePerMonth" ASC, r."createdAt" DESC, r."id" DESC');
+      expect(await sqlOrderBy({
+        q: 'pg',
+        sort: 'price_desc'
+      })).toBe('r."pricePerMonth" DESC, r."createdAt" DESC, r."id" DESC');
+      expect(await sqlOrderBy({
+        q: 'pg',
+        sort: 'rating'
+      })).toBe('r."rating" DESC, r."reviewsCount" DESC, r."createdAt" DESC, r."id" DESC');
+      expect(await sqlOrderBy({
+        q: 'pg',
+        sort: 'popularity'
+      })).toMatch(/^r\."isPopular" DESC, \(SELECT COUNT\(\*\) FROM "PropertyView" .*\) DESC, r\."createdAt" DESC, r\."id" DESC$/);
+      expect(await sqlOrderBy({
+        near,
+        sort: 'distance'
+      })).toBe('"distanceKm" ASC, r."createdAt" DESC, r."id" DESC');
+    });
+    it('ranks by relevance when searching and otherwise shows the newest first', async () => {
+      expect(await sqlOrderBy({
+        q: 'pg'
+      })).toBe('rank DESC, r."createdAt" DESC, r."id" DESC');
+      expect(await sqlOrderBy({
+        q: 'pg',
+        sort: 'newest'
+      })).toBe('r."createdAt" DESC, r."id" DESC');
+      expect(await sqlOrderBy({
+        near
+      })).toBe('r."createdAt" DESC, r."id" DESC');
+      expect(await sqlOrderBy({
+        near,
+        sort: 'relevance'
+      })).toBe('r."createdAt" DESC, r."id" DESC');
+    });
+  });
+});
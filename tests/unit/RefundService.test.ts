@@ -0,0 +1,235 @@
+import { BookingStatus, PaymentPurpose, PaymentStatus, PrismaClient, RefundStatus } from '@prisma/client';
+import { RefundService, queueBookingRefunds } from '../../src/services/RefundService';
+import { RazorpayService } from '../../src/services/RazorpayService';
+
+// Module singletons must not open a real database client
+jest.mock('../../src/utils/prisma', () => ({
+  getPrismaClient: jest.fn()
+}));
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-06-10T12:00:00Z');
+const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+// In-memory rows for one GOLD payment and its subscription
+let payment: any;
+let subscription: any;
+let refunds: any[];
+const withPayment = (refund: any) => ({
+  ...refund,
+  payment
+});
+const mockPrisma: any = {
+  payment: {
+    findUnique: jest.fn(({ include }) => Promise.resolve({
+      ...payment,
+      ...(include && {
+        refunds: refunds.filter((r) => r.status !== include.refunds.where.status.not)
+      })
+    })),
+    update: jest.fn(({ data }) => Promise.resolve(Object.assign(payment, data)))
+  },
+  tenantSubscription: {
+    findUnique: jest.fn(() => Promise.resolve(subscription)),
+    update: jest.fn(({ data }) => Promise.resolve(subscription = {
+      ...subscription,
+      ...data
+    }))
+  },
+  refund: {
+    create: jest.fn(({ data }) => {
+      const refund = {
+        id: `refund-${refunds.length + 1}`,
+        status: RefundStatus.PENDING,
+        createdAt: now,
+        processedAt: null,
+        ...data
+      };
+      refunds.push(refund);
+      return Promise.resolve(refund);
+    }),
+    findUnique: jest.fn(({ where }) => Promise.resolve(withPayment(refunds.find((r) => r.id === where.id)))),
+    findUniqueOrThrow: jest.fn(({ where, include }) => {
+      const refund = refunds.find((r) => r.id === where.id);
+      return Promise.resolve(include ? withPayment(refund) : refund);
+    }),
+    update: jest.fn(({ where, data }) => Promise.resolve(Object.assign(refunds.find((r) => r.id === where.id), data))),
+    updateMany: jest.fn(({ where, data }) => {
+      const refund = refunds.find((r) => r.id === where.id && r.status !== where.status.not);
+      if (refund) Object.assign(refund, data);
+      return Promise.resolve({
+        count: refund ? 1 : 0
+      });
+    }),
+    aggregate: jest.fn(({ where }) => Promise.resolve({
+      _sum: {
+        amount: refunds.filter((r) => r.status === where.status).reduce((sum, r) => sum + r.amount, 0)
+      }
+    }))
+  },
+  outboxEvent: {
+    create: jest.fn(({ data }) => Promise.resolve({
+      id: 'event-1',
+      ...data
+    }))
+  },
+  $transaction: jest.fn((run: (tx: unknown) => Promise<unknown>) => run(mockPrisma))
+};
+const service = new RefundService(mockPrisma as PrismaClient, {} as RazorpayService);
+const fullRefund = () => service.refundSubscriptionPayment('payment-1', 'admin-1', {
+  mode: 'FULL',
+  reason: 'Charged twice'
+}, now);
+describe('RefundService subscription refunds', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // markProcessed stamps processedAt with the wall clock
+    jest.useFakeTimers({
+      now
+    });
+    refunds = [];
+    payment = {
+      id: 'payment-1',
+      tenantId: 'tenant-1',
+      purpose: PaymentPurpose.SUBSCRIPTION,
+      plan: 'GOLD',
+      city: 'pune',
+      amount: 30000,
+      status: PaymentStatus.VERIFIED,
+      bookingId: null,
+      bundleCode: null,
+      metadata: null,
+      durationDays: 30,
+      verifiedAt: daysFromNow(-10),
+      createdAt: daysFromNow(-10),
+      periodStart: daysFromNow(-10),
+      periodEnd: daysFromNow(20)
+    };
+    subscription = {
+      id: 'sub-1',
+      plan: 'GOLD',
+      expiresAt: daysFromNow(20)
+    };
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  it('leaves the subscription alone until the gateway confirms the refund', async () => {
+    const { refund } = await fullRefund();
+    expect(refund).toMatchObject({
+      status: RefundStatus.PENDING,
+      amount: 30000
+    });
+    expect(subscription).toEqual({
+      id: 'sub-1',
+      plan: 'GOLD',
+      expiresAt: daysFromNow(20)
+    });
+    expect(mockPrisma.tenantSubscription.update).not.toHaveBeenCalled();
+  });
+  it('downgrades once the refund is processed, and only once', async () => {
+    const { refund } = await fullRefund();
+    await service.markProcessed(refund.id, 'rfnd_1');
+    await service.markProcessed(refund.id, 'rfnd_1');
+    expect(subscription.plan).toBe('FREE');
+    expect(mockPrisma.tenantSubscription.update).toHaveBeenCalledTimes(1);
+    expect(payment.status).toBe(PaymentStatus.REFUNDED);
+    expect(refunds[0].metadata).toMatchObject({
+      mode: 'FULL',
+      planBefore: 'GOLD',
+      planAfter: 'FREE'
+    });
+  });
+  it('keeps the subscription when the refund fails, and shortens it once when the retry succeeds', async () => {
+    const first = await fullRefund();
+    await service.markFailed(first.refund.id, 'Bank rejected the refund');
+    expect(subscription).toMatchObject({
+      plan: 'GOLD',
+      expiresAt: daysFromNow(20)
+    });
+
+    // The failed refund doesn't count as refunded, so the admin can retry in full
+    const retry = await service.refundSubscriptionPayment('payment-1', 'admin-1', {
+      mode: 'PARTIAL',
+      amount: 10000,
+      reason: 'Goodwill credit'
+    }, now);
+    expect(retry.refund.amount).toBe(10000);
+    await service.markProcessed(retry.refund.id, 'rfnd_2');
+
+    // A third of the payment gives back a third of the 30 days — once
+    expect(subscription).toMatchObject({
+      plan: 'GOLD',
+      expiresAt: daysFromNow(10)
+    });
+    expect(mockPrisma.tenantSubscription.update).toHaveBeenCalledTimes(1);
+    expect(payment.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+  });
+});
+describe('queueBookingRefunds', () => {
+  // Fake tx holding one booking's token and deposit payments with their refunds
+  let payments: any[];
+  const tx = {
+    payment: {
+      findMany: jest.fn(({ where, include }) => Promise.resolve(payments.filter((p) => where.status.in.includes(p.status)).map((p) => ({
+        ...p,
+        refunds: p.refunds.filter((r: any) => r.status !== include.refunds.where.status.not)
+      }))))
+    },
+    booking: {
+      findUniqueOrThrow: jest.fn(() => Promise.resolve({
+        moveInDate: new Date('2026-07-01T00:00:00Z')
+      }))
+    },
+    refund: {
+      create: jest.fn(({ data }) => Promise.resolve({
+        id: 'refund-new',
+        createdAt: new Date(),
+        ...data
+      }))
+    },
+    outboxEvent: {
+      create: jest.fn(({ data }) => Promise.resolve(data))
+    }
+  };
+  const reject = () => queueBookingRefunds(tx, {
+    bookingId: 'booking-1',
+    toStatus: BookingStatus.REJECTED,
+    actor: {
+      id: 'owner-1',
+      role: 'OWNER'
+    },
+    now: new Date('2026-06-10T12:00:00Z')
+  });
+  const bookingPayment = (id: string, refunds: any[], status: PaymentStatus = PaymentStatus.VERIFIED) => ({
+    id,
+    tenantId: 'tenant-1',
+    bookingId: 'booking-1',
+    purpose: PaymentPurpose.BOOKING_TOKEN,
+    amount: 500000,
+    status,
+    verifiedAt: new Date('2026-06-09T12:00:00Z'),
+    refunds
+  });
+  const refundOf = (amount: number, status: RefundStatus) => ({
+    id: `refund-${status}`,
+    amount,
+    status
+  });
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+  it('does not refund a duplicate payment again while its refund is pending or processing', async () => {
+    payments = [bookingPayment('original', []), bookingPayment('duplicate', [refundOf(500000, RefundStatus.PENDING)]), bookingPayment('retrying', [refundOf(500000, RefundStatus.PROCESSING)])];
+    await expect(reject()).resolves.toBe(1);
+    expect(tx.refund.create).toHaveBeenCalledTimes(1);
+    expect(tx.refund.create.mock.calls[0][0].data).toMatchObject({
+      paymentId: 'original',
+      amount: 500000
+    });
+  });
+  it('refunds only the balance left after earlier refunds, ignoring failed ones', async () => {
+    payments = [bookingPayment('partly', [refundOf(200000, RefundStatus.PROCESSED)], PaymentStatus.PARTIALLY_REFUNDED), bookingPayment('failed', [refundOf(500000, RefundStatus.FAILED)])];
+    await expect(reject()).resolves.toBe(2);
+    expect(tx.refund.create.mock.calls.map(([{ data }]) => [data.paymentId, data.amount])).toEqual([['partly', 300000], ['failed', 500000]]);
+  });
+});
@@ -0,0 +1,165 @@
+import { BookingStatus, PrismaClient } from '@prisma/client';
+import { ReviewService } from '../../src/services/ReviewService';
+import { ForbiddenError } from '../../src/errors/AppErrors';
+
+interface FakeReview {
+  id: string;
+  roomId: string;
+  tenantId: string;
+  rating: number;
+  comment: string;
+  isHidden: boolean;
+}
+
+// In-memory stand-in for the tables ReviewService touches; aggregate()
+// honours the same where clause the database would
+let reviews: FakeReview[] = [];
+let bookings: {
+  tenantId: string;
+  roomId: string;
+  status: BookingStatus;
+}[] = [];
+const room = {
+  id: 'room-1',
+  rating: 0,
+  reviewsCount: 0
+};
+const withTenant = (review: FakeReview) => ({
+  ...review,
+  ownerReply: null,
+  ownerRepliedAt: null,
+  createdAt: new Date('2026-10-01T00:00:00Z'),
+  tenant: {
+    name: `Tenant ${review.tenantId}`
+  }
+});
+const mockPrisma: any = {
+  room: {
+    findUnique: jest.fn(({ where }) => Promise.resolve(where.id === room.id ? {
+      id: room.id
+    } : null)),
+    update: jest.fn(({ data }) => Promise.resolve(Object.assign(room, data)))
+  },
+  booking: {
+    findFirst: jest.fn(({ where }) => Promise.resolve(bookings.find((b) => b.tenantId === where.tenantId && b.roomId === where.roomId && where.status.in.includes(b.status)) ?? null))
+  },
+  review: {
+    create: jest.fn(({ data }) => {
+      const review = {
+        id: `review-${reviews.length + 1}`,
+        isHidden: false,
+        ...data
+      };
+      reviews.push(review);
+      return Promise.resolve(withTenant(review));
+    }),
+    findUnique: jest.fn(({ where }) => Promise.resolve(reviews.find((r) => r.id === where.id) ?? null)),
+    update: jest.fn(({ where, data }) => {
+      const review = reviews.find((r) => r.id === where.id)!;
+      review.isHidden = data.isHidden;
+      return Promise.resolve(withTenant(review));
+    }),
+    aggregate: jest.fn(({ where }) => {
+      const visible = reviews.filter((r) => r.roomId === where.roomId && r.isHidden === where.isHidden);
+      return Promise.resolve({
+        _avg: {
+          rating: visible.length ? visible.reduce((sum, r) => sum + r.rating, 0) / visible.length : null
+        },
+        _count: {
+          _all: visible.length
+        }
+      });
+    })
+  },
+  $queryRaw: jest.fn().mockResolvedValue([]),
+  $transaction: jest.fn((run: (tx: unknown) => Promise<unknown>) => run(mockPrisma))
+};
+const service = new ReviewService(mockPrisma as PrismaClient);
+const review = (tenantId: string, rating: number) => service.createReview(tenantId, room.id, {
+  rating,
+  comment: 'Clean rooms and a helpful owner'
+});
+describe('ReviewService', () => {
+  beforeEach(() => {
+    reviews = [];
+    bookings = [];
+    room.rating = 0;
+    room.reviewsCount = 0;
+    jest.clearAllMocks();
+  });
+  describe('rating aggregate', () => {
+    beforeEach(async () => {
+      bookings = ['t1', 't2', 't3'].map((tenantId) => ({
+        tenantId,
+        roomId: room.id,
+        status: BookingStatus.COMPLETED
+      }));
+      await review('t1', 5);
+      await review('t2', 4);
+      await review('t3', 4);
+    });
+    it('averages visible reviews to one decimal', () => {
+      expect(room).toMatchObject({
+        rating: 4.3,
+        reviewsCount: 3
+      });
+      // The room row is locked before every recompute
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(3);
+    });
+    it('drops hidden reviews from the average and count, and restores them on unhide', async () => {
+      await service.setHidden('admin-1', 'review-1', true, 'Abusive language');
+      expect(room).toMatchObject({
+        rating: 4,
+        reviewsCount: 2
+      });
+      await service.setHidden('admin-1', 'review-1', false);
+      expect(room).toMatchObject({
+        rating: 4.3,
+        reviewsCount: 3
+      });
+    });
+    it('resets to zero when every review is hidden', async () => {
+      for (const id of ['review-1', 'review-2', 'review-3']) {
+        await service.setHidden('admin-1', id, true, 'Spam');
+      }
+      expect(room).toMatchObject({
+        rating: 0,
+        reviewsCount: 0
+      });
+    });
+  });
+  describe('eligibility', () => {
+    const eligible: BookingStatus[] = [BookingStatus.APPROVED, BookingStatus.CONFIRMED, BookingStatus.MOVED_IN, BookingStatus.COMPLETED];
+    it.each(eligible)('lets a tenant whose booking is %s review the room', async (status) => {
+      bookings = [{
+        tenantId: 't1',
+        roomId: room.id,
+        status
+      }];
+      await expect(review('t1', 5)).resolves.toMatchObject({
+        rating: 5
+      });
+    });
+    it.each(Object.values(BookingStatus).filter((status) => !eligible.includes(status)))('refuses a tenant whose only booking is %s', async (status) => {
+      bookings = [{
+        tenantId: 't1',
+        roomId: room.id,
+        status
+      }];
+      await expect(review('t1', 5)).rejects.toBeInstanceOf(ForbiddenError);
+      expect(mockPrisma.review.create).not.toHaveBeenCalled();
+    });
+    it('ignores eligible bookings by another tenant or for another room', async () => {
+      bookings = [{
+        tenantId: 't2',
+        roomId: room.id,
+        status: BookingStatus.COMPLETED
+      }, {
+        tenantId: 't1',
+        roomId: 'room-2',
+        status: BookingStatus.COMPLETED
+      }];
+      await expect(review('t1', 5)).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+});
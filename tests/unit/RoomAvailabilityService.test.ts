@@ -0,0 +1,113 @@
+import { BookingStatus, Prisma } from '@prisma/client';
+import { assertBedAvailable, occupancyOn, peakOccupancy, OccupancyInterval, CapacityRoom } from '../../src/services/RoomAvailabilityService';
+import { BusinessLogicError } from '../../src/errors/AppErrors';
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+// The numeric example from the module doc (PG, totalBeds = 3)
+const a = {
+  moveInDate: day('2026-03-01'),
+  moveOutDate: null
+};
+const b = {
+  moveInDate: day('2026-03-01'),
+  moveOutDate: day('2026-04-01')
+};
+const c = {
+  moveInDate: day('2026-03-10'),
+  moveOutDate: null
+};
+const intervals: OccupancyInterval[] = [a, b, c];
+describe('room availability', () => {
+  describe('occupancyOn', () => {
+    it('counts a booking from its move-in day, inclusive', () => {
+      expect(occupancyOn(intervals, day('2026-02-28'))).toBe(0);
+      expect(occupancyOn(intervals, day('2026-03-01'))).toBe(2);
+      expect(occupancyOn(intervals, day('2026-03-10'))).toBe(3);
+    });
+    it('does not count the move-out day itself', () => {
+      expect(occupancyOn(intervals, day('2026-03-31'))).toBe(3);
+      expect(occupancyOn(intervals, day('2026-04-01'))).toBe(2);
+    });
+    it('keeps open-ended bookings forever', () => {
+      expect(occupancyOn(intervals, day('2030-01-01'))).toBe(2);
+    });
+  });
+  describe('peakOccupancy', () => {
+    it('finds the busiest day in the window, including move-ins after its start', () => {
+      expect(peakOccupancy(intervals, day('2026-03-05'), day('2026-03-12'))).toBe(3);
+      expect(peakOccupancy(intervals, day('2026-03-05'), day('2026-03-09'))).toBe(2);
+    });
+    it('excludes a move-in on the window\'s end date', () => {
+      expect(peakOccupancy(intervals, day('2026-03-05'), day('2026-03-10'))).toBe(2);
+    });
+    it('looks to the end of time when the window is open-ended', () => {
+      expect(peakOccupancy(intervals, day('2026-04-02'), null)).toBe(2);
+      expect(peakOccupancy(intervals, day('2026-03-05'), null)).toBe(3);
+    });
+    it('is zero for an empty room', () => {
+      expect(peakOccupancy([], day('2026-03-05'), null)).toBe(0);
+    });
+  });
+  describe('assertBedAvailable', () => {
+    // Fake tx that applies loadOccupancy()'s where clause to an in-memory booking list
+    let bookings: (OccupancyInterval & {
+      id: string;
+      status: BookingStatus;
+    })[] = [];
+    const tx = {
+      booking: {
+        findMany: jest.fn(({ where }) => Promise.resolve(bookings.filter((row) => where.status.in.includes(row.status) && (!where.id || row.id !== where.id.not) && (!where.moveInDate || row.moveInDate < where.moveInDate.lt) && (row.moveOutDate === null || row.moveOutDate > where.OR[1].moveOutDate.gt))))
+      }
+    } as unknown as Prisma.TransactionClient;
+    const pg: CapacityRoom = {
+      id: 'room-1',
+      roomType: 'PG',
+      totalBeds: 3,
+      availableFrom: null
+    };
+    beforeEach(() => {
+      jest.clearAllMocks();
+      bookings = [{
+        id: 'a',
+        status: BookingStatus.MOVED_IN,
+        ...a
+      }, {
+        id: 'b',
+        status: BookingStatus.CONFIRMED,
+        ...b
+      }, {
+        id: 'c',
+        status: BookingStatus.APPROVED,
+        ...c
+      }];
+    });
+    it('rejects a stay that overlaps the full days', async () => {
+      await expect(assertBedAvailable(tx, pg, day('2026-03-05'), day('2026-03-12'))).rejects.toThrow('No beds are free for the requested dates');
+    });
+    it('accepts a stay that ends on the day the room fills up', async () => {
+      await expect(assertBedAvailable(tx, pg, day('2026-03-05'), day('2026-03-10'))).resolves.toBeUndefined();
+    });
+    it('accepts a stay that starts on another tenant\'s move-out day', async () => {
+      await expect(assertBedAvailable(tx, pg, day('2026-04-01'), null)).resolves.toBeUndefined();
+      await expect(assertBedAvailable(tx, pg, day('2026-03-31'), null)).rejects.toBeInstanceOf(BusinessLogicError);
+    });
+    it('ignores pending bookings and the booking being re-checked', async () => {
+      bookings[2].status = BookingStatus.PENDING;
+      await expect(assertBedAvailable(tx, pg, day('2026-03-05'), null)).resolves.toBeUndefined();
+      bookings[2].status = BookingStatus.APPROVED;
+      await expect(assertBedAvailable(tx, pg, day('2026-03-05'), null, 'c')).resolves.toBeUndefined();
+    });
+    it('only checks availableFrom for rooms that don\'t track capacity', async () => {
+      const single: CapacityRoom = {
+        ...pg,
+        roomType: 'Single',
+        totalBeds: 1,
+        availableFrom: new Date('2026-03-15T10:30:00Z')
+      };
+      await expect(assertBedAvailable(tx, single, day('2026-03-14'), null)).rejects.toThrow('Room is available from 2026-03-15');
+      await expect(assertBedAvailable(tx, single, day('2026-03-15'), null)).resolves.toBeUndefined();
+      expect(tx.booking.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
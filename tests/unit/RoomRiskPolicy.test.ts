@@ -0,0 +1,68 @@
+import { hammingDistance, hasSimilarImage, priceAnomalyWeight, splitByOwner, riskScoreOf, RoomRiskReason } from '../../src/services/RoomRiskPolicy';
+
+const reason = (weight: number): RoomRiskReason => ({
+  code: 'DUPLICATE_LISTING',
+  weight,
+  message: 'test'
+});
+const signal = {
+  code: 'REUSED_IMAGE_URL' as const,
+  foreignWeight: 50,
+  ownWeight: 25,
+  foreignMessage: 'foreign',
+  ownMessage: 'own'
+};
+
+describe('room risk policy', () => {
+  it('counts differing bits between hex hashes', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hammingDistance('A0', 'a1')).toBe(1);
+  });
+  it('never matches hashes of different length or non-hex input', () => {
+    expect(hammingDistance('00', '000')).toBe(Infinity);
+    expect(hammingDistance('zz', '00')).toBe(Infinity);
+    expect(hammingDistance('', '')).toBe(Infinity);
+  });
+  it('treats up to 6 differing bits as the same photo', () => {
+    // 0x3f = 6 bits set, 0x7f = 7
+    expect(hasSimilarImage(['000000000000003f'], ['1111111111111111', '0000000000000000'])).toBe(true);
+    expect(hasSimilarImage(['000000000000007f'], ['0000000000000000'])).toBe(false);
+    expect(hasSimilarImage([], ['0000000000000000'])).toBe(false);
+  });
+  it('flags prices below 60% and 40% of the median', () => {
+    expect(priceAnomalyWeight(0.39)).toBe(35);
+    expect(priceAnomalyWeight(0.4)).toBe(15);
+    expect(priceAnomalyWeight(0.59)).toBe(15);
+    expect(priceAnomalyWeight(0.6)).toBeNull();
+    expect(priceAnomalyWeight(1.5)).toBeNull();
+  });
+  it('weighs a match on another owner\'s listing above the owner\'s own', () => {
+    expect(splitByOwner('me', [{
+      id: 'a',
+      ownerId: 'me'
+    }, {
+      id: 'b',
+      ownerId: 'other'
+    }], signal)).toEqual([{
+      code: 'REUSED_IMAGE_URL',
+      weight: 50,
+      message: 'foreign',
+      relatedRoomIds: ['b']
+    }]);
+    expect(splitByOwner('me', [{
+      id: 'a',
+      ownerId: 'me'
+    }], signal)).toEqual([expect.objectContaining({
+      weight: 25,
+      relatedRoomIds: ['a']
+    })]);
+    expect(splitByOwner('me', [], signal)).toEqual([]);
+  });
+  it('adds weights up to a cap of 100', () => {
+    expect(riskScoreOf([])).toBe(0);
+    expect(riskScoreOf([reason(40), reason(35)])).toBe(75);
+    expect(riskScoreOf([reason(50), reason(45), reason(40)])).toBe(100);
+  });
+});
@@ -0,0 +1,89 @@
+import { matchesSavedSearch } from '../../src/services/SavedSearchMatchPolicy';
+import { SavedSearchFilters } from '../../src/models/SavedSearch';
+
+// A PG in Koregaon Park, Pune
+const room = {
+  title: 'Sunny PG near Koregaon Park',
+  description: 'Meals included, walking distance to the metro',
+  city: 'Pune',
+  location: 'Koregaon Park',
+  landmark: 'Osho Garden',
+  pricePerMonth: 9000,
+  roomType: 'PG',
+  idealFor: ['Students', 'Working Professionals'],
+  amenities: ['WiFi', 'AC', 'Laundry'],
+  latitude: 18.5362,
+  longitude: 73.8939
+};
+const filters = (overrides: Partial<SavedSearchFilters> = {}): SavedSearchFilters => ({
+  amenitiesMatch: 'all',
+  ...overrides
+});
+describe('saved search match policy', () => {
+  it('matches everything with no filters', () => {
+    expect(matchesSavedSearch(room, filters())).toBe(true);
+  });
+  it('treats the price bounds as inclusive', () => {
+    expect(matchesSavedSearch(room, filters({
+      minPrice: 9000,
+      maxPrice: 9000
+    }))).toBe(true);
+    expect(matchesSavedSearch(room, filters({
+      minPrice: 9000.01
+    }))).toBe(false);
+    expect(matchesSavedSearch(room, filters({
+      maxPrice: 8999
+    }))).toBe(false);
+  });
+  it('needs every amenity by default and one with amenitiesMatch=any, ignoring case', () => {
+    expect(matchesSavedSearch(room, filters({
+      amenities: ['wifi', 'ac']
+    }))).toBe(true);
+    expect(matchesSavedSearch(room, filters({
+      amenities: ['wifi', 'gym']
+    }))).toBe(false);
+    expect(matchesSavedSearch(room, filters({
+      amenities: ['wifi', 'gym'],
+      amenitiesMatch: 'any'
+    }))).toBe(true);
+    expect(matchesSavedSearch(room, filters({
+      amenities: ['gym', 'pool'],
+      amenitiesMatch: 'any'
+    }))).toBe(false);
+  });
+  it('keeps rooms inside the radius and drops those outside or without coordinates', () => {
+    // Pune station, about 2 km away
+    const near = {
+      lat: 18.5289,
+      lng: 73.8744
+    };
+    expect(matchesSavedSearch(room, filters({
+      near,
+      radiusKm: 5
+    }))).toBe(true);
+    expect(matchesSavedSearch(room, filters({
+      near,
+      radiusKm: 1
+    }))).toBe(false);
+    // Without radiusKm the listing default applies
+    expect(matchesSavedSearch(room, filters({
+      near
+    }))).toBe(true);
+    expect(matchesSavedSearch({
+      ...room,
+      latitude: null,
+      longitude: null
+    }, filters({
+      near,
+      radiusKm: 50
+    }))).toBe(false);
+  });
+  it('matches idealFor against any of the room\'s audiences', () => {
+    expect(matchesSavedSearch(room, filters({
+      idealFor: 'Students'
+    }))).toBe(true);
+    expect(matchesSavedSearch(room, filters({
+      idealFor: 'Family'
+    }))).toBe(false);
+  });
+});
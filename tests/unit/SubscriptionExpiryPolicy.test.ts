@@ -0,0 +1,49 @@
+import { subscriptionPhase, effectiveSubscriptionPlan, renewedExpiresAt, paidPeriod, renewalPlanFor } from '../../src/services/SubscriptionExpiryPolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T10:00:00Z');
+const ctx = {
+  reminderDays: 3,
+  graceDays: 2
+};
+const gold = (daysLeft: number) => ({
+  plan: 'GOLD',
+  expiresAt: new Date(now.getTime() + daysLeft * DAY_MS)
+});
+
+describe('subscription expiry policy', () => {
+  it('moves a paid plan through reminder, grace and lapse', () => {
+    expect(subscriptionPhase(gold(10), now, ctx)).toBe('ACTIVE');
+    expect(subscriptionPhase(gold(3), now, ctx)).toBe('RENEWAL_DUE');
+    expect(subscriptionPhase(gold(-1), now, ctx)).toBe('GRACE');
+    expect(subscriptionPhase(gold(-2), now, ctx)).toBe('LAPSED');
+    expect(subscriptionPhase({
+      plan: 'FREE',
+      expiresAt: null
+    }, now, ctx)).toBe('FREE');
+  });
+  it('keeps the paid plan for contact unlocks during the grace period', () => {
+    expect(effectiveSubscriptionPlan(gold(-1), now, 2)).toBe('GOLD');
+    expect(effectiveSubscriptionPlan(gold(-1), now, 0)).toBe('FREE');
+    expect(effectiveSubscriptionPlan(null, now, 2)).toBe('FREE');
+  });
+  it('extends an early renewal of the same plan from the current expiry', () => {
+    expect(renewedExpiresAt(gold(5), 'GOLD', now, 30)).toEqual(new Date(now.getTime() + 35 * DAY_MS));
+    expect(renewedExpiresAt(gold(5), 'PLATINUM', now, 30)).toEqual(new Date(now.getTime() + 30 * DAY_MS));
+    expect(renewedExpiresAt(gold(-1), 'GOLD', now, 30)).toEqual(new Date(now.getTime() + 30 * DAY_MS));
+    expect(paidPeriod(gold(5), 'GOLD', now, 30)).toEqual({
+      start: new Date(now.getTime() + 5 * DAY_MS),
+      end: new Date(now.getTime() + 35 * DAY_MS)
+    });
+    expect(renewalPlanFor({
+      plan: 'FREE',
+      expiresAt: null,
+      previousPlan: 'PLATINUM'
+    })).toBe('PLATINUM');
+    expect(renewalPlanFor({
+      plan: 'FREE',
+      expiresAt: null,
+      previousPlan: null
+    })).toBeNull();
+  });
+});
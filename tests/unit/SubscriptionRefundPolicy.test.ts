@@ -0,0 +1,84 @@
+import { subscriptionRefundAmount, subscriptionAfterRefund } from '../../src/services/SubscriptionRefundPolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T10:00:00Z');
+const payment = {
+  amount: 30000,
+  verifiedAt: new Date(now.getTime() - 10 * DAY_MS)
+};
+const base = {
+  alreadyRefunded: 0,
+  durationDays: 30,
+  now
+};
+
+describe('subscription refund policy', () => {
+  it('refunds the unrefunded balance, the unused period, or the requested amount', () => {
+    expect(subscriptionRefundAmount(payment, {
+      ...base,
+      mode: 'FULL',
+      alreadyRefunded: 5000
+    })).toBe(25000);
+    expect(subscriptionRefundAmount(payment, {
+      ...base,
+      mode: 'PRORATED'
+    })).toBe(20000);
+    expect(subscriptionRefundAmount(payment, {
+      ...base,
+      mode: 'PRORATED',
+      alreadyRefunded: 25000
+    })).toBe(5000);
+    expect(subscriptionRefundAmount(payment, {
+      ...base,
+      mode: 'PARTIAL',
+      requestedAmount: 1234
+    })).toBe(1234);
+  });
+  it('pro-rates an early renewal over its own period, which has not started', () => {
+    expect(subscriptionRefundAmount({
+      ...payment,
+      periodStart: new Date(now.getTime() + 5 * DAY_MS)
+    }, {
+      ...base,
+      mode: 'PRORATED'
+    })).toBe(30000);
+    expect(subscriptionRefundAmount({
+      ...payment,
+      periodStart: new Date(now.getTime() - 15 * DAY_MS)
+    }, {
+      ...base,
+      mode: 'PRORATED'
+    })).toBe(15000);
+  });
+  it('downgrades to FREE when the refund covers the rest of the period', () => {
+    const subscription = {
+      plan: 'GOLD',
+      expiresAt: new Date(payment.verifiedAt.getTime() + 30 * DAY_MS)
+    };
+    const after = subscriptionAfterRefund(subscription, {
+      refundAmount: 20000,
+      paymentAmount: 30000,
+      durationDays: 30,
+      now
+    });
+    expect(after).toEqual({
+      plan: 'FREE',
+      expiresAt: now,
+      downgraded: true
+    });
+  });
+  it('only shortens a renewed or partially refunded subscription', () => {
+    const renewedUntil = new Date(now.getTime() + 50 * DAY_MS);
+    const after = subscriptionAfterRefund({
+      plan: 'GOLD',
+      expiresAt: renewedUntil
+    }, {
+      refundAmount: 30000,
+      paymentAmount: 30000,
+      durationDays: 30,
+      now
+    });
+    expect(after.downgraded).toBe(false);
+    expect(after.expiresAt).toEqual(new Date(renewedUntil.getTime() - 30 * DAY_MS));
+  });
+});
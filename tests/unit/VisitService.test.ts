@@ -0,0 +1,186 @@
+import { Prisma, PrismaClient, Role, VisitStatus } from '@prisma/client';
+import { VisitService } from '../../src/services/VisitService';
+import { runVisitReminderSweep } from '../../src/services/VisitReminderWorker';
+import { getPrismaClient } from '../../src/utils/prisma';
+import { BusinessLogicError } from '../../src/errors/AppErrors';
+
+// VisitReminderWorker reads the client at import time, so the fake lives in
+// the factory; in-memory visits are in fake.visits
+jest.mock('../../src/utils/prisma', () => {
+  const fake: any = {
+    visits: [],
+    room: {
+      findUnique: jest.fn(() => Promise.resolve({
+        id: 'room-1',
+        title: 'Sunny PG',
+        ownerId: 'owner-1',
+        reviewStatus: 'APPROVED',
+        isActive: true
+      }))
+    },
+    visit: {
+      findUnique: jest.fn(({ where }) => Promise.resolve(fake.visits.find((v: any) => v.id === where.id) ?? null)),
+      findUniqueOrThrow: jest.fn(({ where }) => Promise.resolve({
+        ...fake.visits.find((v: any) => v.id === where.id)
+      })),
+      // The open-visit check in propose() and the overlap check in schedule()
+      findFirst: jest.fn(({ where }) => Promise.resolve(fake.visits.find((v: any) => where.tenantId ? v.tenantId === where.tenantId && v.roomId === where.roomId && where.status.in.includes(v.status) : v.id !== where.id.not && v.status === where.status && v.scheduledAt < where.scheduledAt.lt && v.scheduledEnd > where.scheduledEnd.gt && where.OR.some((o: any) => o.roomId ? v.roomId === o.roomId : v.hostAgentId === o.hostAgentId)) ?? null)),
+      // Reminder sweep: confirmed, not reminded, starting inside the horizon
+      findMany: jest.fn(({ where }) => Promise.resolve(fake.visits.filter((v: any) => v.status === where.status && v.reminderSentAt === where.reminderSentAt && v.scheduledAt > where.scheduledAt.gt && v.scheduledAt <= where.scheduledAt.lte))),
+      updateMany: jest.fn(({ where, data }) => {
+        const visit = fake.visits.find((v: any) => v.id === where.id && v.status === where.status && (!where.updatedAt || v.updatedAt.getTime() === where.updatedAt.getTime()) && (!('reminderSentAt' in where) || v.reminderSentAt === where.reminderSentAt) && (!where.scheduledAt || v.scheduledAt?.getTime() === where.scheduledAt.getTime()));
+        if (visit) Object.assign(visit, data, {
+          updatedAt: new Date()
+        });
+        return Promise.resolve({
+          count: visit ? 1 : 0
+        });
+      }),
+      create: jest.fn()
+    },
+    agentPropertyAssignment: {
+      findFirst: jest.fn(({ where }) => Promise.resolve(where.agentId.startsWith('agent') ? {
+        id: 'assignment-1'
+      } : null))
+    },
+    outboxEvent: {
+      create: jest.fn(({ data }) => Promise.resolve(data))
+    },
+    $transaction: jest.fn((run: (tx: unknown) => Promise<unknown>) => run(fake))
+  };
+  return {
+    getPrismaClient: () => fake
+  };
+});
+const prisma = getPrismaClient() as any;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Midnight UTC two days out, so every slot is in the future
+const base = Math.ceil(Date.now() / DAY_MS) * DAY_MS + DAY_MS;
+const at = (hours: number) => new Date(base + hours * HOUR_MS);
+const visitRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  roomId: 'room-1',
+  tenantId: `tenant-${id}`,
+  bookingId: null,
+  status: VisitStatus.PROPOSED,
+  proposedSlots: [at(10), at(14)],
+  durationMinutes: 60,
+  scheduledAt: null,
+  scheduledEnd: null,
+  hostAgentId: null,
+  reminderSentAt: null,
+  note: null,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  room: {
+    id: 'room-1',
+    title: 'Sunny PG',
+    ownerId: 'owner-1'
+  },
+  tenant: {
+    name: 'Asha'
+  },
+  ...overrides
+});
+const confirmedAt = (id: string, start: Date, overrides: Record<string, unknown> = {}) => visitRow(id, {
+  status: VisitStatus.CONFIRMED,
+  scheduledAt: start,
+  scheduledEnd: new Date(start.getTime() + HOUR_MS),
+  ...overrides
+});
+const serializationFailure = () => new Prisma.PrismaClientKnownRequestError('could not serialize access', {
+  code: 'P2034',
+  clientVersion: '5.22.0'
+});
+const service = new VisitService(prisma as PrismaClient);
+describe('VisitService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.visits = [visitRow('visit-1')];
+  });
+  describe('scheduling conflicts', () => {
+    it('rejects a slot that overlaps a confirmed visit for the same room', async () => {
+      prisma.visits.push(confirmedAt('other', at(9.5)));
+      await expect(service.confirm('owner-1', Role.OWNER, 'visit-1', at(10).toISOString())).rejects.toThrow('Another visit is already scheduled for this room at that time');
+      expect(prisma.outboxEvent.create).not.toHaveBeenCalled();
+    });
+    it('rejects a slot when the confirming agent hosts another visit then', async () => {
+      prisma.visits.push(confirmedAt('elsewhere', at(10.5), {
+        roomId: 'room-2',
+        hostAgentId: 'agent-1'
+      }));
+      await expect(service.confirm('agent-1', Role.AGENT, 'visit-1', at(10).toISOString())).rejects.toThrow('The hosting agent already has a visit at that time');
+      // The owner doesn't take over the agent's calendar
+      await expect(service.confirm('owner-1', Role.OWNER, 'visit-1', at(10).toISOString())).resolves.toMatchObject({
+        status: 'confirmed',
+        hostAgentId: null
+      });
+    });
+    it('allows back-to-back visits', async () => {
+      prisma.visits.push(confirmedAt('before', at(9)), confirmedAt('after', at(11)));
+      await expect(service.confirm('owner-1', Role.OWNER, 'visit-1', at(10).toISOString())).resolves.toMatchObject({
+        status: 'confirmed',
+        scheduledAt: at(10).toISOString()
+      });
+    });
+    it('retries a serialization failure and re-runs the conflict check', async () => {
+      prisma.$transaction.mockImplementationOnce(() => {
+        // The concurrent confirm that won the race
+        prisma.visits.push(confirmedAt('winner', at(10)));
+        return Promise.reject(serializationFailure());
+      });
+      await expect(service.confirm('owner-1', Role.OWNER, 'visit-1', at(10).toISOString())).rejects.toThrow('Another visit is already scheduled for this room at that time');
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+    });
+    it('gives up with a busy error after the retries', async () => {
+      prisma.$transaction.mockRejectedValueOnce(serializationFailure()).mockRejectedValueOnce(serializationFailure()).mockRejectedValueOnce(serializationFailure());
+      await expect(service.confirm('owner-1', Role.OWNER, 'visit-1', at(10).toISOString())).rejects.toThrow(new BusinessLogicError('Unable to schedule the visit due to high demand. Please try again in a moment.'));
+      expect(prisma.$transaction).toHaveBeenCalledTimes(3);
+    });
+    it('checks for an open visit inside the proposal transaction', async () => {
+      await expect(service.propose('tenant-visit-1', {
+        roomId: 'room-1',
+        slots: [at(12).toISOString()],
+        durationMinutes: 60
+      })).rejects.toThrow('You already have an open visit request for this room');
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.$transaction.mock.calls[0][1]).toMatchObject({
+        isolationLevel: 'Serializable'
+      });
+    });
+  });
+  describe('reminders', () => {
+    const now = () => at(-12);
+    it('queues one reminder for a confirmed visit inside the reminder window', async () => {
+      prisma.visits = [confirmedAt('soon', at(10)), confirmedAt('later', at(36))];
+      await expect(runVisitReminderSweep(now())).resolves.toBe(1);
+      expect(prisma.outboxEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          aggregateId: 'soon',
+          eventType: 'VISIT_REMINDER_DUE'
+        })
+      });
+      expect(prisma.visits[0].reminderSentAt).toEqual(now());
+      await expect(runVisitReminderSweep(now())).resolves.toBe(0);
+    });
+    it('does not remind a visit moved after it was picked up', async () => {
+      prisma.visits = [confirmedAt('soon', at(10))];
+      prisma.visit.findMany.mockImplementationOnce(({ where }: any) => {
+        const due = prisma.visits.filter((v: any) => v.scheduledAt <= where.scheduledAt.lte);
+        prisma.visits[0] = confirmedAt('soon', at(11));
+        return Promise.resolve(due);
+      });
+      await expect(runVisitReminderSweep(now())).resolves.toBe(0);
+      expect(prisma.outboxEvent.create).not.toHaveBeenCalled();
+    });
+    it('reminds a rescheduled visit again', async () => {
+      prisma.visits = [confirmedAt('visit-1', at(10), {
+        reminderSentAt: now()
+      })];
+      await service.reschedule('owner-1', Role.OWNER, 'visit-1', at(8).toISOString(), 'Owner running late');
+      expect(prisma.visits[0].reminderSentAt).toBeNull();
+      await expect(runVisitReminderSweep(now())).resolves.toBe(1);
+    });
+  });
+});
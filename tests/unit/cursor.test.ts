@@ -0,0 +1,52 @@
+import { encodeCursor, decodeCursor, toCursorPage } from '../../src/utils/cursor';
+import { ValidationError } from '../../src/errors/AppErrors';
+
+const row = (id: string, minute: number) => ({
+  id,
+  createdAt: new Date(Date.UTC(2025, 0, 1, 0, minute))
+});
+describe('cursor pagination', () => {
+  it('round-trips a signed cursor', () => {
+    const token = encodeCursor('rooms', row('abc', 5), 'next');
+    const decoded = decodeCursor('rooms', token);
+    expect(decoded.id).toBe('abc');
+    expect(decoded.direction).toBe('next');
+    expect(decoded.createdAt.toISOString()).toBe('2025-01-01T00:05:00.000Z');
+  });
+  it('rejects tampered payloads and foreign scopes', () => {
+    const token = encodeCursor('rooms', row('abc', 5), 'next');
+    const [data, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({
+      s: 'rooms',
+      c: '2030-01-01T00:00:00.000Z',
+      i: 'zzz',
+      d: 'next'
+    })).toString('base64url');
+    expect(() => decodeCursor('rooms', `${forged}.${signature}`)).toThrow(ValidationError);
+    expect(() => decodeCursor('notifications', token)).toThrow(ValidationError);
+    expect(() => decodeCursor('rooms', data)).toThrow(ValidationError);
+  });
+  it('builds first and next pages from limit + 1 rows', () => {
+    const rows = [row('c', 3), row('b', 2), row('a', 1)];
+    const first = toCursorPage('rooms', rows, 2, null);
+    expect(first.items.map((r) => r.id)).toEqual(['c', 'b']);
+    expect(first.prevCursor).toBeNull();
+    expect(decodeCursor('rooms', first.nextCursor!).id).toBe('b');
+    const next = toCursorPage('rooms', [row('a', 1)], 2, decodeCursor('rooms', first.nextCursor!));
+    expect(next.items.map((r) => r.id)).toEqual(['a']);
+    expect(next.nextCursor).toBeNull();
+    expect(decodeCursor('rooms', next.prevCursor!).direction).toBe('prev');
+  });
+  it('returns backward pages newest-first', () => {
+    // prev pages are fetched ascending
+    const ascending = [row('b', 2), row('c', 3), row('d', 4)];
+    const page = toCursorPage('rooms', ascending, 2, {
+      id: 'a',
+      createdAt: new Date(Date.UTC(2025, 0, 1, 0, 1)),
+      direction: 'prev'
+    });
+    expect(page.items.map((r) => r.id)).toEqual(['c', 'b']);
+    expect(page.prevCursor).not.toBeNull();
+    expect(decodeCursor('rooms', page.nextCursor!).id).toBe('b');
+  });
+});
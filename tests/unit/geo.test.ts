@@ -0,0 +1,89 @@
+import { parseLatLng, parseBoundingBox, boundingBoxForRadius, haversineKm, EARTH_RADIUS_KM } from '../../src/utils/geo';
+
+describe('geo utilities', () => {
+  it('parses "lat,lng" and rejects malformed or out-of-range input', () => {
+    expect(parseLatLng('19.1334,72.9133')).toEqual({
+      lat: 19.1334,
+      lng: 72.9133
+    });
+    expect(parseLatLng(' -33.86 , 151.2 ')).toEqual({
+      lat: -33.86,
+      lng: 151.2
+    });
+    expect(parseLatLng('91,0')).toBeNull();
+    expect(parseLatLng('0,180.5')).toBeNull();
+    expect(parseLatLng('19.1')).toBeNull();
+    expect(parseLatLng('19.1,')).toBeNull();
+    expect(parseLatLng('1,2,3')).toBeNull();
+    expect(parseLatLng('abc,72')).toBeNull();
+  });
+  it('parses "minLng,minLat,maxLng,maxLat" and rejects inverted or invalid boxes', () => {
+    expect(parseBoundingBox('72.8,18.9,73.0,19.3')).toEqual({
+      minLat: 18.9,
+      minLng: 72.8,
+      maxLat: 19.3,
+      maxLng: 73.0
+    });
+    // Inverted corners (and so antimeridian-crossing boxes) are refused
+    expect(parseBoundingBox('179,0,-179,1')).toBeNull();
+    expect(parseBoundingBox('72.8,19.3,73.0,18.9')).toBeNull();
+    expect(parseBoundingBox('72.8,18.9,73.0')).toBeNull();
+    expect(parseBoundingBox('72.8,-91,73.0,19.3')).toBeNull();
+    expect(parseBoundingBox('72.8,,73.0,19.3')).toBeNull();
+  });
+  it('boxes a radius with about 1/111 of a degree per km', () => {
+    const box = boundingBoxForRadius({
+      lat: 0,
+      lng: 0
+    }, 111.195);
+    expect(box.maxLat).toBeCloseTo(1, 3);
+    expect(box.minLat).toBeCloseTo(-1, 3);
+    // At the equator longitude degrees are as long as latitude ones
+    expect(box.maxLng).toBeCloseTo(1, 3);
+  });
+  it('clamps the box at the antimeridian and the poles', () => {
+    const edge = boundingBoxForRadius({
+      lat: 0,
+      lng: 179.99
+    }, 10);
+    expect(edge.maxLng).toBe(180);
+    expect(edge.minLng).toBeLessThan(179.99);
+    const pole = boundingBoxForRadius({
+      lat: 89.99,
+      lng: 10
+    }, 10);
+    expect(pole.maxLat).toBe(90);
+    // The longitude span covers everything this close to the pole
+    expect(pole.minLng).toBe(-180);
+    expect(pole.maxLng).toBe(180);
+    expect(boundingBoxForRadius({
+      lat: 90,
+      lng: 0
+    }, 1)).toMatchObject({
+      minLng: -180,
+      maxLng: 180
+    });
+  });
+  it('measures great-circle distance', () => {
+    const mumbai = {
+      lat: 19.076,
+      lng: 72.8777
+    };
+    expect(haversineKm(mumbai, mumbai)).toBe(0);
+    // One degree along a meridian
+    expect(haversineKm({
+      lat: 0,
+      lng: 0
+    }, {
+      lat: 1,
+      lng: 0
+    })).toBeCloseTo(EARTH_RADIUS_KM * Math.PI / 180, 6);
+    // Mumbai → Pune, about 120 km as the crow flies
+    const km = haversineKm(mumbai, {
+      lat: 18.5204,
+      lng: 73.8567
+    });
+    expect(km).toBeGreaterThan(115);
+    expect(km).toBeLessThan(125);
+  });
+});
@@ -0,0 +1,73 @@
+import { financialYearOf, formatInvoiceNumber, gstBreakdown, stateForCity } from '../../src/utils/gst';
+import { renderInvoicePdf } from '../../src/utils/invoicePdf';
+import { InvoiceData } from '../../src/models/Invoice';
+
+describe('gst', () => {
+  it('numbers invoices per Indian financial year (April–March, IST)', () => {
+    // 31 Mar 19:00 UTC is already 1 Apr in India
+    expect(financialYearOf(new Date('2027-03-31T18:00:00Z'))).toBe('2026-27');
+    expect(financialYearOf(new Date('2027-03-31T19:00:00Z'))).toBe('2027-28');
+    expect(formatInvoiceNumber('KR', '2026-27', 42)).toBe('KR/2026-27/000042');
+  });
+  it('splits intra-state tax into CGST + SGST and inter-state into IGST', () => {
+    expect(gstBreakdown(49900, 18, true)).toEqual({
+      supplyType: 'INTRA_STATE',
+      ratePercent: 18,
+      taxableValue: 42288,
+      cgst: 3806,
+      sgst: 3806,
+      igst: 0,
+      totalTax: 7612
+    });
+    const inter = gstBreakdown(49900, 18, false);
+    expect(inter.igst).toBe(7612);
+    expect(inter.cgst + inter.sgst).toBe(0);
+    expect(inter.taxableValue + inter.totalTax).toBe(49900);
+  });
+  it('resolves the state of our cities', () => {
+    expect(stateForCity(' Kota ')).toBe('Rajasthan');
+    expect(stateForCity('bangalore')).toBe('Karnataka');
+    expect(stateForCity('atlantis')).toBeNull();
+  });
+  it('renders the same PDF bytes for the same invoice snapshot', () => {
+    const data: InvoiceData = {
+      invoiceNumber: 'KR/2026-27/000001',
+      financialYear: '2026-27',
+      issuedAt: '2026-10-19T10:00:00.000Z',
+      paymentId: 'payment-1',
+      orderId: 'order_1',
+      razorpayPaymentId: 'pay_1',
+      paidAt: '2026-10-19T09:59:00.000Z',
+      seller: {
+        name: 'Kangaroo Rooms',
+        gstin: '08ABCDE1234F1Z5',
+        address: 'Jaipur (Test)',
+        state: 'Rajasthan',
+        stateCode: '08'
+      },
+      buyer: {
+        name: 'Test Tenant',
+        email: 'tenant@example.com',
+        gstin: null,
+        address: 'bangalore',
+        state: 'Karnataka',
+        stateCode: '29'
+      },
+      placeOfSupply: 'Karnataka (29)',
+      line: {
+        description: 'GOLD plan subscription - bangalore',
+        sacCode: '998599',
+        quantity: 1,
+        amount: 42288
+      },
+      tax: gstBreakdown(49900, 18, false),
+      total: 49900,
+      currency: 'INR'
+    };
+    const pdf = renderInvoicePdf(data);
+    expect(pdf.subarray(0, 8).toString('latin1')).toBe('%PDF-1.4');
+    expect(pdf.toString('latin1')).toContain('(IGST @ 18%) Tj');
+    expect(pdf.toString('latin1')).toContain('Jaipur \\(Test\\)');
+    expect(renderInvoicePdf(data).equals(pdf)).toBe(true);
+  });
+});
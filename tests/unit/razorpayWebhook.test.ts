@@ -0,0 +1,30 @@
+import { verifyRazorpayWebhookSignature, RAZORPAY_SIGNATURE_HEADER, RAZORPAY_EVENT_ID_HEADER } from '../../src/utils/razorpayWebhook';
+import { FakeRazorpayWebhookSigner } from '../helpers/FakeRazorpayWebhookSigner';
+
+const SECRET = 'whsec_test_secret';
+const fake = new FakeRazorpayWebhookSigner(SECRET);
+
+describe('razorpay webhook signatures', () => {
+  it('verifies a payload signed by the fake with the same secret', () => {
+    const { body, headers } = fake.paymentCaptured({
+      orderId: 'order_test_1',
+      paymentId: 'pay_test_1',
+      amount: 49900
+    }, 'evt_test_1');
+    expect(headers[RAZORPAY_EVENT_ID_HEADER]).toBe('evt_test_1');
+    expect(JSON.parse(body).event).toBe('payment.captured');
+    expect(verifyRazorpayWebhookSignature(Buffer.from(body), headers[RAZORPAY_SIGNATURE_HEADER], SECRET)).toBe(true);
+  });
+  it('rejects a tampered body, a wrong secret and a missing signature', () => {
+    const { body, headers } = fake.paymentCaptured({
+      orderId: 'order_test_1',
+      paymentId: 'pay_test_1',
+      amount: 49900
+    });
+    const signature = headers[RAZORPAY_SIGNATURE_HEADER];
+    expect(verifyRazorpayWebhookSignature(body.replace('49900', '100'), signature, SECRET)).toBe(false);
+    expect(verifyRazorpayWebhookSignature(body, signature, 'another_secret')).toBe(false);
+    expect(verifyRazorpayWebhookSignature(body, undefined, SECRET)).toBe(false);
+    expect(verifyRazorpayWebhookSignature(body, 'not-hex', SECRET)).toBe(false);
+  });
+});
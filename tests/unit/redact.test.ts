@@ -0,0 +1,20 @@
+import { redactContactInfo, REDACTED_EMAIL, REDACTED_PHONE } from '../../src/utils/redact';
+
+describe('contact redaction', () => {
+  it('hides phone numbers in common Indian formats', () => {
+    expect(redactContactInfo('Call me on +91 98765 43210').text).toBe(`Call me on ${REDACTED_PHONE}`);
+    expect(redactContactInfo('9876543210 or 98765-43210').text).toBe(`${REDACTED_PHONE} or ${REDACTED_PHONE}`);
+  });
+  it('hides email addresses', () => {
+    const result = redactContactInfo('Mail owner.name+rooms@example.co.in please');
+    expect(result.text).toBe(`Mail ${REDACTED_EMAIL} please`);
+    expect(result.redacted).toBe(true);
+  });
+  it('leaves prices and dates alone', () => {
+    const text = 'Rent 12000, deposit 24000, move in 2026-10-19';
+    expect(redactContactInfo(text)).toEqual({
+      text,
+      redacted: false
+    });
+  });
+});
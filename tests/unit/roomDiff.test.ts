@@ -0,0 +1,98 @@
+import { diffRoomFields, materialChanges, MaterialChangeRules } from '../../src/utils/roomDiff';
+
+const before = {
+  title: 'Sunny PG near Koregaon Park',
+  pricePerMonth: 10000,
+  latitude: 18.5362,
+  longitude: 73.8939,
+  amenities: ['WiFi', 'AC'],
+  images: ['a.jpg', 'b.jpg'],
+  availableFrom: new Date('2026-11-01T00:00:00Z')
+};
+const rules: MaterialChangeRules = {
+  materialFields: ['pricePerMonth', 'latitude', 'longitude', 'images'],
+  priceTolerancePercent: 10
+};
+describe('room diff', () => {
+  describe('diffRoomFields', () => {
+    it('compares arrays and dates by content', () => {
+      expect(diffRoomFields(before, {
+        amenities: ['WiFi', 'AC'],
+        images: ['a.jpg', 'b.jpg'],
+        availableFrom: new Date('2026-11-01T00:00:00Z')
+      })).toEqual([]);
+    });
+    it('reports reordered and added array entries', () => {
+      expect(diffRoomFields(before, {
+        amenities: ['WiFi', 'AC', 'Laundry'],
+        images: ['b.jpg', 'a.jpg']
+      })).toEqual([{
+        field: 'amenities',
+        before: ['WiFi', 'AC'],
+        after: ['WiFi', 'AC', 'Laundry']
+      }, {
+        field: 'images',
+        before: ['a.jpg', 'b.jpg'],
+        after: ['b.jpg', 'a.jpg']
+      }]);
+    });
+    it('reports each moved coordinate on its own and setting one from null', () => {
+      expect(diffRoomFields(before, {
+        latitude: 18.5362,
+        longitude: 73.894
+      })).toEqual([{
+        field: 'longitude',
+        before: 73.8939,
+        after: 73.894
+      }]);
+      expect(diffRoomFields({
+        latitude: null
+      }, {
+        latitude: 18.5362
+      })).toEqual([{
+        field: 'latitude',
+        before: null,
+        after: 18.5362
+      }]);
+    });
+    it('skips fields missing from the update and fields that are not versioned', () => {
+      expect(diffRoomFields(before, {
+        title: undefined,
+        isActive: false
+      })).toEqual([]);
+    });
+  });
+  describe('materialChanges', () => {
+    const priceChange = (after: number) => diffRoomFields(before, {
+      pricePerMonth: after
+    });
+    it('ignores price moves within the tolerance, in either direction', () => {
+      expect(materialChanges(priceChange(11000), rules)).toEqual([]);
+      expect(materialChanges(priceChange(9000), rules)).toEqual([]);
+    });
+    it('flags price moves beyond the tolerance', () => {
+      expect(materialChanges(priceChange(11001), rules)).toHaveLength(1);
+      expect(materialChanges(priceChange(8999), rules)).toHaveLength(1);
+    });
+    it('flags any price change when the tolerance is 0 or there was no old price', () => {
+      expect(materialChanges(priceChange(10001), {
+        ...rules,
+        priceTolerancePercent: 0
+      })).toHaveLength(1);
+      expect(materialChanges(diffRoomFields({
+        pricePerMonth: 0
+      }, {
+        pricePerMonth: 500
+      }), rules)).toHaveLength(1);
+    });
+    it('keeps only the configured fields', () => {
+      const changes = diffRoomFields(before, {
+        title: 'Bright PG near Koregaon Park',
+        amenities: ['WiFi'],
+        images: ['a.jpg'],
+        latitude: 18.6
+      });
+      expect(materialChanges(changes, rules).map((c) => c.field)).toEqual(['latitude', 'images']);
+    });
+  });
+});